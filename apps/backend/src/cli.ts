@@ -0,0 +1,96 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  OUTPUT_TYPES,
+  detectJobFormat,
+  isOutputFormat,
+  readJobFile,
+  writeOutputFile,
+} from './conversion/convert.js'
+import { isPageSize, parseExtent, type PdfOptions } from './conversion/pdf.js'
+
+const USAGE = `Usage: convert --to <format> [options] <file...>
+
+Convert .ds, .kmz, .kml and GeoJSON files like the editor's export.
+
+Options:
+  --to <format>        ds | kmz | kml | geojson | pdf
+  --out-dir <dir>      Where to write the results (default: next to each input)
+  --extent <bbox>      PDF: area to render as minLon,minLat,maxLon,maxLat
+  --page-size <size>   PDF: a0 - a5 (default a3)
+  --title <text>       PDF: title (default: the file name)
+  -h, --help           Show this help`
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`)
+  process.exit(2)
+}
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      to: { type: 'string' },
+      'out-dir': { type: 'string' },
+      extent: { type: 'string' },
+      'page-size': { type: 'string' },
+      title: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const to = values.to?.toLowerCase()
+  if (!to || !isOutputFormat(to)) return fail('--to must be one of ds, kmz, kml, geojson, pdf')
+  if (positionals.length === 0) return fail('No input files')
+
+  const pdfOptions: PdfOptions = { title: values.title }
+  if (values.extent) {
+    pdfOptions.extent = parseExtent(values.extent) ?? fail('--extent must be minLon,minLat,maxLon,maxLat')
+  }
+  if (values['page-size']) {
+    const pageSize = values['page-size'].toLowerCase()
+    if (!isPageSize(pageSize)) return fail('--page-size must be one of a0-a5')
+    pdfOptions.pageSize = pageSize
+  }
+
+  let failures = 0
+  for (const input of positionals) {
+    if (!detectJobFormat(input)) {
+      console.error(`✗ ${input}: unsupported file type`)
+      failures++
+      continue
+    }
+
+    try {
+      const job = await readJobFile(input, await readFile(input))
+      const outDir = values['out-dir'] ?? path.dirname(input)
+      const output = path.join(outDir, `${job.name}.${OUTPUT_TYPES[to].extension}`)
+      if (path.resolve(output) === path.resolve(input)) {
+        throw new Error('output would overwrite the input, use --out-dir')
+      }
+
+      await mkdir(outDir, { recursive: true })
+      await writeFile(output, await writeOutputFile(job, to, pdfOptions))
+      console.log(`✓ ${input} → ${output} (${job.features.features.length} features)`)
+    } catch (error) {
+      console.error(`✗ ${input}: ${error instanceof Error ? error.message : error}`)
+      failures++
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${positionals.length} files failed`)
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,119 @@
+/**
+ * Wire protocol for collaborative editing over WebSockets.
+ *
+ * Every shared entity (a feature or a folder) is replicated as a record.
+ * Records are ordered by a Lamport clock, with the client id as tie-breaker,
+ * and the highest version of each entity wins. Edits to different entities
+ * therefore never clobber each other, and deleted entities are kept as
+ * tombstones (`data: null`) so a client coming back online can't resurrect
+ * them by accident.
+ *
+ * Keep in sync with apps/web/src/types/collaboration.ts.
+ */
+
+export type EntityKind = 'feature' | 'folder'
+
+export interface EntityRecord {
+  kind: EntityKind
+  id: string
+  /** GeoJSON feature (EPSG:4326) or folder; null when deleted */
+  data: unknown
+  clock: number
+  clientId: string
+}
+
+export interface Presence {
+  clientId: string
+  name: string
+  color: string
+  /** Pointer position as [lon, lat], null when off the map */
+  cursor: [number, number] | null
+  /** Ids of the features the user has selected */
+  selection: string[]
+}
+
+export type ClientMessage =
+  | { type: 'hello'; clientId: string; name: string; color: string }
+  | { type: 'ops'; ops: EntityRecord[] }
+  | { type: 'presence'; cursor: [number, number] | null; selection: string[] }
+
+export type ServerMessage =
+  | { type: 'snapshot'; records: EntityRecord[]; peers: Presence[]; clock: number }
+  | { type: 'ops'; ops: EntityRecord[] }
+  | { type: 'ack'; ops: Array<{ kind: EntityKind; id: string; clock: number }> }
+  | { type: 'presence'; peer: Presence }
+  | { type: 'leave'; clientId: string }
+  | { type: 'error'; message: string }
+
+export const getRecordKey = (record: { kind: EntityKind; id: string }): string =>
+  `${record.kind}:${record.id}`
+
+/**
+ * Compare two record versions: positive when `a` is newer than `b`.
+ */
+export const compareVersions = (
+  a: { clock: number; clientId: string },
+  b: { clock: number; clientId: string }
+): number => {
+  if (a.clock !== b.clock) return a.clock - b.clock
+  if (a.clientId === b.clientId) return 0
+  return a.clientId > b.clientId ? 1 : -1
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+export const isEntityRecord = (value: unknown): value is EntityRecord =>
+  isObject(value) &&
+  (value['kind'] === 'feature' || value['kind'] === 'folder') &&
+  typeof value['id'] === 'string' &&
+  value['id'] !== '' &&
+  typeof value['clock'] === 'number' &&
+  Number.isFinite(value['clock']) &&
+  typeof value['clientId'] === 'string' &&
+  'data' in value
+
+/**
+ * Parse a raw client message, returning null for anything malformed.
+ */
+export const parseClientMessage = (raw: string): ClientMessage | null => {
+  let message: unknown
+  try {
+    message = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  if (!isObject(message)) return null
+
+  switch (message['type']) {
+    case 'hello':
+      if (typeof message['clientId'] !== 'string' || !message['clientId']) return null
+      return {
+        type: 'hello',
+        clientId: message['clientId'],
+        name: typeof message['name'] === 'string' ? message['name'] : 'Anonymous',
+        color: typeof message['color'] === 'string' ? message['color'] : '#2563eb',
+      }
+    case 'ops':
+      if (!Array.isArray(message['ops'])) return null
+      return { type: 'ops', ops: message['ops'].filter(isEntityRecord) }
+    case 'presence': {
+      const cursor = message['cursor']
+      const selection = message['selection']
+      return {
+        type: 'presence',
+        cursor:
+          Array.isArray(cursor) &&
+          cursor.length === 2 &&
+          cursor.every((value) => typeof value === 'number')
+            ? [cursor[0], cursor[1]]
+            : null,
+        selection: Array.isArray(selection)
+          ? selection.filter((id): id is string => typeof id === 'string')
+          : [],
+      }
+    }
+    default:
+      return null
+  }
+}
@@ -0,0 +1,131 @@
+import type { WebSocket } from 'ws'
+import {
+  compareVersions,
+  getRecordKey,
+  type EntityRecord,
+  type Presence,
+  type ServerMessage,
+} from './protocol.js'
+
+interface RoomClient {
+  socket: WebSocket
+  presence: Presence
+}
+
+/**
+ * A shared job. Holds the latest record of every entity and the clients
+ * currently connected to it. Rooms are kept in memory for the lifetime of
+ * the server; clients keep their own copy and resync on reconnect.
+ */
+export class CollabRoom {
+  readonly id: string
+  private records = new Map<string, EntityRecord>()
+  private clients = new Map<WebSocket, RoomClient>()
+  private clock = 0
+
+  constructor(id: string) {
+    this.id = id
+  }
+
+  get clientCount(): number {
+    return this.clients.size
+  }
+
+  join(socket: WebSocket, presence: Presence): void {
+    // A reconnecting tab may still have a stale socket open
+    for (const [otherSocket, client] of this.clients) {
+      if (client.presence.clientId === presence.clientId) {
+        this.clients.delete(otherSocket)
+        otherSocket.close()
+      }
+    }
+
+    this.clients.set(socket, { socket, presence })
+
+    this.send(socket, {
+      type: 'snapshot',
+      records: [...this.records.values()],
+      peers: [...this.clients.values()]
+        .filter((client) => client.socket !== socket)
+        .map((client) => client.presence),
+      clock: this.clock,
+    })
+    this.broadcast({ type: 'presence', peer: presence }, socket)
+  }
+
+  leave(socket: WebSocket): void {
+    const client = this.clients.get(socket)
+    if (!client) return
+
+    this.clients.delete(socket)
+    this.broadcast({ type: 'leave', clientId: client.presence.clientId })
+  }
+
+  /**
+   * Apply a batch of edits from one client. Newer records replace the stored
+   * ones and are forwarded to everyone else; for older ones the sender gets
+   * the winning record back so it converges too.
+   */
+  applyOps(socket: WebSocket, ops: EntityRecord[]): void {
+    const accepted: EntityRecord[] = []
+    const rejected: EntityRecord[] = []
+
+    ops.forEach((op) => {
+      const key = getRecordKey(op)
+      const current = this.records.get(key)
+      this.clock = Math.max(this.clock, op.clock)
+
+      if (current && compareVersions(op, current) <= 0) {
+        if (compareVersions(op, current) < 0) rejected.push(current)
+        return
+      }
+
+      const record: EntityRecord = {
+        kind: op.kind,
+        id: op.id,
+        data: op.data ?? null,
+        clock: op.clock,
+        clientId: op.clientId,
+      }
+      this.records.set(key, record)
+      accepted.push(record)
+    })
+
+    if (accepted.length > 0) {
+      this.broadcast({ type: 'ops', ops: accepted }, socket)
+    }
+    if (rejected.length > 0) {
+      this.send(socket, { type: 'ops', ops: rejected })
+    }
+    this.send(socket, {
+      type: 'ack',
+      ops: ops.map((op) => ({ kind: op.kind, id: op.id, clock: op.clock })),
+    })
+  }
+
+  updatePresence(
+    socket: WebSocket,
+    update: Pick<Presence, 'cursor' | 'selection'>
+  ): void {
+    const client = this.clients.get(socket)
+    if (!client) return
+
+    client.presence = { ...client.presence, ...update }
+    this.broadcast({ type: 'presence', peer: client.presence }, socket)
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message))
+    }
+  }
+
+  private broadcast(message: ServerMessage, except?: WebSocket): void {
+    const payload = JSON.stringify(message)
+    for (const client of this.clients.values()) {
+      if (client.socket !== except && client.socket.readyState === client.socket.OPEN) {
+        client.socket.send(payload)
+      }
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import type { Server } from 'node:http'
+import { WebSocketServer, type WebSocket } from 'ws'
+import { CollabRoom } from './room.js'
+import { parseClientMessage } from './protocol.js'
+
+export const COLLAB_PATH = '/collab'
+
+// Whole jobs can be pushed in one message when a client first seeds a room
+const MAX_PAYLOAD_BYTES = 32 * 1024 * 1024
+
+const rooms = new Map<string, CollabRoom>()
+
+const getRoom = (roomId: string): CollabRoom => {
+  let room = rooms.get(roomId)
+  if (!room) {
+    room = new CollabRoom(roomId)
+    rooms.set(roomId, room)
+  }
+  return room
+}
+
+export const getRoomSummaries = () =>
+  [...rooms.values()].map((room) => ({ id: room.id, clients: room.clientCount }))
+
+const handleConnection = (socket: WebSocket, roomId: string) => {
+  const room = getRoom(roomId)
+  let joined = false
+
+  socket.on('message', (data) => {
+    const message = parseClientMessage(data.toString())
+    if (!message) {
+      socket.send(JSON.stringify({ type: 'error', message: 'Malformed message' }))
+      return
+    }
+
+    if (message.type === 'hello') {
+      room.join(socket, {
+        clientId: message.clientId,
+        name: message.name,
+        color: message.color,
+        cursor: null,
+        selection: [],
+      })
+      joined = true
+      return
+    }
+
+    if (!joined) {
+      socket.send(JSON.stringify({ type: 'error', message: 'Send hello first' }))
+      return
+    }
+
+    if (message.type === 'ops') {
+      room.applyOps(socket, message.ops)
+    } else {
+      room.updatePresence(socket, {
+        cursor: message.cursor,
+        selection: message.selection,
+      })
+    }
+  })
+
+  socket.on('close', () => room.leave(socket))
+  socket.on('error', (error) => {
+    console.error(`Collaboration socket error in room ${roomId}:`, error)
+  })
+}
+
+/**
+ * Accept collaboration sockets on `/collab/<jobId>` of an existing HTTP server.
+ */
+export const attachCollaborationServer = (server: Server): void => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES })
+
+  server.on('upgrade', (request, socket, head) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost')
+    const roomId = pathname.startsWith(`${COLLAB_PATH}/`)
+      ? decodeURIComponent(pathname.slice(COLLAB_PATH.length + 1))
+      : ''
+
+    if (!roomId) {
+      socket.destroy()
+      return
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => handleConnection(ws, roomId))
+  })
+}
@@ -0,0 +1,143 @@
+import path from 'node:path'
+import JSZip from 'jszip'
+import {
+  createExportedGeoJSON,
+  ensureFeatureIds,
+  extractFolderStructureFromGeoJSON,
+  toFeatureCollection,
+} from './geojson.js'
+import { readKml, writeKml } from './kml.js'
+import { renderJobPdf, type PdfOptions } from './pdf.js'
+import { JOB_FORMATS, type JobData, type JobFormat, type OutputFormat } from './types.js'
+
+interface OutputType {
+  extension: string
+  contentType: string
+}
+
+/**
+ * File extension and MIME type of each output, matching the editor's exports
+ * (GeoJSON is saved as .json there).
+ */
+export const OUTPUT_TYPES: Record<OutputFormat, OutputType> = {
+  ds: { extension: 'ds', contentType: 'application/zip' },
+  kmz: { extension: 'kmz', contentType: 'application/vnd.google-earth.kmz' },
+  kml: { extension: 'kml', contentType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { extension: 'json', contentType: 'application/json' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+}
+
+export const isOutputFormat = (value: string): value is OutputFormat =>
+  value in OUTPUT_TYPES
+
+/**
+ * Input format from a file name; .json and .geojson are both GeoJSON.
+ */
+export const detectJobFormat = (fileName: string): JobFormat | null => {
+  const extension = path.extname(fileName).slice(1).toLowerCase()
+  if (extension === 'json') return 'geojson'
+  return (JOB_FORMATS as readonly string[]).includes(extension)
+    ? (extension as JobFormat)
+    : null
+}
+
+export const getJobName = (fileName: string): string =>
+  path.basename(fileName).replace(/\.[^/.]+$/, '') || 'map-export'
+
+const findEntry = (zip: JSZip, extension: string): JSZip.JSZipObject | null => {
+  const entryName = Object.keys(zip.files).find((name) =>
+    name.toLowerCase().endsWith(extension)
+  )
+  return entryName ? zip.file(entryName) : null
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+const readKmz = async (data: Buffer | Uint8Array, name: string): Promise<JobData> => {
+  const kmlEntry = findEntry(await JSZip.loadAsync(data), '.kml')
+  if (!kmlEntry) {
+    throw new Error('No KML file found in KMZ archive')
+  }
+  return readKml(await kmlEntry.async('text'), name)
+}
+
+const readJob = async (fileName: string, data: Buffer): Promise<JobData> => {
+  const format = detectJobFormat(fileName)
+  const name = getJobName(fileName)
+
+  switch (format) {
+    case 'geojson': {
+      const json: unknown = JSON.parse(data.toString('utf8'))
+      return {
+        name,
+        features: ensureFeatureIds(toFeatureCollection(json)),
+        folderStructure: extractFolderStructureFromGeoJSON(json) ?? { folders: {} },
+      }
+    }
+    case 'kml':
+      return readKml(data.toString('utf8'), name)
+    case 'kmz':
+      return readKmz(data, name)
+    case 'ds': {
+      // .ds is a zip containing a .kmz
+      const kmzEntry = findEntry(await JSZip.loadAsync(data), '.kmz')
+      if (!kmzEntry) {
+        throw new Error('No KMZ file found in DS archive')
+      }
+      return readKmz(await kmzEntry.async('uint8array'), name)
+    }
+    default:
+      throw new Error(`Unsupported file type: ${fileName}`)
+  }
+}
+
+/**
+ * Read a .ds, .kmz, .kml or GeoJSON file into a job.
+ */
+export const readJobFile = async (fileName: string, data: Buffer): Promise<JobData> => {
+  const job = await readJob(fileName, data)
+  if (job.features.features.length === 0) {
+    throw new Error('No features found in the file')
+  }
+  return job
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+const zipFile = (fileName: string, content: string | Uint8Array): Promise<Buffer> => {
+  const zip = new JSZip()
+  zip.file(fileName, content)
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+/**
+ * Write a job in one of the editor's export formats.
+ */
+export const writeJobFile = async (job: JobData, format: JobFormat): Promise<Buffer> => {
+  switch (format) {
+    case 'geojson':
+      return Buffer.from(
+        JSON.stringify(createExportedGeoJSON(job.features, job.folderStructure), null, 2)
+      )
+    case 'kml':
+      return Buffer.from(writeKml(job))
+    case 'kmz':
+      return zipFile(`${job.name}.kml`, writeKml(job))
+    case 'ds':
+      return zipFile(`${job.name}.kmz`, await zipFile(`${job.name}.kml`, writeKml(job)))
+  }
+}
+
+/**
+ * Write a job in any output format, including a rendered PDF.
+ */
+export const writeOutputFile = async (
+  job: JobData,
+  format: OutputFormat,
+  pdfOptions: PdfOptions = {}
+): Promise<Buffer> =>
+  format === 'pdf' ? renderJobPdf(job, pdfOptions) : writeJobFile(job, format)
@@ -0,0 +1,215 @@
+import { randomUUID } from 'node:crypto'
+import type Feature from 'ol/Feature.js'
+import GeoJSON from 'ol/format/GeoJSON.js'
+import type { Geometry } from 'ol/geom.js'
+import type {
+  FolderStructure,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+} from './types.js'
+
+// Placemark ids generated on import, see assignUniquePlacemarkIds in kml.ts
+const GENERATED_PLACEMARK_ID = /^pm_\d+_\d+$/
+
+// Point symbols the web app stores as multi-part geometries on purpose
+const ICON_FLAGS = ['isGP', 'isTower', 'isJunction', 'isPit', 'isTriangle']
+
+const MULTI_TO_SIMPLE: Record<string, string> = {
+  MultiLineString: 'LineString',
+  MultiPolygon: 'Polygon',
+  MultiPoint: 'Point',
+}
+
+/**
+ * GeoJSON exported by the web app: a FeatureCollection that also carries the
+ * folder tree. Same shape as createExportedGeoJSON in
+ * apps/web/src/utils/kmlFolderUtils.ts.
+ */
+export interface ExportedGeoJSON extends GeoJSONFeatureCollection {
+  dsMapTool: {
+    version: string
+    folderStructure: FolderStructure
+  }
+}
+
+export const createExportedGeoJSON = (
+  featureCollection: GeoJSONFeatureCollection,
+  folderStructure?: FolderStructure
+): ExportedGeoJSON => ({
+  type: 'FeatureCollection',
+  features: featureCollection.features ?? [],
+  dsMapTool: {
+    version: '1.0',
+    folderStructure: folderStructure ?? { folders: {} },
+  },
+})
+
+export const extractFolderStructureFromGeoJSON = (json: unknown): FolderStructure | null => {
+  if (typeof json !== 'object' || json === null || !('dsMapTool' in json)) return null
+  const { dsMapTool } = json as { dsMapTool?: { folderStructure?: FolderStructure } }
+  return dsMapTool?.folderStructure ?? null
+}
+
+/**
+ * Accept a FeatureCollection, a single Feature or an exported job.
+ */
+export const toFeatureCollection = (json: unknown): GeoJSONFeatureCollection => {
+  const value = json as { type?: string; features?: unknown }
+  if (value?.type === 'FeatureCollection' && Array.isArray(value.features)) {
+    return { type: 'FeatureCollection', features: value.features as GeoJSONFeature[] }
+  }
+  if (value?.type === 'Feature') {
+    return { type: 'FeatureCollection', features: [json as GeoJSONFeature] }
+  }
+  throw new Error('Not a GeoJSON Feature or FeatureCollection')
+}
+
+// ============================================================================
+// OPENLAYERS FEATURES
+// ============================================================================
+
+/**
+ * Read features without reprojecting, so coordinates stay in WGS84 unless a
+ * feature projection is given.
+ */
+export const readFeatures = (
+  collection: GeoJSONFeatureCollection,
+  featureProjection?: string
+): Feature<Geometry>[] =>
+  new GeoJSON().readFeatures(collection, {
+    dataProjection: 'EPSG:4326',
+    featureProjection: featureProjection ?? 'EPSG:4326',
+  }) as Feature<Geometry>[]
+
+/**
+ * Write features the way convertFeaturesToGeoJSON in the web app does, with
+ * the geometry type recorded as `featureType`.
+ */
+export const writeFeatures = (features: Feature<Geometry>[]): GeoJSONFeatureCollection => {
+  const format = new GeoJSON()
+  return {
+    type: 'FeatureCollection',
+    features: features.map((feature) => {
+      const written = format.writeFeatureObject(feature) as GeoJSONFeature
+      return {
+        ...written,
+        properties: {
+          ...written.properties,
+          featureType: feature.getGeometry()?.getType(),
+        },
+      }
+    }),
+  }
+}
+
+/**
+ * Give every feature a persistent id: missing ids, ids generated during KML
+ * import and duplicates get a new UUID. Same rules as ensureUniqueFeatureIds
+ * in apps/web/src/utils/featureIdUtils.ts.
+ */
+export const ensureFeatureIds = (
+  collection: GeoJSONFeatureCollection
+): GeoJSONFeatureCollection => {
+  const seen = new Set<string>()
+  return {
+    ...collection,
+    features: collection.features.map((feature) => {
+      let id = feature.id === undefined || feature.id === null ? '' : String(feature.id)
+      if (!id || GENERATED_PLACEMARK_ID.test(id) || seen.has(id)) {
+        id = randomUUID()
+      }
+      seen.add(id)
+      return { ...feature, id }
+    }),
+  }
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+const normalizeCoordinates = (coordinates: unknown): unknown => {
+  if (!Array.isArray(coordinates) || coordinates.length === 0) return coordinates
+  if (typeof coordinates[0] === 'number') {
+    return coordinates.length >= 2 ? [coordinates[0], coordinates[1]] : coordinates
+  }
+  return coordinates.map(normalizeCoordinates)
+}
+
+const normalizeGeometry = (geometry: GeoJSONGeometry): GeoJSONGeometry => ({
+  ...geometry,
+  ...(geometry.coordinates !== undefined && {
+    coordinates: normalizeCoordinates(geometry.coordinates),
+  }),
+  ...(geometry.geometries && { geometries: geometry.geometries.map(normalizeGeometry) }),
+})
+
+const isIconFeature = (properties: Record<string, unknown>): boolean =>
+  ICON_FLAGS.some((flag) => properties[flag])
+
+// Icon features are written as MultiPolygon but stored as GeometryCollection
+const reconstructGeometryCollection = (feature: GeoJSONFeature): GeoJSONFeature => {
+  const { geometry, properties } = feature
+  if (geometry?.type !== 'MultiPolygon' || properties?.['featureType'] !== 'GeometryCollection') {
+    return feature
+  }
+
+  return {
+    ...feature,
+    geometry: {
+      type: 'GeometryCollection',
+      geometries: (geometry.coordinates as unknown[]).map((coordinates) => ({
+        type: 'Polygon',
+        coordinates,
+      })),
+    },
+  }
+}
+
+// KML <MultiGeometry> around a single part becomes the simple geometry
+const flattenSingleChildGeometry = (feature: GeoJSONFeature): GeoJSONFeature => {
+  const { geometry } = feature
+  if (!geometry) return feature
+
+  const properties = feature.properties ?? {}
+  if (isIconFeature(properties)) return feature
+
+  const simpleType = MULTI_TO_SIMPLE[geometry.type]
+  if (simpleType && Array.isArray(geometry.coordinates) && geometry.coordinates.length === 1) {
+    return {
+      ...feature,
+      geometry: { type: simpleType, coordinates: geometry.coordinates[0] },
+      properties: { ...properties, featureType: simpleType },
+    }
+  }
+
+  if (geometry.type === 'GeometryCollection' && geometry.geometries?.length === 1) {
+    const [inner] = geometry.geometries
+    return {
+      ...feature,
+      geometry: inner,
+      properties: { ...properties, featureType: inner.type },
+    }
+  }
+
+  return feature
+}
+
+/**
+ * Strip Z values and undo the geometry wrapping KML adds, like
+ * normalizeImportedGeoJSON in apps/web/src/utils/serializationUtils.ts.
+ */
+export const normalizeImportedGeoJSON = (
+  collection: GeoJSONFeatureCollection
+): GeoJSONFeatureCollection => ({
+  type: 'FeatureCollection',
+  features: collection.features.map((feature) =>
+    flattenSingleChildGeometry(
+      reconstructGeometryCollection({
+        ...feature,
+        geometry: feature.geometry && normalizeGeometry(feature.geometry),
+      })
+    )
+  ),
+})
@@ -0,0 +1,70 @@
+import {
+  applyKmlStylesToFeatures,
+  assignUniquePlacemarkIds,
+  getElements,
+  injectKmlStyles,
+  readKmlFolders,
+  readKmlStyles,
+  readPlacemarkStyles,
+  stripChainageLabels,
+} from '@ds-map-tool/shared'
+import type Feature from 'ol/Feature.js'
+import KML from 'ol/format/KML.js'
+import type { Geometry } from 'ol/geom.js'
+import {
+  ensureFeatureIds,
+  normalizeImportedGeoJSON,
+  readFeatures,
+  writeFeatures,
+} from './geojson.js'
+import type { JobData } from './types.js'
+import { parseXml, xmlCodec } from './xml.js'
+
+// Styles and folders are mapped by the editor's KML code in
+// @ds-map-tool/shared, so files converted here match its exports.
+
+/**
+ * Write a job as KML with the same styles and folders as the editor export.
+ */
+export const writeKml = (job: JobData): string => {
+  const features = readFeatures(job.features)
+  const kmlString = new KML().writeFeatures(features)
+  return injectKmlStyles(kmlString, features, xmlCodec, job.folderStructure.folders)
+}
+
+/**
+ * Read KML the way the editor imports it: folders become the folder tree,
+ * Google Earth styles become feature style properties.
+ */
+export const readKml = (rawKmlText: string, name: string): JobData => {
+  // Chainage labels written by the editor are redrawn from the routes
+  const kmlText = stripChainageLabels(rawKmlText)
+  const doc = parseXml(kmlText)
+  const { folders, featureFolderMap } = readKmlFolders(doc)
+  const styleMap = readKmlStyles(doc)
+  const placemarkStyles = readPlacemarkStyles(doc)
+
+  // Styles are read above. OpenLayers would build Icon images from them,
+  // which needs a browser, so drop them from the document it parses.
+  const featureDoc = parseXml(assignUniquePlacemarkIds(kmlText))
+  ;[...getElements(featureDoc, 'Style'), ...getElements(featureDoc, 'StyleMap')].forEach(
+    (style) => style.parentNode?.removeChild(style)
+  )
+  const features = new KML({ extractStyles: false }).readFeatures(
+    featureDoc
+  ) as Feature<Geometry>[]
+
+  applyKmlStylesToFeatures(features, styleMap, placemarkStyles)
+  features.forEach((feature, index) => {
+    const folderId = featureFolderMap.get(index)
+    if (folderId) {
+      feature.set('folderId', folderId)
+    }
+  })
+
+  return {
+    name,
+    features: ensureFeatureIds(normalizeImportedGeoJSON(writeFeatures(features))),
+    folderStructure: { folders },
+  }
+}
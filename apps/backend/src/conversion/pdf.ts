@@ -0,0 +1,332 @@
+import { getLegendById, type LegendType } from '@ds-map-tool/shared'
+import { GState, jsPDF } from 'jspdf'
+import type Feature from 'ol/Feature.js'
+import {
+  buffer,
+  createEmpty,
+  extend,
+  getCenter,
+  getHeight,
+  getWidth,
+  intersects,
+  isEmpty,
+  type Extent,
+} from 'ol/extent.js'
+import type { Geometry } from 'ol/geom.js'
+import { toLonLat, transformExtent } from 'ol/proj.js'
+import { readFeatures } from './geojson.js'
+import type { JobData } from './types.js'
+
+// Page dimensions in millimeters, landscape. Same as PAGE_SIZES in
+// apps/web/src/types/pdf.ts.
+export const PAGE_SIZES = {
+  a0: { width: 1189, height: 841 },
+  a1: { width: 841, height: 594 },
+  a2: { width: 594, height: 420 },
+  a3: { width: 420, height: 297 },
+  a4: { width: 297, height: 210 },
+  a5: { width: 210, height: 148 },
+} as const
+export type PageSize = keyof typeof PAGE_SIZES
+
+export const isPageSize = (value: string): value is PageSize => value in PAGE_SIZES
+
+/**
+ * Parse "minLon,minLat,maxLon,maxLat". Returns null when malformed.
+ */
+export const parseExtent = (value: string): Extent | null => {
+  const numbers = value.split(',').map((part) => Number(part.trim()))
+  if (numbers.length !== 4 || numbers.some((number) => !Number.isFinite(number))) return null
+  const [minLon, minLat, maxLon, maxLat] = numbers
+  if (minLon >= maxLon || minLat >= maxLat) return null
+  return [minLon, minLat, maxLon, maxLat]
+}
+
+export interface PdfOptions {
+  /** Area to render as [minLon, minLat, maxLon, maxLat]; all features by default */
+  extent?: Extent
+  pageSize?: PageSize
+  title?: string
+}
+
+const MARGIN_MM = 10
+const HEADER_HEIGHT_MM = 12
+const LEGEND_WIDTH_MM = 60
+const LEGEND_ROW_MM = 7
+// Style widths and dash lengths are screen pixels (96 dpi)
+const PX_TO_MM = 25.4 / 96
+// Padding around a single point or a perfectly straight line, in meters
+const MIN_EXTENT_PADDING_M = 50
+const DEFAULT_COLOR = '#00ff00'
+
+interface PageTransform {
+  toPage: (coordinate: number[]) => [number, number]
+  scaleDenominator: number
+}
+
+interface FeatureStyle {
+  strokeColor: string
+  strokeWidth: number
+  strokeOpacity: number
+  strokeDash: number[] | null
+  fillColor: string
+  fillOpacity: number
+}
+
+// KML imports store numbers as strings
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value)
+  return value !== undefined && value !== null && value !== '' && !isNaN(number)
+    ? number
+    : fallback
+}
+
+const getDash = (value: unknown): number[] | null => {
+  const dash = Array.isArray(value) ? value.map(Number) : null
+  return dash && dash.length > 0 && dash.some((length) => length > 0) && !dash.some(isNaN)
+    ? dash
+    : null
+}
+
+/**
+ * Same color resolution as the KML export: own style, then legend, then the
+ * default green.
+ */
+const getFeatureStyle = (feature: Feature<Geometry>): FeatureStyle => {
+  const legend = getLegendById(feature.get('legendType'))?.style
+  return {
+    strokeColor:
+      feature.get('lineColor') || feature.get('strokeColor') || legend?.strokeColor || DEFAULT_COLOR,
+    strokeWidth: toNumber(feature.get('lineWidth'), legend?.strokeWidth ?? 2) * PX_TO_MM,
+    strokeOpacity: toNumber(feature.get('strokeOpacity'), 1),
+    strokeDash: getDash(feature.get('strokeDash')) ?? getDash(legend?.strokeDash),
+    fillColor: feature.get('fillColor') || '#000000',
+    fillOpacity: toNumber(feature.get('fillOpacity'), 0),
+  }
+}
+
+const applyStroke = (pdf: jsPDF, color: string, widthMm: number, dash: number[] | null) => {
+  pdf.setDrawColor(color)
+  pdf.setLineWidth(widthMm)
+  pdf.setLineDashPattern(dash ? dash.map((length) => length * PX_TO_MM) : [], 0)
+}
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+const tracePath = (
+  pdf: jsPDF,
+  coordinates: number[][],
+  transform: PageTransform,
+  closed: boolean
+) => {
+  coordinates.forEach((coordinate, index) => {
+    const [x, y] = transform.toPage(coordinate)
+    if (index === 0) pdf.moveTo(x, y)
+    else pdf.lineTo(x, y)
+  })
+  if (closed) pdf.close()
+}
+
+const drawGeometry = (
+  pdf: jsPDF,
+  geometry: Geometry,
+  feature: Feature<Geometry>,
+  style: FeatureStyle,
+  transform: PageTransform
+): void => {
+  const type = geometry.getType()
+
+  if (type === 'GeometryCollection') {
+    ;(geometry as unknown as { getGeometries: () => Geometry[] })
+      .getGeometries()
+      .forEach((part) => drawGeometry(pdf, part, feature, style, transform))
+    return
+  }
+
+  const coordinates = (geometry as unknown as { getCoordinates: () => unknown }).getCoordinates()
+
+  switch (type) {
+    case 'Point':
+    case 'MultiPoint': {
+      const points = (type === 'Point' ? [coordinates] : coordinates) as number[][]
+      points.forEach((point) => {
+        const [x, y] = transform.toPage(point)
+        const text = feature.get('isText') ? feature.get('text') : null
+        if (text) {
+          pdf.setTextColor(feature.get('textFillColor') || '#000000')
+          pdf.setFontSize(10 * toNumber(feature.get('textScale'), 1))
+          pdf.text(String(text), x, y, { align: 'center', baseline: 'middle' })
+        } else {
+          pdf.setFillColor(style.strokeColor)
+          pdf.circle(x, y, 1.2, 'F')
+        }
+      })
+      return
+    }
+    case 'LineString':
+    case 'MultiLineString': {
+      const lines = (type === 'LineString' ? [coordinates] : coordinates) as number[][][]
+      lines.forEach((line) => tracePath(pdf, line, transform, false))
+      pdf.stroke()
+      return
+    }
+    case 'Polygon':
+    case 'MultiPolygon': {
+      const polygons = (type === 'Polygon' ? [coordinates] : coordinates) as number[][][][]
+      polygons.forEach((rings) => rings.forEach((ring) => tracePath(pdf, ring, transform, true)))
+      if (style.fillOpacity > 0) {
+        pdf.setGState(new GState({ opacity: style.fillOpacity, 'stroke-opacity': style.strokeOpacity }))
+        pdf.setFillColor(style.fillColor)
+        pdf.fillStrokeEvenOdd()
+      } else {
+        pdf.stroke()
+      }
+      return
+    }
+  }
+}
+
+const drawFeature = (pdf: jsPDF, feature: Feature<Geometry>, transform: PageTransform) => {
+  const geometry = feature.getGeometry()
+  if (!geometry) return
+
+  const style = getFeatureStyle(feature)
+  pdf.saveGraphicsState()
+  pdf.setGState(new GState({ 'stroke-opacity': style.strokeOpacity }))
+  applyStroke(pdf, style.strokeColor, style.strokeWidth, style.strokeDash)
+  drawGeometry(pdf, geometry, feature, style, transform)
+  pdf.restoreGraphicsState()
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+const getFeaturesExtent = (features: Feature<Geometry>[]): Extent => {
+  const extent = createEmpty()
+  features.forEach((feature) => {
+    const geometry = feature.getGeometry()
+    if (geometry) extend(extent, geometry.getExtent())
+  })
+  return extent
+}
+
+/**
+ * Fit the extent (EPSG:3857) into the map frame, centered and undistorted.
+ */
+const createPageTransform = (
+  extent: Extent,
+  frame: { x: number; y: number; width: number; height: number }
+): PageTransform => {
+  const scale = Math.min(frame.width / getWidth(extent), frame.height / getHeight(extent))
+  const [centerX, centerY] = getCenter(extent)
+  const frameCenterX = frame.x + frame.width / 2
+  const frameCenterY = frame.y + frame.height / 2
+
+  // Web Mercator stretches distances by 1 / cos(latitude)
+  const latitude = toLonLat([centerX, centerY])[1]
+  const groundMetersPerMm = Math.cos((latitude * Math.PI) / 180) / scale
+
+  return {
+    toPage: ([x, y]) => [
+      frameCenterX + (x - centerX) * scale,
+      frameCenterY - (y - centerY) * scale,
+    ],
+    scaleDenominator: Math.round(groundMetersPerMm * 1000),
+  }
+}
+
+const drawLegend = (pdf: jsPDF, legends: LegendType[], x: number, y: number) => {
+  const height = LEGEND_ROW_MM * (legends.length + 1) + 4
+
+  pdf.setDrawColor('#000000')
+  pdf.setLineWidth(0.3)
+  pdf.setLineDashPattern([], 0)
+  pdf.rect(x, y, LEGEND_WIDTH_MM, height)
+
+  pdf.setTextColor('#000000')
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(11)
+  pdf.text('Legend', x + 4, y + LEGEND_ROW_MM)
+
+  pdf.setFont('helvetica', 'normal')
+  pdf.setFontSize(8)
+  legends.forEach((legend, index) => {
+    const rowY = y + LEGEND_ROW_MM * (index + 2)
+    const { strokeColor, strokeWidth, strokeDash } = legend.style
+    applyStroke(pdf, strokeColor || DEFAULT_COLOR, (strokeWidth ?? 2) * PX_TO_MM, getDash(strokeDash))
+    pdf.line(x + 4, rowY - 1, x + 18, rowY - 1)
+    pdf.text(legend.name, x + 22, rowY, { maxWidth: LEGEND_WIDTH_MM - 26 })
+  })
+}
+
+/**
+ * Render the features of a job as a vector PDF: title, map frame with the
+ * features in the extent, and a legend of the legend types shown.
+ */
+export const renderJobPdf = (job: JobData, options: PdfOptions = {}): Buffer => {
+  const page = PAGE_SIZES[options.pageSize ?? 'a3']
+  const features = readFeatures(job.features, 'EPSG:3857')
+
+  let extent = options.extent
+    ? transformExtent(options.extent, 'EPSG:4326', 'EPSG:3857')
+    : getFeaturesExtent(features)
+  if (isEmpty(extent)) {
+    throw new Error('Nothing to render: the job has no features')
+  }
+  if (getWidth(extent) === 0 || getHeight(extent) === 0) {
+    extent = buffer(extent, MIN_EXTENT_PADDING_M)
+  }
+
+  const visible = features.filter((feature) => {
+    const geometry = feature.getGeometry()
+    return geometry && intersects(extent, geometry.getExtent())
+  })
+  const legends = [...new Set(visible.map((feature) => feature.get('legendType')))]
+    .map((id) => (id ? getLegendById(id) : undefined))
+    .filter((legend): legend is LegendType => legend !== undefined)
+
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: [page.width, page.height] })
+  const legendSpace = legends.length > 0 ? LEGEND_WIDTH_MM + MARGIN_MM : 0
+  const frame = {
+    x: MARGIN_MM,
+    y: MARGIN_MM + HEADER_HEIGHT_MM,
+    width: page.width - 2 * MARGIN_MM - legendSpace,
+    height: page.height - 2 * MARGIN_MM - HEADER_HEIGHT_MM,
+  }
+  const transform = createPageTransform(extent, frame)
+
+  // Header
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(14)
+  pdf.text(options.title || job.name, MARGIN_MM, MARGIN_MM + 7)
+  pdf.setFont('helvetica', 'normal')
+  pdf.setFontSize(9)
+  pdf.text(
+    `Scale 1:${transform.scaleDenominator.toLocaleString('en-US')}  |  ${new Date().toLocaleDateString('en-US')}`,
+    page.width - MARGIN_MM,
+    MARGIN_MM + 7,
+    { align: 'right' }
+  )
+
+  // Map, clipped to its frame
+  pdf.saveGraphicsState()
+  pdf.rect(frame.x, frame.y, frame.width, frame.height, null)
+  pdf.clip()
+  pdf.discardPath()
+  visible.forEach((feature) => drawFeature(pdf, feature, transform))
+  pdf.restoreGraphicsState()
+
+  pdf.setDrawColor('#000000')
+  pdf.setLineWidth(0.3)
+  pdf.setLineDashPattern([], 0)
+  pdf.rect(frame.x, frame.y, frame.width, frame.height)
+
+  if (legends.length > 0) {
+    drawLegend(pdf, legends, frame.x + frame.width + MARGIN_MM, frame.y)
+  }
+
+  return Buffer.from(pdf.output('arraybuffer'))
+}
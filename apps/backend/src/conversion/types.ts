@@ -0,0 +1,36 @@
+import type { FolderStructure } from '@ds-map-tool/shared'
+
+export type { Folder, FolderStructure } from '@ds-map-tool/shared'
+
+export interface GeoJSONGeometry {
+  type: string
+  coordinates?: unknown
+  geometries?: GeoJSONGeometry[]
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature'
+  id?: string | number
+  geometry: GeoJSONGeometry | null
+  properties: Record<string, unknown> | null
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection'
+  features: GeoJSONFeature[]
+}
+
+/**
+ * A job as read from any supported file: WGS84 features as stored by the
+ * web app (SerializedMapData.features) plus the folder tree.
+ */
+export interface JobData {
+  name: string
+  features: GeoJSONFeatureCollection
+  folderStructure: FolderStructure
+}
+
+export const JOB_FORMATS = ['ds', 'kmz', 'kml', 'geojson'] as const
+export type JobFormat = (typeof JOB_FORMATS)[number]
+
+export type OutputFormat = JobFormat | 'pdf'
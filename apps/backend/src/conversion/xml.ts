@@ -0,0 +1,69 @@
+import type { XmlCodec } from '@ds-map-tool/shared'
+import { DOMImplementation, DOMParser, XMLSerializer } from '@xmldom/xmldom'
+import { registerDocument, registerXMLSerializer } from 'ol/xml.js'
+
+const ELEMENT_NODE = 1
+
+// OpenLayers' XML formats use the browser DOM. Point them at xmldom and
+// provide the node type constants they compare against.
+const xmlDocument = new DOMImplementation().createDocument(null, null, null)
+registerDocument(xmlDocument as unknown as Document)
+registerXMLSerializer(new XMLSerializer() as unknown as globalThis.XMLSerializer)
+
+if (typeof globalThis.Node === 'undefined') {
+  Object.assign(globalThis, {
+    Node: { ELEMENT_NODE, TEXT_NODE: 3, CDATA_SECTION_NODE: 4, DOCUMENT_NODE: 9 },
+  })
+}
+
+// xmldom 0.8 has no element traversal API, which the KML reader walks with,
+// and no baseURI, which it resolves style and icon URLs against
+interface TraversableNode {
+  nodeType: number
+  firstChild: TraversableNode | null
+  nextSibling: TraversableNode | null
+}
+
+const findElement = (node: TraversableNode | null): TraversableNode | null => {
+  while (node && node.nodeType !== ELEMENT_NODE) node = node.nextSibling
+  return node
+}
+
+const elementPrototype = Object.getPrototypeOf(xmlDocument.createElement('probe'))
+if (!('firstElementChild' in elementPrototype)) {
+  Object.defineProperties(elementPrototype, {
+    firstElementChild: {
+      get(this: TraversableNode) {
+        return findElement(this.firstChild)
+      },
+    },
+    nextElementSibling: {
+      get(this: TraversableNode) {
+        return findElement(this.nextSibling)
+      },
+    },
+    baseURI: { value: 'file:///' },
+  })
+}
+
+/**
+ * Parse an XML string, throwing on malformed input instead of returning a
+ * document with a parser error in it.
+ */
+export const parseXml = (text: string): Document => {
+  const fail = (message: string) => {
+    throw new Error(`Invalid XML: ${message}`)
+  }
+  const parser = new DOMParser({ errorHandler: { error: fail, fatalError: fail } })
+  const doc = parser.parseFromString(text, 'text/xml')
+  if (!doc.documentElement) fail('no root element')
+  return doc as unknown as Document
+}
+
+export const serializeXml = (node: Node): string =>
+  new XMLSerializer().serializeToString(node as never)
+
+/**
+ * xmldom codec for the KML code shared with the web app.
+ */
+export const xmlCodec: XmlCodec = { parse: parseXml, serialize: serializeXml }
@@ -1,11 +1,22 @@
+import path from 'node:path'
 import express from 'express'
 import cors from 'cors'
+import { attachCollaborationServer, getRoomSummaries } from './collab/server.js'
+import { createConvertRouter } from './routes/convert.js'
+import { createProjectsRouter } from './routes/projects.js'
+import { ProjectStore } from './storage/projectStore.js'
 
 const app = express()
 const PORT = process.env['PORT'] ?? 3001
+const DATA_DIR = process.env['DATA_DIR'] ?? path.resolve('data')
+
+const projectStore = new ProjectStore(DATA_DIR)
 
 app.use(cors())
-app.use(express.json())
+// Takes raw file uploads, so it goes before the JSON body parser
+app.use('/api/convert', createConvertRouter())
+// Serialized jobs easily exceed the 100kb default
+app.use(express.json({ limit: '50mb' }))
 
 app.get('/', (_req, res) => {
   res.json({ status: 'ds-map-tool', timestamp: new Date().toISOString() })
@@ -15,6 +26,16 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() })
 })
 
-app.listen(PORT, () => {
+app.use('/api/projects', createProjectsRouter(projectStore))
+
+// Active collaboration sessions
+app.get('/collab', (_req, res) => {
+  res.json({ rooms: getRoomSummaries() })
+})
+
+const server = app.listen(PORT, () => {
   console.log(`Backend server running on http://localhost:${PORT}`)
+  console.log(`Storing projects in ${DATA_DIR}`)
 })
+
+attachCollaborationServer(server)
@@ -0,0 +1,90 @@
+import express, { Router, type Request } from 'express'
+import {
+  OUTPUT_TYPES,
+  detectJobFormat,
+  isOutputFormat,
+  readJobFile,
+  writeOutputFile,
+} from '../conversion/convert.js'
+import { isPageSize, parseExtent, type PdfOptions } from '../conversion/pdf.js'
+import type { JobData } from '../conversion/types.js'
+
+const getQueryString = (req: Request, key: string): string | undefined => {
+  const value = req.query[key]
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+}
+
+/**
+ * Convert job files without opening them in the editor. The request body is
+ * the raw file; `filename` tells its format.
+ *
+ *   POST /?filename=job.kmz&to=kml    ds | kmz | kml | geojson | pdf
+ *
+ * PDF options: `extent=minLon,minLat,maxLon,maxLat`, `pageSize=a0..a5`,
+ * `title`.
+ */
+export const createConvertRouter = (): Router => {
+  const router = Router()
+
+  router.use(express.raw({ type: () => true, limit: '50mb' }))
+
+  router.post('/', async (req, res) => {
+    const fileName = getQueryString(req, 'filename')
+    const to = getQueryString(req, 'to')?.toLowerCase()
+
+    if (!fileName || !detectJobFormat(fileName)) {
+      res.status(400).json({ error: 'filename must end in .ds, .kmz, .kml, .geojson or .json' })
+      return
+    }
+    if (!to || !isOutputFormat(to)) {
+      res.status(400).json({ error: 'to must be one of ds, kmz, kml, geojson, pdf' })
+      return
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: 'Request body must be the file to convert' })
+      return
+    }
+
+    const pdf: PdfOptions = { title: getQueryString(req, 'title') }
+    const extent = getQueryString(req, 'extent')
+    if (extent) {
+      const parsed = parseExtent(extent)
+      if (!parsed) {
+        res.status(400).json({ error: 'extent must be minLon,minLat,maxLon,maxLat' })
+        return
+      }
+      pdf.extent = parsed
+    }
+    const pageSize = getQueryString(req, 'pageSize')?.toLowerCase()
+    if (pageSize) {
+      if (!isPageSize(pageSize)) {
+        res.status(400).json({ error: 'pageSize must be one of a0-a5' })
+        return
+      }
+      pdf.pageSize = pageSize
+    }
+
+    let job: JobData
+    try {
+      job = await readJobFile(fileName, req.body)
+    } catch (error) {
+      res.status(422).json({
+        error: `Could not read ${fileName}: ${error instanceof Error ? error.message : error}`,
+      })
+      return
+    }
+
+    try {
+      const output = await writeOutputFile(job, to, pdf)
+      const { extension, contentType } = OUTPUT_TYPES[to]
+      res.type(contentType).attachment(`${job.name}.${extension}`).send(output)
+    } catch (error) {
+      console.error('Conversion failed:', error)
+      res.status(500).json({
+        error: `Conversion failed: ${error instanceof Error ? error.message : error}`,
+      })
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from 'node:crypto'
+import { Router } from 'express'
+import {
+  isProjectDocument,
+  isValidProjectId,
+  type Project,
+  type ProjectStore,
+} from '../storage/projectStore.js'
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== ''
+
+/**
+ * CRUD for projects and their map data, folder structure and layouts:
+ *
+ *   GET    /                  list projects
+ *   POST   /                  create { name, id? }
+ *   GET    /:id               project
+ *   PUT    /:id               create or update { name, created_at?, updated_at? }
+ *   DELETE /:id               delete project and its documents
+ *   GET    /:id/:document     map-data | folders | layouts
+ *   PUT    /:id/:document     replace a document
+ */
+export const createProjectsRouter = (store: ProjectStore): Router => {
+  const router = Router()
+
+  router.param('id', (_req, res, next, id: string) => {
+    if (!isValidProjectId(id)) {
+      res.status(400).json({ error: 'Invalid project id' })
+      return
+    }
+    next()
+  })
+
+  router.get('/', async (_req, res) => {
+    res.json(await store.list())
+  })
+
+  router.post('/', async (req, res) => {
+    const { id, name } = req.body ?? {}
+    if (!isNonEmptyString(name)) {
+      res.status(400).json({ error: 'Project name is required' })
+      return
+    }
+
+    const projectId = isNonEmptyString(id) ? id : randomUUID()
+    if (!isValidProjectId(projectId)) {
+      res.status(400).json({ error: 'Invalid project id' })
+      return
+    }
+    if (await store.get(projectId)) {
+      res.status(409).json({ error: 'Project already exists' })
+      return
+    }
+
+    const now = new Date().toISOString()
+    const project = await store.save({
+      id: projectId,
+      name: name.trim(),
+      created_at: now,
+      updated_at: now,
+    })
+    res.status(201).json(project)
+  })
+
+  router.get('/:id', async (req, res) => {
+    const project = await store.get(req.params.id)
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' })
+      return
+    }
+    res.json(project)
+  })
+
+  router.put('/:id', async (req, res) => {
+    const { name, created_at, updated_at } = req.body ?? {}
+    if (!isNonEmptyString(name)) {
+      res.status(400).json({ error: 'Project name is required' })
+      return
+    }
+
+    const existing = await store.get(req.params.id)
+    const now = new Date().toISOString()
+    const project: Project = {
+      id: req.params.id,
+      name: name.trim(),
+      created_at: existing?.created_at ?? (isNonEmptyString(created_at) ? created_at : now),
+      updated_at: isNonEmptyString(updated_at) ? updated_at : now,
+    }
+    await store.save(project)
+    res.status(existing ? 200 : 201).json(project)
+  })
+
+  router.delete('/:id', async (req, res) => {
+    if (!(await store.delete(req.params.id))) {
+      res.status(404).json({ error: 'Project not found' })
+      return
+    }
+    res.status(204).end()
+  })
+
+  router.get('/:id/:document', async (req, res) => {
+    const { id, document } = req.params
+    if (!isProjectDocument(document)) {
+      res.status(404).json({ error: 'Unknown document' })
+      return
+    }
+    if (!(await store.get(id))) {
+      res.status(404).json({ error: 'Project not found' })
+      return
+    }
+
+    const data = await store.getDocument(id, document)
+    if (data === null) {
+      res.status(404).json({ error: 'Document not found' })
+      return
+    }
+    res.json(data)
+  })
+
+  router.put('/:id/:document', async (req, res) => {
+    const { id, document } = req.params
+    if (!isProjectDocument(document)) {
+      res.status(404).json({ error: 'Unknown document' })
+      return
+    }
+    if (req.body === undefined) {
+      res.status(400).json({ error: 'Expected a JSON body' })
+      return
+    }
+
+    const project = await store.putDocument(id, document, req.body)
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' })
+      return
+    }
+    res.json(project)
+  })
+
+  return router
+}
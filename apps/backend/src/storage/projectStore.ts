@@ -0,0 +1,126 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * Same shape as `Project` in apps/web/src/hooks/useMapProjects.ts.
+ */
+export interface Project {
+  id: string
+  name: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Per-project documents stored next to the project record:
+ * - `map-data`: the serialized map (SerializedMapData in the web app)
+ * - `folders`: the folder structure (FolderStructure)
+ * - `layouts`: the layouts (Layout[])
+ */
+export const PROJECT_DOCUMENTS = ['map-data', 'folders', 'layouts'] as const
+export type ProjectDocument = (typeof PROJECT_DOCUMENTS)[number]
+
+// Ids become directory names, so only allow what crypto.randomUUID() produces
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+export const isValidProjectId = (id: string): boolean => PROJECT_ID_PATTERN.test(id)
+
+export const isProjectDocument = (value: string): value is ProjectDocument =>
+  (PROJECT_DOCUMENTS as readonly string[]).includes(value)
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT'
+
+/**
+ * File-backed project storage: one directory per project holding
+ * `project.json` plus one JSON file per document. Writes go through a
+ * temporary file and a rename so a crash never leaves half a file behind.
+ */
+export class ProjectStore {
+  private readonly projectsDir: string
+
+  constructor(dataDir: string) {
+    this.projectsDir = path.join(dataDir, 'projects')
+  }
+
+  async list(): Promise<Project[]> {
+    let entries: string[]
+    try {
+      entries = await readdir(this.projectsDir)
+    } catch (error) {
+      if (isNotFound(error)) return []
+      throw error
+    }
+
+    const projects = await Promise.all(
+      entries.filter(isValidProjectId).map((id) => this.get(id))
+    )
+    return projects
+      .filter((project): project is Project => project !== null)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+  }
+
+  async get(id: string): Promise<Project | null> {
+    return (await this.readJson(this.filePath(id, 'project'))) as Project | null
+  }
+
+  async save(project: Project): Promise<Project> {
+    await this.writeJson(this.filePath(project.id, 'project'), project)
+    return project
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!(await this.get(id))) return false
+    await rm(this.projectDir(id), { recursive: true, force: true })
+    return true
+  }
+
+  async getDocument(id: string, document: ProjectDocument): Promise<unknown | null> {
+    return this.readJson(this.filePath(id, document))
+  }
+
+  /**
+   * Store a document and bump the project's `updated_at`.
+   * Returns the updated project, or null when the project doesn't exist.
+   */
+  async putDocument(
+    id: string,
+    document: ProjectDocument,
+    data: unknown
+  ): Promise<Project | null> {
+    const project = await this.get(id)
+    if (!project) return null
+
+    await this.writeJson(this.filePath(id, document), data)
+    return this.save({ ...project, updated_at: new Date().toISOString() })
+  }
+
+  private projectDir(id: string): string {
+    if (!isValidProjectId(id)) {
+      throw new Error(`Invalid project id: ${id}`)
+    }
+    return path.join(this.projectsDir, id)
+  }
+
+  private filePath(id: string, name: string): string {
+    return path.join(this.projectDir(id), `${name}.json`)
+  }
+
+  private async readJson(filePath: string): Promise<unknown | null> {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'))
+    } catch (error) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    await mkdir(path.dirname(filePath), { recursive: true })
+    // Unique per write, so concurrent writes of one document never share a temp file
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`
+    await writeFile(tempPath, JSON.stringify(data))
+    await rename(tempPath, filePath)
+  }
+}
@@ -0,0 +1,292 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLayoutStore } from "@/stores/layoutStore";
+import { PAGE_SIZE_OPTIONS, type PageSize } from "@/types/pdf";
+import {
+  DEFAULT_ATLAS_OPTIONS,
+  type AtlasOptions,
+  type AtlasOrientation,
+  type AtlasSheet,
+  type AtlasSource,
+} from "@/utils/atlasUtils";
+import type { ExportProgress } from "@/utils/mapImageExport";
+import { Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+interface AtlasExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Sheets for the options; throws with a message if there are none
+  getSheets: (options: AtlasOptions) => AtlasSheet[];
+  onExport: (
+    sheets: AtlasSheet[],
+    options: AtlasOptions,
+    onProgress: (progress: ExportProgress) => void,
+  ) => Promise<void>;
+  isExporting: boolean;
+}
+
+/**
+ * Export a route or the whole job as numbered PDF sheets at a fixed scale
+ */
+export function AtlasExportDialog({
+  isOpen,
+  onClose,
+  getSheets,
+  onExport,
+  isExporting,
+}: AtlasExportDialogProps) {
+  const [options, setOptions] = useState<AtlasOptions>(DEFAULT_ATLAS_OPTIONS);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const layouts = useLayoutStore((state) => state.layouts);
+
+  const setOption = <K extends keyof AtlasOptions>(
+    key: K,
+    value: AtlasOptions[K],
+  ) => setOptions((prev) => ({ ...prev, [key]: value }));
+
+  // Sheets are worked out again whenever an option changes
+  const preview = useMemo(() => {
+    if (!isOpen) return { sheets: [], error: null };
+    try {
+      return { sheets: getSheets(options), error: null };
+    } catch (error) {
+      return {
+        sheets: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [isOpen, options, getSheets]);
+
+  const canExport =
+    !isExporting &&
+    preview.sheets.length > 0 &&
+    options.scaleDenominator > 0 &&
+    options.overlap >= 0 &&
+    options.overlap <= 0.5;
+
+  const handleExport = async () => {
+    setProgress({ stage: "preparing", message: "Starting export...", percent: 0 });
+    try {
+      await onExport(preview.sheets, options, setProgress);
+      onClose();
+    } catch (error) {
+      console.error("Map series export failed:", error);
+      alert("Map series export failed. Check console.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isExporting) onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Map Series</DialogTitle>
+          <DialogDescription>
+            Overlapping numbered sheets at a fixed scale in one PDF, with a
+            key map showing where each sheet lies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="atlas-source">Sheets</Label>
+            <select
+              id="atlas-source"
+              value={options.source}
+              onChange={(e) => setOption("source", e.target.value as AtlasSource)}
+              disabled={isExporting}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="route">Along the selected route</option>
+              <option value="grid">Grid over the job</option>
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label htmlFor="atlas-page-size">Page Size</Label>
+              <select
+                id="atlas-page-size"
+                value={options.pageSize}
+                onChange={(e) => setOption("pageSize", e.target.value as PageSize)}
+                disabled={isExporting}
+                className={SELECT_CLASS_NAME}
+              >
+                {PAGE_SIZE_OPTIONS.map((size) => (
+                  <option key={size} value={size}>
+                    {size.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="atlas-orientation">Orientation</Label>
+              <select
+                id="atlas-orientation"
+                value={options.orientation}
+                onChange={(e) =>
+                  setOption("orientation", e.target.value as AtlasOrientation)
+                }
+                disabled={isExporting}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="landscape">Landscape</option>
+                <option value="portrait">Portrait</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label htmlFor="atlas-scale">Scale 1:</Label>
+              <Input
+                id="atlas-scale"
+                type="number"
+                min="1"
+                step="500"
+                value={options.scaleDenominator}
+                onChange={(e) =>
+                  setOption("scaleDenominator", parseFloat(e.target.value) || 0)
+                }
+                disabled={isExporting}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="atlas-overlap">Overlap (%)</Label>
+              <Input
+                id="atlas-overlap"
+                type="number"
+                min="0"
+                max="50"
+                step="5"
+                value={Math.round(options.overlap * 100)}
+                onChange={(e) =>
+                  setOption("overlap", (parseFloat(e.target.value) || 0) / 100)
+                }
+                disabled={isExporting}
+              />
+            </div>
+          </div>
+
+          {options.source === "route" && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="atlas-follow-route"
+                checked={options.followRoute}
+                onCheckedChange={(checked) =>
+                  setOption("followRoute", checked === true)
+                }
+                disabled={isExporting}
+              />
+              <Label
+                htmlFor="atlas-follow-route"
+                className="text-sm font-normal leading-none cursor-pointer"
+              >
+                Turn sheets to follow the route
+              </Label>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="atlas-layout">Layout</Label>
+            <select
+              id="atlas-layout"
+              value={options.layoutId ?? ""}
+              onChange={(e) => setOption("layoutId", e.target.value || null)}
+              disabled={isExporting}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">No layout</option>
+              {layouts.map((layout) => (
+                <option key={layout.id} value={layout.id}>
+                  {layout.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Title blocks get the sheet number, scale and date; scale bars
+              and north arrows follow each sheet.
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="atlas-key-map"
+              checked={options.includeKeyMap}
+              onCheckedChange={(checked) =>
+                setOption("includeKeyMap", checked === true)
+              }
+              disabled={isExporting}
+            />
+            <Label
+              htmlFor="atlas-key-map"
+              className="text-sm font-normal leading-none cursor-pointer"
+            >
+              Start with a key map
+            </Label>
+          </div>
+
+          <p
+            className={
+              preview.error
+                ? "text-sm text-destructive"
+                : "text-sm text-muted-foreground"
+            }
+          >
+            {preview.error ??
+              `${preview.sheets.length} sheet${preview.sheets.length === 1 ? "" : "s"}`}
+          </p>
+
+          {isExporting && progress && (
+            <div className="grid gap-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>{progress.message}</span>
+                <span>{progress.percent}%</span>
+              </div>
+              <div className="w-full h-2 bg-secondary rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all duration-300 ease-out"
+                  style={{ width: `${progress.percent}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={handleClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!canExport}>
+            {isExporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Exporting...
+              </>
+            ) : (
+              "Export PDF"
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { X, Shield } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useState } from "react";
+import { LEGEND_TYPES } from "@/tools/legendsConfig";
+import { DEFAULT_BUFFER_STYLE, type BufferStyle } from "@/utils/offsetUtils";
+
+export interface BufferOptions {
+    // Buffer the selected features, or every line of the chosen legend types
+    target: "selected" | "legends";
+    legendIds: string[];
+    distance: number;
+    style: BufferStyle;
+    // Flag other features inside the clearance
+    flagViolations: boolean;
+}
+
+interface BufferDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onApply: (options: BufferOptions) => void;
+    onClearFlags: () => void;
+    selectedCount: number;
+}
+
+// The measure tool's lines are not utilities
+const BUFFER_LEGEND_TYPES = LEGEND_TYPES.filter((legend) => legend.id !== "measure");
+
+export function BufferDialog({
+    isOpen,
+    onClose,
+    onApply,
+    onClearFlags,
+    selectedCount,
+}: BufferDialogProps) {
+    const [distance, setDistance] = useState<string>("3");
+    const [target, setTarget] = useState<BufferOptions["target"]>("legends");
+    const [legendIds, setLegendIds] = useState<string[]>(["gasPipeLine"]);
+    const [style, setStyle] = useState<BufferStyle>(DEFAULT_BUFFER_STYLE);
+    const [flagViolations, setFlagViolations] = useState(true);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const distanceNum = parseFloat(distance);
+    const isValidDistance = !isNaN(distanceNum) && distanceNum > 0;
+    const hasTarget = target === "selected" ? selectedCount > 0 : legendIds.length > 0;
+
+    const handleApply = () => {
+        if (!isValidDistance || !hasTarget) return;
+        onApply({ target, legendIds, distance: distanceNum, style, flagViolations });
+        onClose();
+    };
+
+    const targetOptions: { value: BufferOptions["target"]; label: string }[] = [
+        { value: "selected", label: `Selected (${selectedCount})` },
+        { value: "legends", label: "Legend types" },
+    ];
+
+    return (
+        <div className="absolute right-4 top-20 w-80 max-h-[calc(100vh-120px)] flex flex-col rounded-lg overflow-hidden bg-white dark:bg-slate-800 shadow-2xl border-l border-gray-200 dark:border-slate-700 z-50 transform transition-transform duration-300 ease-in-out">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-slate-700 bg-linear-to-r from-gray-50 to-white dark:from-slate-700 dark:to-slate-800">
+                <div className="flex items-center gap-2">
+                    <Shield className="h-4 w-4 text-red-500" />
+                    <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                        Buffer / Clearance
+                    </h3>
+                </div>
+                <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={onClose}
+                    className="h-6 w-6 text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:text-gray-500 dark:hover:text-gray-300 dark:hover:bg-slate-700"
+                    aria-label="Close panel"
+                >
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+
+            {/* Content */}
+            <Card className="border-none shadow-none rounded-none flex-1 overflow-y-auto">
+                <CardContent className="p-4 space-y-4">
+                    {/* Target Selection */}
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Buffer
+                        </Label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {targetOptions.map((option) => (
+                                <label
+                                    key={option.value}
+                                    className={`flex items-center justify-center gap-2 p-2 rounded cursor-pointer transition-colors border ${target === option.value
+                                            ? "bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-700"
+                                            : "bg-gray-50 dark:bg-slate-700/50 border-transparent hover:bg-gray-100 dark:hover:bg-slate-600/50"
+                                        }`}
+                                >
+                                    <input
+                                        type="radio"
+                                        name="buffer-target"
+                                        value={option.value}
+                                        checked={target === option.value}
+                                        onChange={() => setTarget(option.value)}
+                                        className="sr-only"
+                                    />
+                                    <span className="text-sm text-gray-900 dark:text-gray-100">
+                                        {option.label}
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Legend Types */}
+                    {target === "legends" && (
+                        <div className="max-h-40 overflow-y-auto border rounded-md p-2 space-y-2">
+                            {BUFFER_LEGEND_TYPES.map((legend) => (
+                                <div key={legend.id} className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id={`buffer-legend-${legend.id}`}
+                                        checked={legendIds.includes(legend.id)}
+                                        onCheckedChange={(checked) =>
+                                            setLegendIds((prev) =>
+                                                checked === true
+                                                    ? [...prev, legend.id]
+                                                    : prev.filter((id) => id !== legend.id)
+                                            )
+                                        }
+                                    />
+                                    <Label
+                                        htmlFor={`buffer-legend-${legend.id}`}
+                                        className="text-sm font-normal leading-none cursor-pointer"
+                                    >
+                                        {legend.name}
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Distance Input */}
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="buffer-distance"
+                            className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                        >
+                            Distance either side (meters)
+                        </Label>
+                        <Input
+                            id="buffer-distance"
+                            type="number"
+                            min="0.1"
+                            step="0.1"
+                            value={distance}
+                            onChange={(e) => setDistance(e.target.value)}
+                            placeholder="Enter distance"
+                            className="h-9"
+                        />
+                    </div>
+
+                    {/* Styling */}
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                            <Label htmlFor="buffer-stroke" className="text-xs text-gray-600 dark:text-gray-400">
+                                Stroke
+                            </Label>
+                            <input
+                                id="buffer-stroke"
+                                type="color"
+                                value={style.strokeColor}
+                                onChange={(e) => setStyle((prev) => ({ ...prev, strokeColor: e.target.value }))}
+                                className="h-8 w-full rounded border cursor-pointer"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="buffer-fill" className="text-xs text-gray-600 dark:text-gray-400">
+                                Fill
+                            </Label>
+                            <input
+                                id="buffer-fill"
+                                type="color"
+                                value={style.fillColor}
+                                onChange={(e) => setStyle((prev) => ({ ...prev, fillColor: e.target.value }))}
+                                className="h-8 w-full rounded border cursor-pointer"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="buffer-fill-opacity" className="text-xs text-gray-600 dark:text-gray-400">
+                                Fill %
+                            </Label>
+                            <Input
+                                id="buffer-fill-opacity"
+                                type="number"
+                                min="0"
+                                max="100"
+                                value={Math.round(style.fillOpacity * 100)}
+                                onChange={(e) =>
+                                    setStyle((prev) => ({
+                                        ...prev,
+                                        fillOpacity: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100,
+                                    }))
+                                }
+                                className="h-8"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Clearance Check */}
+                    <div className="flex items-center space-x-2">
+                        <Checkbox
+                            id="buffer-flag-violations"
+                            checked={flagViolations}
+                            onCheckedChange={(checked) => setFlagViolations(checked === true)}
+                        />
+                        <Label
+                            htmlFor="buffer-flag-violations"
+                            className="text-sm font-normal leading-none cursor-pointer"
+                        >
+                            Flag features inside the clearance
+                        </Label>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Footer */}
+            <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-gray-100 dark:border-slate-700 bg-linear-to-r from-gray-50 to-white dark:from-slate-700 dark:to-slate-800">
+                <Button variant="ghost" size="sm" onClick={onClearFlags}>
+                    Clear flags
+                </Button>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="default"
+                        size="sm"
+                        onClick={handleApply}
+                        disabled={!isValidDistance || !hasTarget}
+                        className="flex items-center gap-2"
+                    >
+                        <Shield className="h-4 w-4" />
+                        Apply
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
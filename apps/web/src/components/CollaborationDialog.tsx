@@ -0,0 +1,166 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCollaborationStore } from "@/stores/useCollaborationStore";
+import {
+  COLLABORATION_STATUS_COLORS,
+  COLLABORATION_STATUS_LABELS,
+} from "@/utils/collaborationUtils";
+import { Users } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface CollaborationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string | null;
+}
+
+export function CollaborationDialog({
+  isOpen,
+  onClose,
+  projectId,
+}: CollaborationDialogProps) {
+  const {
+    serverUrl,
+    userName,
+    userColor,
+    session,
+    status,
+    peers,
+    pendingCount,
+    setServerUrl,
+    setUserName,
+    joinSession,
+    leaveSession,
+  } = useCollaborationStore();
+  const [sessionId, setSessionId] = useState("");
+
+  // Default to sharing the current job under its own id
+  useEffect(() => {
+    if (!isOpen) return;
+    // The session as the dialog opens; joining or leaving keeps the field
+    const openSession = useCollaborationStore.getState().session;
+    setSessionId(openSession?.sessionId ?? projectId ?? "");
+  }, [isOpen, projectId]);
+
+  const isInSession = !!session;
+  const peerList = Object.values(peers);
+
+  const handleJoin = () => {
+    if (!projectId || !sessionId.trim() || !serverUrl.trim()) return;
+    joinSession(sessionId.trim(), projectId);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Collaborate
+          </DialogTitle>
+          <DialogDescription>
+            Edit this job together with others through the backend. Features
+            and folders already in this job are added to the session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="collab-server">Server</Label>
+            <Input
+              id="collab-server"
+              value={serverUrl}
+              disabled={isInSession}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder="ws://localhost:3001"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="collab-name">Your name</Label>
+            <Input
+              id="collab-name"
+              value={userName}
+              disabled={isInSession}
+              onChange={(e) => setUserName(e.target.value)}
+              placeholder="Shown next to your cursor"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="collab-session">Session</Label>
+            <Input
+              id="collab-session"
+              value={sessionId}
+              disabled={isInSession}
+              onChange={(e) => setSessionId(e.target.value)}
+              placeholder="Share this name with your team"
+            />
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span
+              className="inline-block w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: COLLABORATION_STATUS_COLORS[status] }}
+            />
+            <span>{COLLABORATION_STATUS_LABELS[status]}</span>
+            {pendingCount > 0 && (
+              <span className="text-xs text-muted-foreground">
+                ({pendingCount} unsynced {pendingCount === 1 ? "edit" : "edits"})
+              </span>
+            )}
+          </div>
+
+          {isInSession && (
+            <div className="grid gap-1">
+              <div className="text-sm font-medium">In this session</div>
+              <div className="flex items-center gap-2 text-sm">
+                <span
+                  className="inline-block w-2.5 h-2.5 rounded-full"
+                  style={{ backgroundColor: userColor }}
+                />
+                {userName || "Anonymous"} (you)
+              </div>
+              {peerList.map((peer) => (
+                <div
+                  key={peer.clientId}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <span
+                    className="inline-block w-2.5 h-2.5 rounded-full"
+                    style={{ backgroundColor: peer.color }}
+                  />
+                  {peer.name}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          {isInSession ? (
+            <Button variant="destructive" onClick={leaveSession}>
+              Leave session
+            </Button>
+          ) : (
+            <Button
+              onClick={handleJoin}
+              disabled={!projectId || !sessionId.trim() || !serverUrl.trim()}
+            >
+              Join session
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
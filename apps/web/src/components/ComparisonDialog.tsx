@@ -0,0 +1,268 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import type { MapRevision, SerializedMapData } from "@/hooks/useMapProjects";
+import { useComparisonStore } from "@/stores/useComparisonStore";
+import { useCrossingStore } from "@/stores/useCrossingStore";
+import { useTopologyStore } from "@/stores/useTopologyStore";
+import { usePathStore } from "@/stores/usePathStore";
+import {
+  COMPARISON_FILE_ACCEPT,
+  readComparisonFile,
+} from "@/utils/comparisonSourceUtils";
+import { readImportFile } from "@/utils/importUtils";
+import {
+  diffFeatureCollections,
+  type FeatureCollectionLike,
+} from "@/utils/featureDiffUtils";
+import { GitCompare, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+type SourceKind = "current" | "revision" | "file";
+
+interface SourceSelection {
+  kind: SourceKind;
+  revisionId: number | null;
+  file: File | null;
+}
+
+interface ComparisonDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  listRevisions: () => Promise<MapRevision[]>;
+  loadRevision: (revisionId: number) => Promise<SerializedMapData | null>;
+  getCurrentMapData: () => SerializedMapData | null;
+  /** Pre-selected base revision, e.g. when opened from the revision history */
+  initialBaseRevisionId?: number | null;
+}
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+function SourcePicker({
+  id,
+  label,
+  value,
+  onChange,
+  revisions,
+  disabled,
+}: {
+  id: string;
+  label: string;
+  value: SourceSelection;
+  onChange: (value: SourceSelection) => void;
+  revisions: MapRevision[];
+  disabled: boolean;
+}) {
+  const selectValue =
+    value.kind === "revision" ? `revision:${value.revisionId}` : value.kind;
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      <select
+        id={id}
+        value={selectValue}
+        disabled={disabled}
+        onChange={(e) => {
+          const next = e.target.value;
+          if (next.startsWith("revision:")) {
+            onChange({
+              kind: "revision",
+              revisionId: Number(next.split(":")[1]),
+              file: null,
+            });
+          } else {
+            onChange({ kind: next as SourceKind, revisionId: null, file: null });
+          }
+        }}
+        className={SELECT_CLASS_NAME}
+      >
+        <option value="current">Current map</option>
+        <option value="file">File (GeoJSON/KML/KMZ/DS)...</option>
+        {revisions.map((revision) => (
+          <option key={revision.id} value={`revision:${revision.id}`}>
+            Revision #{revision.id} -{" "}
+            {new Date(revision.created_at).toLocaleString()}
+            {revision.note ? ` (${revision.note})` : ""}
+          </option>
+        ))}
+      </select>
+      {value.kind === "file" && (
+        <input
+          type="file"
+          accept={COMPARISON_FILE_ACCEPT}
+          disabled={disabled}
+          onChange={(e) =>
+            onChange({ ...value, file: e.target.files?.[0] || null })
+          }
+          className="text-sm"
+        />
+      )}
+    </div>
+  );
+}
+
+export function ComparisonDialog({
+  isOpen,
+  onClose,
+  listRevisions,
+  loadRevision,
+  getCurrentMapData,
+  initialBaseRevisionId = null,
+}: ComparisonDialogProps) {
+  const [revisions, setRevisions] = useState<MapRevision[]>([]);
+  const [base, setBase] = useState<SourceSelection>({
+    kind: "current",
+    revisionId: null,
+    file: null,
+  });
+  const [target, setTarget] = useState<SourceSelection>({
+    kind: "file",
+    revisionId: null,
+    file: null,
+  });
+  const [isComparing, setIsComparing] = useState(false);
+  const setComparison = useComparisonStore((state) => state.setComparison);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listRevisions().then(setRevisions);
+
+    if (initialBaseRevisionId !== null) {
+      setBase({ kind: "revision", revisionId: initialBaseRevisionId, file: null });
+      setTarget({ kind: "current", revisionId: null, file: null });
+    } else {
+      setBase({ kind: "current", revisionId: null, file: null });
+      setTarget({ kind: "file", revisionId: null, file: null });
+    }
+  }, [isOpen, initialBaseRevisionId, listRevisions]);
+
+  const resolveSource = async (
+    source: SourceSelection,
+  ): Promise<{ collection: FeatureCollectionLike; label: string }> => {
+    if (source.kind === "current") {
+      return {
+        collection: getCurrentMapData()?.features ?? { features: [] },
+        label: "Current map",
+      };
+    }
+
+    if (source.kind === "revision" && source.revisionId !== null) {
+      const mapData = await loadRevision(source.revisionId);
+      if (!mapData) {
+        throw new Error(`Revision #${source.revisionId} could not be loaded`);
+      }
+      return {
+        collection: mapData.features ?? { features: [] },
+        label: `Revision #${source.revisionId}`,
+      };
+    }
+
+    if (source.kind === "file" && source.file) {
+      const data = await readImportFile(source.file);
+      return {
+        collection: await readComparisonFile(source.file.name, data),
+        label: source.file.name,
+      };
+    }
+
+    throw new Error("Select a file to compare");
+  };
+
+  const isSourceReady = (source: SourceSelection) =>
+    source.kind !== "file" || !!source.file;
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    try {
+      const [resolvedBase, resolvedTarget] = await Promise.all([
+        resolveSource(base),
+        resolveSource(target),
+      ]);
+
+      const result = diffFeatureCollections(
+        resolvedBase.collection,
+        resolvedTarget.collection,
+      );
+      // The panels share the same spot on the map
+      useCrossingStore.getState().clearCrossings();
+      useTopologyStore.getState().clearIssues();
+      usePathStore.getState().closePathTool();
+      setComparison(result, resolvedBase.label, resolvedTarget.label);
+      onClose();
+    } catch (error) {
+      console.error("Comparison failed:", error);
+      alert(
+        `Failed to compare: ${error instanceof Error ? error.message : "unknown error"}`,
+      );
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isComparing && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </DialogTitle>
+          <DialogDescription>
+            Changes are shown going from the base to the compared source.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <SourcePicker
+            id="comparison-base"
+            label="Base"
+            value={base}
+            onChange={setBase}
+            revisions={revisions}
+            disabled={isComparing}
+          />
+          <SourcePicker
+            id="comparison-target"
+            label="Compare with"
+            value={target}
+            onChange={setTarget}
+            revisions={revisions}
+            disabled={isComparing}
+          />
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <DialogClose asChild>
+            <Button type="button" variant="secondary" disabled={isComparing}>
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button
+            onClick={handleCompare}
+            disabled={
+              isComparing || !isSourceReady(base) || !isSourceReady(target)
+            }
+          >
+            {isComparing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Comparing...
+              </>
+            ) : (
+              "Compare"
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { Button } from "@/components/ui/button";
+import { useComparisonStore } from "@/stores/useComparisonStore";
+import {
+  FEATURE_DIFF_COLORS,
+  FEATURE_DIFF_LABELS,
+  FEATURE_DIFF_STATUSES,
+  type FeatureDiffEntry,
+} from "@/utils/featureDiffUtils";
+import { GitCompare, X } from "lucide-react";
+import { useMemo } from "react";
+import type Map from "ol/Map";
+import GeoJSON from "ol/format/GeoJSON";
+
+interface ComparisonPanelProps {
+  map: Map | null;
+}
+
+const geoJSONFormat = new GeoJSON();
+
+export function ComparisonPanel({ map }: ComparisonPanelProps) {
+  const {
+    result,
+    baseLabel,
+    targetLabel,
+    visibleStatuses,
+    focusedEntryIndex,
+    toggleStatus,
+    setFocusedEntry,
+    clearComparison,
+  } = useComparisonStore();
+
+  const visibleEntries = useMemo(
+    () =>
+      (result?.entries || [])
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ entry }) => visibleStatuses.has(entry.status)),
+    [result, visibleStatuses],
+  );
+
+  if (!result) return null;
+
+  const handleEntryClick = (entry: FeatureDiffEntry, index: number) => {
+    setFocusedEntry(index);
+
+    const feature = entry.target ?? entry.base;
+    if (!map || !feature?.geometry) return;
+
+    try {
+      const geometry = geoJSONFormat.readGeometry(feature.geometry, {
+        dataProjection: "EPSG:4326",
+        featureProjection: "EPSG:3857",
+      });
+      map.getView().fit(geometry.getExtent(), {
+        duration: 500,
+        padding: [80, 80, 80, 80],
+        maxZoom: 19,
+      });
+    } catch (error) {
+      console.error("Failed to zoom to comparison entry:", error);
+    }
+  };
+
+  const focusedEntry =
+    focusedEntryIndex !== null ? result.entries[focusedEntryIndex] : null;
+
+  return (
+    <div className="absolute left-4 top-30 w-80 max-h-[70vh] flex flex-col rounded-lg overflow-hidden bg-white dark:bg-slate-800 shadow-2xl border border-gray-200 dark:border-slate-700 z-30">
+      {/* Header */}
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-100 dark:border-slate-700">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <GitCompare className="h-4 w-4 text-blue-500" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              Comparison
+            </h3>
+          </div>
+          <p className="text-xs text-muted-foreground truncate mt-1">
+            {baseLabel} → {targetLabel}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={clearComparison}
+          className="h-6 w-6 text-gray-400 hover:text-gray-600"
+          aria-label="Close comparison"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Status filters */}
+      <div className="flex flex-wrap gap-1 px-4 py-2 border-b border-gray-100 dark:border-slate-700">
+        {FEATURE_DIFF_STATUSES.map((status) => {
+          const isVisible = visibleStatuses.has(status);
+          return (
+            <button
+              key={status}
+              onClick={() => toggleStatus(status)}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs border cursor-pointer transition-opacity ${
+                isVisible ? "opacity-100" : "opacity-40"
+              }`}
+              title={isVisible ? "Hide on map" : "Show on map"}
+            >
+              <span
+                className="inline-block w-2.5 h-2.5 rounded-full"
+                style={{ backgroundColor: FEATURE_DIFF_COLORS[status] }}
+              />
+              {FEATURE_DIFF_LABELS[status]} ({result.counts[status]})
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 overflow-y-auto">
+        {visibleEntries.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No differences to show
+          </div>
+        ) : (
+          visibleEntries.map(({ entry, index }) => (
+            <button
+              key={index}
+              onClick={() => handleEntryClick(entry, index)}
+              className={`w-full flex items-center gap-2 px-4 py-2 text-left text-sm border-b last:border-b-0 cursor-pointer ${
+                focusedEntryIndex === index ? "bg-blue-50" : "hover:bg-gray-50"
+              }`}
+            >
+              <span
+                className="inline-block w-2.5 h-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: FEATURE_DIFF_COLORS[entry.status] }}
+              />
+              <span className="truncate flex-1">{entry.label}</span>
+              <span className="text-xs text-muted-foreground shrink-0">
+                {FEATURE_DIFF_LABELS[entry.status]}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+
+      {/* Details of the focused entry */}
+      {focusedEntry && focusedEntry.changedProperties.length > 0 && (
+        <div className="px-4 py-2 border-t border-gray-100 dark:border-slate-700 text-xs max-h-40 overflow-y-auto">
+          <div className="font-medium mb-1">Changed properties</div>
+          {focusedEntry.changedProperties.map((key) => (
+            <div key={key} className="grid grid-cols-[90px_1fr] gap-1">
+              <span className="text-muted-foreground truncate">{key}</span>
+              <span className="truncate">
+                <span className="text-red-700 line-through">
+                  {String(focusedEntry.base?.properties?.[key] ?? "—")}
+                </span>{" "}
+                <span className="text-green-700">
+                  {String(focusedEntry.target?.properties?.[key] ?? "—")}
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {focusedEntry?.matchedBy === "proximity" && (
+        <div className="px-4 py-2 border-t border-gray-100 text-xs text-muted-foreground">
+          Matched by location (no shared ID)
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { LEGEND_TYPES } from "@/tools/legendsConfig";
+import { useComparisonStore } from "@/stores/useComparisonStore";
+import { useCrossingStore } from "@/stores/useCrossingStore";
+import { useTopologyStore } from "@/stores/useTopologyStore";
+import { usePathStore } from "@/stores/usePathStore";
+import {
+  DEFAULT_CROSSING_OPTIONS,
+  findCrossings,
+  type CrossingOptions,
+} from "@/utils/crossingUtils";
+import type Feature from "ol/Feature";
+import type { Geometry } from "ol/geom";
+import { useState } from "react";
+
+interface CrossingDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Features of the open job, read when the check runs
+  getFeatures: () => Feature<Geometry>[];
+}
+
+// The measure tool's lines are not routes or utilities
+const CROSSING_LEGEND_TYPES = LEGEND_TYPES.filter(
+  (legend) => legend.id !== "measure",
+);
+
+function LegendChecklist({
+  idPrefix,
+  label,
+  selected,
+  onChange,
+}: {
+  idPrefix: string;
+  label: string;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label>{label}</Label>
+      <div className="max-h-48 overflow-y-auto border rounded-md p-2 space-y-2">
+        {CROSSING_LEGEND_TYPES.map((legend) => (
+          <div key={legend.id} className="flex items-center space-x-2">
+            <Checkbox
+              id={`${idPrefix}-${legend.id}`}
+              checked={selected.includes(legend.id)}
+              onCheckedChange={(checked) =>
+                onChange(
+                  checked === true
+                    ? [...selected, legend.id]
+                    : selected.filter((id) => id !== legend.id),
+                )
+              }
+            />
+            <Label
+              htmlFor={`${idPrefix}-${legend.id}`}
+              className="text-sm font-normal leading-none cursor-pointer"
+            >
+              {legend.name}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Choose which legend types are proposed routes and which are existing
+ * utilities, then find where they cross (shown in CrossingPanel)
+ */
+export function CrossingDialog({
+  isOpen,
+  onClose,
+  getFeatures,
+}: CrossingDialogProps) {
+  const [options, setOptions] = useState<CrossingOptions>(
+    DEFAULT_CROSSING_OPTIONS,
+  );
+  const setCrossings = useCrossingStore((state) => state.setCrossings);
+
+  const canRun =
+    options.routeLegendIds.length > 0 && options.utilityLegendIds.length > 0;
+
+  const handleRun = () => {
+    try {
+      const crossings = findCrossings(getFeatures(), options);
+      // The panels share the same spot on the map
+      useComparisonStore.getState().clearComparison();
+      useTopologyStore.getState().clearIssues();
+      usePathStore.getState().closePathTool();
+      setCrossings(crossings);
+      onClose();
+    } catch (error) {
+      console.error("Crossing check failed:", error);
+      alert("Crossing check failed. Check console.");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Find Crossings</DialogTitle>
+          <DialogDescription>
+            Lists every point where a proposed route crosses an existing
+            utility, with its chainage along the route.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <LegendChecklist
+            idPrefix="crossing-route"
+            label="Proposed routes"
+            selected={options.routeLegendIds}
+            onChange={(routeLegendIds) =>
+              setOptions((prev) => ({ ...prev, routeLegendIds }))
+            }
+          />
+          <LegendChecklist
+            idPrefix="crossing-utility"
+            label="Existing utilities"
+            selected={options.utilityLegendIds}
+            onChange={(utilityLegendIds) =>
+              setOptions((prev) => ({ ...prev, utilityLegendIds }))
+            }
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleRun} disabled={!canRun}>
+            Find Crossings
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { Button } from "@/components/ui/button";
+import { useCrossingStore } from "@/stores/useCrossingStore";
+import { useFolderStore } from "@/stores/useFolderStore";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
+import { formatChainage } from "@/utils/chainageUtils";
+import { formatCrsCoordinate, getCrsAxisNames } from "@/utils/crsUtils";
+import {
+  createCrossingMarkers,
+  crossingsToRows,
+  type Crossing,
+} from "@/utils/crossingUtils";
+import { getIconCategories, getIconFullPath } from "@/utils/iconUtils";
+import { writeCsvRows } from "@/utils/spreadsheetUtils";
+import { Crosshair, Download, MapPin, X } from "lucide-react";
+import { useState } from "react";
+import type Map from "ol/Map";
+import type Feature from "ol/Feature";
+import type { Geometry } from "ol/geom";
+
+interface CrossingPanelProps {
+  map: Map | null;
+  // Add marker icons to the job
+  onAddMarkers: (features: Feature<Geometry>[]) => void;
+  onDownload: (blob: Blob, fileName: string) => void;
+  jobName?: string;
+}
+
+const SELECT_CLASS_NAME =
+  "flex h-8 w-full rounded-md border border-input bg-transparent px-2 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+const MARKER_ICON_CATEGORY = getIconCategories()[0];
+const DEFAULT_MARKER_ICON = "BRIDGE.png";
+
+export function CrossingPanel({
+  map,
+  onAddMarkers,
+  onDownload,
+  jobName,
+}: CrossingPanelProps) {
+  const { crossings, focusedIndex, setFocusedCrossing, clearCrossings } =
+    useCrossingStore();
+  const crs = useJobCrsStore((state) => state.crs);
+  const [markerIcon, setMarkerIcon] = useState(DEFAULT_MARKER_ICON);
+
+  if (!crossings) return null;
+
+  const handleCrossingClick = (crossing: Crossing, index: number) => {
+    setFocusedCrossing(index);
+    map?.getView().animate({
+      center: crossing.coordinate,
+      zoom: Math.max(map.getView().getZoom() ?? 0, 18),
+      duration: 500,
+    });
+  };
+
+  const handleAddMarkers = () => {
+    const iconPath = getIconFullPath(MARKER_ICON_CATEGORY.path, markerIcon);
+    const { activeFolderId } = useFolderStore.getState();
+    onAddMarkers(createCrossingMarkers(crossings, iconPath, activeFolderId));
+  };
+
+  const handleExportCsv = () => {
+    const csvText = writeCsvRows(
+      crossingsToRows(crossings, getCrsAxisNames(crs), (coordinate) =>
+        formatCrsCoordinate(coordinate, crs),
+      ),
+    );
+    onDownload(
+      new Blob([csvText], { type: "text/csv" }),
+      `${jobName || "map-export"}-crossings.csv`,
+    );
+  };
+
+  const axes = getCrsAxisNames(crs);
+
+  return (
+    <div className="absolute left-4 top-30 w-80 max-h-[70vh] flex flex-col rounded-lg overflow-hidden bg-white dark:bg-slate-800 shadow-2xl border border-gray-200 dark:border-slate-700 z-30">
+      {/* Header */}
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-100 dark:border-slate-700">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <Crosshair className="h-4 w-4 text-red-500" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              Crossings ({crossings.length})
+            </h3>
+          </div>
+          <p className="text-xs text-muted-foreground truncate mt-1">
+            Click a crossing to zoom to it
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={clearCrossings}
+          className="h-6 w-6 text-gray-400 hover:text-gray-600"
+          aria-label="Close crossings"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Crossings */}
+      <div className="flex-1 overflow-y-auto">
+        {crossings.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No crossings found
+          </div>
+        ) : (
+          crossings.map((crossing, index) => {
+            const [x, y] = formatCrsCoordinate(crossing.coordinate, crs);
+            return (
+              <button
+                key={index}
+                onClick={() => handleCrossingClick(crossing, index)}
+                className={`w-full px-4 py-2 text-left text-sm border-b last:border-b-0 cursor-pointer ${
+                  focusedIndex === index ? "bg-red-50" : "hover:bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground shrink-0 w-6">
+                    {index + 1}
+                  </span>
+                  <span className="truncate flex-1">{crossing.utilityLabel}</span>
+                  <span className="text-xs font-mono shrink-0">
+                    {formatChainage(crossing.chainage)}
+                  </span>
+                </div>
+                <div className="pl-8 text-xs text-muted-foreground truncate">
+                  {crossing.routeLabel} · {Math.round(crossing.angle)}°
+                </div>
+                <div className="pl-8 text-xs text-muted-foreground truncate">
+                  {axes.x} {x}, {axes.y} {y}
+                </div>
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {/* Actions */}
+      {crossings.length > 0 && (
+        <div className="px-4 py-2 border-t border-gray-100 dark:border-slate-700 space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={markerIcon}
+              onChange={(e) => setMarkerIcon(e.target.value)}
+              className={SELECT_CLASS_NAME}
+              title="Marker icon"
+            >
+              {MARKER_ICON_CATEGORY.icons.map((icon) => (
+                <option key={icon} value={icon}>
+                  {icon.replace(".png", "")}
+                </option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" onClick={handleAddMarkers}>
+              <MapPin className="h-4 w-4" />
+              Markers
+            </Button>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={handleExportCsv}
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
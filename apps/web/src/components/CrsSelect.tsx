@@ -0,0 +1,126 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CRS_KIND_LABELS,
+  CRS_PRESETS,
+  type CrsKind,
+  type CrsOption,
+} from "@/utils/crsUtils";
+
+interface CrsSelectProps {
+  id: string;
+  label?: string;
+  value: CrsOption;
+  onChange: (value: CrsOption) => void;
+  // UTM zone offered when switching to UTM
+  defaultUtm: { zone: number; south: boolean };
+  disabled?: boolean;
+}
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+/**
+ * Picker for the coordinate reference system of exchanged data
+ */
+export function CrsSelect({
+  id,
+  label = "Coordinate system",
+  value,
+  onChange,
+  defaultUtm,
+  disabled,
+}: CrsSelectProps) {
+  const handleKindChange = (kind: CrsKind) => {
+    if (kind === "utm") {
+      onChange({ kind, ...defaultUtm });
+    } else if (kind === "preset") {
+      onChange({ kind, code: CRS_PRESETS[0].code });
+    } else if (kind === "custom") {
+      onChange({ kind, definition: "" });
+    } else {
+      onChange({ kind });
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      <select
+        id={id}
+        value={value.kind}
+        onChange={(e) => handleKindChange(e.target.value as CrsKind)}
+        disabled={disabled}
+        className={SELECT_CLASS_NAME}
+      >
+        {(Object.keys(CRS_KIND_LABELS) as CrsKind[]).map((kind) => (
+          <option key={kind} value={kind}>
+            {CRS_KIND_LABELS[kind]}
+          </option>
+        ))}
+      </select>
+
+      {value.kind === "utm" && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${id}-zone`} className="font-normal shrink-0">
+            Zone
+          </Label>
+          <Input
+            id={`${id}-zone`}
+            type="number"
+            min={1}
+            max={60}
+            value={value.zone}
+            onChange={(e) => {
+              const zone = Math.round(Number(e.target.value));
+              if (zone >= 1 && zone <= 60) onChange({ ...value, zone });
+            }}
+            disabled={disabled}
+            className="w-20"
+          />
+          <select
+            aria-label="Hemisphere"
+            value={value.south ? "south" : "north"}
+            onChange={(e) =>
+              onChange({ ...value, south: e.target.value === "south" })
+            }
+            disabled={disabled}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="north">Northern hemisphere</option>
+            <option value="south">Southern hemisphere</option>
+          </select>
+        </div>
+      )}
+
+      {value.kind === "preset" && (
+        <select
+          aria-label="Built-in definition"
+          value={value.code}
+          onChange={(e) => onChange({ kind: "preset", code: e.target.value })}
+          disabled={disabled}
+          className={SELECT_CLASS_NAME}
+        >
+          {CRS_PRESETS.map((preset) => (
+            <option key={preset.code} value={preset.code}>
+              {preset.name} ({preset.code})
+            </option>
+          ))}
+        </select>
+      )}
+
+      {value.kind === "custom" && (
+        <Textarea
+          aria-label="CRS definition"
+          value={value.definition}
+          onChange={(e) => onChange({ ...value, definition: e.target.value })}
+          placeholder="+proj=tmerc +lat_0=0 +lon_0=... or PROJCS[...]"
+          disabled={disabled}
+          rows={3}
+          className="font-mono text-xs"
+        />
+      )}
+    </div>
+  );
+}
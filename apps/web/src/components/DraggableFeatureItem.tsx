@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Eye, EyeOff, Trash2, GripVertical, Pencil } from "lucide-react";
 import type { Feature } from "ol";
 import type { Geometry } from "ol/geom";
+import { getFeatureId } from "@/utils/featureIdUtils";
 import type { LucideIcon } from "lucide-react";
 import {
   ArrowUp,
@@ -15,6 +16,7 @@ import {
   Square,
   Spline,
   Cloud,
+  Shield,
   RulerDimensionLine,
   MoveVertical,
   Ruler,
@@ -42,6 +44,7 @@ function getFeatureIconColor(feature: Feature<Geometry>): string {
   if (feature.get("isCircle")) return "text-blue-500";
   if (feature.get("isArc")) return "text-blue-500";
   if (feature.get("isRevisionCloud")) return "text-orange-500";
+  if (feature.get("isBuffer")) return "text-red-500";
   if (feature.get("isText")) return "text-gray-700";
   if (feature.get("islegends")) return "text-gray-700";
   return "text-muted-foreground";
@@ -66,6 +69,7 @@ function getFeatureIcon(feature: Feature<Geometry>): LucideIcon {
   if (feature.get("isCircle")) return Circle;
   if (feature.get("isArc")) return Spline;
   if (feature.get("isRevisionCloud")) return Cloud;
+  if (feature.get("isBuffer")) return Shield;
 
   // Point/Icon features
   if (feature.get("isIcon")) return MapPin;
@@ -96,6 +100,7 @@ function getFeatureTypeName(feature: Feature<Geometry>): string {
   if (feature.get("isCircle")) return "Circle";
   if (feature.get("isArc")) return "Arc";
   if (feature.get("isRevisionCloud")) return "RevCloud";
+  if (feature.get("isBuffer")) return "Buffer";
   if (feature.get("isPoint")) return "Point";
 
   // Default based on geometry type
@@ -119,8 +124,7 @@ function getFeatureName(feature: Feature<Geometry>): string {
 
   // Generate default name based on type and ID
   const typeName = getFeatureTypeName(feature);
-  const uid = (feature as any).ol_uid;
-  return `${typeName} ${uid}`;
+  return `${typeName} ${getFeatureId(feature).slice(0, 8)}`;
 }
 
 export function DraggableFeatureItem({
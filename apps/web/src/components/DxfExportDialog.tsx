@@ -0,0 +1,117 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { CrsSelect } from "@/components/CrsSelect";
+import { getSuggestedCrs, type CrsOption } from "@/utils/crsUtils";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
+import type { DxfExportOptions, DxfLayering } from "@/utils/dxfUtils";
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface DxfExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: DxfExportOptions) => Promise<void>;
+  // Suggested UTM zone, usually the one at the map centre
+  defaultUtm: { zone: number; south: boolean };
+}
+
+const LAYERING_LABELS: Record<DxfLayering, string> = {
+  folder: "One layer per folder",
+  legend: "One layer per legend type",
+};
+
+export function DxfExportDialog({
+  isOpen,
+  onClose,
+  onExport,
+  defaultUtm,
+}: DxfExportDialogProps) {
+  const jobCrs = useJobCrsStore((state) => state.crs);
+  const [crs, setCrs] = useState<CrsOption>({ kind: "utm", ...defaultUtm });
+  const [layering, setLayering] = useState<DxfLayering>("folder");
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Suggest the job's system, or the zone at the map, on each open
+  const { zone: defaultZone, south: defaultSouth } = defaultUtm;
+  useEffect(() => {
+    if (isOpen) {
+      setCrs((current) =>
+        getSuggestedCrs(jobCrs, current, {
+          zone: defaultZone,
+          south: defaultSouth,
+        }),
+      );
+    }
+  }, [isOpen, jobCrs, defaultZone, defaultSouth]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({ crs, layering });
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => !open && !isExporting && onClose()}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export DXF</DialogTitle>
+          <DialogDescription>
+            DXF has no coordinate system of its own, so choose the one the
+            drawing should use.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <CrsSelect
+            id="dxf-export-crs"
+            value={crs}
+            onChange={setCrs}
+            defaultUtm={defaultUtm}
+            disabled={isExporting}
+          />
+
+          <div className="grid gap-2">
+            <Label htmlFor="dxf-export-layering">Layers</Label>
+            <select
+              id="dxf-export-layering"
+              value={layering}
+              onChange={(e) => setLayering(e.target.value as DxfLayering)}
+              disabled={isExporting}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+            >
+              {(Object.keys(LAYERING_LABELS) as DxfLayering[]).map((value) => (
+                <option key={value} value={value}>
+                  {LAYERING_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Export
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
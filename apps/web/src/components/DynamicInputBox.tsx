@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import type { Draw } from "ol/interaction";
+import { AlertCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
+import { useToolStore } from "@/stores/useToolStore";
+import { describeCrs, getCrsAxisNames } from "@/utils/crsUtils";
+import {
+  DYNAMIC_INPUT_HINT,
+  parseDynamicInput,
+  resolveDynamicInput,
+} from "@/utils/dynamicInputUtils";
+import { appendDrawVertex, getDrawSketchState } from "@/utils/interactionUtils";
+
+interface DynamicInputBoxProps {
+  isActive: boolean;
+  // Current draw interaction, read when input is applied
+  getDraw: () => Draw | null;
+}
+
+// Keys that start typed input when pressed over the map
+const START_KEY_PATTERN = /^[0-9.@-]$/;
+
+/**
+ * CAD-style input for placing the next vertex of a line by typed length,
+ * bearing or coordinates. Typing a number while drawing focuses the box.
+ */
+export function DynamicInputBox({ isActive, getDraw }: DynamicInputBoxProps) {
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const crs = useJobCrsStore((state) => state.crs);
+  const orthoMode = useToolStore((state) => state.orthoMode);
+
+  useEffect(() => {
+    if (!isActive) {
+      setValue("");
+      setError(null);
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) {
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (!START_KEY_PATTERN.test(event.key)) return;
+
+      event.preventDefault();
+      setValue(event.key);
+      setError(null);
+      inputRef.current?.focus();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isActive]);
+
+  if (!isActive) return null;
+
+  const handleApply = () => {
+    const draw = getDraw();
+    if (!draw || !value.trim()) return;
+
+    const command = parseDynamicInput(value);
+    if (!command) {
+      setError(`Not recognised. Try ${DYNAMIC_INPUT_HINT}`);
+      return;
+    }
+
+    try {
+      const coordinate = resolveDynamicInput(command, {
+        ...getDrawSketchState(draw),
+        orthoMode,
+        crs,
+      });
+      appendDrawVertex(draw, coordinate);
+      setValue("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      handleApply();
+    } else if (event.key === "Escape") {
+      // Let the draw interaction finish the line as well
+      setValue("");
+      setError(null);
+      inputRef.current?.blur();
+    }
+  };
+
+  const axes = getCrsAxisNames(crs);
+
+  return (
+    <div className="absolute bottom-14 left-1/2 -translate-x-1/2 z-30 w-80">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border p-2 space-y-1">
+        <Input
+          ref={inputRef}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Length, @bearing or coordinates, then Enter"
+          className="h-8 text-sm"
+        />
+        {error ? (
+          <div className="flex items-center gap-1 text-red-500 text-xs">
+            <AlertCircle className="h-3 w-3 shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {DYNAMIC_INPUT_HINT}
+            <br />
+            x,y = {axes.x}, {axes.y} in {describeCrs(crs)}
+            {orthoMode && " · Ortho on"}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
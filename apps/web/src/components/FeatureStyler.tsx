@@ -17,6 +17,14 @@ import {
   createPolygonStyle,
 } from "@/utils/styleUtils";
 import { getTextStyle } from "@/icons/Text";
+import {
+  computeChainageTicks,
+  formatChainage,
+  getChainageLabelTicks,
+  getChainageSettings,
+  getEndChainage,
+  supportsChainage,
+} from "@/utils/chainageUtils";
 import {
   supportsCustomLineStyle,
   DEFAULT_LINE_STYLE,
@@ -1127,6 +1135,36 @@ export const getFeatureStyle = (
     );
   }
 
+  // Handle Buffer features (clearance zones from the buffer tool)
+  if (
+    feature.get("isBuffer") &&
+    (type === "Polygon" || type === "MultiPolygon")
+  ) {
+    const strokeColor = feature.get("strokeColor") || "#dc2626";
+    const strokeWidth =
+      feature.get("strokeWidth") !== undefined ? feature.get("strokeWidth") : 1;
+    const strokeOpacity =
+      feature.get("strokeOpacity") !== undefined
+        ? feature.get("strokeOpacity")
+        : 1;
+    const fillColor = feature.get("fillColor") || "#dc2626";
+    const fillOpacity =
+      feature.get("fillOpacity") !== undefined
+        ? feature.get("fillOpacity")
+        : 0.15;
+    const strokeDash = feature.get("strokeDash") as number[] | undefined;
+    return getShapeStyles(
+      feature,
+      strokeColor,
+      strokeWidth,
+      strokeOpacity,
+      fillColor,
+      fillOpacity,
+      strokeDash,
+      resolution,
+    );
+  }
+
   // Handle Circle features
   if (
     feature.get("isCircle") &&
@@ -1221,7 +1259,10 @@ export const getFeatureStyle = (
 
     // Check if legend has text or zigzag pattern configured
     if (legendType.text || legendType.linePattern) {
-      return getTextAlongLineStyle(feature, legendType, resolution);
+      return [
+        ...getTextAlongLineStyle(feature, legendType, resolution),
+        ...getChainageStyles(feature, resolution, scaleFactor),
+      ];
     }
 
     const styles: Style[] = [];
@@ -1260,6 +1301,8 @@ export const getFeatureStyle = (
       }),
     );
 
+    styles.push(...getChainageStyles(feature, resolution, scaleFactor));
+
     // Vertices are only shown on hover/selection, not in default style
 
     return styles;
@@ -1339,6 +1382,8 @@ export const getFeatureStyle = (
       }
     }
 
+    styles.push(...getChainageStyles(feature, resolution, scaleFactor));
+
     // Vertices are only shown on hover/selection, not in default style
 
     return styles;
@@ -1444,3 +1489,118 @@ export const getMeasureTextStyle = (feature: FeatureLike): Style[] => {
 
   return styles;
 };
+
+/**
+ * Create chainage tick marks and labels along a route
+ * @param feature - Legend or polyline feature with chainage settings
+ * @param resolution - Map resolution, to size ticks in pixels
+ * @param scaleFactor - Scale factor for resolution-based sizing
+ * @returns Style array with tick and label styles, empty if chainage is off
+ */
+export const getChainageStyles = (
+  feature: FeatureLike,
+  resolution: number = 1,
+  scaleFactor: number = 1,
+): Style[] => {
+  if (!supportsChainage(feature)) return [];
+  const settings = getChainageSettings(feature);
+  if (!settings.enabled) return [];
+
+  const geometry = feature.getGeometry() as LineString;
+  const coordinates = geometry.getCoordinates();
+  const ticks = computeChainageTicks(coordinates, settings);
+  const groundLength = getEndChainage(coordinates, settings) - settings.start;
+  if (groundLength <= 0) return [];
+
+  const pixelSize = resolution * scaleFactor;
+  const minorHalf = 4 * pixelSize;
+  const majorHalf = 8 * pixelSize;
+  const labelOffset = majorHalf + 10 * pixelSize;
+
+  // Minor ticks closer than a few pixels apart would merge into a smear
+  const mapUnitsPerMetre = geometry.getLength() / groundLength;
+  const showMinor =
+    (settings.interval * mapUnitsPerMetre) / resolution >= 6;
+  // Zoomed out, only the route ends keep their labels
+  const showMajorLabels =
+    (settings.majorInterval * mapUnitsPerMetre) / resolution >= 40;
+
+  const legendTypeId = feature.get("legendType");
+  const legendType = legendTypeId ? getLegendById(legendTypeId) : undefined;
+  const tickColor =
+    feature.get("lineColor") || legendType?.style.strokeColor || "#000000";
+
+  // Short line across the route at a point
+  const crossLine = (coordinate: number[], angle: number, half: number) => {
+    const nx = -Math.sin(angle) * half;
+    const ny = Math.cos(angle) * half;
+    return [
+      [coordinate[0] - nx, coordinate[1] - ny],
+      [coordinate[0] + nx, coordinate[1] + ny],
+    ];
+  };
+
+  // Label beside the route, kept upright
+  const label = (coordinate: number[], angle: number, chainage: number) => {
+    const upright =
+      angle > Math.PI / 2 || angle < -Math.PI / 2 ? angle + Math.PI : angle;
+    return new Style({
+      text: new Text({
+        text: formatChainage(chainage),
+        font: "bold 11px Arial, sans-serif",
+        fill: new Fill({ color: "#000000" }),
+        stroke: new Stroke({ color: "#ffffff", width: 3 }),
+        rotation: -upright,
+        textAlign: "center",
+        textBaseline: "middle",
+      }),
+      geometry: new Point([
+        coordinate[0] - Math.sin(angle) * labelOffset,
+        coordinate[1] + Math.cos(angle) * labelOffset,
+      ]),
+      zIndex: 102,
+    });
+  };
+
+  const minorLines: number[][][] = [];
+  const majorLines: number[][][] = [];
+  const styles: Style[] = [];
+
+  if (showMinor) {
+    ticks
+      .filter((tick) => !tick.major)
+      .forEach((tick) => {
+        minorLines.push(crossLine(tick.coordinate, tick.angle, minorHalf));
+      });
+  }
+
+  // Major ticks and the route ends are labelled
+  const labelTicks = getChainageLabelTicks(coordinates, settings, ticks);
+  labelTicks.forEach((tick, index) => {
+    majorLines.push(crossLine(tick.coordinate, tick.angle, majorHalf));
+    if (showMajorLabels || index === 0 || index === labelTicks.length - 1) {
+      styles.push(label(tick.coordinate, tick.angle, tick.chainage));
+    }
+  });
+
+  if (minorLines.length > 0) {
+    styles.push(
+      new Style({
+        geometry: new MultiLineString(minorLines),
+        stroke: new Stroke({ color: tickColor, width: 1 }),
+        zIndex: 101,
+      }),
+    );
+  }
+  if (majorLines.length > 0) {
+    styles.push(
+      new Style({
+        geometry: new MultiLineString(majorLines),
+        stroke: new Stroke({ color: tickColor, width: 2 }),
+        zIndex: 101,
+      }),
+    );
+  }
+
+  return styles;
+};
@@ -1,11 +1,22 @@
-import JSZip from "jszip";
 import { Feature } from "ol";
-import GeoJSON from "ol/format/GeoJSON";
-import KML from "ol/format/KML";
 import type { Geometry } from "ol/geom";
 import type Map from "ol/Map";
 import { Vector as VectorSource } from "ol/source";
-import React from "react";
+import React, { useCallback } from "react";
+import { useFolderStore } from "@/stores/useFolderStore";
+import { ensureUniqueFeatureIds } from "@/utils/featureIdUtils";
+import { fitMapToFeatures } from "@/utils/mapStateUtils";
+import {
+  nestImportInFolder,
+  parseImportFile,
+  partitionDuplicateFeatures,
+  readImportFile,
+  remapClashingFolderIds,
+  removeUnusedFolders,
+  type FileImportOptions,
+  type ImportFileResult,
+  type ParsedImportFile,
+} from "@/utils/importUtils";
 
 export interface FileManagerProps {
   map: Map | null;
@@ -13,84 +24,155 @@ export interface FileManagerProps {
   fileInputRef: React.RefObject<HTMLInputElement | null>;
 }
 
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Invalid or unsupported file format.";
+
+/**
+ * Import files into the current job. Features are appended to the source,
+ * never replacing what is already there.
+ */
 export const useFileHandler = (
-  map: Map | null,
+  mapRef: React.RefObject<Map | null>,
   vectorSource: VectorSource<Feature<Geometry>>,
 ) => {
-  const handleFileChange = async (
-    event: React.ChangeEvent<HTMLInputElement>,
-  ) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const name = file.name.toLowerCase();
-    const reader = new FileReader();
+  // Parse one file and add its features and folders, reporting instead of
+  // throwing so one bad file doesn't stop a batch
+  const addFile = useCallback(
+    async (
+      fileName: string,
+      parse: () => Promise<ParsedImportFile>,
+      options: FileImportOptions,
+    ): Promise<ImportFileResult> => {
+      const result: ImportFileResult = { fileName, added: 0, duplicates: 0 };
 
-    reader.onload = async (e) => {
-      const data = e.target?.result;
-      if (!data) return;
+      try {
+        let parsed = await parse();
+        if (parsed.features.length === 0) {
+          return { ...result, error: "No valid features found in the file." };
+        }
 
-      let features: Feature<Geometry>[] = [];
+        const folderStore = useFolderStore.getState();
+        parsed = remapClashingFolderIds(
+          parsed,
+          new Set(Object.keys(folderStore.folders)),
+        );
 
-      try {
-        if (name.endsWith(".geojson") || name.endsWith(".json")) {
-          const json = JSON.parse(data as string);
-          features = new GeoJSON().readFeatures(json, {
-            featureProjection: "EPSG:3857",
-          });
-        } else if (name.endsWith(".kml")) {
-          features = new KML({ extractStyles: false }).readFeatures(data, {
-            featureProjection: "EPSG:3857",
-          });
-        } else if (name.endsWith(".kmz")) {
-          const zip = await JSZip.loadAsync(file);
-          const kmlFile = Object.keys(zip.files).find((f) =>
-            f.toLowerCase().endsWith(".kml"),
+        if (options.skipDuplicates) {
+          const { unique, duplicates } = partitionDuplicateFeatures(
+            parsed.features,
+            vectorSource,
           );
-          if (kmlFile) {
-            const kmlText = await zip.file(kmlFile)?.async("text");
-            if (kmlText) {
-              features = new KML({ extractStyles: false }).readFeatures(
-                kmlText,
-                {
-                  featureProjection: "EPSG:3857",
-                },
-              );
-            }
+          result.duplicates = duplicates.length;
+          if (unique.length === 0) return result;
+          if (duplicates.length > 0) {
+            parsed = removeUnusedFolders({ ...parsed, features: unique });
           }
         }
 
-        if (features.length === 0) {
-          alert("No valid features found in the file.");
-          return;
+        const hasOwnFolders = parsed.features.some((f) => f.get("folderId"));
+        if (options.alwaysCreateFolder || !hasOwnFolders) {
+          const folderId = folderStore.createFolder(
+            fileName.replace(/\.[^/.]+$/, ""),
+          );
+          parsed = nestImportInFolder(parsed, folderId);
         }
 
-        vectorSource.clear();
-        vectorSource.addFeatures(features);
-
-        const extent = vectorSource.getExtent();
-        if (extent) {
-          map?.getView().fit(extent, {
-            duration: 1000,
-            padding: [50, 50, 50, 50],
+        if (Object.keys(parsed.folders).length > 0) {
+          useFolderStore.getState().loadFromStorage({
+            folders: { ...useFolderStore.getState().folders, ...parsed.folders },
           });
-        } else {
-          console.log("No extent found");
         }
-      } catch (err) {
-        alert("Invalid or unsupported file format.");
+
+        // Imported ids may clash with features already on the map
+        ensureUniqueFeatureIds(parsed.features, vectorSource);
+        vectorSource.addFeatures(parsed.features);
+
+        return { ...result, added: parsed.features.length };
+      } catch (error) {
+        console.error(`Failed to import ${fileName}:`, error);
+        return { ...result, error: getErrorMessage(error) };
       }
-    };
+    },
+    [vectorSource],
+  );
 
-    if (name.endsWith(".kmz")) {
-      // JSZip reads blob directly, no need to use FileReader
-      reader.readAsArrayBuffer(file);
-    } else {
-      reader.readAsText(file);
+  const fitToFeatures = useCallback(() => {
+    const extent = vectorSource.getExtent();
+    if (extent && mapRef.current) {
+      fitMapToFeatures(mapRef.current, extent);
     }
-  };
+  }, [mapRef, vectorSource]);
+
+  // Import raw file data (browser FileReader or Electron IPC)
+  const importFileData = useCallback(
+    async (
+      fileName: string,
+      data: string | ArrayBuffer,
+      options: FileImportOptions = {},
+    ): Promise<ImportFileResult> => {
+      const result = await addFile(
+        fileName,
+        () => parseImportFile(fileName, data, options),
+        options,
+      );
+      if (result.added > 0) fitToFeatures();
+      return result;
+    },
+    [addFile, fitToFeatures],
+  );
+
+  // Import features already built from a file, e.g. mapped spreadsheet rows
+  const importParsedFile = useCallback(
+    async (
+      fileName: string,
+      parsed: ParsedImportFile,
+      options: FileImportOptions = {},
+    ): Promise<ImportFileResult> => {
+      const result = await addFile(fileName, async () => parsed, options);
+      if (result.added > 0) fitToFeatures();
+      return result;
+    },
+    [addFile, fitToFeatures],
+  );
+
+  // Import several browser files one after another
+  const importFiles = useCallback(
+    async (
+      files: File[],
+      options: FileImportOptions = {},
+    ): Promise<ImportFileResult[]> => {
+      const results: ImportFileResult[] = [];
+
+      for (const file of files) {
+        let data: string | ArrayBuffer;
+        try {
+          data = await readImportFile(file);
+        } catch (error) {
+          console.error(`Failed to read ${file.name}:`, error);
+          results.push({
+            fileName: file.name,
+            added: 0,
+            duplicates: 0,
+            error: "Could not read the file.",
+          });
+          continue;
+        }
+        results.push(
+          await addFile(
+            file.name,
+            () => parseImportFile(file.name, data, options),
+            options,
+          ),
+        );
+      }
+
+      if (results.some((result) => result.added > 0)) fitToFeatures();
+      return results;
+    },
+    [addFile, fitToFeatures],
+  );
 
-  return { handleFileChange };
+  return { importFileData, importFiles, importParsedFile };
 };
 
 // This component is now simplified as the file input is handled in MapEditor
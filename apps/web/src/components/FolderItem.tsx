@@ -30,6 +30,7 @@ import { FolderPropertiesDialog } from "./FolderPropertiesDialog";
 import type Map from "ol/Map";
 import type { Feature } from "ol";
 import type { Geometry } from "ol/geom";
+import { getFeatureId } from "@/utils/featureIdUtils";
 
 interface FolderItemProps {
   folder: FolderType;
@@ -46,11 +47,6 @@ interface FolderItemProps {
   children?: React.ReactNode;
 }
 
-// Get unique ID for feature
-function getFeatureId(feature: Feature<Geometry>): string {
-  return String((feature as any).ol_uid);
-}
-
 export function FolderItem({
   folder,
   features,
@@ -152,6 +148,7 @@ export function FolderItem({
       // Hide all
       featureIds.forEach((id) => hideFeature(id));
     }
+    onSaveMapState?.();
   };
 
   // Delete folder and all features inside
@@ -0,0 +1,248 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CrsSelect } from "@/components/CrsSelect";
+import {
+  DEFAULT_IMPORT_OPTIONS,
+  type FileImportOptions,
+  type ImportFileResult,
+} from "@/utils/importUtils";
+import { getSuggestedCrs, type CrsOption } from "@/utils/crsUtils";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
+import { DEFAULT_GPX_SIMPLIFY_TOLERANCE } from "@/utils/gpxUtils";
+import { AlertCircle, CheckCircle2, FileUp, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  files: File[];
+  onImport: (
+    files: File[],
+    options: FileImportOptions,
+  ) => Promise<ImportFileResult[]>;
+  // Suggested UTM zone for DXF files, usually the one at the map centre
+  defaultUtm: { zone: number; south: boolean };
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export function ImportDialog({
+  isOpen,
+  onClose,
+  files,
+  onImport,
+  defaultUtm,
+}: ImportDialogProps) {
+  const [skipDuplicates, setSkipDuplicates] = useState<boolean>(
+    DEFAULT_IMPORT_OPTIONS.skipDuplicates
+  );
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<ImportFileResult[] | null>(null);
+  const jobCrs = useJobCrsStore((state) => state.crs);
+  const [dxfCrs, setDxfCrs] = useState<CrsOption>({
+    kind: "utm",
+    ...defaultUtm,
+  });
+
+  // Start over whenever a new set of files is picked or dropped
+  useEffect(() => {
+    if (isOpen) setResults(null);
+  }, [isOpen, files]);
+
+  // Suggest the job's system, or the zone at the map, on each open
+  const { zone: defaultZone, south: defaultSouth } = defaultUtm;
+  useEffect(() => {
+    if (isOpen) {
+      setDxfCrs((current) =>
+        getSuggestedCrs(jobCrs, current, {
+          zone: defaultZone,
+          south: defaultSouth,
+        }),
+      );
+    }
+  }, [isOpen, jobCrs, defaultZone, defaultSouth]);
+
+  const [simplifyGpx, setSimplifyGpx] = useState(false);
+  const [gpxTolerance, setGpxTolerance] = useState(
+    DEFAULT_GPX_SIMPLIFY_TOLERANCE
+  );
+
+  const hasDxfFiles = files.some((file) =>
+    file.name.toLowerCase().endsWith(".dxf")
+  );
+  const hasGpxFiles = files.some((file) =>
+    file.name.toLowerCase().endsWith(".gpx")
+  );
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      setResults(
+        await onImport(files, {
+          skipDuplicates,
+          alwaysCreateFolder: DEFAULT_IMPORT_OPTIONS.alwaysCreateFolder,
+          dxfCrs: hasDxfFiles ? dxfCrs : undefined,
+          gpxSimplifyTolerance:
+            hasGpxFiles && simplifyGpx && gpxTolerance > 0
+              ? gpxTolerance
+              : undefined,
+        }),
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const totalAdded = results?.reduce((sum, r) => sum + r.added, 0) ?? 0;
+  const totalDuplicates =
+    results?.reduce((sum, r) => sum + r.duplicates, 0) ?? 0;
+  const failedCount = results?.filter((r) => r.error).length ?? 0;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => !open && !isImporting && onClose()}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="w-4 h-4" />
+            {results ? "Import summary" : `Import ${files.length} file(s)`}
+          </DialogTitle>
+          <DialogDescription>
+            {results
+              ? `${totalAdded} feature(s) added${
+                  totalDuplicates > 0
+                    ? `, ${totalDuplicates} duplicate(s) skipped`
+                    : ""
+                }${failedCount > 0 ? `, ${failedCount} file(s) failed` : ""}.`
+              : "Features are added to the current job, each file in its own folder."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-64 overflow-y-auto border rounded-md">
+          {results
+            ? results.map((result, index) => (
+                <div
+                  key={`${result.fileName}-${index}`}
+                  className="flex items-start gap-2 px-3 py-2 border-b last:border-b-0 text-sm"
+                >
+                  {result.error ? (
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-600" />
+                  ) : (
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="truncate">{result.fileName}</div>
+                    <div
+                      className={`text-xs ${result.error ? "text-red-600" : "text-muted-foreground"}`}
+                    >
+                      {result.error ??
+                        `${result.added} added${
+                          result.duplicates > 0
+                            ? `, ${result.duplicates} duplicate(s) skipped`
+                            : ""
+                        }`}
+                    </div>
+                  </div>
+                </div>
+              ))
+            : files.map((file, index) => (
+                <div
+                  key={`${file.name}-${index}`}
+                  className="flex items-center justify-between gap-2 px-3 py-2 border-b last:border-b-0 text-sm"
+                >
+                  <span className="truncate">{file.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {formatSize(file.size)}
+                  </span>
+                </div>
+              ))}
+        </div>
+
+        {!results && hasDxfFiles && (
+          <CrsSelect
+            id="import-dxf-crs"
+            value={dxfCrs}
+            onChange={setDxfCrs}
+            defaultUtm={defaultUtm}
+            disabled={isImporting}
+          />
+        )}
+
+        {!results && hasGpxFiles && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="import-simplify-gpx"
+              checked={simplifyGpx}
+              onCheckedChange={(checked) => setSimplifyGpx(checked === true)}
+              disabled={isImporting}
+            />
+            <Label htmlFor="import-simplify-gpx" className="font-normal">
+              Simplify GPX tracks to within
+            </Label>
+            <Input
+              type="number"
+              min={0.1}
+              step={0.5}
+              value={gpxTolerance}
+              onChange={(e) => setGpxTolerance(Number(e.target.value))}
+              disabled={isImporting || !simplifyGpx}
+              aria-label="Simplification tolerance in metres"
+              className="w-20 h-8"
+            />
+            <span className="text-sm">m</span>
+          </div>
+        )}
+
+        {!results && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="import-skip-duplicates"
+              checked={skipDuplicates}
+              onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+            />
+            <Label htmlFor="import-skip-duplicates" className="font-normal">
+              Skip features that are already in this job
+            </Label>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {results ? (
+            <Button onClick={onClose}>Close</Button>
+          ) : (
+            <>
+              <Button
+                variant="secondary"
+                onClick={onClose}
+                disabled={isImporting}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || files.length === 0}
+              >
+                {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Import
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CrsSelect } from "@/components/CrsSelect";
+import {
+  createCrsTransform,
+  describeCrs,
+  formatCrsCoordinate,
+  getCrsAxisNames,
+  type CrsOption,
+} from "@/utils/crsUtils";
+import type { Coordinate } from "ol/coordinate";
+import { AlertCircle } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+
+interface JobCrsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  crs: CrsOption;
+  onSave: (crs: CrsOption) => void;
+  // UTM zone offered when switching to UTM
+  defaultUtm: { zone: number; south: boolean };
+  // Map centre (EPSG:3857), previewed in the chosen system
+  previewCoordinate: Coordinate | null;
+}
+
+/**
+ * Coordinate system used to enter and show coordinates in the open job
+ */
+export function JobCrsDialog({
+  isOpen,
+  onClose,
+  crs,
+  onSave,
+  defaultUtm,
+  previewCoordinate,
+}: JobCrsDialogProps) {
+  const [value, setValue] = useState<CrsOption>(crs);
+
+  useEffect(() => {
+    if (isOpen) setValue(crs);
+  }, [isOpen, crs]);
+
+  // Validate the choice and show the map centre in it
+  const preview = useMemo(() => {
+    try {
+      createCrsTransform(value);
+      if (!previewCoordinate) return { error: null, text: null };
+      const axes = getCrsAxisNames(value);
+      const [x, y] = formatCrsCoordinate(previewCoordinate, value);
+      return { error: null, text: `${axes.x} ${x}, ${axes.y} ${y}` };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        text: null,
+      };
+    }
+  }, [value, previewCoordinate]);
+
+  const handleSave = () => {
+    if (preview.error) return;
+    onSave(value);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Job Coordinate System</DialogTitle>
+          <DialogDescription>
+            Coordinates are entered and shown in this system, and exports can
+            be written in it. Currently {describeCrs(crs)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2">
+          <CrsSelect
+            id="job-crs"
+            value={value}
+            onChange={setValue}
+            defaultUtm={defaultUtm}
+          />
+
+          {preview.text && (
+            <p className="text-xs text-muted-foreground">
+              Map centre: {preview.text}
+            </p>
+          )}
+          {preview.error && (
+            <div className="flex items-center gap-1 text-red-500 text-xs">
+              <AlertCircle className="h-3 w-3" />
+              <span>{preview.error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!preview.error}>
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,7 +22,7 @@ import { CreatingJob } from "./CreatingJob";
 import type { PGlite } from "@electric-sql/pglite";
 import type { Project } from "@/hooks/useMapProjects";
 import { useState } from "react";
-import { Edit2, MoreHorizontal, Trash2 } from "lucide-react";
+import { Cloud, Edit2, MoreHorizontal, Trash2 } from "lucide-react";
 import { useMapProjects } from "@/hooks/useMapProjects";
 import { LoadingOverlay } from "./LoadingOverlay";
 import { useNavigate } from "react-router";
@@ -32,12 +32,14 @@ interface JobSelectionProps {
   projects: Project[];
   currentProjectId: string | null;
   onSelectProject: (projectId: string) => Promise<PGlite | null>;
+  onServerSyncClick: () => void;
 }
 
 export function JobSelection({
   projects,
   currentProjectId,
   onSelectProject,
+  onServerSyncClick,
 }: JobSelectionProps) {
   const navigate = useNavigate();
   const [editingProject, setEditingProject] = useState<{
@@ -177,6 +179,14 @@ export function JobSelection({
                 ))}
               </DropdownMenuRadioGroup>
             )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={onServerSyncClick}
+              className="cursor-pointer"
+            >
+              <Cloud className="h-4 w-4 mr-2" />
+              Server sync...
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
 
@@ -5,9 +5,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useState, useEffect } from "react";
 import type Feature from "ol/Feature";
 import type { Geometry } from "ol/geom";
+import { DERIVED_FROM_KEY } from "@/utils/featureIdUtils";
 
 // Properties to exclude from display (internal OpenLayers properties)
-const EXCLUDED_PROPERTIES = ["geometry", "ol_uid"];
+const EXCLUDED_PROPERTIES = ["geometry", "ol_uid", DERIVED_FROM_KEY];
 
 interface MergePropertiesDialogProps {
   isOpen: boolean;
@@ -0,0 +1,144 @@
+import { Button } from "@/components/ui/button";
+import { usePathStore, type PathEndpoint } from "@/stores/usePathStore";
+import { formatLengthWithUnit } from "@/utils/propertyUtils";
+import { MapPin, Save, Waypoints, X } from "lucide-react";
+
+interface PathPanelProps {
+  // Keep the path in the job as a polyline
+  onSavePath: () => void;
+}
+
+const formatPathLength = (metres: number): string =>
+  formatLengthWithUnit(metres, metres < 1000 ? "m" : "km");
+
+function EndpointRow({
+  letter,
+  endpoint,
+  isPicking,
+  onPick,
+}: {
+  letter: string;
+  endpoint: PathEndpoint | null;
+  isPicking: boolean;
+  onPick: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-cyan-600 text-xs font-bold text-white">
+        {letter}
+      </span>
+      <span className="flex-1 truncate text-sm">
+        {isPicking
+          ? "Click the map or an icon..."
+          : (endpoint?.label ?? "Not picked")}
+      </span>
+      <Button
+        size="sm"
+        variant={isPicking ? "default" : "outline"}
+        className="h-6 px-2 text-xs"
+        onClick={onPick}
+      >
+        <MapPin className="h-3 w-3" />
+        Pick
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Shortest path between two picked points over the job's lines, with its
+ * length by legend type
+ */
+export function PathPanel({ onSavePath }: PathPanelProps) {
+  const { isActive, picking, start, end, path, error, setPicking, closePathTool } =
+    usePathStore();
+
+  if (!isActive) return null;
+
+  return (
+    <div className="absolute left-4 top-30 w-80 max-h-[70vh] flex flex-col rounded-lg overflow-hidden bg-white dark:bg-slate-800 shadow-2xl border border-gray-200 dark:border-slate-700 z-30">
+      {/* Header */}
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-100 dark:border-slate-700">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <Waypoints className="h-4 w-4 text-cyan-600" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              Shortest Path
+            </h3>
+          </div>
+          <p className="text-xs text-muted-foreground truncate mt-1">
+            Route length between two points on the drawn lines
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={closePathTool}
+          className="h-6 w-6 text-gray-400 hover:text-gray-600"
+          aria-label="Close shortest path"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Ends */}
+      <div className="px-4 py-3 space-y-2 border-b border-gray-100 dark:border-slate-700">
+        <EndpointRow
+          letter="A"
+          endpoint={start}
+          isPicking={picking === "start"}
+          onPick={() => setPicking(picking === "start" ? null : "start")}
+        />
+        <EndpointRow
+          letter="B"
+          endpoint={end}
+          isPicking={picking === "end"}
+          onPick={() => setPicking(picking === "end" ? null : "end")}
+        />
+      </div>
+
+      {/* Result */}
+      <div className="flex-1 overflow-y-auto">
+        {error && (
+          <div className="px-4 py-3 text-sm text-red-600">{error}</div>
+        )}
+        {path && (
+          <>
+            <div className="flex justify-between px-4 py-2 text-sm font-semibold border-b">
+              <span>Total length</span>
+              <span className="font-mono">{formatPathLength(path.length)}</span>
+            </div>
+            {path.byLegend.map((item) => (
+              <div
+                key={item.legendId ?? "none"}
+                className="flex justify-between gap-2 px-4 py-1.5 text-sm border-b last:border-b-0"
+              >
+                <span className="truncate text-muted-foreground">
+                  {item.label}
+                </span>
+                <span className="font-mono shrink-0">
+                  {formatPathLength(item.length)}
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {/* Actions */}
+      {path && (
+        <div className="px-4 py-2 border-t border-gray-100 dark:border-slate-700">
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={onSavePath}
+          >
+            <Save className="h-4 w-4" />
+            Save as polyline
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,9 +6,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { useLayoutStore } from "@/stores/layoutStore";
+import { useFolderStore } from "@/stores/useFolderStore";
 import { collectLegendMetadata } from "@/utils/legendMetadataUtils";
+import { collectQuantities } from "@/utils/quantitiesUtils";
+import {
+  formatScale,
+  getExportScaleDenominator,
+  type TitleBlockValues,
+} from "@/utils/titleBlockUtils";
+import type { Extent } from "ol/extent";
 import type VectorSource from "ol/source/Vector";
 import type { PageSize, PdfExportConfig, Resolution } from "@/types/pdf";
 import { DEFAULT_RESOLUTION, PAGE_SIZE_OPTIONS } from "@/types/pdf";
@@ -16,10 +25,17 @@ import type {
   ExportProgress,
   MapImageExportResult,
 } from "@/utils/mapImageExport";
+import type {
+  VectorExportFormat,
+  VectorExportOptions,
+} from "@/utils/vectorExport";
 import { Layout, Loader2, X } from "lucide-react";
 import { useState } from "react";
 import { useNavigate } from "react-router";
 
+// Map image for the layout editor, or a vector drawing saved directly
+type ExportOutput = "layout" | VectorExportFormat;
+
 interface PdfExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -27,31 +43,47 @@ interface PdfExportDialogProps {
     config: PdfExportConfig,
     onProgress: (progress: ExportProgress) => void,
   ) => Promise<MapImageExportResult>;
+  onVectorExport: (
+    options: VectorExportOptions,
+    onProgress: (progress: ExportProgress) => void,
+  ) => Promise<void>;
   isExporting: boolean;
   jobName?: string;
+  // Job being exported; layouts saved from the export belong to it
+  projectId?: string | null;
   vectorSource?: VectorSource;
+  // Area being exported, for the scale in title blocks
+  extent?: Extent | null;
 }
 
 export function PdfExportDialog({
   isOpen,
   onClose,
   onExport,
+  onVectorExport,
   isExporting,
   jobName,
+  projectId,
   vectorSource,
+  extent,
 }: PdfExportDialogProps) {
   const navigate = useNavigate();
+  const [output, setOutput] = useState<ExportOutput>("layout");
   const [pageSize, setPageSize] = useState<PageSize>("a4");
   const [resolution, _setResolution] = useState<Resolution>(DEFAULT_RESOLUTION);
   const [keepVectorLayerConstant, _setKeepVectorLayerConstant] = useState(false);
   const [progress, setProgress] = useState<ExportProgress | null>(null);
   const [selectedLayoutId, setSelectedLayoutId] = useState<string>("");
+  const [includeQuantities, setIncludeQuantities] = useState(false);
+  const [quantitiesByFolder, setQuantitiesByFolder] = useState(false);
+  const [includeBasemap, setIncludeBasemap] = useState(true);
   console.log("JOB NAME", jobName);
 
   const layouts = useLayoutStore((state) => state.layouts);
   const setPendingBackground = useLayoutStore(
     (state) => state.setPendingBackground,
   );
+  const folders = useFolderStore((state) => state.folders);
   const selectedLayout = layouts.find((l) => l.id === selectedLayoutId);
 
   const handleExport = async () => {
@@ -62,6 +94,16 @@ export function PdfExportDialog({
     });
 
     try {
+      if (output !== "layout") {
+        await onVectorExport(
+          { format: output, pageSize, includeBasemap },
+          setProgress,
+        );
+        setProgress(null);
+        onClose();
+        return;
+      }
+
       const result = await onExport(
         {
           pageSize,
@@ -74,9 +116,40 @@ export function PdfExportDialog({
 
       // Collect legend/icon metadata from map features
       const legendMetadata = vectorSource ? collectLegendMetadata(vectorSource) : null;
+      const quantities =
+        vectorSource && includeQuantities
+          ? collectQuantities(vectorSource.getFeatures(), {
+              byFolder: quantitiesByFolder,
+              folders,
+            })
+          : null;
+
+      // Title block fields known from the project and the exported area
+      const titleBlockValues: Partial<TitleBlockValues> = {
+        date: new Date().toLocaleDateString(),
+      };
+      if (jobName) titleBlockValues.jobName = jobName;
+      if (extent) {
+        titleBlockValues.scale = formatScale(
+          getExportScaleDenominator(extent, pageSize),
+        );
+      }
 
       // Store the image and metadata in Zustand
-      setPendingBackground(result.dataURL, pageSize, selectedLayoutId || null, jobName, legendMetadata);
+      setPendingBackground({
+        image: result.dataURL,
+        pageSize,
+        layoutId: selectedLayoutId || null,
+        layoutName: jobName,
+        projectId,
+        legendMetadata,
+        quantities,
+        titleBlockValues,
+        mapScale: {
+          metersPerPixel: result.metersPerPixel,
+          rotation: result.rotation,
+        },
+      });
 
       // Navigate to layout editor
       const targetPath = selectedLayoutId
@@ -103,10 +176,28 @@ export function PdfExportDialog({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Export to Layout Editor</DialogTitle>
+          <DialogTitle>
+            {output === "layout" ? "Export to Layout Editor" : "Export Vector Drawing"}
+          </DialogTitle>
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
+          {/* Output Dropdown */}
+          <div className="grid gap-2">
+            <Label htmlFor="export-output">Output</Label>
+            <select
+              id="export-output"
+              value={output}
+              onChange={(e) => setOutput(e.target.value as ExportOutput)}
+              disabled={isExporting}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+            >
+              <option value="layout">Layout editor (image)</option>
+              <option value="pdf">Vector PDF</option>
+              <option value="svg">SVG</option>
+            </select>
+          </div>
+
           {/* Page Size Dropdown */}
           <div className="grid gap-2">
             <Label htmlFor="page-size">Page Size</Label>
@@ -168,52 +259,112 @@ export function PdfExportDialog({
             </Label>
           </div> */}
 
-          {/* Layout Overlay Selector */}
-          <div className="grid gap-2">
-            <Label htmlFor="layout-select">Layout Overlay</Label>
-            <select
-              id="layout-select"
-              value={selectedLayoutId}
-              onChange={(e) => setSelectedLayoutId(e.target.value)}
-              disabled={isExporting}
-              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
-            >
-              <option value="">No layout</option>
-              {layouts.map((layout) => (
-                <option key={layout.id} value={layout.id}>
-                  {layout.name}
-                </option>
-              ))}
-            </select>
-          </div>
+          {/* Basemap Underlay */}
+          {output !== "layout" && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="include-basemap"
+                checked={includeBasemap}
+                onCheckedChange={(checked) => setIncludeBasemap(checked === true)}
+                disabled={isExporting}
+              />
+              <Label
+                htmlFor="include-basemap"
+                className="text-sm font-medium leading-none cursor-pointer"
+              >
+                Include basemap (as an image under the features)
+              </Label>
+            </div>
+          )}
 
-          {/* Layout Preview */}
-          {selectedLayout && (
-            <div className="grid gap-2">
-              <div className="flex items-center justify-between">
-                <Label>Layout Preview</Label>
-                <button
-                  onClick={() => setSelectedLayoutId("")}
-                  className="p-1 hover:bg-muted rounded transition-colors"
-                  title="Clear selection"
+          {output === "layout" && (
+            <>
+              {/* Layout Overlay Selector */}
+              <div className="grid gap-2">
+                <Label htmlFor="layout-select">Layout Overlay</Label>
+                <select
+                  id="layout-select"
+                  value={selectedLayoutId}
+                  onChange={(e) => setSelectedLayoutId(e.target.value)}
+                  disabled={isExporting}
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
                 >
-                  <X className="w-4 h-4 text-muted-foreground" />
-                </button>
+                  <option value="">No layout</option>
+                  {layouts.map((layout) => (
+                    <option key={layout.id} value={layout.id}>
+                      {layout.name}
+                    </option>
+                  ))}
+                </select>
               </div>
-              <div className="relative border border-border rounded-lg overflow-hidden bg-[repeating-linear-gradient(45deg,#f0f0f0_0px,#f0f0f0_10px,#ffffff_10px,#ffffff_20px)]">
-                {selectedLayout.previewImage ? (
-                  <img
-                    src={selectedLayout.previewImage}
-                    alt={selectedLayout.name}
-                    className="w-full h-32 object-contain"
+
+              {/* Layout Preview */}
+              {selectedLayout && (
+                <div className="grid gap-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Layout Preview</Label>
+                    <button
+                      onClick={() => setSelectedLayoutId("")}
+                      className="p-1 hover:bg-muted rounded transition-colors"
+                      title="Clear selection"
+                    >
+                      <X className="w-4 h-4 text-muted-foreground" />
+                    </button>
+                  </div>
+                  <div className="relative border border-border rounded-lg overflow-hidden bg-[repeating-linear-gradient(45deg,#f0f0f0_0px,#f0f0f0_10px,#ffffff_10px,#ffffff_20px)]">
+                    {selectedLayout.previewImage ? (
+                      <img
+                        src={selectedLayout.previewImage}
+                        alt={selectedLayout.name}
+                        className="w-full h-32 object-contain"
+                      />
+                    ) : (
+                      <div className="w-full h-32 flex items-center justify-center">
+                        <Layout className="w-8 h-8 text-muted-foreground/50" />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Bill of Quantities */}
+              <div className="grid gap-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="include-quantities"
+                    checked={includeQuantities}
+                    onCheckedChange={(checked) =>
+                      setIncludeQuantities(checked === true)
+                    }
+                    disabled={isExporting}
                   />
-                ) : (
-                  <div className="w-full h-32 flex items-center justify-center">
-                    <Layout className="w-8 h-8 text-muted-foreground/50" />
+                  <Label
+                    htmlFor="include-quantities"
+                    className="text-sm font-medium leading-none cursor-pointer"
+                  >
+                    Include bill of quantities table
+                  </Label>
+                </div>
+                {includeQuantities && (
+                  <div className="flex items-center space-x-2 pl-6">
+                    <Checkbox
+                      id="quantities-by-folder"
+                      checked={quantitiesByFolder}
+                      onCheckedChange={(checked) =>
+                        setQuantitiesByFolder(checked === true)
+                      }
+                      disabled={isExporting}
+                    />
+                    <Label
+                      htmlFor="quantities-by-folder"
+                      className="text-sm font-medium leading-none cursor-pointer"
+                    >
+                      Group by folder
+                    </Label>
                   </div>
                 )}
               </div>
-            </div>
+            </>
           )}
 
           {/* Progress Bar */}
@@ -245,8 +396,10 @@ export function PdfExportDialog({
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Exporting...
               </>
-            ) : (
+            ) : output === "layout" ? (
               "Export to Layout"
+            ) : (
+              `Export ${output.toUpperCase()}`
             )}
           </Button>
         </div>
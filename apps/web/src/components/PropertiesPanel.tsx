@@ -12,6 +12,7 @@ import {
   AlertCircle,
 } from "lucide-react";
 import { useToolStore } from "@/stores/useToolStore";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -20,6 +21,11 @@ import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { EditableSliderValue } from "@/components/ui/editable-slider-value";
 import { DEFAULT_LINE_STYLE } from "@/utils/featureTypeUtils";
+import {
+  getCrsAxisNames,
+  isGeographicCrs,
+  type CrsOption,
+} from "@/utils/crsUtils";
 import {
   isProtectedProperty,
   isCalculatedProperty,
@@ -33,6 +39,19 @@ import { useShapeStyleEditor } from "@/hooks/useShapeStyleEditor";
 import { useIconPropertiesEditor } from "@/hooks/useIconPropertiesEditor";
 import { usePointOpacityEditor } from "@/hooks/usePointOpacityEditor";
 import { useTextStyleEditor } from "@/hooks/useTextStyleEditor";
+import {
+  useChainageEditor,
+  type UseChainageEditorReturn,
+} from "@/hooks/useChainageEditor";
+import { formatChainage } from "@/utils/chainageUtils";
+import {
+  useNetworkAttributesEditor,
+  type UseNetworkAttributesEditorReturn,
+} from "@/hooks/useNetworkAttributesEditor";
+import {
+  formatNetworkAttribute,
+  type NetworkAttribute,
+} from "@/utils/networkUtils";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -108,6 +127,9 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     properties.isEditing,
   );
 
+  const chainage = useChainageEditor(selectedFeature, map);
+  const network = useNetworkAttributesEditor(selectedFeature, map);
+
   // Validation error state
   const [nameError, setNameError] = useState<string | null>(null);
 
@@ -199,6 +221,8 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     pointOpacity.commitOpacity();
     iconProperties.commitIconProperties();
     textStyle.commitTextStyle();
+    chainage.commitChainage();
+    network.commitNetworkAttributes();
 
     // Resume drawing if paused and close the panel
     const { isDrawingPaused, resumeDrawing } = useToolStore.getState();
@@ -215,6 +239,8 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     pointOpacity.resetToOriginal();
     iconProperties.resetToOriginal();
     textStyle.resetToOriginal();
+    chainage.resetToOriginal();
+    network.resetToOriginal();
 
     // Resume drawing if paused and close the panel
     const { isDrawingPaused, resumeDrawing } = useToolStore.getState();
@@ -289,6 +315,22 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 />
               )}
 
+              {/* Chainage Controls (legend routes and polylines) */}
+              {chainage.supportsChainageSettings && (
+                <ChainageSection
+                  chainage={chainage}
+                  isEditing={properties.isEditing}
+                />
+              )}
+
+              {/* Network Attributes (route segments and nodes) */}
+              {network.supportsNetworkAttributes && (
+                <NetworkSection
+                  network={network}
+                  isEditing={properties.isEditing}
+                />
+              )}
+
               {/* Shape Style Controls (Box and Circle) */}
               {shapeStyle.supportsShapeStyle && (
                 <ShapeStyleSection
@@ -488,11 +530,19 @@ interface PropertyDisplayListProps {
   onLengthUnitChange: (unit: LengthUnit) => void;
 }
 
+// long/lat hold an easting and northing when the job uses a projected system
+const getPropertyKeyLabel = (key: string, crs: CrsOption): string => {
+  if ((key !== "long" && key !== "lat") || isGeographicCrs(crs)) return key;
+  return key === "long" ? "easting" : "northing";
+};
+
 const PropertyDisplayList: React.FC<PropertyDisplayListProps> = ({
   properties,
   lengthUnit,
   onLengthUnitChange,
 }) => {
+  const crs = useJobCrsStore((state) => state.crs);
+
   if (properties.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500 dark:text-gray-400">
@@ -559,7 +609,7 @@ const PropertyDisplayList: React.FC<PropertyDisplayListProps> = ({
             className="flex items-center gap-2 py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors"
           >
             <span className="font-medium text-gray-700 dark:text-gray-300 capitalize flex-1">
-              {prop.key}:
+              {getPropertyKeyLabel(prop.key, crs)}:
             </span>
             {prop.key === "length" ? (
               <LengthValueWithUnit
@@ -602,6 +652,8 @@ const PropertyEditList: React.FC<PropertyEditListProps> = ({
   onLengthUnitChange,
   nameError,
 }) => {
+  const crs = useJobCrsStore((state) => state.crs);
+
   if (properties.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500 dark:text-gray-400 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg">
@@ -677,7 +729,9 @@ const PropertyEditList: React.FC<PropertyEditListProps> = ({
               />
               <Input
                 placeholder="Property name"
-                value={prop.key}
+                value={
+                  isReadOnly ? getPropertyKeyLabel(prop.key, crs) : prop.key
+                }
                 onChange={(e) => onUpdate(prop.id, "key", e.target.value)}
                 className={`flex-1 text-sm ${
                   isReadOnly || isCalculated
@@ -1454,6 +1508,312 @@ const ShapeStyleEditor: React.FC<ShapeStyleEditorProps> = ({ shapeStyle }) => {
 };
 
 // Point/Icon Opacity Section
+interface ChainageSectionProps {
+  chainage: UseChainageEditorReturn;
+  isEditing: boolean;
+}
+
+const ChainageSection: React.FC<ChainageSectionProps> = ({
+  chainage,
+  isEditing,
+}) => {
+  return (
+    <div className="border-t border-gray-100 dark:border-slate-700 pt-4 mt-4">
+      <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">
+        Chainage
+      </h4>
+
+      {!isEditing ? (
+        <ChainageDisplay chainage={chainage} />
+      ) : (
+        <ChainageEditor chainage={chainage} />
+      )}
+    </div>
+  );
+};
+
+const ChainageDisplay: React.FC<{ chainage: UseChainageEditorReturn }> = ({
+  chainage,
+}) => {
+  const { settings, endChainage } = chainage;
+  const rows = settings.enabled
+    ? [
+        { label: "Ticks", value: `every ${settings.interval}m` },
+        { label: "Labels", value: `every ${settings.majorInterval}m` },
+        { label: "Start", value: formatChainage(settings.start) },
+        {
+          label: "End",
+          value: endChainage !== null ? formatChainage(endChainage) : "-",
+        },
+      ]
+    : [{ label: "Chainage", value: "Off" }];
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div
+          key={row.label}
+          className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors"
+        >
+          <span className="font-medium text-gray-700 dark:text-gray-300">
+            {row.label}:
+          </span>
+          <span className="text-gray-600 dark:text-gray-400">{row.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface ChainageNumberInputProps {
+  id: string;
+  label: string;
+  value: number;
+  // Whether the value must be greater than zero
+  positive?: boolean;
+  onChange: (value: number) => void;
+}
+
+const ChainageNumberInput: React.FC<ChainageNumberInputProps> = ({
+  id,
+  label,
+  value,
+  positive = false,
+  onChange,
+}) => {
+  const [text, setText] = useState(String(value));
+
+  // Follow outside changes, e.g. cancel restoring the original value
+  useEffect(() => {
+    setText((current) =>
+      parseFloat(current) === value ? current : String(value),
+    );
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const number = parseFloat(next);
+    if (Number.isFinite(number) && (!positive || number > 0)) {
+      onChange(number);
+    }
+  };
+
+  return (
+    <div>
+      <Label
+        htmlFor={id}
+        className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+      >
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={positive ? 0 : undefined}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        className="h-8 text-sm"
+      />
+    </div>
+  );
+};
+
+const ChainageEditor: React.FC<{ chainage: UseChainageEditorReturn }> = ({
+  chainage,
+}) => {
+  const { settings, endChainage, handleSettingsChange } = chainage;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between py-2 px-3 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+        <Label className="text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+          Show Chainage
+        </Label>
+        <Checkbox
+          checked={settings.enabled}
+          onCheckedChange={(checked) =>
+            handleSettingsChange({ enabled: checked === true })
+          }
+        />
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <ChainageNumberInput
+              id="chainage-interval"
+              label="Tick every (m)"
+              value={settings.interval}
+              positive
+              onChange={(interval) => handleSettingsChange({ interval })}
+            />
+            <ChainageNumberInput
+              id="chainage-major-interval"
+              label="Label every (m)"
+              value={settings.majorInterval}
+              positive
+              onChange={(majorInterval) =>
+                handleSettingsChange({ majorInterval })
+              }
+            />
+          </div>
+          <ChainageNumberInput
+            id="chainage-start"
+            label="Start chainage (m)"
+            value={settings.start}
+            onChange={(start) => handleSettingsChange({ start })}
+          />
+          {endChainage !== null && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatChainage(settings.start)} to {formatChainage(endChainage)}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Network Attributes Section
+interface NetworkSectionProps {
+  network: UseNetworkAttributesEditorReturn;
+  isEditing: boolean;
+}
+
+const SELECT_CLASS_NAME =
+  "flex h-8 w-full rounded-md border border-input bg-transparent px-2 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+const NetworkSection: React.FC<NetworkSectionProps> = ({
+  network,
+  isEditing,
+}) => {
+  const title =
+    network.role === "segment"
+      ? "Route Segment"
+      : `Network Node (${network.nodeType})`;
+
+  return (
+    <div className="border-t border-gray-100 dark:border-slate-700 pt-4 mt-4">
+      <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">
+        {title}
+      </h4>
+
+      {!isEditing ? (
+        <NetworkDisplay network={network} />
+      ) : (
+        <NetworkEditor network={network} />
+      )}
+    </div>
+  );
+};
+
+const NetworkDisplay: React.FC<{ network: UseNetworkAttributesEditorReturn }> = ({
+  network,
+}) => {
+  const { attributes, values, connections } = network;
+  const rows = attributes.map((attribute) => ({
+    label: attribute.label,
+    value: formatNetworkAttribute(attribute, values[attribute.key] ?? ""),
+  }));
+  if (connections) {
+    rows.push(
+      { label: "From node", value: connections.from ?? "Not connected" },
+      { label: "To node", value: connections.to ?? "Not connected" },
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div
+          key={row.label}
+          className="flex justify-between gap-2 py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors"
+        >
+          <span className="font-medium text-gray-700 dark:text-gray-300 shrink-0">
+            {row.label}:
+          </span>
+          <span className="text-gray-600 dark:text-gray-400 truncate">
+            {row.value}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface NetworkAttributeInputProps {
+  attribute: NetworkAttribute;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const NetworkAttributeInput: React.FC<NetworkAttributeInputProps> = ({
+  attribute,
+  value,
+  onChange,
+}) => {
+  const id = `network-${attribute.key}`;
+
+  return (
+    <div>
+      <Label
+        htmlFor={id}
+        className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+      >
+        {attribute.label}
+      </Label>
+      {attribute.type === "select" ? (
+        <select
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="">-</option>
+          {/* Keep values set outside the schema, e.g. from an imported KML */}
+          {value && !attribute.options?.includes(value) && (
+            <option value={value}>{value}</option>
+          )}
+          {attribute.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+              {attribute.unit ?? ""}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <Input
+          id={id}
+          type="number"
+          min={0}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-8 text-sm"
+        />
+      )}
+    </div>
+  );
+};
+
+const NetworkEditor: React.FC<{ network: UseNetworkAttributesEditorReturn }> = ({
+  network,
+}) => {
+  const { attributes, values, handleValueChange } = network;
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {attributes.map((attribute) => (
+        <NetworkAttributeInput
+          key={attribute.key}
+          attribute={attribute}
+          value={values[attribute.key] ?? ""}
+          onChange={(value) => handleValueChange(attribute.key, value)}
+        />
+      ))}
+    </div>
+  );
+};
+
 interface PointOpacitySectionProps {
   pointOpacity: {
     opacity: number;
@@ -2086,83 +2446,87 @@ const TextStyleDisplay: React.FC<TextStyleDisplayProps> = ({
   textStrokeColor,
   longitude,
   latitude,
-}) => (
-  <div className="space-y-2">
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Text:
-      </span>
-      <span className="text-gray-600 dark:text-gray-400 truncate max-w-[150px]">
-        {text || <span className="italic text-gray-400">Empty</span>}
-      </span>
-    </div>
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Longitude:
-      </span>
-      <span className="text-gray-600 dark:text-gray-400">{longitude}</span>
-    </div>
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Latitude:
-      </span>
-      <span className="text-gray-600 dark:text-gray-400">{latitude}</span>
-    </div>
+}) => {
+  const axes = getCrsAxisNames(useJobCrsStore((state) => state.crs));
 
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Scale:
-      </span>
-      <span className="text-gray-600 dark:text-gray-400">
-        {textScale.toFixed(1)}x
-      </span>
-    </div>
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Rotation:
-      </span>
-      <span className="text-gray-600 dark:text-gray-400">
-        {Math.round(textRotation)}°
-      </span>
-    </div>
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Opacity:
-      </span>
-      <span className="text-gray-600 dark:text-gray-400">
-        {Math.round(textOpacity * 100)}%
-      </span>
-    </div>
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Fill Color:
-      </span>
-      <div className="flex items-center gap-2">
-        <div
-          className="w-6 h-6 rounded border border-gray-300 dark:border-gray-600"
-          style={{ backgroundColor: textFillColor }}
-        />
-        <span className="text-gray-600 dark:text-gray-400 font-mono text-xs">
-          {textFillColor.toUpperCase()}
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Text:
+        </span>
+        <span className="text-gray-600 dark:text-gray-400 truncate max-w-[150px]">
+          {text || <span className="italic text-gray-400">Empty</span>}
         </span>
       </div>
-    </div>
-    <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
-      <span className="font-medium text-gray-700 dark:text-gray-300">
-        Stroke Color:
-      </span>
-      <div className="flex items-center gap-2">
-        <div
-          className="w-6 h-6 rounded border border-gray-300 dark:border-gray-600"
-          style={{ backgroundColor: textStrokeColor }}
-        />
-        <span className="text-gray-600 dark:text-gray-400 font-mono text-xs">
-          {textStrokeColor.toUpperCase()}
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          {axes.x}:
         </span>
+        <span className="text-gray-600 dark:text-gray-400">{longitude}</span>
+      </div>
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          {axes.y}:
+        </span>
+        <span className="text-gray-600 dark:text-gray-400">{latitude}</span>
+      </div>
+
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Scale:
+        </span>
+        <span className="text-gray-600 dark:text-gray-400">
+          {textScale.toFixed(1)}x
+        </span>
+      </div>
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Rotation:
+        </span>
+        <span className="text-gray-600 dark:text-gray-400">
+          {Math.round(textRotation)}°
+        </span>
+      </div>
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Opacity:
+        </span>
+        <span className="text-gray-600 dark:text-gray-400">
+          {Math.round(textOpacity * 100)}%
+        </span>
+      </div>
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Fill Color:
+        </span>
+        <div className="flex items-center gap-2">
+          <div
+            className="w-6 h-6 rounded border border-gray-300 dark:border-gray-600"
+            style={{ backgroundColor: textFillColor }}
+          />
+          <span className="text-gray-600 dark:text-gray-400 font-mono text-xs">
+            {textFillColor.toUpperCase()}
+          </span>
+        </div>
+      </div>
+      <div className="flex justify-between py-2 px-3 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Stroke Color:
+        </span>
+        <div className="flex items-center gap-2">
+          <div
+            className="w-6 h-6 rounded border border-gray-300 dark:border-gray-600"
+            style={{ backgroundColor: textStrokeColor }}
+          />
+          <span className="text-gray-600 dark:text-gray-400 font-mono text-xs">
+            {textStrokeColor.toUpperCase()}
+          </span>
+        </div>
       </div>
     </div>
-  </div>
-);
+  );
+};
 
 type TextAlign = "left" | "center" | "right";
 
@@ -2196,6 +2560,7 @@ const TextStyleEditor: React.FC<TextStyleEditorProps> = ({
   onSave,
   onCancel,
 }) => {
+  const axes = getCrsAxisNames(useJobCrsStore((state) => state.crs));
   const handleTextKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && e.altKey) {
       // Alt+Enter: insert newline
@@ -2259,7 +2624,7 @@ const TextStyleEditor: React.FC<TextStyleEditorProps> = ({
       {/* Longitude Input */}
       <div>
         <Label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Longitude
+          {axes.x}
         </Label>
         <Input
           type="number"
@@ -2275,7 +2640,7 @@ const TextStyleEditor: React.FC<TextStyleEditorProps> = ({
       {/* Latitude Input */}
       <div>
         <Label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Latitude
+          {axes.y}
         </Label>
         <Input
           type="number"
@@ -0,0 +1,173 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { useFolderStore } from "@/stores/useFolderStore";
+import {
+  collectQuantities,
+  formatQuantity,
+  quantitiesToRows,
+  quantitiesToSheets,
+  type QuantitiesReport,
+} from "@/utils/quantitiesUtils";
+import { writeCsvRows, writeXlsx } from "@/utils/spreadsheetUtils";
+import type Feature from "ol/Feature";
+import { Download } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface QuantitiesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Features of the open job, read when the dialog opens
+  getFeatures: () => Feature[];
+  jobName?: string;
+  onDownload: (blob: Blob, fileName: string) => void;
+}
+
+/**
+ * Bill of quantities for the open job: total length of each legend type
+ * and count of each icon, optionally per folder
+ */
+export function QuantitiesDialog({
+  isOpen,
+  onClose,
+  getFeatures,
+  jobName,
+  onDownload,
+}: QuantitiesDialogProps) {
+  const folders = useFolderStore((state) => state.folders);
+  const [byFolder, setByFolder] = useState(false);
+  const [report, setReport] = useState<QuantitiesReport | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReport(collectQuantities(getFeatures(), { byFolder, folders }));
+  }, [isOpen, getFeatures, byFolder, folders]);
+
+  const fileName = `${jobName || "map-export"}-quantities`;
+  const isEmpty = !report || report.totals.length === 0;
+
+  const handleCsvExport = () => {
+    if (!report) return;
+    const csvText = writeCsvRows(quantitiesToRows(report));
+    onDownload(new Blob([csvText], { type: "text/csv" }), `${fileName}.csv`);
+  };
+
+  const handleXlsxExport = async () => {
+    if (!report) return;
+    try {
+      const blob = await writeXlsx(quantitiesToSheets(report));
+      onDownload(blob, `${fileName}.xlsx`);
+    } catch (error) {
+      console.error("Quantities export failed:", error);
+      alert("Quantities export failed. Check console.");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Bill of Quantities</DialogTitle>
+          <DialogDescription>
+            Total length of each legend type and count of each icon in this
+            job.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="quantities-dialog-by-folder"
+            checked={byFolder}
+            onCheckedChange={(checked) => setByFolder(checked === true)}
+          />
+          <Label
+            htmlFor="quantities-dialog-by-folder"
+            className="text-sm font-medium leading-none cursor-pointer"
+          >
+            Group by folder
+          </Label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto border rounded-md">
+          {isEmpty ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              No legend lines or icons in this job.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">Item</th>
+                  <th className="text-right font-medium px-3 py-2">Count</th>
+                  <th className="text-right font-medium px-3 py-2">Quantity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.groups.map((group) => (
+                  <QuantityGroupRows
+                    key={group.folderId ?? "none"}
+                    name={byFolder ? group.name : null}
+                    items={group.items}
+                  />
+                ))}
+                {byFolder && (
+                  <QuantityGroupRows name="All features" items={report.totals} />
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          <Button variant="outline" onClick={handleCsvExport} disabled={isEmpty}>
+            <Download className="w-4 h-4" />
+            CSV
+          </Button>
+          <Button onClick={handleXlsxExport} disabled={isEmpty}>
+            <Download className="w-4 h-4" />
+            XLSX
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function QuantityGroupRows({
+  name,
+  items,
+}: {
+  name: string | null;
+  items: QuantitiesReport["totals"];
+}) {
+  return (
+    <>
+      {name && (
+        <tr className="border-t bg-muted/50">
+          <td colSpan={3} className="px-3 py-1.5 font-medium">
+            {name}
+          </td>
+        </tr>
+      )}
+      {items.map((item) => (
+        <tr key={`${item.type}:${item.id}`} className="border-t">
+          <td className="px-3 py-1.5">{item.label}</td>
+          <td className="px-3 py-1.5 text-right tabular-nums">{item.count}</td>
+          <td className="px-3 py-1.5 text-right tabular-nums">
+            {formatQuantity(item)}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
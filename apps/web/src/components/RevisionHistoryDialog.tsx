@@ -0,0 +1,307 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import type { MapRevision, SerializedMapData } from "@/hooks/useMapProjects";
+import {
+  buildRevisionPreview,
+  diffRevisionSummaries,
+  summarizeRevision,
+} from "@/utils/revisionUtils";
+import { GitCompare, History, Loader2, RotateCcw, Save } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+const PREVIEW_WIDTH = 320;
+const PREVIEW_HEIGHT = 200;
+
+interface RevisionHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  listRevisions: () => Promise<MapRevision[]>;
+  loadRevision: (revisionId: number) => Promise<SerializedMapData | null>;
+  getCurrentMapData: () => SerializedMapData | null;
+  onRestore: (revisionId: number) => Promise<boolean>;
+  onCreateCheckpoint: (note: string) => Promise<boolean>;
+  onCompare: (revisionId: number) => void;
+}
+
+const formatRevisionDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export function RevisionHistoryDialog({
+  isOpen,
+  onClose,
+  listRevisions,
+  loadRevision,
+  getCurrentMapData,
+  onRestore,
+  onCreateCheckpoint,
+  onCompare,
+}: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<MapRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [selectedData, setSelectedData] = useState<SerializedMapData | null>(
+    null,
+  );
+  const [currentData, setCurrentData] = useState<SerializedMapData | null>(
+    null,
+  );
+  const [note, setNote] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refreshRevisions = useCallback(async () => {
+    setIsLoading(true);
+    const rows = await listRevisions();
+    setRevisions(rows);
+    setIsLoading(false);
+  }, [listRevisions]);
+
+  // Reload the list and the current snapshot every time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedId(null);
+    setSelectedData(null);
+    setCurrentData(getCurrentMapData());
+    refreshRevisions();
+  }, [isOpen, getCurrentMapData, refreshRevisions]);
+
+  const handleSelectRevision = async (revisionId: number) => {
+    setSelectedId(revisionId);
+    setSelectedData(null);
+    const data = await loadRevision(revisionId);
+    setSelectedData(data);
+  };
+
+  const handleCreateCheckpoint = async () => {
+    if (!note.trim()) return;
+    setIsBusy(true);
+    const saved = await onCreateCheckpoint(note.trim());
+    setIsBusy(false);
+    if (saved) {
+      setNote("");
+      setCurrentData(getCurrentMapData());
+      await refreshRevisions();
+    }
+  };
+
+  const handleRestore = async () => {
+    if (selectedId === null) return;
+    const confirmed = window.confirm(
+      `Restore revision #${selectedId}? The current map will be replaced, but it stays available in the history.`,
+    );
+    if (!confirmed) return;
+
+    setIsBusy(true);
+    const restored = await onRestore(selectedId);
+    setIsBusy(false);
+    if (restored) {
+      onClose();
+    } else {
+      alert("Failed to restore revision. Please try again.");
+    }
+  };
+
+  const summary = useMemo(
+    () => (selectedData ? summarizeRevision(selectedData) : null),
+    [selectedData],
+  );
+  const diff = useMemo(
+    () =>
+      selectedData ? diffRevisionSummaries(selectedData, currentData) : null,
+    [selectedData, currentData],
+  );
+  const previewShapes = useMemo(
+    () => buildRevisionPreview(selectedData, PREVIEW_WIDTH, PREVIEW_HEIGHT),
+    [selectedData],
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Revision History
+          </DialogTitle>
+          <DialogDescription>
+            Every save of this job is kept here. Select a revision to preview
+            it and compare it with the current map.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Named checkpoint */}
+        <div className="flex gap-2">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreateCheckpoint();
+            }}
+            placeholder="Note for a new checkpoint, e.g. Before rerouting"
+            disabled={isBusy}
+          />
+          <Button
+            variant="secondary"
+            onClick={handleCreateCheckpoint}
+            disabled={isBusy || !note.trim()}
+          >
+            <Save className="w-4 h-4 mr-1" />
+            Save checkpoint
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-[1fr_340px] gap-4 min-h-[320px]">
+          {/* Revision list */}
+          <div className="border rounded-md overflow-y-auto max-h-[400px]">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-full py-8 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Loading revisions...
+              </div>
+            ) : revisions.length === 0 ? (
+              <div className="py-8 text-center text-sm text-muted-foreground">
+                No revisions saved yet
+              </div>
+            ) : (
+              revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => handleSelectRevision(revision.id)}
+                  className={`w-full text-left px-3 py-2 border-b last:border-b-0 transition-colors cursor-pointer ${
+                    selectedId === revision.id
+                      ? "bg-blue-50 text-blue-900"
+                      : "hover:bg-gray-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">#{revision.id}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatRevisionDate(revision.created_at)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span className="truncate">{revision.note || "Autosave"}</span>
+                    <span className="shrink-0 ml-2">
+                      {revision.feature_count} feature
+                      {revision.feature_count === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Preview + diff */}
+          <div className="flex flex-col gap-3">
+            <div className="border rounded-md bg-gray-50">
+              {selectedId === null ? (
+                <div
+                  className="flex items-center justify-center text-sm text-muted-foreground"
+                  style={{ height: PREVIEW_HEIGHT }}
+                >
+                  Select a revision to preview
+                </div>
+              ) : !selectedData ? (
+                <div
+                  className="flex items-center justify-center text-sm text-muted-foreground"
+                  style={{ height: PREVIEW_HEIGHT }}
+                >
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                </div>
+              ) : (
+                <svg
+                  width="100%"
+                  height={PREVIEW_HEIGHT}
+                  viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+                >
+                  {previewShapes.map((shape, index) => {
+                    if (shape.type === "point") {
+                      const [cx, cy] = shape.data.split(",");
+                      return (
+                        <circle
+                          key={index}
+                          cx={cx}
+                          cy={cy}
+                          r={2.5}
+                          fill="#2563eb"
+                        />
+                      );
+                    }
+                    return (
+                      <path
+                        key={index}
+                        d={shape.data}
+                        fill={shape.closed ? "rgba(37, 99, 235, 0.15)" : "none"}
+                        stroke="#2563eb"
+                        strokeWidth={1.2}
+                      />
+                    );
+                  })}
+                </svg>
+              )}
+            </div>
+
+            {summary && diff && (
+              <div className="text-sm grid gap-2">
+                <div className="text-muted-foreground">
+                  {summary.featureCount} features in {summary.folderCount}{" "}
+                  folder{summary.folderCount === 1 ? "" : "s"}
+                  {Object.keys(summary.geometryCounts).length > 0 && (
+                    <span>
+                      {" "}
+                      (
+                      {Object.entries(summary.geometryCounts)
+                        .map(([type, count]) => `${count} ${type}`)
+                        .join(", ")}
+                      )
+                    </span>
+                  )}
+                </div>
+                <div>
+                  <div className="font-medium mb-1">Since this revision</div>
+                  <div className="flex gap-3 text-xs">
+                    <span className="text-green-700">+{diff.added} added</span>
+                    <span className="text-red-700">-{diff.removed} removed</span>
+                    <span className="text-muted-foreground">
+                      {diff.unchanged} unchanged
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              onClick={() => selectedId !== null && onCompare(selectedId)}
+              disabled={isBusy || selectedId === null}
+              className="mt-auto"
+            >
+              <GitCompare className="w-4 h-4 mr-2" />
+              Compare on map
+            </Button>
+            <Button
+              onClick={handleRestore}
+              disabled={isBusy || selectedId === null || !selectedData}
+            >
+              {isBusy ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="w-4 h-4 mr-2" />
+              )}
+              Restore this revision
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,7 +17,14 @@ import {
   formatSearchResultName,
   getSearchResultDescription,
   convertSearchCoordinate,
+  convertEnteredCoordinate,
 } from "@/utils/searchUtils";
+import {
+  describeCrs,
+  getCrsAxisNames,
+  isGeographicCrs,
+} from "@/utils/crsUtils";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
 
 export interface SearchResult {
   display_name: string;
@@ -63,6 +70,10 @@ export const SearchPanel = forwardRef<SearchPanelRef, SearchPanelProps>(
     const [showCoordInput, setShowCoordInput] = useState(false);
     const [coordX, setCoordX] = useState("");
     const [coordY, setCoordY] = useState("");
+    // Coordinates are typed in the job's coordinate system
+    const crs = useJobCrsStore((state) => state.crs);
+    const axes = getCrsAxisNames(crs);
+    const isGeographic = isGeographicCrs(crs);
 
     const searchControlRef = useRef<SearchNominatim | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -342,8 +353,9 @@ export const SearchPanel = forwardRef<SearchPanelRef, SearchPanelProps>(
         return;
       }
 
-      // Convert coordinates to map projection (assuming input is in WGS84/EPSG:4326)
-      const mapCoordinate = convertSearchCoordinate(x, y, map);
+      // Convert coordinates from the job's coordinate system to map projection
+      const mapCoordinate = convertEnteredCoordinate(x, y, crs);
+      if (!mapCoordinate) return;
 
       // Animate to the location
       map.getView().animate({
@@ -356,7 +368,7 @@ export const SearchPanel = forwardRef<SearchPanelRef, SearchPanelProps>(
       setCoordX("");
       setCoordY("");
       setShowCoordInput(false);
-    }, [coordX, coordY, map]);
+    }, [coordX, coordY, crs, map]);
 
     // Handle coordinate input key press
     const handleCoordKeyDown = useCallback(
@@ -447,7 +459,7 @@ export const SearchPanel = forwardRef<SearchPanelRef, SearchPanelProps>(
                     <span className="text-xs text-gray-500 w-4">X</span>
                     <Input
                       type="number"
-                      placeholder="Longitude (e.g., 292.129)"
+                      placeholder={`${axes.x} (e.g., ${isGeographic ? "77.209" : "712345.678"})`}
                       value={coordX}
                       onChange={(e) => setCoordX(e.target.value)}
                       onKeyDown={handleCoordKeyDown}
@@ -459,7 +471,7 @@ export const SearchPanel = forwardRef<SearchPanelRef, SearchPanelProps>(
                     <span className="text-xs text-gray-500 w-4">Y</span>
                     <Input
                       type="number"
-                      placeholder="Latitude (e.g., 24.881)"
+                      placeholder={`${axes.y} (e.g., ${isGeographic ? "28.614" : "3168123.456"})`}
                       value={coordY}
                       onChange={(e) => setCoordY(e.target.value)}
                       onKeyDown={handleCoordKeyDown}
@@ -467,6 +479,9 @@ export const SearchPanel = forwardRef<SearchPanelRef, SearchPanelProps>(
                       step="any"
                     />
                   </div>
+                  <div className="text-[10px] text-gray-400 truncate">
+                    {describeCrs(crs)}
+                  </div>
                   <Button
                     variant="default"
                     size="sm"
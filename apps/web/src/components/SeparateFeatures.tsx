@@ -32,6 +32,7 @@ import { usePanelStore } from "@/stores/usePanelStore";
 import { Vector as VectorSource } from "ol/source";
 import type { Feature } from "ol";
 import type { Geometry } from "ol/geom";
+import { getFeatureId } from "@/utils/featureIdUtils";
 import { Plus, Folder, Home, Settings2 } from "lucide-react";
 import { FolderItem } from "./FolderItem";
 import { DraggableFeatureItem } from "./DraggableFeatureItem";
@@ -43,11 +44,6 @@ interface SeparateFeaturesProps {
   map: Map | null;
 }
 
-// Get unique ID for feature
-function getFeatureId(feature: Feature<Geometry>): string {
-  return String((feature as any).ol_uid);
-}
-
 // Root drop zone component
 function RootDropZone({
   isActive,
@@ -157,6 +153,8 @@ export function SeparateFeatures({
   const handleToggleVisibility = (feature: Feature<Geometry>) => {
     const featureId = getFeatureId(feature);
     toggleFeature(featureId);
+    // Hidden state is saved with the map
+    onSaveMapState();
   };
 
   // Handle feature delete
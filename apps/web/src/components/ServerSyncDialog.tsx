@@ -0,0 +1,314 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { PGlite } from "@electric-sql/pglite";
+import {
+  useMapProjects,
+  type Project,
+  type SerializedMapData,
+} from "@/hooks/useMapProjects";
+import { useServerSyncStore } from "@/stores/useServerSyncStore";
+import {
+  PROJECT_PULLED_EVENT,
+  fetchServerProjects,
+  mergeServerLayouts,
+  pullProject,
+  pushProject,
+  type ProjectPulledDetail,
+} from "@/utils/projectSyncUtils";
+import { getMapUrl } from "@/utils/routeUtils";
+import { Cloud, Download, Loader2, RefreshCw, Upload } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router";
+
+interface ServerSyncDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+  currentProjectId: string | null;
+  onSelectProject: (projectId: string) => Promise<PGlite | null>;
+  getCurrentMapData: () => SerializedMapData | null;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function ServerSyncDialog({
+  isOpen,
+  onClose,
+  projects,
+  currentProjectId,
+  onSelectProject,
+  getCurrentMapData,
+}: ServerSyncDialogProps) {
+  const navigate = useNavigate();
+  const { importProject, readProjectMapState, updateProject } =
+    useMapProjects();
+  const {
+    serverUrl,
+    autoSync,
+    lastSyncedAt,
+    lastError,
+    setServerUrl,
+    setAutoSync,
+    markSynced,
+    setError,
+  } = useServerSyncStore();
+
+  const [serverProjects, setServerProjects] = useState<Project[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(false);
+  const [busyProjectId, setBusyProjectId] = useState<string | null>(null);
+
+  const refreshServerProjects = useCallback(async () => {
+    setIsLoadingList(true);
+    try {
+      // Read when called, so typing a new address doesn't refetch
+      setServerProjects(
+        await fetchServerProjects(useServerSyncStore.getState().serverUrl),
+      );
+      setError(null);
+    } catch (error) {
+      console.error("Failed to list server jobs:", error);
+      setServerProjects([]);
+      setError(
+        `Could not reach the server: ${error instanceof Error ? error.message : "unknown error"}`,
+      );
+    } finally {
+      setIsLoadingList(false);
+    }
+  }, [setError]);
+
+  useEffect(() => {
+    if (isOpen) refreshServerProjects();
+  }, [isOpen, refreshServerProjects]);
+
+  const handlePush = async (project: Project) => {
+    setBusyProjectId(project.id);
+    try {
+      const mapData =
+        project.id === currentProjectId
+          ? getCurrentMapData()
+          : await readProjectMapState(project.id);
+      await pushProject(serverUrl, project, mapData);
+      markSynced(project.id);
+      await refreshServerProjects();
+    } catch (error) {
+      console.error("Failed to push job:", error);
+      alert(
+        `Failed to upload "${project.name}": ${error instanceof Error ? error.message : "unknown error"}`,
+      );
+    } finally {
+      setBusyProjectId(null);
+    }
+  };
+
+  const handleOpen = async (serverProject: Project) => {
+    const isLocal = projects.some((p) => p.id === serverProject.id);
+    if (
+      isLocal &&
+      !confirm(
+        `Replace the copy of "${serverProject.name}" in this browser with the server copy? The local version stays in its revision history.`,
+      )
+    ) {
+      return;
+    }
+
+    setBusyProjectId(serverProject.id);
+    try {
+      const { project, mapData, layouts } = await pullProject(
+        serverUrl,
+        serverProject.id,
+      );
+      mergeServerLayouts(layouts, project.id);
+
+      if (project.id === currentProjectId) {
+        // The editor owns the open job's database, let it apply the data
+        window.dispatchEvent(
+          new CustomEvent<ProjectPulledDetail>(PROJECT_PULLED_EVENT, {
+            detail: { projectId: project.id, mapData },
+          }),
+        );
+        const localProject = projects.find((p) => p.id === project.id);
+        if (localProject && localProject.name !== project.name) {
+          await updateProject(project.id, project.name);
+        }
+      } else {
+        const imported = await importProject(project, mapData);
+        if (!imported) {
+          alert(`Failed to store "${project.name}" in this browser`);
+          return;
+        }
+        await onSelectProject(project.id);
+        navigate(getMapUrl(project.id, project.name), { replace: true });
+      }
+
+      markSynced(project.id);
+      onClose();
+    } catch (error) {
+      console.error("Failed to open server job:", error);
+      alert(
+        `Failed to download "${serverProject.name}": ${error instanceof Error ? error.message : "unknown error"}`,
+      );
+    } finally {
+      setBusyProjectId(null);
+    }
+  };
+
+  const isBusy = busyProjectId !== null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Cloud className="w-4 h-4" />
+            Server sync
+          </DialogTitle>
+          <DialogDescription>
+            Keep a copy of your jobs on the backend so they can be opened on
+            another machine and survive clearing the browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="sync-server">Server</Label>
+            <div className="flex gap-2">
+              <Input
+                id="sync-server"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="http://localhost:3001"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={refreshServerProjects}
+                disabled={isLoadingList}
+                title="Refresh"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="sync-auto"
+              checked={autoSync}
+              onCheckedChange={(checked) => setAutoSync(checked === true)}
+            />
+            <Label htmlFor="sync-auto" className="font-normal">
+              Upload jobs to the server whenever they are saved
+            </Label>
+          </div>
+
+          {lastError && <p className="text-xs text-red-600">{lastError}</p>}
+
+          {/* Jobs in this browser */}
+          <div className="grid gap-1">
+            <div className="text-sm font-medium">In this browser</div>
+            <div className="max-h-40 overflow-y-auto border rounded-md">
+              {projects.length === 0 ? (
+                <div className="py-3 text-center text-sm text-muted-foreground">
+                  No jobs yet
+                </div>
+              ) : (
+                projects.map((project) => (
+                  <div
+                    key={project.id}
+                    className="flex items-center justify-between gap-2 px-3 py-2 border-b last:border-b-0 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate">{project.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {lastSyncedAt[project.id]
+                          ? `Uploaded ${formatDate(lastSyncedAt[project.id])}`
+                          : "Not uploaded yet"}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => handlePush(project)}
+                    >
+                      {busyProjectId === project.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Upload className="w-4 h-4" />
+                      )}
+                      <span className="ml-1 text-xs">Upload</span>
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Jobs on the server */}
+          <div className="grid gap-1">
+            <div className="text-sm font-medium">On the server</div>
+            <div className="max-h-40 overflow-y-auto border rounded-md">
+              {isLoadingList ? (
+                <div className="flex justify-center py-3">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : serverProjects.length === 0 ? (
+                <div className="py-3 text-center text-sm text-muted-foreground">
+                  No jobs on the server
+                </div>
+              ) : (
+                serverProjects.map((project) => (
+                  <div
+                    key={project.id}
+                    className="flex items-center justify-between gap-2 px-3 py-2 border-b last:border-b-0 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate">{project.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Updated {formatDate(project.updated_at)}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => handleOpen(project)}
+                    >
+                      {busyProjectId === project.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Download className="w-4 h-4" />
+                      )}
+                      <span className="ml-1 text-xs">Open</span>
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="secondary" onClick={onClose} disabled={isBusy}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,578 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { CrsSelect } from "@/components/CrsSelect";
+import { IconPickerDialog } from "@/components/IconPickerDialog";
+import { getAvailableLegends } from "@/tools/legendsConfig";
+import { isGeographicCrs, type CrsOption } from "@/utils/crsUtils";
+import {
+  readImportFile,
+  type ImportFileResult,
+  type ParsedImportFile,
+} from "@/utils/importUtils";
+import {
+  guessSpreadsheetMapping,
+  readSpreadsheet,
+  spreadsheetToFeatures,
+  type SpreadsheetMapping,
+  type SpreadsheetTable,
+} from "@/utils/spreadsheetUtils";
+import {
+  AlertCircle,
+  CheckCircle2,
+  FileSpreadsheet,
+  Loader2,
+  X,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
+
+interface SpreadsheetImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  files: File[];
+  onImport: (
+    fileName: string,
+    parsed: ParsedImportFile,
+  ) => Promise<ImportFileResult>;
+  // Suggested UTM zone for easting/northing columns
+  defaultUtm: { zone: number; south: boolean };
+}
+
+interface SpreadsheetImportResult extends ImportFileResult {
+  skippedRows: number[];
+}
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+const PREVIEW_ROW_COUNT = 5;
+
+interface ColumnSelectProps {
+  id: string;
+  label: string;
+  headers: string[];
+  value: number | null;
+  onChange: (value: number | null) => void;
+  optional?: boolean;
+  disabled?: boolean;
+}
+
+function ColumnSelect({
+  id,
+  label,
+  headers,
+  value,
+  onChange,
+  optional,
+  disabled,
+}: ColumnSelectProps) {
+  return (
+    <div className="grid gap-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <select
+        id={id}
+        value={value ?? ""}
+        onChange={(e) =>
+          onChange(e.target.value === "" ? null : Number(e.target.value))
+        }
+        disabled={disabled}
+        className={SELECT_CLASS_NAME}
+      >
+        {(optional || value === null) && (
+          <option value="">{optional ? "None" : "Choose a column"}</option>
+        )}
+        {headers.map((header, index) => (
+          <option key={`${header}-${index}`} value={index}>
+            {header}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+const formatSkippedRows = (rows: number[]): string =>
+  rows.length > 10
+    ? `${rows.slice(0, 10).join(", ")} and ${rows.length - 10} more`
+    : rows.join(", ");
+
+/**
+ * Import CSV/XLSX rows as points (and optionally routes) after mapping
+ * their columns. Files are handled one after another.
+ */
+export function SpreadsheetImportDialog({
+  isOpen,
+  onClose,
+  files,
+  onImport,
+  defaultUtm,
+}: SpreadsheetImportDialogProps) {
+  const jobCrs = useJobCrsStore((state) => state.crs);
+  const [fileIndex, setFileIndex] = useState(0);
+  const [tables, setTables] = useState<SpreadsheetTable[] | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<SpreadsheetMapping | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [iconPickerOpen, setIconPickerOpen] = useState(false);
+  const [results, setResults] = useState<SpreadsheetImportResult[]>([]);
+
+  const file = files[fileIndex] as File | undefined;
+  const table = tables?.[sheetIndex];
+  const isDone = files.length > 0 && fileIndex >= files.length;
+  const legends = getAvailableLegends().filter(
+    (legend) => legend.id !== "measure",
+  );
+
+  // Start over whenever a new set of files is picked or dropped
+  useEffect(() => {
+    if (isOpen) {
+      setFileIndex(0);
+      setResults([]);
+    }
+  }, [isOpen, files]);
+
+  // Read the current file and guess its column mapping
+  const { zone: defaultZone, south: defaultSouth } = defaultUtm;
+  useEffect(() => {
+    if (!isOpen || !file) return;
+
+    let cancelled = false;
+    setTables(null);
+    setMapping(null);
+    setLoadError(null);
+    setSheetIndex(0);
+
+    readImportFile(file)
+      .then((data) => readSpreadsheet(file.name, data))
+      .then((loaded) => {
+        if (cancelled) return;
+        setTables(loaded);
+        // Projected columns are most likely in the job's own system
+        const crs: CrsOption = isGeographicCrs(jobCrs)
+          ? { kind: "utm", zone: defaultZone, south: defaultSouth }
+          : jobCrs;
+        setMapping(guessSpreadsheetMapping(loaded[0].headers, crs));
+      })
+      .catch((error) => {
+        console.error(`Failed to read ${file.name}:`, error);
+        if (!cancelled) {
+          setLoadError(
+            error instanceof Error ? error.message : "Could not read the file.",
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, file, jobCrs, defaultZone, defaultSouth]);
+
+  const updateMapping = (changes: Partial<SpreadsheetMapping>) => {
+    setMapping((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSheetChange = (index: number) => {
+    setSheetIndex(index);
+    if (tables && mapping) {
+      setMapping(guessSpreadsheetMapping(tables[index].headers, mapping.crs));
+    }
+  };
+
+  const goToNextFile = (result: SpreadsheetImportResult) => {
+    setResults((current) => [...current, result]);
+    setFileIndex((index) => index + 1);
+  };
+
+  const handleImport = async () => {
+    if (!file || !table || !mapping) return;
+
+    let converted: ReturnType<typeof spreadsheetToFeatures>;
+    try {
+      converted = spreadsheetToFeatures(table, mapping);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Import failed.");
+      return;
+    }
+    if (converted.features.length === 0) {
+      alert(
+        "No rows have valid coordinates. Check the coordinate columns and system.",
+      );
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const fileName =
+        tables && tables.length > 1
+          ? `${file.name.replace(/\.[^/.]+$/, "")} - ${table.name}`
+          : file.name;
+      const result = await onImport(fileName, {
+        features: converted.features,
+        folders: {},
+      });
+      goToNextFile({ ...result, skippedRows: converted.skippedRows });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSkipFile = () => {
+    if (!file) return;
+    goToNextFile({
+      fileName: file.name,
+      added: 0,
+      duplicates: 0,
+      error: loadError ?? "Skipped",
+      skippedRows: [],
+    });
+  };
+
+  const isProjected = mapping?.coordinates === "projected";
+  const hasRoutes = mapping?.routeColumn !== null;
+
+  return (
+    <>
+      <Dialog
+        open={isOpen && !iconPickerOpen}
+        onOpenChange={(open) => !open && !isImporting && onClose()}
+      >
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-4 h-4" />
+              {isDone
+                ? "Spreadsheet import summary"
+                : `Import ${file?.name ?? "spreadsheet"}`}
+              {!isDone && files.length > 1 && (
+                <span className="text-xs font-normal text-muted-foreground">
+                  ({fileIndex + 1} of {files.length})
+                </span>
+              )}
+            </DialogTitle>
+            <DialogDescription>
+              {isDone
+                ? "Each file was added to the current job in its own folder."
+                : "Choose which columns hold the coordinates and attributes. Other columns become custom properties."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isDone ? (
+            <div className="max-h-64 overflow-y-auto border rounded-md">
+              {results.map((result, index) => (
+                <div
+                  key={`${result.fileName}-${index}`}
+                  className="flex items-start gap-2 px-3 py-2 border-b last:border-b-0 text-sm"
+                >
+                  {result.error ? (
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-600" />
+                  ) : (
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="truncate">{result.fileName}</div>
+                    <div
+                      className={`text-xs ${result.error ? "text-red-600" : "text-muted-foreground"}`}
+                    >
+                      {result.error ?? `${result.added} feature(s) added`}
+                      {result.skippedRows.length > 0 &&
+                        `; rows without valid coordinates: ${formatSkippedRows(result.skippedRows)}`}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : loadError ? (
+            <div className="flex items-start gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {loadError}
+            </div>
+          ) : !table || !mapping ? (
+            <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Reading file...
+            </div>
+          ) : (
+            <div className="grid gap-4">
+              {tables && tables.length > 1 && (
+                <div className="grid gap-1">
+                  <Label htmlFor="spreadsheet-sheet" className="text-xs">
+                    Sheet
+                  </Label>
+                  <select
+                    id="spreadsheet-sheet"
+                    value={sheetIndex}
+                    onChange={(e) => handleSheetChange(Number(e.target.value))}
+                    disabled={isImporting}
+                    className={SELECT_CLASS_NAME}
+                  >
+                    {tables.map((sheet, index) => (
+                      <option key={`${sheet.name}-${index}`} value={index}>
+                        {sheet.name} ({sheet.rows.length} rows)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="overflow-x-auto border rounded-md">
+                <table className="text-xs w-full">
+                  <thead className="bg-muted">
+                    <tr>
+                      {table.headers.map((header, index) => (
+                        <th
+                          key={`${header}-${index}`}
+                          className="px-2 py-1 text-left font-medium whitespace-nowrap"
+                        >
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.slice(0, PREVIEW_ROW_COUNT).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t">
+                        {row.map((cell, cellIndex) => (
+                          <td
+                            key={cellIndex}
+                            className="px-2 py-1 whitespace-nowrap max-w-40 truncate"
+                          >
+                            {cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="text-xs text-muted-foreground -mt-2">
+                {table.rows.length} row(s)
+              </div>
+
+              {/* Coordinates */}
+              <div className="grid gap-2">
+                <div className="grid gap-1">
+                  <Label htmlFor="spreadsheet-coordinates" className="text-xs">
+                    Coordinates
+                  </Label>
+                  <select
+                    id="spreadsheet-coordinates"
+                    value={mapping.coordinates}
+                    onChange={(e) =>
+                      updateMapping({
+                        coordinates: e.target
+                          .value as SpreadsheetMapping["coordinates"],
+                      })
+                    }
+                    disabled={isImporting}
+                    className={SELECT_CLASS_NAME}
+                  >
+                    <option value="lonlat">Latitude / longitude (WGS84)</option>
+                    <option value="projected">
+                      Easting / northing in a coordinate system
+                    </option>
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <ColumnSelect
+                    id="spreadsheet-x"
+                    label={isProjected ? "Easting" : "Longitude"}
+                    headers={table.headers}
+                    value={mapping.xColumn}
+                    onChange={(xColumn) => updateMapping({ xColumn })}
+                    disabled={isImporting}
+                  />
+                  <ColumnSelect
+                    id="spreadsheet-y"
+                    label={isProjected ? "Northing" : "Latitude"}
+                    headers={table.headers}
+                    value={mapping.yColumn}
+                    onChange={(yColumn) => updateMapping({ yColumn })}
+                    disabled={isImporting}
+                  />
+                </div>
+                {isProjected && (
+                  <CrsSelect
+                    id="spreadsheet-crs"
+                    value={mapping.crs}
+                    onChange={(crs) => updateMapping({ crs })}
+                    defaultUtm={defaultUtm}
+                    disabled={isImporting}
+                  />
+                )}
+              </div>
+
+              {/* Points */}
+              <div className="grid grid-cols-2 gap-2 items-end">
+                <ColumnSelect
+                  id="spreadsheet-name"
+                  label="Name"
+                  headers={table.headers}
+                  value={mapping.nameColumn}
+                  onChange={(nameColumn) => updateMapping({ nameColumn })}
+                  optional
+                  disabled={isImporting}
+                />
+                <div className="grid gap-1">
+                  <Label className="text-xs">Point icon</Label>
+                  <div className="flex items-center gap-2">
+                    {mapping.iconPath && (
+                      <img
+                        src={mapping.iconPath}
+                        alt=""
+                        className="w-8 h-8 object-contain border rounded"
+                      />
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIconPickerOpen(true)}
+                      disabled={isImporting}
+                    >
+                      {mapping.iconPath ? "Change icon" : "Choose icon"}
+                    </Button>
+                    {mapping.iconPath && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Use plain points"
+                        onClick={() => updateMapping({ iconPath: null })}
+                        disabled={isImporting}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Routes */}
+              <div className="grid gap-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <ColumnSelect
+                    id="spreadsheet-route"
+                    label="Route id (joins rows into polylines)"
+                    headers={table.headers}
+                    value={mapping.routeColumn}
+                    onChange={(routeColumn) => updateMapping({ routeColumn })}
+                    optional
+                    disabled={isImporting}
+                  />
+                  <ColumnSelect
+                    id="spreadsheet-sequence"
+                    label="Sequence (order along the route)"
+                    headers={table.headers}
+                    value={mapping.sequenceColumn}
+                    onChange={(sequenceColumn) =>
+                      updateMapping({ sequenceColumn })
+                    }
+                    optional
+                    disabled={isImporting || !hasRoutes}
+                  />
+                </div>
+                {hasRoutes && (
+                  <>
+                    <div className="grid gap-1">
+                      <Label
+                        htmlFor="spreadsheet-legend"
+                        className="text-xs"
+                      >
+                        Route legend type
+                      </Label>
+                      <select
+                        id="spreadsheet-legend"
+                        value={mapping.legendType ?? ""}
+                        onChange={(e) =>
+                          updateMapping({ legendType: e.target.value || null })
+                        }
+                        disabled={isImporting}
+                        className={SELECT_CLASS_NAME}
+                      >
+                        <option value="">Plain polyline</option>
+                        {legends.map((legend) => (
+                          <option key={legend.id} value={legend.id}>
+                            {legend.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="spreadsheet-include-points"
+                        checked={mapping.includePoints}
+                        onCheckedChange={(checked) =>
+                          updateMapping({ includePoints: checked === true })
+                        }
+                        disabled={isImporting}
+                      />
+                      <Label
+                        htmlFor="spreadsheet-include-points"
+                        className="font-normal"
+                      >
+                        Also add a point for every row on a route
+                      </Label>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {isDone ? (
+              <Button onClick={onClose}>Close</Button>
+            ) : (
+              <>
+                <Button
+                  variant="secondary"
+                  onClick={onClose}
+                  disabled={isImporting}
+                >
+                  Cancel
+                </Button>
+                {files.length > 1 && (
+                  <Button
+                    variant="outline"
+                    onClick={handleSkipFile}
+                    disabled={isImporting}
+                  >
+                    Skip file
+                  </Button>
+                )}
+                <Button
+                  onClick={handleImport}
+                  disabled={
+                    isImporting ||
+                    !mapping ||
+                    mapping.xColumn === null ||
+                    mapping.yColumn === null
+                  }
+                >
+                  {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Import
+                </Button>
+              </>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <IconPickerDialog
+        isOpen={iconPickerOpen}
+        onClose={() => setIconPickerOpen(false)}
+        onSelectIcon={(iconPath) => updateMapping({ iconPath })}
+      />
+    </>
+  );
+}
@@ -14,6 +14,15 @@ import {
   ArrowUpFromLine,
   Undo,
   Redo,
+  History,
+  GitCompare,
+  Users,
+  Globe,
+  ClipboardList,
+  Crosshair,
+  Shield,
+  Route,
+  Waypoints,
 } from "lucide-react";
 import { TOOLS, type ToolCategory } from "../tools/toolConfig";
 import { LegendDropdown } from "./LegendDropdown";
@@ -23,6 +32,11 @@ import type { Project } from "@/hooks/useMapProjects";
 import type { PGlite } from "@electric-sql/pglite";
 import { JobSelection } from "./JobSelection";
 import { useToolStore } from "@/stores/useToolStore";
+import { useCollaborationStore } from "@/stores/useCollaborationStore";
+import { COLLABORATION_STATUS_COLORS } from "@/utils/collaborationUtils";
+import type { ShapefileLayering } from "@/utils/shapefileUtils";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
+import { describeCrs } from "@/utils/crsUtils";
 
 interface ToolbarProps {
   onFileImport: () => void;
@@ -32,7 +46,22 @@ interface ToolbarProps {
   onLegendSelect: (legend: LegendType) => void;
   onExportClick: (format: "geojson" | "kml" | "kmz") => void;
   onDsExportClick: () => void;
+  onShapefileExportClick: (layering: ShapefileLayering) => void;
+  onDxfExportClick: () => void;
+  onGpxExportClick: () => void;
+  onCrsExportClick: (format: "geojson" | "csv") => void;
   onPdfExportClick: () => void;
+  onAtlasExportClick: () => void;
+  onHistoryClick: () => void;
+  onCompareClick: () => void;
+  onCollaborateClick: () => void;
+  onServerSyncClick: () => void;
+  onCrsClick: () => void;
+  onQuantitiesClick: () => void;
+  onCrossingsClick: () => void;
+  onBufferClick: () => void;
+  onTopologyClick: () => void;
+  onPathClick: () => void;
   lineColor: string;
   lineWidth: number;
   onLineColorChange: (color: string) => void;
@@ -56,7 +85,22 @@ const Toolbar = ({
   onLegendSelect,
   onExportClick,
   onDsExportClick,
+  onShapefileExportClick,
+  onDxfExportClick,
+  onGpxExportClick,
+  onCrsExportClick,
   onPdfExportClick,
+  onAtlasExportClick,
+  onHistoryClick,
+  onCompareClick,
+  onCollaborateClick,
+  onServerSyncClick,
+  onCrsClick,
+  onQuantitiesClick,
+  onCrossingsClick,
+  onBufferClick,
+  onTopologyClick,
+  onPathClick,
   projects = [],
   currentProjectId,
   onSelectProject,
@@ -65,6 +109,8 @@ const Toolbar = ({
   // const [isSwitchingJob, setIsSwitchingJob] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const { undo, redo } = useToolStore();
+  const collaborationStatus = useCollaborationStore((state) => state.status);
+  const jobCrs = useJobCrsStore((state) => state.crs);
 
   // const handleJobSelect = async (projectId: string) => {
   //   if (!onSelectProject) return;
@@ -136,7 +182,7 @@ const Toolbar = ({
               variant="ghost"
               size="sm"
               className="cursor-pointer h-8 px-3"
-              title="Import GeoJson/Kml/Kmz"
+              title="Import GeoJson/Kml/Kmz/Shapefile/DXF/GPX/CSV/Excel"
               onClick={onFileImport}
             >
               <FilePlus className="w-4 h-4" />
@@ -153,11 +199,21 @@ const Toolbar = ({
                   <span className="ml-1 text-xs">Export</span>
                 </Button>
               </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-32">
+              <DropdownMenuContent align="end" className="w-44">
                 <DropdownMenuGroup>
                   <DropdownMenuItem onClick={() => onExportClick("geojson")}>
                     GeoJson
                   </DropdownMenuItem>
+                  {jobCrs.kind !== "wgs84" && (
+                    <DropdownMenuItem
+                      onClick={() => onCrsExportClick("geojson")}
+                    >
+                      GeoJson (job CRS)
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => onCrsExportClick("csv")}>
+                    CSV (job CRS)
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => onExportClick("kml")}>
                     KML
                   </DropdownMenuItem>
@@ -167,12 +223,130 @@ const Toolbar = ({
                   <DropdownMenuItem onClick={onDsExportClick}>
                     DS
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => onShapefileExportClick("geometry")}
+                  >
+                    Shapefile (by type)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => onShapefileExportClick("folder")}
+                  >
+                    Shapefile (by folder)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onDxfExportClick}>
+                    DXF...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onGpxExportClick}>
+                    GPX (selected lines)
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={onPdfExportClick}>
                     PDF
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onAtlasExportClick}>
+                    PDF map series...
+                  </DropdownMenuItem>
                 </DropdownMenuGroup>
               </DropdownMenuContent>
             </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title={`Job coordinate system: ${describeCrs(jobCrs)}`}
+              onClick={onCrsClick}
+            >
+              <Globe className="w-4 h-4" />
+              <span className="ml-1 text-xs">CRS</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Bill of quantities"
+              onClick={onQuantitiesClick}
+            >
+              <ClipboardList className="w-4 h-4" />
+              <span className="ml-1 text-xs">Quantities</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Find where proposed routes cross existing utilities"
+              onClick={onCrossingsClick}
+            >
+              <Crosshair className="w-4 h-4" />
+              <span className="ml-1 text-xs">Crossings</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Buffer and clearance check"
+              onClick={onBufferClick}
+            >
+              <Shield className="w-4 h-4" />
+              <span className="ml-1 text-xs">Buffer</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Validate route topology"
+              onClick={onTopologyClick}
+            >
+              <Route className="w-4 h-4" />
+              <span className="ml-1 text-xs">Topology</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Shortest path between two points"
+              onClick={onPathClick}
+            >
+              <Waypoints className="w-4 h-4" />
+              <span className="ml-1 text-xs">Path</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Revision history"
+              onClick={onHistoryClick}
+            >
+              <History className="w-4 h-4" />
+              <span className="ml-1 text-xs">History</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Compare with a revision or file"
+              onClick={onCompareClick}
+            >
+              <GitCompare className="w-4 h-4" />
+              <span className="ml-1 text-xs">Compare</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer h-8 px-3"
+              title="Edit this job together with others"
+              onClick={onCollaborateClick}
+            >
+              <Users className="w-4 h-4" />
+              <span className="ml-1 text-xs">Collaborate</span>
+              {collaborationStatus !== "disconnected" && (
+                <span
+                  className="ml-1 inline-block w-2 h-2 rounded-full"
+                  style={{
+                    backgroundColor:
+                      COLLABORATION_STATUS_COLORS[collaborationStatus],
+                  }}
+                />
+              )}
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -190,6 +364,7 @@ const Toolbar = ({
               projects={projects}
               currentProjectId={currentProjectId}
               onSelectProject={onSelectProject}
+              onServerSyncClick={onServerSyncClick}
             />
 
             {/* Tools Section Collapsable */}
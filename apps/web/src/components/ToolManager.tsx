@@ -26,6 +26,10 @@ import { getCursorForTool } from "@/utils/cursorUtils";
 import { getTextAlongLineStyle } from "./FeatureStyler";
 import { handleIconClick } from "@/icons/IconPicker";
 import { TOOLS } from "@/tools/toolConfig";
+import { DynamicInputBox } from "./DynamicInputBox";
+
+// Line tools that accept typed lengths, bearings and coordinates
+const DYNAMIC_INPUT_TOOLS = ["polyline", "measure", "legends"];
 
 export interface ToolManagerProps {
   map: Map | null;
@@ -595,7 +599,12 @@ export const ToolManager: React.FC<ToolManagerProps> = ({
     onFeatureSelect,
   ]);
 
-  return null; // This component doesn't render anything
+  return (
+    <DynamicInputBox
+      isActive={DYNAMIC_INPUT_TOOLS.includes(activeTool)}
+      getDraw={() => drawInteractionRef.current}
+    />
+  );
 };
 
 export default ToolManager;
@@ -0,0 +1,122 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useComparisonStore } from "@/stores/useComparisonStore";
+import { useCrossingStore } from "@/stores/useCrossingStore";
+import { useTopologyStore } from "@/stores/useTopologyStore";
+import { usePathStore } from "@/stores/usePathStore";
+import {
+  DEFAULT_TOPOLOGY_OPTIONS,
+  validateTopology,
+  type TopologyOptions,
+} from "@/utils/topologyUtils";
+import type Feature from "ol/Feature";
+import type { Geometry } from "ol/geom";
+import { useState } from "react";
+
+interface TopologyDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Features of the open job, read when the check runs
+  getFeatures: () => Feature<Geometry>[];
+}
+
+/**
+ * Check the job's lines for topology errors (shown in TopologyPanel)
+ */
+export function TopologyDialog({
+  isOpen,
+  onClose,
+  getFeatures,
+}: TopologyDialogProps) {
+  const [options, setOptions] = useState<TopologyOptions>(
+    DEFAULT_TOPOLOGY_OPTIONS,
+  );
+  const setIssues = useTopologyStore((state) => state.setIssues);
+
+  const canRun = options.toleranceMeters > 0;
+
+  const handleRun = () => {
+    try {
+      const issues = validateTopology(getFeatures(), options);
+      // The panels share the same spot on the map
+      useComparisonStore.getState().clearComparison();
+      useCrossingStore.getState().clearCrossings();
+      usePathStore.getState().closePathTool();
+      setIssues(issues, options);
+      onClose();
+    } catch (error) {
+      console.error("Topology check failed:", error);
+      alert("Topology check failed. Check console.");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Validate Topology</DialogTitle>
+          <DialogDescription>
+            Finds undershoots, overshoots, unsnapped joins, duplicate and
+            zero-length segments and self-intersections in the job's lines.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="topology-tolerance">Snap tolerance (meters)</Label>
+            <Input
+              id="topology-tolerance"
+              type="number"
+              min="0.01"
+              step="0.1"
+              value={options.toleranceMeters}
+              onChange={(e) =>
+                setOptions((prev) => ({
+                  ...prev,
+                  toleranceMeters: parseFloat(e.target.value) || 0,
+                }))
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              Gaps and dangling ends up to this length are reported.
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="topology-legends-only"
+              checked={options.legendsOnly}
+              onCheckedChange={(checked) =>
+                setOptions((prev) => ({ ...prev, legendsOnly: checked === true }))
+              }
+            />
+            <Label
+              htmlFor="topology-legends-only"
+              className="text-sm font-normal leading-none cursor-pointer"
+            >
+              Legend lines only
+            </Label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleRun} disabled={!canRun}>
+            Validate
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
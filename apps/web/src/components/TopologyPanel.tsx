@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import { useTopologyStore } from "@/stores/useTopologyStore";
+import {
+  TOPOLOGY_ISSUE_LABELS,
+  validateTopology,
+  type TopologyFix,
+  type TopologyIssue,
+} from "@/utils/topologyUtils";
+import { RefreshCw, Route, X } from "lucide-react";
+import type Map from "ol/Map";
+import type Feature from "ol/Feature";
+import type { Geometry } from "ol/geom";
+
+interface TopologyPanelProps {
+  map: Map | null;
+  // Features of the open job, read on Re-check
+  getFeatures: () => Feature<Geometry>[];
+  // Apply a fix to the job, returning false if it no longer applies
+  onApplyFix: (fix: TopologyFix) => boolean;
+}
+
+export function TopologyPanel({ map, getFeatures, onApplyFix }: TopologyPanelProps) {
+  const {
+    issues,
+    options,
+    focusedIndex,
+    setIssues,
+    setFocusedIssue,
+    removeIssue,
+    clearIssues,
+  } = useTopologyStore();
+
+  if (!issues) return null;
+
+  const handleIssueClick = (issue: TopologyIssue, index: number) => {
+    setFocusedIssue(index);
+    map?.getView().animate({
+      center: issue.coordinate,
+      zoom: Math.max(map.getView().getZoom() ?? 0, 19),
+      duration: 500,
+    });
+  };
+
+  const handleRecheck = () => {
+    if (!options) return;
+    setIssues(validateTopology(getFeatures(), options), options);
+  };
+
+  const handleFix = (fix: TopologyFix, index: number) => {
+    if (onApplyFix(fix)) {
+      removeIssue(index);
+    } else {
+      alert("The lines have changed since the check. Re-check and try again.");
+    }
+  };
+
+  return (
+    <div className="absolute left-4 top-30 w-80 max-h-[70vh] flex flex-col rounded-lg overflow-hidden bg-white dark:bg-slate-800 shadow-2xl border border-gray-200 dark:border-slate-700 z-30">
+      {/* Header */}
+      <div className="flex items-start justify-between px-4 py-3 border-b border-gray-100 dark:border-slate-700">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <Route className="h-4 w-4 text-amber-600" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              Topology issues ({issues.length})
+            </h3>
+          </div>
+          <p className="text-xs text-muted-foreground truncate mt-1">
+            Click an issue to zoom to it
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={handleRecheck}
+            className="h-6 w-6 text-gray-400 hover:text-gray-600"
+            title="Re-check"
+            aria-label="Re-check topology"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={clearIssues}
+            className="h-6 w-6 text-gray-400 hover:text-gray-600"
+            aria-label="Close topology issues"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Issues */}
+      <div className="flex-1 overflow-y-auto">
+        {issues.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No topology issues found
+          </div>
+        ) : (
+          issues.map((issue, index) => (
+            <div
+              key={index}
+              onClick={() => handleIssueClick(issue, index)}
+              className={`px-4 py-2 text-sm border-b last:border-b-0 cursor-pointer ${
+                focusedIndex === index ? "bg-amber-50" : "hover:bg-gray-50"
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground shrink-0 w-6">
+                  {index + 1}
+                </span>
+                <span className="font-medium">
+                  {TOPOLOGY_ISSUE_LABELS[issue.type]}
+                </span>
+              </div>
+              <div className="pl-8 text-xs text-muted-foreground">
+                {issue.description}
+              </div>
+              {issue.fixes.length > 0 && (
+                <div className="pl-8 pt-1 flex flex-wrap gap-1">
+                  {issue.fixes.map((fix) => (
+                    <Button
+                      key={fix.kind}
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-xs"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleFix(fix, index);
+                      }}
+                    >
+                      {fix.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect, useRef, useCallback } from "react"
 import * as fabric from "fabric"
 import type { LayoutCanvasProps } from "./types"
 import { PAGE_SIZES } from "./types"
+import { setMapImageScale } from "@/utils/fabricScaleUtils"
 
 export function LayoutCanvas({
   fabricRef,
@@ -14,6 +15,7 @@ export function LayoutCanvas({
   zoom,
   onZoomChange,
   backgroundImage,
+  backgroundScale,
 }: LayoutCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
@@ -46,6 +48,8 @@ export function LayoutCanvas({
           scaleX: newScaleX,
           scaleY: newScaleY,
         })
+        // Scale bars and other objects follow the map image's size
+        canvas.fire('object:modified', { target: activeObject })
         canvas.requestRenderAll()
         return
       }
@@ -181,6 +185,9 @@ export function LayoutCanvas({
 
       // Mark this as the map image for identification
       (img as fabric.FabricImage & { isMapImage?: boolean }).isMapImage = true;
+      if (backgroundScale) {
+        setMapImageScale(img, backgroundScale);
+      }
 
       // Add as regular object (selectable and movable)
       currentCanvas.add(img);
@@ -196,7 +203,7 @@ export function LayoutCanvas({
     return () => {
       isCancelled = true;
     };
-  }, [backgroundImage]);
+  }, [backgroundImage, backgroundScale]);
 
   // Load initial data when it changes
   useEffect(() => {
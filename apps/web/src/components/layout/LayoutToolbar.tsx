@@ -11,6 +11,11 @@ import {
   ImagePlus,
   Save,
   Download,
+  TableProperties,
+  Ruler,
+  Ratio,
+  Compass,
+  Frame,
 } from "lucide-react"
 import {
   Tooltip,
@@ -19,6 +24,7 @@ import {
 } from "@/components/ui/tooltip"
 import { cn } from "@/lib/utils"
 import type { ToolType, LayoutToolbarProps } from "./types"
+import type { ScaleObjectType } from "@/utils/fabricScaleUtils"
 
 const tools: { id: ToolType; icon: React.ElementType; label: string; shortcut: string }[] = [
   { id: 'select', icon: MousePointer2, label: 'Selection', shortcut: 'V' },
@@ -30,6 +36,12 @@ const tools: { id: ToolType; icon: React.ElementType; label: string; shortcut: s
   { id: 'text', icon: Type, label: 'Text', shortcut: 'A' },
 ]
 
+const scaleObjects: { id: ScaleObjectType; icon: React.ElementType; label: string }[] = [
+  { id: 'scaleBar', icon: Ruler, label: 'Scale Bar' },
+  { id: 'scaleText', icon: Ratio, label: 'Scale Ratio' },
+  { id: 'northArrow', icon: Compass, label: 'North Arrow' },
+]
+
 export function LayoutToolbar({
   activeTool,
   onToolChange,
@@ -38,6 +50,9 @@ export function LayoutToolbar({
   onImportImage,
   onSaveLayout,
   onDownloadPdf,
+  onTitleBlock,
+  onMapFrame,
+  onAddScaleObject,
   showSave = true,
 }: LayoutToolbarProps) {
   return (
@@ -64,6 +79,22 @@ export function LayoutToolbar({
         ))}
       </div>
 
+      <div className="bg-background/80 backdrop-blur-sm border border-border p-2 rounded-2xl flex flex-col gap-1 shadow-lg">
+        {scaleObjects.map((item) => (
+          <Tooltip key={item.id}>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() => onAddScaleObject(item.id)}
+                className="w-10 h-10 flex items-center justify-center rounded-xl transition-all hover:bg-accent hover:text-accent-foreground"
+              >
+                <item.icon className="w-5 h-5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="right">{item.label}</TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+
       <div className="bg-background/80 backdrop-blur-sm border border-border p-2 rounded-2xl flex flex-col gap-1 shadow-lg">
         <Tooltip>
           <TooltipTrigger asChild>
@@ -77,6 +108,30 @@ export function LayoutToolbar({
           <TooltipContent side="right">Import Image (I)</TooltipContent>
         </Tooltip>
 
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <button
+              onClick={onMapFrame}
+              className="w-10 h-10 flex items-center justify-center rounded-xl transition-all hover:bg-accent hover:text-accent-foreground"
+            >
+              <Frame className="w-5 h-5" />
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="right">Map Frame</TooltipContent>
+        </Tooltip>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <button
+              onClick={onTitleBlock}
+              className="w-10 h-10 flex items-center justify-center rounded-xl transition-all hover:bg-accent hover:text-accent-foreground"
+            >
+              <TableProperties className="w-5 h-5" />
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="right">Title Block</TooltipContent>
+        </Tooltip>
+
         {showSave && (
           <Tooltip>
             <TooltipTrigger asChild>
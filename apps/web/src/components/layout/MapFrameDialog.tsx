@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react"
+import type { Extent } from "ol/extent"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  readProjectMapState,
+  useMapProjects,
+  type SerializedMapData,
+} from "@/hooks/useMapProjects"
+import type { Folder } from "@/types/folders"
+import {
+  MAP_FRAME_BASEMAP_LABELS,
+  type MapFrame,
+  type MapFrameBasemap,
+} from "@/utils/mapFrameUtils"
+import { MapFrameExtentPicker } from "./MapFrameExtentPicker"
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+
+const DEFAULT_SCALE_DENOMINATOR = 1000
+
+interface MapFrameDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Settings of the selected frame; null when none is selected
+  frame: MapFrame | null
+  onInsert: (frame: MapFrame) => void
+  onUpdate: (frame: MapFrame) => void
+}
+
+// "Parent / Child" names for the area list
+const getFolderOptions = (folders: Record<string, Folder>) => {
+  const getPath = (folder: Folder): string => {
+    const parent = folder.parentId ? folders[folder.parentId] : undefined
+    return parent ? `${getPath(parent)} / ${folder.name}` : folder.name
+  }
+  return Object.values(folders)
+    .map((folder) => ({ id: folder.id, label: getPath(folder) }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+export function MapFrameDialog({
+  isOpen,
+  onClose,
+  frame,
+  onInsert,
+  onUpdate,
+}: MapFrameDialogProps) {
+  const { projects } = useMapProjects()
+
+  const [projectId, setProjectId] = useState("")
+  const [folderId, setFolderId] = useState<string | null>(null)
+  const [fitToFrame, setFitToFrame] = useState(true)
+  const [scaleDenominator, setScaleDenominator] = useState(DEFAULT_SCALE_DENOMINATOR)
+  const [basemap, setBasemap] = useState<MapFrameBasemap>("none")
+  const [pickView, setPickView] = useState(false)
+  const [extent, setExtent] = useState<Extent | null>(null)
+  const [mapData, setMapData] = useState<SerializedMapData | null>(null)
+
+  // Start from the selected frame, or the first job
+  useEffect(() => {
+    if (!isOpen) return
+    setProjectId(frame?.projectId ?? projects[0]?.id ?? "")
+    setFolderId(frame?.folderId ?? null)
+    setFitToFrame(!frame?.scaleDenominator)
+    setScaleDenominator(frame?.scaleDenominator ?? DEFAULT_SCALE_DENOMINATOR)
+    setBasemap(frame?.basemap ?? "none")
+    setPickView(!!frame?.extent)
+    setExtent(frame?.extent ?? null)
+  }, [isOpen, frame, projects])
+
+  // Map of the chosen job, for its folders and the view picker
+  useEffect(() => {
+    if (!isOpen || !projectId) {
+      setMapData(null)
+      return
+    }
+
+    let cancelled = false
+    readProjectMapState(projectId).then((data) => {
+      if (!cancelled) setMapData(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, projectId])
+
+  const folderOptions = getFolderOptions(mapData?.folderStructure?.folders ?? {})
+
+  const canApply =
+    !!projectId && (fitToFrame || scaleDenominator > 0) && (!pickView || !!extent)
+
+  const getFrame = (): MapFrame => ({
+    projectId,
+    folderId,
+    scaleDenominator: fitToFrame ? null : scaleDenominator,
+    basemap,
+    extent: pickView ? extent : null,
+  })
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Map Frame</DialogTitle>
+          <DialogDescription>
+            Shows a job's map on the sheet. It is redrawn from the job's latest
+            data when the layout is opened or exported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="map-frame-job">Job</Label>
+            <select
+              id="map-frame-job"
+              value={projectId}
+              onChange={(e) => {
+                setProjectId(e.target.value)
+                setFolderId(null)
+                setExtent(null)
+              }}
+              className={SELECT_CLASS_NAME}
+            >
+              {projects.length === 0 && <option value="">No jobs</option>}
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="map-frame-area">Area</Label>
+            <select
+              id="map-frame-area"
+              value={folderId ?? ""}
+              onChange={(e) => setFolderId(e.target.value || null)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">Whole job</option>
+              {folderOptions.map((folder) => (
+                <option key={folder.id} value={folder.id}>
+                  {folder.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Features in a folder and its subfolders; use a folder per inset.
+            </p>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="map-frame-pick-view"
+                checked={pickView}
+                onCheckedChange={(checked) => setPickView(checked === true)}
+              />
+              <Label
+                htmlFor="map-frame-pick-view"
+                className="text-sm font-normal leading-none cursor-pointer"
+              >
+                Pick view on map
+              </Label>
+            </div>
+            {pickView && mapData && (
+              <>
+                <MapFrameExtentPicker
+                  key={projectId}
+                  mapData={mapData}
+                  folderId={folderId}
+                  basemap={basemap}
+                  extent={extent}
+                  onChange={setExtent}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Pan and zoom to the part of the map to show. The frame shows
+                  at least this area.
+                </p>
+              </>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="map-frame-fit"
+                checked={fitToFrame}
+                onCheckedChange={(checked) => setFitToFrame(checked === true)}
+              />
+              <Label
+                htmlFor="map-frame-fit"
+                className="text-sm font-normal leading-none cursor-pointer"
+              >
+                Fit area to frame
+              </Label>
+            </div>
+            {!fitToFrame && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">1:</span>
+                <Input
+                  id="map-frame-scale"
+                  type="number"
+                  min="1"
+                  step="100"
+                  value={scaleDenominator}
+                  onChange={(e) => setScaleDenominator(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="map-frame-basemap">Basemap</Label>
+            <select
+              id="map-frame-basemap"
+              value={basemap}
+              onChange={(e) => setBasemap(e.target.value as MapFrameBasemap)}
+              className={SELECT_CLASS_NAME}
+            >
+              {(Object.keys(MAP_FRAME_BASEMAP_LABELS) as MapFrameBasemap[]).map((key) => (
+                <option key={key} value={key}>
+                  {MAP_FRAME_BASEMAP_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {frame && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                onUpdate(getFrame())
+                onClose()
+              }}
+              disabled={!canApply}
+            >
+              Update Frame
+            </Button>
+          )}
+          <Button
+            onClick={() => {
+              onInsert(getFrame())
+              onClose()
+            }}
+            disabled={!canApply}
+          >
+            Insert
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
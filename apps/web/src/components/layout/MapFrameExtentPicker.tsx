@@ -0,0 +1,86 @@
+import { useEffect, useRef } from "react"
+import Map from "ol/Map"
+import View from "ol/View"
+import { isEmpty, type Extent } from "ol/extent"
+import { defaults as defaultControls } from "ol/control/defaults"
+import type { SerializedMapData } from "@/hooks/useMapProjects"
+import {
+  createMapFrameLayers,
+  getMapFrameFeatureExtent,
+  type MapFrameBasemap,
+} from "@/utils/mapFrameUtils"
+
+interface MapFrameExtentPickerProps {
+  mapData: SerializedMapData
+  folderId: string | null
+  basemap: MapFrameBasemap
+  // View to start from; the extent of the features if null
+  extent: Extent | null
+  onChange: (extent: Extent) => void
+}
+
+/**
+ * Small map of a frame's job. Panning and zooming it picks the view the
+ * frame shows.
+ */
+export function MapFrameExtentPicker({
+  mapData,
+  folderId,
+  basemap,
+  extent,
+  onChange,
+}: MapFrameExtentPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<Map | null>(null)
+  // Only read when the map is created, so moving it doesn't recreate it
+  const initialViewRef = useRef({ extent, folderId })
+  const onChangeRef = useRef(onChange)
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const map = new Map({
+      target: containerRef.current,
+      view: new View({ maxZoom: 30 }),
+      controls: defaultControls({ attribution: false, rotate: false }),
+    })
+    mapRef.current = map
+
+    const view = map.getView()
+    const initial = initialViewRef.current
+    const startExtent =
+      initial.extent ?? getMapFrameFeatureExtent(mapData, initial.folderId)
+    if (!isEmpty(startExtent)) {
+      // A picked view is shown as it is, the features with some room
+      view.fit(startExtent, initial.extent ? {} : { padding: [8, 8, 8, 8] })
+    } else {
+      view.setCenter(mapData.mapState?.center ?? [0, 0])
+      view.setZoom(mapData.mapState?.zoom ?? 2)
+    }
+
+    map.on("moveend", () => {
+      const size = map.getSize()
+      if (size) onChangeRef.current(view.calculateExtent(size))
+    })
+
+    return () => {
+      map.setTarget(undefined)
+      mapRef.current = null
+    }
+  }, [mapData])
+
+  useEffect(() => {
+    mapRef.current?.setLayers(createMapFrameLayers(mapData, folderId, basemap))
+  }, [mapData, folderId, basemap])
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-56 w-full rounded-md border border-input overflow-hidden"
+    />
+  )
+}
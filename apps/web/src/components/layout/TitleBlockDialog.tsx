@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Trash2 } from "lucide-react"
+import { useLayoutStore } from "@/stores/layoutStore"
+import {
+  STANDARD_TITLE_BLOCK_ID,
+  TITLE_BLOCK_FIELDS,
+  type TitleBlockValues,
+} from "@/utils/titleBlockUtils"
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+
+interface TitleBlockDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  values: TitleBlockValues
+  // Put the values into the title blocks already on the sheet
+  onApply: (values: TitleBlockValues) => void
+  onInsert: (templateId: string, values: TitleBlockValues) => void
+  // Save the selected title block as a template; null when none is selected
+  onSaveTemplate: ((name: string) => void) | null
+  hasTitleBlocks: boolean
+}
+
+export function TitleBlockDialog({
+  isOpen,
+  onClose,
+  values,
+  onApply,
+  onInsert,
+  onSaveTemplate,
+  hasTitleBlocks,
+}: TitleBlockDialogProps) {
+  const templates = useLayoutStore((state) => state.titleBlockTemplates)
+  const deleteTemplate = useLayoutStore((state) => state.deleteTitleBlockTemplate)
+
+  const [draft, setDraft] = useState<TitleBlockValues>(values)
+  const [templateId, setTemplateId] = useState(STANDARD_TITLE_BLOCK_ID)
+  const [templateName, setTemplateName] = useState("")
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(values)
+      setTemplateName("")
+    }
+  }, [isOpen, values])
+
+  // Fall back to the standard block if the chosen template was deleted
+  useEffect(() => {
+    if (
+      templateId !== STANDARD_TITLE_BLOCK_ID &&
+      !templates.some((template) => template.id === templateId)
+    ) {
+      setTemplateId(STANDARD_TITLE_BLOCK_ID)
+    }
+  }, [templates, templateId])
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim()
+    if (!name || !onSaveTemplate) return
+    onSaveTemplate(name)
+    setTemplateName("")
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Title Block</DialogTitle>
+          <DialogDescription>
+            Job name, date and scale are filled in when a map is exported to
+            this layout.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="title-block-template">Template</Label>
+            <div className="flex gap-2">
+              <select
+                id="title-block-template"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value={STANDARD_TITLE_BLOCK_ID}>Standard</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={templateId === STANDARD_TITLE_BLOCK_ID}
+                onClick={() => deleteTemplate(templateId)}
+                title="Delete template"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {TITLE_BLOCK_FIELDS.map((field) => (
+              <div key={field.key} className="grid gap-1">
+                <Label htmlFor={`title-block-${field.key}`} className="text-xs">
+                  {field.label}
+                </Label>
+                <Input
+                  id={`title-block-${field.key}`}
+                  value={draft[field.key]}
+                  onChange={(e) =>
+                    setDraft((prev) => ({ ...prev, [field.key]: e.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-2 border-t pt-4">
+            <Label htmlFor="title-block-template-name">Save selected title block as template</Label>
+            <div className="flex gap-2">
+              <Input
+                id="title-block-template-name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSaveTemplate()}
+                placeholder={onSaveTemplate ? "Template name..." : "Select a title block on the sheet first"}
+                disabled={!onSaveTemplate}
+              />
+              <Button
+                variant="outline"
+                onClick={handleSaveTemplate}
+                disabled={!onSaveTemplate || !templateName.trim()}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              onApply(draft)
+              onClose()
+            }}
+            disabled={!hasTitleBlocks}
+          >
+            Update Sheet
+          </Button>
+          <Button
+            onClick={() => {
+              onInsert(templateId, draft)
+              onClose()
+            }}
+          >
+            Insert
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
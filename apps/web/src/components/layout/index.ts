@@ -3,5 +3,7 @@ export { LayoutCanvas } from './LayoutCanvas'
 export { LayoutPropertiesPanel } from './LayoutPropertiesPanel'
 export { SaveLayoutDialog } from './SaveLayoutDialog'
 export { ZoomControls } from './ZoomControls'
+export { TitleBlockDialog } from './TitleBlockDialog'
+export { MapFrameDialog } from './MapFrameDialog'
 export { PAGE_SIZES } from './types'
 export type { ToolType, PageSize, Orientation, LayoutToolbarProps, LayoutCanvasProps, LayoutPropertiesPanelProps, ZoomControlsProps } from './types'
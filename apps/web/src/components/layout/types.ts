@@ -1,4 +1,6 @@
 import type * as fabric from "fabric"
+import type { MapImageScale } from "@/utils/mapImageExport"
+import type { ScaleObjectType } from "@/utils/fabricScaleUtils"
 
 export type ToolType = 'select' | 'rect' | 'circle' | 'triangle' | 'line' | 'text' | 'pencil'
 
@@ -30,6 +32,9 @@ export interface LayoutToolbarProps {
   onImportImage: () => void
   onSaveLayout: () => void
   onDownloadPdf: () => void
+  onTitleBlock: () => void
+  onMapFrame: () => void
+  onAddScaleObject: (type: ScaleObjectType) => void
   showSave?: boolean
 }
 
@@ -44,6 +49,7 @@ export interface LayoutCanvasProps {
   zoom: number
   onZoomChange: (zoom: number) => void
   backgroundImage?: string
+  backgroundScale?: MapImageScale // Scale of the exported map image
 }
 
 export interface ZoomControlsProps {
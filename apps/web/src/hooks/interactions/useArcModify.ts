@@ -9,6 +9,7 @@ import VectorLayerOL from 'ol/layer/Vector';
 import { Style, Circle as CircleStyle, Fill, Stroke } from 'ol/style';
 import type { Coordinate } from 'ol/coordinate';
 import { createArcGeometry, extractControlPointsFromArc } from '@/utils/arcUtils';
+import { getFeatureId } from '@/utils/featureIdUtils';
 
 // Control point colors for visual distinction
 const CONTROL_POINT_COLORS = {
@@ -262,8 +263,7 @@ export const useArcModify = ({
 
       if (controlPoints.length !== 3) return;
 
-      // Use ol_uid or generate a unique ID
-      const arcId = (arcFeature as any).ol_uid?.toString() || Date.now().toString();
+      const arcId = getFeatureId(arcFeature);
       currentArcRef.current = arcFeature;
       isActiveRef.current = true;
 
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type Map from "ol/Map";
+import type Feature from "ol/Feature";
+import type { LineString } from "ol/geom";
+import {
+  DEFAULT_CHAINAGE_SETTINGS,
+  getChainageSettings,
+  getEndChainage,
+  setChainageSettings,
+  supportsChainage,
+  type ChainageSettings,
+} from "@/utils/chainageUtils";
+
+export interface UseChainageEditorReturn {
+  // State
+  settings: ChainageSettings;
+  supportsChainageSettings: boolean;
+  endChainage: number | null;
+
+  // Actions
+  handleSettingsChange: (changes: Partial<ChainageSettings>) => void;
+  resetToOriginal: () => void;
+  commitChainage: () => void;
+}
+
+export const useChainageEditor = (
+  selectedFeature: Feature | null,
+  map: Map | null
+): UseChainageEditorReturn => {
+  const [settings, setSettings] = useState<ChainageSettings>(DEFAULT_CHAINAGE_SETTINGS);
+  const [originalSettings, setOriginalSettings] = useState<ChainageSettings>(
+    DEFAULT_CHAINAGE_SETTINGS
+  );
+
+  // Check if selected feature supports chainage
+  const supportsChainageSettings = useMemo(() => {
+    return supportsChainage(selectedFeature);
+  }, [selectedFeature]);
+
+  // Initialize settings when feature changes
+  useEffect(() => {
+    const featureSettings =
+      selectedFeature && supportsChainage(selectedFeature)
+        ? getChainageSettings(selectedFeature)
+        : DEFAULT_CHAINAGE_SETTINGS;
+    setSettings(featureSettings);
+    setOriginalSettings(featureSettings);
+  }, [selectedFeature]);
+
+  // Chainage at the end of the route
+  const endChainage = useMemo(() => {
+    if (!selectedFeature || !supportsChainageSettings) return null;
+    const geometry = selectedFeature.getGeometry() as LineString;
+    return getEndChainage(geometry.getCoordinates(), settings);
+  }, [selectedFeature, supportsChainageSettings, settings]);
+
+  const applySettings = useCallback(
+    (next: ChainageSettings) => {
+      setSettings(next);
+      if (selectedFeature) {
+        setChainageSettings(selectedFeature, next);
+        selectedFeature.changed();
+        map?.render();
+      }
+    },
+    [selectedFeature, map]
+  );
+
+  // Handle setting change with live preview
+  const handleSettingsChange = useCallback(
+    (changes: Partial<ChainageSettings>) => {
+      applySettings({ ...settings, ...changes });
+    },
+    [applySettings, settings]
+  );
+
+  const resetToOriginal = useCallback(() => {
+    // Leave features that were never edited without chainage properties
+    if (!supportsChainageSettings || settings === originalSettings) return;
+    applySettings(originalSettings);
+  }, [applySettings, originalSettings, settings, supportsChainageSettings]);
+
+  // Commit current settings as new original (call on save)
+  const commitChainage = useCallback(() => {
+    setOriginalSettings(settings);
+  }, [settings]);
+
+  return {
+    settings,
+    supportsChainageSettings,
+    endChainage,
+    handleSettingsChange,
+    resetToOriginal,
+    commitChainage,
+  };
+};
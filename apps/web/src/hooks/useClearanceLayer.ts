@@ -0,0 +1,84 @@
+import { useEffect, useRef } from "react";
+import type Map from "ol/Map";
+import type { Feature } from "ol";
+import type { Geometry } from "ol/geom";
+import { Vector as VectorLayer } from "ol/layer";
+import type { Vector as VectorSource } from "ol/source";
+import { Circle as CircleStyle, Fill, Stroke, Style, Text } from "ol/style";
+import { useClearanceStore } from "@/stores/useClearanceStore";
+import type { ClearanceViolation } from "@/utils/offsetUtils";
+
+// Drawn above the editable vector layer, below comparison and crossings
+const CLEARANCE_LAYER_Z_INDEX = 999;
+
+const CLEARANCE_HALO_STYLE = new Style({
+  stroke: new Stroke({ color: "rgba(220, 38, 38, 0.45)", width: 10 }),
+  fill: new Fill({ color: "rgba(220, 38, 38, 0.15)" }),
+  image: new CircleStyle({
+    radius: 14,
+    stroke: new Stroke({ color: "rgba(220, 38, 38, 0.8)", width: 3 }),
+    fill: new Fill({ color: "rgba(220, 38, 38, 0.15)" }),
+  }),
+});
+
+const createClearanceStyle = (violation: ClearanceViolation): Style[] => [
+  CLEARANCE_HALO_STYLE,
+  new Style({
+    text: new Text({
+      text: `${violation.distance.toFixed(1)} m from ${violation.source.get("name") || "feature"}`,
+      font: "bold 12px sans-serif",
+      fill: new Fill({ color: "#dc2626" }),
+      stroke: new Stroke({ color: "#ffffff", width: 3 }),
+      offsetY: -22,
+    }),
+  }),
+];
+
+/**
+ * Highlight the features flagged by the last clearance check (see
+ * useClearanceStore) with a red halo and their distance. The overlay shares
+ * the job's vector source, so the halos follow the features as they change.
+ */
+export const useClearanceLayer = (
+  map: Map | null,
+  vectorSource: VectorSource<Feature<Geometry>>,
+) => {
+  const layerRef = useRef<VectorLayer<VectorSource<Feature<Geometry>>> | null>(
+    null,
+  );
+  const violationsRef = useRef(
+    new globalThis.Map<Feature<Geometry>, ClearanceViolation>(),
+  );
+  const { violations } = useClearanceStore();
+
+  useEffect(() => {
+    if (!map) return;
+
+    const layer = new VectorLayer({
+      source: vectorSource,
+      zIndex: CLEARANCE_LAYER_Z_INDEX,
+      properties: { name: "clearance" },
+      style: (feature) => {
+        const violation = violationsRef.current.get(
+          feature as Feature<Geometry>,
+        );
+        return violation ? createClearanceStyle(violation) : undefined;
+      },
+    });
+    map.addLayer(layer);
+    layerRef.current = layer;
+
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map, vectorSource]);
+
+  // Restyle when a check runs or its flags are cleared
+  useEffect(() => {
+    violationsRef.current = new globalThis.Map(
+      (violations ?? []).map((violation) => [violation.feature, violation]),
+    );
+    layerRef.current?.changed();
+  }, [violations]);
+};
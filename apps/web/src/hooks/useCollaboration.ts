@@ -0,0 +1,416 @@
+import { useEffect, useRef } from "react";
+import type Map from "ol/Map";
+import type { Feature } from "ol";
+import type { Geometry } from "ol/geom";
+import type { Vector as VectorSource } from "ol/source";
+import type { Select } from "ol/interaction";
+import type UndoRedo from "ol-ext/interaction/UndoRedo";
+import { toLonLat } from "ol/proj";
+import { useCollaborationStore } from "@/stores/useCollaborationStore";
+import { useFolderStore } from "@/stores/useFolderStore";
+import type {
+  ClientMessage,
+  EntityKind,
+  EntityRecord,
+  ServerMessage,
+} from "@/types/collaboration";
+import {
+  applyFeatureRecords,
+  applyFolderRecords,
+  buildCollaborationUrl,
+  compareVersions,
+  getLocalEntityData,
+  getRecordKey,
+  loadPendingOps,
+  savePendingOps,
+} from "@/utils/collaborationUtils";
+import { convertFeatureToGeoJSON } from "@/utils/serializationUtils";
+import { getFeatureId } from "@/utils/featureIdUtils";
+
+// Batch local edits (a drag fires many change events)
+const FLUSH_DELAY_MS = 250;
+const PRESENCE_INTERVAL_MS = 100;
+// Persist remote edits to the local DB in one go
+const REMOTE_SAVE_DELAY_MS = 1000;
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+interface UseCollaborationOptions {
+  map: Map | null;
+  vectorSource: VectorSource<Feature<Geometry>>;
+  projectId: string | null;
+  selectInteraction: Select | null;
+  getUndoRedo: () => UndoRedo | null;
+  // Called after remote edits were applied so the local DB copy is updated
+  onRemoteChange: () => void;
+}
+
+/**
+ * Keep the vector source and folder store in sync with a shared session on
+ * the backend while one is joined (see useCollaborationStore).
+ *
+ * Every feature and folder is replicated separately with last-writer-wins
+ * ordering, so concurrent edits to different entities merge cleanly. Local
+ * edits made while disconnected are queued (and kept in localStorage) and
+ * sent on reconnect; the local DB keeps saving as usual, so the job stays
+ * usable offline.
+ */
+export const useCollaboration = ({
+  map,
+  vectorSource,
+  projectId,
+  selectInteraction,
+  getUndoRedo,
+  onRemoteChange,
+}: UseCollaborationOptions) => {
+  const session = useCollaborationStore((state) => state.session);
+  const serverUrl = useCollaborationStore((state) => state.serverUrl);
+
+  const getUndoRedoRef = useRef(getUndoRedo);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  useEffect(() => {
+    getUndoRedoRef.current = getUndoRedo;
+    onRemoteChangeRef.current = onRemoteChange;
+  });
+
+  // Switching jobs leaves the session
+  useEffect(() => {
+    if (session && session.projectId !== projectId) {
+      useCollaborationStore.getState().leaveSession();
+    }
+  }, [session, projectId]);
+
+  const sessionId =
+    session && session.projectId === projectId ? session.sessionId : null;
+
+  useEffect(() => {
+    if (!map || !sessionId) return;
+
+    const store = useCollaborationStore.getState();
+    const clientId = crypto.randomUUID();
+
+    let socket: WebSocket | null = null;
+    let disposed = false;
+    let applyingRemote = false;
+    let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+    let cursor: [number, number] | null = null;
+
+    const stored = loadPendingOps(sessionId);
+    let clock = stored.clock;
+    // Local edits not yet acknowledged by the server
+    const pending = new globalThis.Map<string, EntityRecord>();
+    // Latest known version of every entity
+    const versions = new globalThis.Map<string, EntityRecord>();
+    // Last synced data per entity, to skip events that changed nothing shared
+    const lastSynced = new globalThis.Map<string, string>();
+    const dirty = new Set<string>();
+
+    stored.records.forEach((record) => {
+      const key = getRecordKey(record);
+      pending.set(key, record);
+      versions.set(key, record);
+    });
+
+    const send = (message: ClientMessage) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const persistPending = () => {
+      savePendingOps(sessionId, clock, [...pending.values()]);
+      useCollaborationStore.getState().setPendingCount(pending.size);
+    };
+
+    // ========================================================================
+    // LOCAL EDITS
+    // ========================================================================
+
+    const flush = () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+
+      const folders = useFolderStore.getState().folders;
+      const records: EntityRecord[] = [];
+
+      dirty.forEach((key) => {
+        const separator = key.indexOf(":");
+        const kind = key.slice(0, separator) as EntityKind;
+        const id = key.slice(separator + 1);
+        const data = getLocalEntityData(kind, id, vectorSource, folders);
+
+        const serialized = JSON.stringify(data);
+        if (lastSynced.get(key) === serialized) return;
+        // Never synced and already gone: nothing to tell anyone
+        if (data === null && !lastSynced.has(key) && !versions.has(key)) return;
+
+        clock += 1;
+        const record: EntityRecord = { kind, id, data, clock, clientId };
+        lastSynced.set(key, serialized);
+        versions.set(key, record);
+        pending.set(key, record);
+        records.push(record);
+      });
+      dirty.clear();
+
+      if (records.length > 0) {
+        send({ type: "ops", ops: records });
+        persistPending();
+      }
+    };
+
+    const markDirty = (kind: EntityKind, id: string) => {
+      if (applyingRemote) return;
+      dirty.add(getRecordKey({ kind, id }));
+      if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+    };
+
+    const handleFeatureEvent = (event: { feature?: Feature<Geometry> }) => {
+      if (event.feature) markDirty("feature", getFeatureId(event.feature));
+    };
+
+    vectorSource.on("addfeature", handleFeatureEvent);
+    vectorSource.on("changefeature", handleFeatureEvent);
+    vectorSource.on("removefeature", handleFeatureEvent);
+
+    const unsubscribeFolders = useFolderStore.subscribe((state, prevState) => {
+      if (applyingRemote || state.folders === prevState.folders) return;
+
+      const ids = new Set([
+        ...Object.keys(state.folders),
+        ...Object.keys(prevState.folders),
+      ]);
+      ids.forEach((id) => {
+        if (state.folders[id] !== prevState.folders[id]) markDirty("folder", id);
+      });
+    });
+
+    // ========================================================================
+    // REMOTE EDITS
+    // ========================================================================
+
+    const scheduleSave = () => {
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = setTimeout(() => onRemoteChangeRef.current(), REMOTE_SAVE_DELAY_MS);
+    };
+
+    const applyRemoteRecords = (records: EntityRecord[]) => {
+      const newer = records.filter((record) => {
+        clock = Math.max(clock, record.clock);
+        const known = versions.get(getRecordKey(record));
+        return !known || compareVersions(record, known) > 0;
+      });
+      if (newer.length === 0) return;
+
+      // Remote edits must not end up on this user's undo stack
+      const undoRedo = getUndoRedoRef.current();
+      const wasUndoRedoActive = undoRedo?.getActive() ?? false;
+      undoRedo?.setActive(false);
+      applyingRemote = true;
+
+      try {
+        newer.forEach((record) => {
+          const key = getRecordKey(record);
+          versions.set(key, record);
+          pending.delete(key);
+          dirty.delete(key);
+        });
+
+        const featureRecords = newer.filter((record) => record.kind === "feature");
+        applyFeatureRecords(vectorSource, featureRecords).forEach((feature) => {
+          lastSynced.set(
+            getRecordKey({ kind: "feature", id: getFeatureId(feature) }),
+            JSON.stringify(convertFeatureToGeoJSON(feature)),
+          );
+        });
+        featureRecords
+          .filter((record) => record.data === null)
+          .forEach((record) => lastSynced.set(getRecordKey(record), "null"));
+
+        const folderRecords = newer.filter((record) => record.kind === "folder");
+        if (folderRecords.length > 0) {
+          const folders = applyFolderRecords(
+            useFolderStore.getState().folders,
+            folderRecords,
+          );
+          useFolderStore.setState({ folders });
+          folderRecords.forEach((record) => {
+            lastSynced.set(getRecordKey(record), JSON.stringify(record.data));
+          });
+        }
+      } catch (error) {
+        console.error("Failed to apply remote edits:", error);
+      } finally {
+        applyingRemote = false;
+        if (wasUndoRedoActive) undoRedo?.setActive(true);
+      }
+
+      persistPending();
+      scheduleSave();
+    };
+
+    const handleSnapshot = (records: EntityRecord[], serverClock: number) => {
+      clock = Math.max(clock, serverClock);
+      applyRemoteRecords(records);
+
+      // Seed the session with local entities the server has never seen
+      const remoteKeys = new Set(records.map(getRecordKey));
+      vectorSource.getFeatures().forEach((feature) => {
+        const key = getRecordKey({ kind: "feature", id: getFeatureId(feature) });
+        if (!remoteKeys.has(key)) dirty.add(key);
+      });
+      Object.keys(useFolderStore.getState().folders).forEach((id) => {
+        const key = getRecordKey({ kind: "folder", id });
+        if (!remoteKeys.has(key)) dirty.add(key);
+      });
+      flush();
+
+      // Resend everything still unconfirmed, including offline edits
+      if (pending.size > 0) {
+        send({ type: "ops", ops: [...pending.values()] });
+      }
+    };
+
+    const handleMessage = (message: ServerMessage) => {
+      const state = useCollaborationStore.getState();
+
+      switch (message.type) {
+        case "snapshot":
+          state.setPeers(message.peers);
+          handleSnapshot(message.records, message.clock);
+          state.setStatus("connected");
+          break;
+        case "ops":
+          applyRemoteRecords(message.ops);
+          break;
+        case "ack":
+          message.ops.forEach((ack) => {
+            const key = getRecordKey(ack);
+            if (pending.get(key)?.clock === ack.clock) pending.delete(key);
+          });
+          persistPending();
+          break;
+        case "presence":
+          state.upsertPeer(message.peer);
+          break;
+        case "leave":
+          state.removePeer(message.clientId);
+          break;
+        case "error":
+          console.error("Collaboration server error:", message.message);
+          break;
+      }
+    };
+
+    // ========================================================================
+    // PRESENCE
+    // ========================================================================
+
+    const sendPresence = () => {
+      if (presenceTimer) return;
+      presenceTimer = setTimeout(() => {
+        presenceTimer = null;
+        const selection = selectInteraction
+          ? selectInteraction.getFeatures().getArray().map((f) => getFeatureId(f))
+          : [];
+        send({ type: "presence", cursor, selection });
+      }, PRESENCE_INTERVAL_MS);
+    };
+
+    const handlePointerMove = (event: { coordinate: number[] }) => {
+      const [lon, lat] = toLonLat(event.coordinate);
+      cursor = [lon, lat];
+      sendPresence();
+    };
+    const handlePointerLeave = () => {
+      cursor = null;
+      sendPresence();
+    };
+
+    map.on("pointermove", handlePointerMove);
+    map.getViewport().addEventListener("mouseleave", handlePointerLeave);
+    const selectedFeatures = selectInteraction?.getFeatures();
+    selectedFeatures?.on("add", sendPresence);
+    selectedFeatures?.on("remove", sendPresence);
+
+    // ========================================================================
+    // CONNECTION
+    // ========================================================================
+
+    const scheduleReconnect = () => {
+      if (disposed) return;
+      useCollaborationStore.getState().setStatus("reconnecting");
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+
+    const connect = () => {
+      if (disposed) return;
+
+      try {
+        socket = new WebSocket(buildCollaborationUrl(serverUrl, sessionId));
+      } catch (error) {
+        console.error("Failed to open collaboration socket:", error);
+        scheduleReconnect();
+        return;
+      }
+
+      const { userName, userColor } = useCollaborationStore.getState();
+      socket.onopen = () => {
+        reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+        send({
+          type: "hello",
+          clientId,
+          name: userName || "Anonymous",
+          color: userColor,
+        });
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data) as ServerMessage);
+        } catch (error) {
+          console.error("Failed to handle collaboration message:", error);
+        }
+      };
+      socket.onclose = () => {
+        socket = null;
+        useCollaborationStore.getState().setPeers([]);
+        scheduleReconnect();
+      };
+    };
+
+    store.setPendingCount(pending.size);
+    store.setStatus("connecting");
+    connect();
+
+    return () => {
+      disposed = true;
+      // Queue whatever is still unsent for the next time the session is joined
+      flush();
+      persistPending();
+
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (presenceTimer) clearTimeout(presenceTimer);
+      if (saveTimer) clearTimeout(saveTimer);
+
+      vectorSource.un("addfeature", handleFeatureEvent);
+      vectorSource.un("changefeature", handleFeatureEvent);
+      vectorSource.un("removefeature", handleFeatureEvent);
+      unsubscribeFolders();
+      map.un("pointermove", handlePointerMove);
+      map.getViewport().removeEventListener("mouseleave", handlePointerLeave);
+      selectedFeatures?.un("add", sendPresence);
+      selectedFeatures?.un("remove", sendPresence);
+
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+      }
+      useCollaborationStore.getState().setPeers([]);
+    };
+  }, [map, vectorSource, sessionId, serverUrl, selectInteraction]);
+};
@@ -0,0 +1,112 @@
+import { useEffect, useRef } from "react";
+import type Map from "ol/Map";
+import { Feature } from "ol";
+import { Point, type Geometry } from "ol/geom";
+import { fromLonLat } from "ol/proj";
+import { Vector as VectorLayer } from "ol/layer";
+import { Vector as VectorSource } from "ol/source";
+import {
+  Circle as CircleStyle,
+  Fill,
+  Stroke,
+  Style,
+  Text,
+} from "ol/style";
+import { useCollaborationStore } from "@/stores/useCollaborationStore";
+
+// Above the editable layer, below the comparison overlay
+const COLLABORATION_LAYER_Z_INDEX = 900;
+
+const createCursorStyle = (name: string, color: string): Style =>
+  new Style({
+    image: new CircleStyle({
+      radius: 5,
+      fill: new Fill({ color }),
+      stroke: new Stroke({ color: "#ffffff", width: 2 }),
+    }),
+    text: new Text({
+      text: name,
+      offsetX: 10,
+      offsetY: -10,
+      textAlign: "left",
+      font: "bold 12px sans-serif",
+      fill: new Fill({ color: "#ffffff" }),
+      backgroundFill: new Fill({ color }),
+      padding: [2, 4, 2, 4],
+    }),
+  });
+
+const createSelectionStyle = (color: string): Style =>
+  new Style({
+    stroke: new Stroke({ color, width: 4, lineDash: [6, 6] }),
+    fill: new Fill({ color: `${color}1a` }),
+    image: new CircleStyle({
+      radius: 10,
+      stroke: new Stroke({ color, width: 3, lineDash: [4, 4] }),
+    }),
+  });
+
+/**
+ * Show the cursors and selections of the other users in the collaboration
+ * session as an overlay layer.
+ */
+export const useCollaborationLayer = (
+  map: Map | null,
+  vectorSource: VectorSource<Feature<Geometry>>,
+) => {
+  const layerRef = useRef<VectorLayer<VectorSource<Feature<Geometry>>> | null>(
+    null,
+  );
+  const peers = useCollaborationStore((state) => state.peers);
+
+  // Create the overlay layer once per map
+  useEffect(() => {
+    if (!map) return;
+
+    const layer = new VectorLayer({
+      source: new VectorSource<Feature<Geometry>>(),
+      zIndex: COLLABORATION_LAYER_Z_INDEX,
+      properties: { name: "collaboration" },
+      style: (feature) => feature.get("peerStyle"),
+    });
+    map.addLayer(layer);
+    layerRef.current = layer;
+
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  // Rebuild cursors and selection outlines when peers move or select
+  useEffect(() => {
+    const source = layerRef.current?.getSource();
+    if (!source) return;
+
+    source.clear();
+
+    const features: Feature<Geometry>[] = [];
+    Object.values(peers).forEach((peer) => {
+      const selectionStyle = createSelectionStyle(peer.color);
+      peer.selection.forEach((id) => {
+        const geometry = vectorSource.getFeatureById(id)?.getGeometry();
+        if (geometry) {
+          features.push(
+            new Feature({ geometry: geometry.clone(), peerStyle: selectionStyle }),
+          );
+        }
+      });
+
+      if (peer.cursor) {
+        features.push(
+          new Feature({
+            geometry: new Point(fromLonLat(peer.cursor)),
+            peerStyle: createCursorStyle(peer.name, peer.color),
+          }),
+        );
+      }
+    });
+
+    source.addFeatures(features);
+  }, [map, peers, vectorSource]);
+};
@@ -0,0 +1,157 @@
+import { useEffect, useRef } from "react";
+import type Map from "ol/Map";
+import { Feature } from "ol";
+import type { Geometry } from "ol/geom";
+import GeoJSON from "ol/format/GeoJSON";
+import { Vector as VectorLayer } from "ol/layer";
+import { Vector as VectorSource } from "ol/source";
+import { Circle as CircleStyle, Fill, Stroke, Style } from "ol/style";
+import { useComparisonStore } from "@/stores/useComparisonStore";
+import {
+  FEATURE_DIFF_COLORS,
+  type FeatureDiffStatus,
+  type GeoJSONFeature,
+} from "@/utils/featureDiffUtils";
+
+// Drawn above the editable vector layer so changes stay visible
+const COMPARISON_LAYER_Z_INDEX = 1000;
+
+const geoJSONFormat = new GeoJSON();
+
+const readGeometry = (feature: GeoJSONFeature | null): Geometry | null => {
+  if (!feature?.geometry) return null;
+  try {
+    return geoJSONFormat.readGeometry(feature.geometry, {
+      dataProjection: "EPSG:4326",
+      featureProjection: "EPSG:3857",
+    });
+  } catch (error) {
+    console.error("Failed to read comparison geometry:", error);
+    return null;
+  }
+};
+
+const createComparisonStyle = (
+  status: FeatureDiffStatus,
+  isPrevious: boolean,
+  isFocused: boolean,
+): Style[] => {
+  const color = FEATURE_DIFF_COLORS[status];
+  const width = status === "unchanged" ? 1.5 : 3;
+  const lineDash = isPrevious || status === "removed" ? [8, 6] : undefined;
+
+  const styles: Style[] = [];
+  if (isFocused) {
+    styles.push(
+      new Style({
+        stroke: new Stroke({ color: "rgba(255, 255, 255, 0.9)", width: width + 6 }),
+        image: new CircleStyle({
+          radius: 11,
+          fill: new Fill({ color: "rgba(255, 255, 255, 0.9)" }),
+        }),
+      }),
+    );
+  }
+
+  styles.push(
+    new Style({
+      stroke: new Stroke({
+        color: isPrevious ? `${color}99` : color,
+        width: isFocused ? width + 2 : width,
+        lineDash,
+      }),
+      fill: new Fill({ color: `${color}26` }),
+      image: new CircleStyle({
+        radius: isFocused ? 8 : 6,
+        fill: new Fill({ color: isPrevious ? "#ffffff" : color }),
+        stroke: new Stroke({ color: isPrevious ? color : "#ffffff", width: 2 }),
+      }),
+    }),
+  );
+
+  return styles;
+};
+
+/**
+ * Render the active comparison from useComparisonStore as an overlay layer:
+ * each entry uses its status colour, removed features and the previous
+ * geometry of moved features are dashed, and the focused entry is haloed.
+ */
+export const useComparisonLayer = (map: Map | null) => {
+  const layerRef = useRef<VectorLayer<VectorSource<Feature<Geometry>>> | null>(
+    null,
+  );
+  const { result, visibleStatuses, focusedEntryIndex } = useComparisonStore();
+
+  // Create the overlay layer once per map
+  useEffect(() => {
+    if (!map) return;
+
+    const layer = new VectorLayer({
+      source: new VectorSource<Feature<Geometry>>(),
+      zIndex: COMPARISON_LAYER_Z_INDEX,
+      properties: { name: "comparison" },
+      style: (feature) =>
+        createComparisonStyle(
+          feature.get("diffStatus"),
+          feature.get("isPreviousGeometry"),
+          feature.get("diffEntryIndex") ===
+            useComparisonStore.getState().focusedEntryIndex,
+        ),
+    });
+    map.addLayer(layer);
+    layerRef.current = layer;
+
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  // Rebuild overlay features when the comparison or the filters change
+  useEffect(() => {
+    const source = layerRef.current?.getSource();
+    if (!source) return;
+
+    source.clear();
+    if (!result) return;
+
+    const features: Feature<Geometry>[] = [];
+    result.entries.forEach((entry, index) => {
+      if (!visibleStatuses.has(entry.status)) return;
+
+      if (entry.status === "geometry-changed") {
+        const previous = readGeometry(entry.base);
+        if (previous) {
+          features.push(
+            new Feature({
+              geometry: previous,
+              diffStatus: entry.status,
+              diffEntryIndex: index,
+              isPreviousGeometry: true,
+            }),
+          );
+        }
+      }
+
+      const geometry = readGeometry(entry.target ?? entry.base);
+      if (geometry) {
+        features.push(
+          new Feature({
+            geometry,
+            diffStatus: entry.status,
+            diffEntryIndex: index,
+            isPreviousGeometry: false,
+          }),
+        );
+      }
+    });
+
+    source.addFeatures(features);
+  }, [map, result, visibleStatuses]);
+
+  // Restyle when the focused entry changes
+  useEffect(() => {
+    layerRef.current?.changed();
+  }, [focusedEntryIndex]);
+};
@@ -0,0 +1,106 @@
+import { useEffect, useRef } from "react";
+import type Map from "ol/Map";
+import { Feature } from "ol";
+import { Point, type Geometry } from "ol/geom";
+import { Vector as VectorLayer } from "ol/layer";
+import { Vector as VectorSource } from "ol/source";
+import { Circle as CircleStyle, Fill, RegularShape, Stroke, Style } from "ol/style";
+import { useCrossingStore } from "@/stores/useCrossingStore";
+
+// Drawn above the editable vector layer so crossings stay visible
+const CROSSING_LAYER_Z_INDEX = 1000;
+
+const CROSSING_COLOR = "#dc2626";
+
+const createCrossingStyle = (isFocused: boolean): Style[] => {
+  const styles: Style[] = [];
+  if (isFocused) {
+    styles.push(
+      new Style({
+        image: new CircleStyle({
+          radius: 14,
+          fill: new Fill({ color: "rgba(255, 255, 255, 0.9)" }),
+        }),
+      }),
+    );
+  }
+
+  styles.push(
+    new Style({
+      image: new CircleStyle({
+        radius: isFocused ? 10 : 8,
+        fill: new Fill({ color: "rgba(220, 38, 38, 0.15)" }),
+        stroke: new Stroke({ color: CROSSING_COLOR, width: 2 }),
+      }),
+    }),
+    new Style({
+      image: new RegularShape({
+        points: 4,
+        radius: isFocused ? 7 : 5,
+        radius2: 0,
+        angle: Math.PI / 4,
+        stroke: new Stroke({ color: CROSSING_COLOR, width: 2 }),
+      }),
+    }),
+  );
+
+  return styles;
+};
+
+/**
+ * Render the crossings from useCrossingStore as an overlay layer of circled
+ * crosses, haloing the focused crossing.
+ */
+export const useCrossingLayer = (map: Map | null) => {
+  const layerRef = useRef<VectorLayer<VectorSource<Feature<Geometry>>> | null>(
+    null,
+  );
+  const { crossings, focusedIndex } = useCrossingStore();
+
+  // Create the overlay layer once per map
+  useEffect(() => {
+    if (!map) return;
+
+    const layer = new VectorLayer({
+      source: new VectorSource<Feature<Geometry>>(),
+      zIndex: CROSSING_LAYER_Z_INDEX,
+      properties: { name: "crossings" },
+      style: (feature) =>
+        createCrossingStyle(
+          feature.get("crossingIndex") ===
+            useCrossingStore.getState().focusedIndex,
+        ),
+    });
+    map.addLayer(layer);
+    layerRef.current = layer;
+
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  // Rebuild overlay features when the crossings change
+  useEffect(() => {
+    const source = layerRef.current?.getSource();
+    if (!source) return;
+
+    source.clear();
+    if (!crossings) return;
+
+    source.addFeatures(
+      crossings.map(
+        (crossing, index) =>
+          new Feature<Geometry>({
+            geometry: new Point(crossing.coordinate),
+            crossingIndex: index,
+          }),
+      ),
+    );
+  }, [map, crossings]);
+
+  // Restyle when the focused crossing changes
+  useEffect(() => {
+    layerRef.current?.changed();
+  }, [focusedIndex]);
+};
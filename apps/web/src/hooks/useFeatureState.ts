@@ -1,6 +1,7 @@
 import { useState } from "react";
 import Feature from "ol/Feature";
 import type { Geometry } from "ol/geom";
+import { getFeatureId } from "@/utils/featureIdUtils";
 
 export interface ClipboardState {
   copiedFeatures: Feature<Geometry>[];
@@ -30,7 +31,7 @@ export const useFeatureState = (): UseFeatureStateReturn => {
   });
 
   const setCopiedFeatures = (features: Feature<Geometry>[], isCut: boolean = false) => {
-    const featureIds = features.map(f => (f as unknown as { ol_uid: string }).ol_uid || '');
+    const featureIds = features.map(f => getFeatureId(f));
     setClipboardState({
       copiedFeatures: features,
       isCutOperation: isCut,
@@ -0,0 +1,46 @@
+import { useRef, useState, type DragEvent } from "react";
+
+const hasFiles = (event: DragEvent) =>
+  Array.from(event.dataTransfer.types).includes("Files");
+
+/**
+ * Drag-and-drop of files from the desktop onto an element.
+ * Spread `dropHandlers` onto the drop target; `isDraggingFiles` is true
+ * while files are held over it.
+ */
+export const useFileDrop = (onDrop: (files: File[]) => void) => {
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // dragenter/dragleave also fire for every child the pointer crosses
+  const dragDepthRef = useRef(0);
+
+  const dropHandlers = {
+    onDragEnter: (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current++;
+      setIsDraggingFiles(true);
+    },
+    onDragOver: (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      // Required for the element to accept the drop
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "copy";
+    },
+    onDragLeave: (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+    },
+    onDrop: (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDraggingFiles(false);
+
+      const files = Array.from(event.dataTransfer.files);
+      if (files.length > 0) onDrop(files);
+    },
+  };
+
+  return { isDraggingFiles, dropHandlers };
+};
@@ -3,6 +3,9 @@ import { useState, useEffect, useCallback } from 'react';
 import { PGlite } from '@electric-sql/pglite';
 import { live } from '@electric-sql/pglite/live';
 import SuperJSON from 'superjson';
+import { useServerSyncStore } from '@/stores/useServerSyncStore';
+import { scheduleProjectPush } from '@/utils/projectSyncUtils';
+import type { CrsOption } from '@/utils/crsUtils';
 
 export interface Project {
   id: string;
@@ -21,6 +24,16 @@ export interface SerializedMapData {
   folderStructure?: {
     folders: Record<string, any>;
   };
+  hiddenFeatureIds?: string[];
+  // Coordinate system for entering and showing coordinates (WGS84 if unset)
+  crs?: CrsOption;
+}
+
+export interface MapRevision {
+  id: number;
+  feature_count: number;
+  note: string | null;
+  created_at: string;
 }
 
 interface MapStateRow {
@@ -28,6 +41,98 @@ interface MapStateRow {
   serialized_data: string;
 }
 
+interface MapRevisionRow extends MapRevision {
+  serialized_data: string;
+}
+
+// Autosaves within this window are folded into the latest revision instead of
+// adding a new row, so a burst of edits doesn't flood the history.
+const REVISION_COALESCE_MS = 60 * 1000;
+// Oldest revisions beyond this count are pruned after each save.
+const MAX_REVISIONS = 200;
+
+// The job loaded in the map editor. Its connection stays open when the
+// layout editor is shown, so reads of that job go through it instead of a
+// second connection to the same database.
+let openProject: { id: string; db: PGlite } | null = null;
+
+/**
+ * Create the per-project tables if they don't exist yet.
+ * `map_state` holds the current snapshot (single row, id = 1) and
+ * `map_revisions` keeps every earlier snapshot for point-in-time restore.
+ */
+export const ensureProjectTables = async (db: PGlite): Promise<void> => {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS map_state (
+      id INTEGER PRIMARY KEY,
+      serialized_data TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS map_revisions (
+      id SERIAL PRIMARY KEY,
+      serialized_data TEXT NOT NULL,
+      feature_count INTEGER NOT NULL DEFAULT 0,
+      note TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+// Upsert the single map_state row
+const writeMapState = async (db: PGlite, serialized: string) => {
+  // ✅ Use UPSERT to avoid race conditions and data recreation
+  // This atomically inserts if row doesn't exist, or updates if it does
+  await db.query(
+    `INSERT INTO map_state (id, serialized_data, created_at, updated_at)
+     VALUES (1, $1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+     ON CONFLICT (id) DO UPDATE
+     SET serialized_data = $1, updated_at = CURRENT_TIMESTAMP`,
+    [serialized]
+  );
+};
+
+const countFeatures = (mapData: SerializedMapData): number =>
+  Array.isArray(mapData.features?.features) ? mapData.features.features.length : 0;
+
+/**
+ * Read the saved map of any local job without opening it in the editor.
+ * The job loaded in the editor is read through its open connection.
+ */
+export const readProjectMapState = async (projectId: string): Promise<SerializedMapData | null> => {
+  try {
+    const isOpen = openProject?.id === projectId;
+    const db = isOpen
+      ? openProject!.db
+      : new PGlite(`idb://project_${projectId}`, {
+          extensions: { live }
+        });
+
+    if (!isOpen) {
+      await db.ready;
+      await ensureProjectTables(db);
+    }
+
+    const result = await db.query(
+      'SELECT serialized_data FROM map_state WHERE id = 1'
+    );
+    if (!isOpen) await db.close();
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0] as unknown as MapStateRow;
+    return SuperJSON.deserialize(
+      JSON.parse(row.serialized_data)
+    ) as SerializedMapData;
+  } catch (error) {
+    console.error('Failed to read project map state:', error);
+    return null;
+  }
+};
+
 export const useMapProjects = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
@@ -66,14 +171,7 @@ export const useMapProjects = () => {
       await db.ready;
 
       // Initialize table on creation
-      await db.query(`
-        CREATE TABLE IF NOT EXISTS map_state (
-          id INTEGER PRIMARY KEY,
-          serialized_data TEXT NOT NULL,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
+      await ensureProjectTables(db);
 
       const newProject: Project = {
         id: projectId,
@@ -105,20 +203,12 @@ export const useMapProjects = () => {
 
       await db.ready;
 
-      // Ensure map_state table exists
-      await db.query(`
-        CREATE TABLE IF NOT EXISTS map_state (
-          id INTEGER PRIMARY KEY,
-          serialized_data TEXT NOT NULL,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
-
-      console.log(`Verified map_state table for project: ${projectId}`);
+      // Ensure map_state and map_revisions tables exist
+      await ensureProjectTables(db);
 
       setCurrentProjectId(projectId);
       setCurrentDb(db);
+      openProject = { id: projectId, db };
 
       console.log(`Successfully loaded isolated DB for project: ${projectId}`);
       setIsLoading(false);
@@ -131,7 +221,49 @@ export const useMapProjects = () => {
     }
   };
 
-  const saveMapState = async (mapData: SerializedMapData): Promise<boolean> => {
+  /**
+   * Append a snapshot to map_revisions. Unnamed autosaves that land within
+   * REVISION_COALESCE_MS of the latest unnamed revision replace it in place;
+   * identical snapshots are skipped. A note always creates a new revision.
+   */
+  const recordRevision = async (db: PGlite, serialized: string, featureCount: number, note?: string) => {
+    const latest = await db.query(
+      `SELECT id, serialized_data, note,
+              EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) * 1000 AS age_ms
+       FROM map_revisions ORDER BY id DESC LIMIT 1`
+    );
+    const latestRow = latest.rows[0] as
+      | { id: number; serialized_data: string; note: string | null; age_ms: number }
+      | undefined;
+
+    if (!note && latestRow) {
+      if (latestRow.serialized_data === serialized) return;
+
+      if (!latestRow.note && Number(latestRow.age_ms) < REVISION_COALESCE_MS) {
+        await db.query(
+          `UPDATE map_revisions
+           SET serialized_data = $1, feature_count = $2
+           WHERE id = $3`,
+          [serialized, featureCount, latestRow.id]
+        );
+        return;
+      }
+    }
+
+    await db.query(
+      `INSERT INTO map_revisions (serialized_data, feature_count, note, created_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP)`,
+      [serialized, featureCount, note?.trim() || null]
+    );
+
+    await db.query(
+      `DELETE FROM map_revisions
+       WHERE id NOT IN (SELECT id FROM map_revisions ORDER BY id DESC LIMIT $1)`,
+      [MAX_REVISIONS]
+    );
+  };
+
+  const saveMapState = async (mapData: SerializedMapData, note?: string): Promise<boolean> => {
     if (!currentDb || !currentProjectId) {
       console.error('No database or project ID available');
       return false;
@@ -142,15 +274,9 @@ export const useMapProjects = () => {
     try {
       const serialized = JSON.stringify(SuperJSON.serialize(mapData));
 
-      // ✅ Use UPSERT to avoid race conditions and data recreation
-      // This atomically inserts if row doesn't exist, or updates if it does
-      await currentDb.query(
-        `INSERT INTO map_state (id, serialized_data, created_at, updated_at)
-         VALUES (1, $1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-         ON CONFLICT (id) DO UPDATE
-         SET serialized_data = $1, updated_at = CURRENT_TIMESTAMP`,
-        [serialized]
-      );
+      await writeMapState(currentDb, serialized);
+
+      await recordRevision(currentDb, serialized, countFeatures(mapData), note);
 
       const updated = projects.map(p =>
         p.id === currentProjectId
@@ -159,6 +285,12 @@ export const useMapProjects = () => {
       );
       await saveProjectsList(updated);
 
+      // Opt-in backup to the sync server
+      const savedProject = updated.find(p => p.id === currentProjectId);
+      if (savedProject && useServerSyncStore.getState().autoSync) {
+        scheduleProjectPush(savedProject, mapData);
+      }
+
       console.log(`Saved to isolated DB: ${currentProjectId}`);
       return true;
     } catch (error) {
@@ -198,6 +330,107 @@ export const useMapProjects = () => {
     }
   };
 
+  const listRevisions = useCallback(async (): Promise<MapRevision[]> => {
+    if (!currentDb || !currentProjectId) {
+      console.error('No database or project ID available');
+      return [];
+    }
+
+    try {
+      const result = await currentDb.query(
+        `SELECT id, feature_count, note, created_at
+         FROM map_revisions ORDER BY id DESC`
+      );
+      return (result.rows as unknown as MapRevision[]).map(row => ({
+        ...row,
+        created_at: new Date(row.created_at).toISOString(),
+      }));
+    } catch (error) {
+      console.error('Failed to list revisions:', error);
+      return [];
+    }
+  }, [currentDb, currentProjectId]);
+
+  const loadRevision = async (revisionId: number): Promise<SerializedMapData | null> => {
+    if (!currentDb || !currentProjectId) {
+      console.error('No database or project ID available');
+      return null;
+    }
+
+    try {
+      const result = await currentDb.query(
+        'SELECT * FROM map_revisions WHERE id = $1',
+        [revisionId]
+      );
+
+      if (result.rows.length === 0) {
+        console.error('Revision not found:', revisionId);
+        return null;
+      }
+
+      const row = result.rows[0] as unknown as MapRevisionRow;
+      return SuperJSON.deserialize(
+        JSON.parse(row.serialized_data)
+      ) as SerializedMapData;
+    } catch (error) {
+      console.error('Failed to load revision:', error);
+      return null;
+    }
+  };
+
+  /**
+   * Make an earlier revision the current map state. The restore is itself
+   * recorded as a new revision, so it can be undone from the history too.
+   */
+  const restoreRevision = async (revisionId: number): Promise<boolean> => {
+    const mapData = await loadRevision(revisionId);
+    if (!mapData) return false;
+
+    return saveMapState(mapData, `Restored revision #${revisionId}`);
+  };
+
+  /**
+   * Store a job downloaded from the sync server in this browser, replacing
+   * the local copy if there is one. The download is recorded as a revision,
+   * so a replaced local copy can still be restored from the history.
+   * Not for the job that is currently open (see PROJECT_PULLED_EVENT).
+   */
+  const importProject = async (project: Project, mapData: SerializedMapData | null): Promise<boolean> => {
+    try {
+      const db = new PGlite(`idb://project_${project.id}`, {
+        extensions: { live }
+      });
+
+      await db.ready;
+      await ensureProjectTables(db);
+
+      if (mapData) {
+        const serialized = JSON.stringify(SuperJSON.serialize(mapData));
+        await writeMapState(db, serialized);
+        await recordRevision(db, serialized, countFeatures(mapData), 'Downloaded from server');
+      }
+      await db.close();
+
+      const exists = projects.some(p => p.id === project.id);
+      const updatedProjects = exists
+        ? projects.map(p => (p.id === project.id ? project : p))
+        : [...projects, project];
+      await saveProjectsList(updatedProjects);
+
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "mapProjects",
+          newValue: localStorage.getItem("mapProjects"),
+        })
+      );
+
+      return true;
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      return false;
+    }
+  };
+
   const updateProject = async (projectId: string, newName: string): Promise<boolean> => {
     try {
       const project = projects.find(p => p.id === projectId);
@@ -218,6 +451,11 @@ export const useMapProjects = () => {
       );
       await saveProjectsList(updatedProjects);
 
+      const renamedProject = updatedProjects.find(p => p.id === projectId);
+      if (renamedProject && useServerSyncStore.getState().autoSync) {
+        scheduleProjectPush(renamedProject, null);
+      }
+
       // Dispatch storage event to notify components
       window.dispatchEvent(
         new StorageEvent("storage", {
@@ -252,6 +490,8 @@ export const useMapProjects = () => {
         setCurrentDb(null);
       }
 
+      if (openProject?.id === projectId) openProject = null;
+
       // 3. Delete the IndexedDB database
       const dbName = `/pglite/project_${projectId}`;
       await new Promise<boolean>((resolve, reject) => {
@@ -309,6 +549,11 @@ export const useMapProjects = () => {
     loadProject,
     saveMapState,
     loadMapState,
+    listRevisions,
+    loadRevision,
+    restoreRevision,
+    importProject,
+    readProjectMapState,
     updateProject,
     deleteProject,
     isLoading,
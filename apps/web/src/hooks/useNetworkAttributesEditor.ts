@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type Map from "ol/Map";
+import type Feature from "ol/Feature";
+import { Vector as VectorSource } from "ol/source";
+import {
+  getNetworkAttributes,
+  getNetworkAttributeValues,
+  getNetworkRole,
+  getNodeType,
+  getSegmentNodeIds,
+  setNetworkAttributeValues,
+  type NetworkAttribute,
+  type NetworkAttributeValues,
+  type NetworkRole,
+} from "@/utils/networkUtils";
+
+export interface UseNetworkAttributesEditorReturn {
+  // State
+  supportsNetworkAttributes: boolean;
+  role: NetworkRole | null;
+  // Node type (Chamber, EP Pole...) for nodes
+  nodeType: string | null;
+  attributes: NetworkAttribute[];
+  values: NetworkAttributeValues;
+  // Names of the nodes a segment connects, null when an end is free
+  connections: { from: string | null; to: string | null } | null;
+
+  // Actions
+  handleValueChange: (key: string, value: string) => void;
+  resetToOriginal: () => void;
+  commitNetworkAttributes: () => void;
+}
+
+export const useNetworkAttributesEditor = (
+  selectedFeature: Feature | null,
+  map: Map | null
+): UseNetworkAttributesEditorReturn => {
+  const [values, setValues] = useState<NetworkAttributeValues>({});
+  const [originalValues, setOriginalValues] = useState<NetworkAttributeValues>({});
+
+  const role = useMemo(() => getNetworkRole(selectedFeature), [selectedFeature]);
+  const attributes = useMemo(
+    () => getNetworkAttributes(selectedFeature) ?? [],
+    [selectedFeature]
+  );
+
+  // Initialize values when feature changes
+  useEffect(() => {
+    const featureValues = selectedFeature && getNetworkRole(selectedFeature)
+      ? getNetworkAttributeValues(selectedFeature)
+      : {};
+    setValues(featureValues);
+    setOriginalValues(featureValues);
+  }, [selectedFeature]);
+
+  const connections = useMemo(() => {
+    if (!selectedFeature || role !== "segment") return null;
+    const { from, to } = getSegmentNodeIds(selectedFeature);
+    // The job's vector source, to look the nodes up in
+    const source = map
+      ?.getAllLayers()
+      .map((layer) => layer.getSource())
+      .find(
+        (layerSource): layerSource is VectorSource =>
+          layerSource instanceof VectorSource &&
+          layerSource.hasFeature(selectedFeature)
+      );
+    const nodeName = (id: string | null) => {
+      if (!id) return null;
+      const node = source?.getFeatureById(id);
+      return node ? String(node.get("name") || getNodeType(node) || id) : id;
+    };
+    return { from: nodeName(from), to: nodeName(to) };
+  }, [selectedFeature, role, map]);
+
+  const applyValues = useCallback(
+    (next: NetworkAttributeValues) => {
+      setValues(next);
+      if (selectedFeature) {
+        setNetworkAttributeValues(selectedFeature, next);
+      }
+    },
+    [selectedFeature]
+  );
+
+  const handleValueChange = useCallback(
+    (key: string, value: string) => {
+      applyValues({ ...values, [key]: value });
+    },
+    [applyValues, values]
+  );
+
+  const resetToOriginal = useCallback(() => {
+    // Leave features that were never edited without network properties
+    if (!role || values === originalValues) return;
+    applyValues(originalValues);
+  }, [applyValues, originalValues, values, role]);
+
+  // Commit current values as new original (call on save)
+  const commitNetworkAttributes = useCallback(() => {
+    setOriginalValues(values);
+  }, [values]);
+
+  return {
+    supportsNetworkAttributes: role !== null,
+    role,
+    nodeType: getNodeType(selectedFeature),
+    attributes,
+    values,
+    connections,
+    handleValueChange,
+    resetToOriginal,
+    commitNetworkAttributes,
+  };
+};
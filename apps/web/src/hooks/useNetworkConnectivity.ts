@@ -0,0 +1,124 @@
+import { useEffect } from "react";
+import type { Feature } from "ol";
+import type { Coordinate } from "ol/coordinate";
+import type { Geometry, LineString, Point } from "ol/geom";
+import type { Vector as VectorSource } from "ol/source";
+import type { VectorSourceEvent } from "ol/source/Vector";
+import {
+  connectSegment,
+  disconnectNode,
+  getNetworkRole,
+  pinSegmentEnds,
+  syncNodeSegments,
+} from "@/utils/networkUtils";
+
+const getCoordinates = (feature: Feature<Geometry>): Coordinate[] => {
+  const geometry = feature.getGeometry();
+  if (geometry?.getType() === "Point") {
+    return [(geometry as Point).getCoordinates()];
+  }
+  return (geometry as LineString).getCoordinates();
+};
+
+const sameCoordinates = (a: Coordinate[], b: Coordinate[]): boolean =>
+  a.length === b.length &&
+  a.every((coord, i) => coord[0] === b[i][0] && coord[1] === b[i][1]);
+
+// Every vertex moved by the same offset, i.e. the whole feature was dragged
+const isTranslation = (before: Coordinate[], after: Coordinate[]): boolean => {
+  if (before.length !== after.length || before.length === 0) return false;
+  const dx = after[0][0] - before[0][0];
+  const dy = after[0][1] - before[0][1];
+  return after.every(
+    (coord, i) =>
+      Math.abs(coord[0] - before[i][0] - dx) < 1e-6 &&
+      Math.abs(coord[1] - before[i][1] - dy) < 1e-6,
+  );
+};
+
+/**
+ * Keep the fibre network connected as it is edited. Segments connect to the
+ * nodes their ends lie on whenever they are drawn, split, merged or
+ * reshaped; a segment dragged as a whole keeps its ends on its nodes; and
+ * moving a node pulls the ends of its segments along.
+ */
+export const useNetworkConnectivity = (
+  vectorSource: VectorSource<Feature<Geometry>>,
+) => {
+  useEffect(() => {
+    // Coordinates of each network feature when last synced
+    const lastCoordinates = new WeakMap<Feature<Geometry>, Coordinate[]>();
+    let isSyncing = false;
+
+    const sync = (feature: Feature<Geometry>) => {
+      const role = getNetworkRole(feature);
+      if (!role) {
+        lastCoordinates.delete(feature);
+        return;
+      }
+
+      const coordinates = getCoordinates(feature);
+      const before = lastCoordinates.get(feature);
+      const features = vectorSource.getFeatures();
+
+      isSyncing = true;
+      try {
+        if (role === "node") {
+          if (!before || !sameCoordinates(before, coordinates)) {
+            syncNodeSegments(feature, features);
+          }
+        } else if (before && isTranslation(before, coordinates)) {
+          pinSegmentEnds(feature, features);
+        } else {
+          // New to the network (drawn, split, merged, loaded) or reshaped
+          connectSegment(feature, features);
+        }
+      } finally {
+        isSyncing = false;
+      }
+
+      lastCoordinates.set(feature, getCoordinates(feature));
+    };
+
+    const handleAddOrChange = (event: VectorSourceEvent<Feature<Geometry>>) => {
+      const feature = event.feature;
+      if (!feature) return;
+      if (!isSyncing) {
+        sync(feature);
+      } else if (getNetworkRole(feature)) {
+        // Moved by a sync, e.g. a segment end following its node
+        lastCoordinates.set(feature, getCoordinates(feature));
+      }
+    };
+
+    const handleRemove = (event: VectorSourceEvent<Feature<Geometry>>) => {
+      const feature = event.feature;
+      if (!feature) return;
+      lastCoordinates.delete(feature);
+
+      const id = feature.getId();
+      if (isSyncing || getNetworkRole(feature) !== "node" || id === undefined) {
+        return;
+      }
+      isSyncing = true;
+      try {
+        disconnectNode(String(id), vectorSource.getFeatures());
+      } finally {
+        isSyncing = false;
+      }
+    };
+
+    // Connect what is already in the source
+    vectorSource.getFeatures().forEach(sync);
+
+    vectorSource.on("addfeature", handleAddOrChange);
+    vectorSource.on("changefeature", handleAddOrChange);
+    vectorSource.on("removefeature", handleRemove);
+
+    return () => {
+      vectorSource.un("addfeature", handleAddOrChange);
+      vectorSource.un("changefeature", handleAddOrChange);
+      vectorSource.un("removefeature", handleRemove);
+    };
+  }, [vectorSource]);
+};
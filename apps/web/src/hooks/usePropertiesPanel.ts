@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from "react";
 import type Map from "ol/Map";
 import type Feature from "ol/Feature";
 import {
+  crsCoordinateToLonLat,
   extractCoordinates,
   updateFeatureCoordinates,
   type CoordinateState,
@@ -12,6 +13,7 @@ import {
   createEmptyProperty,
   type CustomProperty,
 } from "@/utils/propertyUtils";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
 
 export interface UsePropertiesPanelReturn {
   // State
@@ -35,6 +37,7 @@ export const usePropertiesPanel = (
   map: Map | null,
   onSave?: () => void
 ): UsePropertiesPanelReturn => {
+  const crs = useJobCrsStore((state) => state.crs);
   const [isEditing, setIsEditing] = useState(false);
   const [coordinates, setCoordinates] =
     useState<CoordinateState>(EMPTY_COORDINATES);
@@ -47,11 +50,11 @@ export const usePropertiesPanel = (
     CustomProperty[]
   >([]);
 
-  // Sync state when selected feature changes
+  // Sync state when selected feature or the job's coordinate system changes
   useEffect(() => {
     if (selectedFeature) {
-      const coords = extractCoordinates(selectedFeature);
-      const properties = extractAllProperties(selectedFeature);
+      const coords = extractCoordinates(selectedFeature, crs);
+      const properties = extractAllProperties(selectedFeature, crs);
       setCoordinates(coords);
       setOriginalCoordinates(coords);
       setCustomProperties(properties);
@@ -64,7 +67,7 @@ export const usePropertiesPanel = (
       setOriginalCustomProperties([]);
       setIsEditing(false);
     }
-  }, [selectedFeature]);
+  }, [selectedFeature, crs]);
 
   const updateProperty = useCallback(
     (id: string, field: "key" | "value", value: string) => {
@@ -90,7 +93,7 @@ export const usePropertiesPanel = (
 
     // Re-read the feature's current coordinates so we don't overwrite
     // a position that was changed via Translate (drag) with stale values.
-    const currentCoords = extractCoordinates(selectedFeature);
+    const currentCoords = extractCoordinates(selectedFeature, crs);
     const longProp = customProperties.find((p) => p.key === "long");
     const latProp = customProperties.find((p) => p.key === "lat");
 
@@ -114,7 +117,11 @@ export const usePropertiesPanel = (
     applyPropertiesToFeature(
       selectedFeature,
       updatedProperties,
-      (lon, lat, name) => {
+      (x, y, name) => {
+        // Entered in the job's coordinate system
+        const lonLat = crsCoordinateToLonLat(x, y, crs);
+        if (!lonLat) return;
+        const [lon, lat] = lonLat;
         updateFeatureCoordinates(selectedFeature, map, lon, lat, name);
       }
     );
@@ -140,7 +147,7 @@ export const usePropertiesPanel = (
 
     onSave?.();
     setIsEditing(false);
-  }, [selectedFeature, map, customProperties, originalCoordinates, onSave]);
+  }, [selectedFeature, map, crs, customProperties, originalCoordinates, onSave]);
 
   const cancel = useCallback(() => {
     setCoordinates(originalCoordinates);
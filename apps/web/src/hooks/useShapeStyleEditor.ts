@@ -82,13 +82,14 @@ export const useShapeStyleEditor = (
   const [originalLegendType, setOriginalLegendType] = useState<string | null>(null);
   const [isEditingShapeStyle, setIsEditingShapeStyle] = useState(false);
 
-  // Check if selected feature is a Box, Circle, or RevisionCloud
+  // Check if selected feature is a Box, Circle, RevisionCloud or Buffer
   const supportsShapeStyle = useMemo(() => {
     if (!selectedFeature) return false;
     return (
       selectedFeature.get("isBox") ||
       selectedFeature.get("isCircle") ||
-      selectedFeature.get("isRevisionCloud")
+      selectedFeature.get("isRevisionCloud") ||
+      selectedFeature.get("isBuffer")
     );
   }, [selectedFeature]);
 
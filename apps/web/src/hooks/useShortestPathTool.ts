@@ -0,0 +1,163 @@
+import { useEffect, useRef } from "react";
+import type Map from "ol/Map";
+import type MapBrowserEvent from "ol/MapBrowserEvent";
+import { Feature } from "ol";
+import { LineString, Point, type Geometry } from "ol/geom";
+import type { Select } from "ol/interaction";
+import { Vector as VectorLayer } from "ol/layer";
+import { Vector as VectorSource } from "ol/source";
+import { Circle as CircleStyle, Fill, Stroke, Style, Text } from "ol/style";
+import { usePathStore } from "@/stores/usePathStore";
+import { buildNetworkGraph, findShortestPath } from "@/utils/pathUtils";
+
+// Drawn above the editable vector layer so the path stays visible
+const PATH_LAYER_Z_INDEX = 1000;
+
+const PATH_COLOR = "#0891b2";
+
+const PATH_LINE_STYLES = [
+  new Style({
+    stroke: new Stroke({ color: "rgba(255, 255, 255, 0.9)", width: 10 }),
+  }),
+  new Style({
+    stroke: new Stroke({ color: PATH_COLOR, width: 6 }),
+  }),
+];
+
+const createEndpointStyle = (label: string): Style =>
+  new Style({
+    image: new CircleStyle({
+      radius: 10,
+      fill: new Fill({ color: PATH_COLOR }),
+      stroke: new Stroke({ color: "#ffffff", width: 2 }),
+    }),
+    text: new Text({
+      text: label,
+      font: "bold 11px sans-serif",
+      fill: new Fill({ color: "#ffffff" }),
+    }),
+  });
+
+/**
+ * Shortest path tool: picks the start and end from map clicks (snapping to
+ * a clicked icon), finds the shortest path over the job's lines and draws it
+ * on an overlay layer. State lives in usePathStore (see PathPanel).
+ */
+export const useShortestPathTool = (
+  map: Map | null,
+  vectorSource: VectorSource<Feature<Geometry>>,
+  selectInteraction: Select | null,
+) => {
+  const layerRef = useRef<VectorLayer<VectorSource<Feature<Geometry>>> | null>(
+    null,
+  );
+  const { picking, start, end, path } = usePathStore();
+
+  // Create the overlay layer once per map
+  useEffect(() => {
+    if (!map) return;
+
+    const layer = new VectorLayer({
+      source: new VectorSource<Feature<Geometry>>(),
+      zIndex: PATH_LAYER_Z_INDEX,
+      properties: { name: "shortestPath" },
+      style: (feature) =>
+        feature.getGeometry()?.getType() === "Point"
+          ? createEndpointStyle(feature.get("endpointLabel"))
+          : PATH_LINE_STYLES,
+    });
+    map.addLayer(layer);
+    layerRef.current = layer;
+
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  // Pick an end from the next map click
+  useEffect(() => {
+    if (!map || !picking) return;
+
+    // Clicks pick points instead of selecting features
+    const wasSelectActive = selectInteraction?.getActive() ?? false;
+    selectInteraction?.setActive(false);
+
+    const handleClick = (event: MapBrowserEvent) => {
+      let icon: Feature<Geometry> | null = null;
+      map.forEachFeatureAtPixel(event.pixel, (feature) => {
+        if (feature.getGeometry()?.getType() === "Point" && !icon) {
+          icon = feature as Feature<Geometry>;
+        }
+      });
+
+      const iconFeature = icon as Feature<Geometry> | null;
+      const iconCoordinate = (
+        iconFeature?.getGeometry() as Point | undefined
+      )?.getCoordinates();
+      usePathStore.getState().setEndpoint(picking, {
+        coordinate: iconCoordinate ?? event.coordinate,
+        label: iconCoordinate ? iconFeature?.get("name") || "Icon" : "Point",
+      });
+    };
+
+    map.on("click", handleClick);
+
+    return () => {
+      map.un("click", handleClick);
+      selectInteraction?.setActive(wasSelectActive);
+    };
+  }, [map, picking, selectInteraction]);
+
+  // Find the path once both ends are picked
+  useEffect(() => {
+    if (!start || !end) return;
+
+    try {
+      const graph = buildNetworkGraph(vectorSource.getFeatures());
+      const shortestPath = findShortestPath(
+        graph,
+        start.coordinate,
+        end.coordinate,
+      );
+      usePathStore
+        .getState()
+        .setResult(
+          shortestPath,
+          shortestPath
+            ? null
+            : "No connected route between these points. Both must be near a line.",
+        );
+    } catch (error) {
+      console.error("Shortest path failed:", error);
+      usePathStore.getState().setResult(null, "Shortest path failed. Check console.");
+    }
+  }, [start, end, vectorSource]);
+
+  // Redraw the overlay when the ends or path change
+  useEffect(() => {
+    const source = layerRef.current?.getSource();
+    if (!source) return;
+
+    source.clear();
+    if (path) {
+      source.addFeature(new Feature<Geometry>(new LineString(path.coordinates)));
+    }
+    if (start) {
+      source.addFeature(
+        new Feature<Geometry>({
+          geometry: new Point(start.coordinate),
+          endpointLabel: "A",
+        }),
+      );
+    }
+    if (end) {
+      source.addFeature(
+        new Feature<Geometry>({
+          geometry: new Point(end.coordinate),
+          endpointLabel: "B",
+        }),
+      );
+    }
+  }, [map, start, end, path]);
+};
@@ -3,8 +3,11 @@ import type Map from "ol/Map";
 import type Feature from "ol/Feature";
 import type { Point } from "ol/geom";
 import type { Select } from "ol/interaction";
-import { toLonLat, fromLonLat } from "ol/proj";
+import { fromLonLat } from "ol/proj";
 import { DEFAULT_TEXT_STYLE } from "@/utils/featureTypeUtils";
+import { crsCoordinateToLonLat } from "@/utils/coordinateUtils";
+import { formatCrsCoordinate } from "@/utils/crsUtils";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
 
 export type TextAlign = 'left' | 'center' | 'right';
 
@@ -42,6 +45,9 @@ export const useTextStyleEditor = (
   selectInteraction: Select | null,
   isEditing: boolean
 ): UseTextStyleEditorReturn => {
+  // Coordinates are shown and entered in the job's coordinate system
+  const crs = useJobCrsStore((state) => state.crs);
+
   // Current values
   const [text, setText] = useState<string>("");
   const [textScale, setTextScale] = useState<number>(1);
@@ -98,10 +104,7 @@ export const useTextStyleEditor = (
       let lon = "";
       let lat = "";
       if (geometry && geometry.getType() === "Point") {
-        const coords = geometry.getCoordinates();
-        const lonLat = toLonLat(coords);
-        lon = lonLat[0].toFixed(6);
-        lat = lonLat[1].toFixed(6);
+        [lon, lat] = formatCrsCoordinate(geometry.getCoordinates(), crs);
       }
 
       setText(featureText);
@@ -145,7 +148,7 @@ export const useTextStyleEditor = (
       setOriginalLatitude("");
     }
     setIsEditingTextStyle(false);
-  }, [selectedFeature]);
+  }, [selectedFeature, crs]);
 
   // Auto-set isEditingTextStyle when entering/exiting edit mode
   useEffect(() => {
@@ -270,10 +273,11 @@ export const useTextStyleEditor = (
       if (selectedFeature) {
         const lonNum = parseFloat(lon);
         const latNum = parseFloat(latitude);
-        if (!isNaN(lonNum) && !isNaN(latNum)) {
+        const lonLat = crsCoordinateToLonLat(lonNum, latNum, crs);
+        if (lonLat) {
           const geometry = selectedFeature.getGeometry() as Point | undefined;
           if (geometry && geometry.getType() === "Point") {
-            const newCoords = fromLonLat([lonNum, latNum]);
+            const newCoords = fromLonLat(lonLat);
             geometry.setCoordinates(newCoords);
             selectedFeature.changed();
             map?.render();
@@ -281,7 +285,7 @@ export const useTextStyleEditor = (
         }
       }
     },
-    [selectedFeature, map, latitude]
+    [selectedFeature, map, crs, latitude]
   );
 
   // Handle latitude change
@@ -291,10 +295,11 @@ export const useTextStyleEditor = (
       if (selectedFeature) {
         const lonNum = parseFloat(longitude);
         const latNum = parseFloat(lat);
-        if (!isNaN(lonNum) && !isNaN(latNum)) {
+        const lonLat = crsCoordinateToLonLat(lonNum, latNum, crs);
+        if (lonLat) {
           const geometry = selectedFeature.getGeometry() as Point | undefined;
           if (geometry && geometry.getType() === "Point") {
-            const newCoords = fromLonLat([lonNum, latNum]);
+            const newCoords = fromLonLat(lonLat);
             geometry.setCoordinates(newCoords);
             selectedFeature.changed();
             map?.render();
@@ -302,7 +307,7 @@ export const useTextStyleEditor = (
         }
       }
     },
-    [selectedFeature, map, longitude]
+    [selectedFeature, map, crs, longitude]
   );
 
   // Reset to original values
@@ -329,10 +334,11 @@ export const useTextStyleEditor = (
       // Reset coordinates
       const lonNum = parseFloat(originalLongitude);
       const latNum = parseFloat(originalLatitude);
-      if (!isNaN(lonNum) && !isNaN(latNum)) {
+      const lonLat = crsCoordinateToLonLat(lonNum, latNum, crs);
+      if (lonLat) {
         const geometry = selectedFeature.getGeometry() as Point | undefined;
         if (geometry && geometry.getType() === "Point") {
-          const newCoords = fromLonLat([lonNum, latNum]);
+          const newCoords = fromLonLat(lonLat);
           geometry.setCoordinates(newCoords);
         }
       }
@@ -343,6 +349,7 @@ export const useTextStyleEditor = (
   }, [
     selectedFeature,
     map,
+    crs,
     originalText,
     originalScale,
     originalRotation,
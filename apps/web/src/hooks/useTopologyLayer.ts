@@ -0,0 +1,96 @@
+import { useEffect, useRef } from "react";
+import type Map from "ol/Map";
+import { Feature } from "ol";
+import { Point, type Geometry } from "ol/geom";
+import { Vector as VectorLayer } from "ol/layer";
+import { Vector as VectorSource } from "ol/source";
+import { Circle as CircleStyle, Fill, Stroke, Style } from "ol/style";
+import { useTopologyStore } from "@/stores/useTopologyStore";
+
+// Drawn above the editable vector layer so issues stay visible
+const TOPOLOGY_LAYER_Z_INDEX = 1000;
+
+const TOPOLOGY_COLOR = "#d97706";
+
+const createIssueStyle = (isFocused: boolean): Style[] => {
+  const styles: Style[] = [];
+  if (isFocused) {
+    styles.push(
+      new Style({
+        image: new CircleStyle({
+          radius: 14,
+          fill: new Fill({ color: "rgba(255, 255, 255, 0.9)" }),
+        }),
+      }),
+    );
+  }
+
+  styles.push(
+    new Style({
+      image: new CircleStyle({
+        radius: isFocused ? 9 : 7,
+        fill: new Fill({ color: "rgba(217, 119, 6, 0.2)" }),
+        stroke: new Stroke({ color: TOPOLOGY_COLOR, width: 2 }),
+      }),
+    }),
+  );
+
+  return styles;
+};
+
+/**
+ * Render the issues from useTopologyStore as an overlay layer of amber
+ * rings, haloing the focused issue.
+ */
+export const useTopologyLayer = (map: Map | null) => {
+  const layerRef = useRef<VectorLayer<VectorSource<Feature<Geometry>>> | null>(
+    null,
+  );
+  const { issues, focusedIndex } = useTopologyStore();
+
+  // Create the overlay layer once per map
+  useEffect(() => {
+    if (!map) return;
+
+    const layer = new VectorLayer({
+      source: new VectorSource<Feature<Geometry>>(),
+      zIndex: TOPOLOGY_LAYER_Z_INDEX,
+      properties: { name: "topology" },
+      style: (feature) =>
+        createIssueStyle(
+          feature.get("issueIndex") === useTopologyStore.getState().focusedIndex,
+        ),
+    });
+    map.addLayer(layer);
+    layerRef.current = layer;
+
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  // Rebuild overlay features when the issues change
+  useEffect(() => {
+    const source = layerRef.current?.getSource();
+    if (!source) return;
+
+    source.clear();
+    if (!issues) return;
+
+    source.addFeatures(
+      issues.map(
+        (issue, index) =>
+          new Feature<Geometry>({
+            geometry: new Point(issue.coordinate),
+            issueIndex: index,
+          }),
+      ),
+    );
+  }, [map, issues]);
+
+  // Restyle when the focused issue changes
+  useEffect(() => {
+    layerRef.current?.changed();
+  }, [focusedIndex]);
+};
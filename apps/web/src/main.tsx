@@ -5,6 +5,7 @@ import { live } from "@electric-sql/pglite/live";
 import "./index.css";
 import { router } from "./App.tsx";
 import { RouterProvider } from "react-router";
+import { ensureProjectTables } from "./hooks/useMapProjects";
 
 const initializeApp = async () => {
   try {
@@ -33,14 +34,7 @@ const initializeApp = async () => {
           extensions: { live },
         });
 
-        await projectDb.query(`
-          CREATE TABLE IF NOT EXISTS map_state (
-            id INTEGER PRIMARY KEY,
-            serialized_data TEXT NOT NULL,
-            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-          )
-        `);
+        await ensureProjectTables(projectDb);
 
         console.log("Default project initialized");
       }
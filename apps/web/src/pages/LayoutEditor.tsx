@@ -5,7 +5,9 @@ import {
   LayoutToolbar,
   LayoutCanvas,
   LayoutPropertiesPanel,
+  MapFrameDialog,
   SaveLayoutDialog,
+  TitleBlockDialog,
   ZoomControls,
   PAGE_SIZES,
   type ToolType,
@@ -37,7 +39,43 @@ import { Link, useParams, useNavigate } from "react-router";
 import { useLayoutStore } from "@/stores/layoutStore";
 import { useShallow } from "zustand/react/shallow";
 import type { LegendMetadata } from "@/utils/legendMetadataUtils";
-import { buildFabricLegend } from "@/utils/fabricLegendUtils";
+import type { QuantitiesReport } from "@/utils/quantitiesUtils";
+import {
+  buildFabricLegend,
+  buildFabricQuantitiesTable,
+} from "@/utils/fabricLegendUtils";
+import {
+  STANDARD_TITLE_BLOCK_ID,
+  buildFabricTitleBlock,
+  buildFabricTitleBlockFromTemplate,
+  fillCanvasTitleBlocks,
+  fillTitleBlock,
+  formatScale,
+  getDefaultTitleBlockValues,
+  isTitleBlockGroup,
+  readCanvasTitleBlockValues,
+  type TitleBlockValues,
+} from "@/utils/titleBlockUtils";
+import {
+  buildFabricNorthArrow,
+  buildFabricScaleBar,
+  buildFabricScaleText,
+  getSheetScale,
+  syncScaleObjects,
+  type ScaleObjectType,
+} from "@/utils/fabricScaleUtils";
+import type { MapImageScale } from "@/utils/mapImageExport";
+import {
+  createMapFrameImage,
+  getMapFrame,
+  isMapFrame,
+  isMapFrameResized,
+  refreshCanvasMapFrames,
+  refreshMapFrameFromJob,
+  type MapFrame,
+  type MapFrameImage,
+} from "@/utils/mapFrameUtils";
+import { readProjectMapState } from "@/hooks/useMapProjects";
 
 export default function LayoutEditor() {
   const { layoutId } = useParams<{ layoutId: string }>();
@@ -53,8 +91,14 @@ export default function LayoutEditor() {
     pendingPageSize,
     pendingLayoutId,
     pendingLayoutName,
+    pendingProjectId,
     pendingLegendMetadata,
+    pendingQuantities,
+    pendingTitleBlockValues,
+    pendingMapScale,
     clearPendingBackground,
+    titleBlockTemplates,
+    addTitleBlockTemplate,
   } = useLayoutStore(
     useShallow((state) => ({
       layouts: state.layouts,
@@ -65,8 +109,14 @@ export default function LayoutEditor() {
       pendingPageSize: state.pendingPageSize,
       pendingLayoutId: state.pendingLayoutId,
       pendingLayoutName: state.pendingLayoutName,
+      pendingProjectId: state.pendingProjectId,
       pendingLegendMetadata: state.pendingLegendMetadata,
+      pendingQuantities: state.pendingQuantities,
+      pendingTitleBlockValues: state.pendingTitleBlockValues,
+      pendingMapScale: state.pendingMapScale,
       clearPendingBackground: state.clearPendingBackground,
+      titleBlockTemplates: state.titleBlockTemplates,
+      addTitleBlockTemplate: state.addTitleBlockTemplate,
     })),
   );
 
@@ -92,10 +142,23 @@ export default function LayoutEditor() {
   const fabricRef = useRef<fabric.Canvas | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [savedJobName, setSavedJobName] = useState<string | null>(null);
+  const [savedProjectId, setSavedProjectId] = useState<string | null>(null);
   const [savedLegendMetadata, setSavedLegendMetadata] =
     useState<LegendMetadata | null>(null);
+  const [savedQuantities, setSavedQuantities] =
+    useState<QuantitiesReport | null>(null);
+  const [showTitleBlockDialog, setShowTitleBlockDialog] = useState(false);
+  const [titleBlockValues, setTitleBlockValues] = useState<TitleBlockValues>(
+    getDefaultTitleBlockValues,
+  );
+  const titleBlockValuesRef = useRef(titleBlockValues);
+  const [mapScale, setMapScale] = useState<MapImageScale | null>(null);
+  const [showMapFrameDialog, setShowMapFrameDialog] = useState(false);
+  // Frames drawn from their job's current map since the layout was opened
+  const drawnMapFramesRef = useRef(new WeakSet<fabric.FabricObject>());
 
   const currentLayout = currentLayoutId ? getLayout(currentLayoutId) : null;
+  const layoutTitleBlockValues = currentLayout?.titleBlockValues;
 
   // Sync URL param to state
   useEffect(() => {
@@ -109,12 +172,132 @@ export default function LayoutEditor() {
     }
   }, [pendingLayoutName, savedJobName]);
 
+  useEffect(() => {
+    if (pendingProjectId && !savedProjectId) {
+      setSavedProjectId(pendingProjectId);
+    }
+  }, [pendingProjectId, savedProjectId]);
+
   useEffect(() => {
     if (pendingLegendMetadata && !savedLegendMetadata) {
       setSavedLegendMetadata(pendingLegendMetadata);
     }
   }, [pendingLegendMetadata, savedLegendMetadata]);
 
+  useEffect(() => {
+    if (pendingQuantities && !savedQuantities) {
+      setSavedQuantities(pendingQuantities);
+    }
+  }, [pendingQuantities, savedQuantities]);
+
+  // Title block values: those saved with the layout, then any from a map
+  // export (job name, date, scale)
+  useEffect(() => {
+    if (layoutTitleBlockValues) {
+      setTitleBlockValues((prev) => ({ ...prev, ...layoutTitleBlockValues }));
+    }
+  }, [layoutTitleBlockValues]);
+
+  useEffect(() => {
+    if (pendingTitleBlockValues) {
+      setTitleBlockValues((prev) => ({ ...prev, ...pendingTitleBlockValues }));
+    }
+  }, [pendingTitleBlockValues]);
+
+  useEffect(() => {
+    if (pendingMapScale) {
+      setMapScale(pendingMapScale);
+    }
+  }, [pendingMapScale]);
+
+  // Keep the title blocks on the sheet up to date
+  useEffect(() => {
+    titleBlockValuesRef.current = titleBlockValues;
+    if (fabricRef.current) {
+      fillCanvasTitleBlocks(fabricRef.current, titleBlockValues);
+    }
+  }, [titleBlockValues]);
+
+  // Title blocks loaded with the layout may arrive after the values
+  useEffect(() => {
+    const canvas = fabricRef.current;
+    if (!canvas) return;
+
+    const handleObjectAdded = ({ target }: { target: fabric.FabricObject }) => {
+      if (isTitleBlockGroup(target)) {
+        fillTitleBlock(target, titleBlockValuesRef.current);
+      }
+    };
+    canvas.on("object:added", handleObjectAdded);
+    return () => {
+      canvas.off("object:added", handleObjectAdded);
+    };
+  }, []);
+
+  // Scale bars, scale ratios, north arrows and the title block scale follow
+  // the map image when it is added, resized or turned
+  useEffect(() => {
+    const canvas = fabricRef.current;
+    if (!canvas) return;
+
+    const handleSheetChange = () => {
+      const sheetScale = syncScaleObjects(canvas);
+      if (!sheetScale) return;
+      const scale = formatScale(sheetScale.denominator);
+      setTitleBlockValues((prev) =>
+        prev.scale === scale ? prev : { ...prev, scale },
+      );
+    };
+    canvas.on("object:added", handleSheetChange);
+    canvas.on("object:modified", handleSheetChange);
+    return () => {
+      canvas.off("object:added", handleSheetChange);
+      canvas.off("object:modified", handleSheetChange);
+    };
+  }, []);
+
+  // Map frames are redrawn from their job's current map when the layout is
+  // opened and when they are resized
+  useEffect(() => {
+    const canvas = fabricRef.current;
+    if (!canvas) return;
+
+    const redraw = (image: MapFrameImage) => {
+      drawnMapFramesRef.current.add(image);
+      refreshMapFrameFromJob(image, readProjectMapState)
+        .then(() => {
+          canvas.requestRenderAll();
+          // Scale bars and ratios follow the redrawn frame
+          canvas.fire("object:modified", { target: image });
+        })
+        .catch((error) => {
+          // The frame keeps its last drawing
+          console.error("Map frame render failed:", error);
+        });
+    };
+
+    const handleObjectAdded = ({ target }: { target: fabric.FabricObject }) => {
+      if (isMapFrame(target) && !drawnMapFramesRef.current.has(target)) {
+        redraw(target);
+      }
+    };
+    const handleObjectModified = ({
+      target,
+    }: {
+      target: fabric.FabricObject;
+    }) => {
+      if (isMapFrame(target) && isMapFrameResized(target)) {
+        redraw(target);
+      }
+    };
+    canvas.on("object:added", handleObjectAdded);
+    canvas.on("object:modified", handleObjectModified);
+    return () => {
+      canvas.off("object:added", handleObjectAdded);
+      canvas.off("object:modified", handleObjectModified);
+    };
+  }, []);
+
   // Handle pending background image from map export
   useEffect(() => {
     if (pendingBackgroundImage && (!layoutId || layoutId === pendingLayoutId)) {
@@ -164,6 +347,28 @@ export default function LayoutEditor() {
     };
   }, [savedLegendMetadata, backgroundImage]);
 
+  // Build and add bill of quantities table after background is loaded
+  useEffect(() => {
+    const canvas = fabricRef.current;
+    if (!canvas || !savedQuantities || !backgroundImage) return;
+
+    let cancelled = false;
+
+    buildFabricQuantitiesTable(savedQuantities, {
+      canvasWidth: canvas.width,
+      canvasHeight: canvas.height,
+    }).then((tableGroup) => {
+      if (cancelled || !tableGroup || !fabricRef.current) return;
+      fabricRef.current.add(tableGroup);
+      fabricRef.current.requestRenderAll();
+      setSavedQuantities(null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedQuantities, backgroundImage]);
+
   // Load layout data when ID changes
   useEffect(() => {
     // When coming from map export, prioritize job name over layout name
@@ -248,6 +453,135 @@ export default function LayoutEditor() {
     setBackgroundImage(undefined);
   };
 
+  const handleInsertTitleBlock = async (
+    templateId: string,
+    values: TitleBlockValues,
+  ) => {
+    const canvas = fabricRef.current;
+    if (!canvas) return;
+    setTitleBlockValues(values);
+
+    // Place it in the page's bottom-right corner
+    const page = PAGE_SIZES[pageSize];
+    const [canvasWidth, canvasHeight] =
+      orientation === "landscape"
+        ? [page.height, page.width]
+        : [page.width, page.height];
+
+    const template = titleBlockTemplates.find((t) => t.id === templateId);
+    const titleBlock =
+      templateId === STANDARD_TITLE_BLOCK_ID || !template
+        ? buildFabricTitleBlock(values, { canvasWidth, canvasHeight })
+        : await buildFabricTitleBlockFromTemplate(template.objectData, values, {
+            canvasWidth,
+            canvasHeight,
+          });
+    if (!titleBlock) {
+      alert("This title block template could not be loaded.");
+      return;
+    }
+
+    canvas.add(titleBlock);
+    canvas.setActiveObject(titleBlock);
+    canvas.requestRenderAll();
+  };
+
+  const handleAddScaleObject = (type: ScaleObjectType) => {
+    const canvas = fabricRef.current;
+    if (!canvas) return;
+
+    const sheetScale = getSheetScale(canvas);
+    if (!sheetScale) {
+      alert(
+        "The scale comes from the map image. Export a map to this layout first.",
+      );
+      return;
+    }
+
+    const object =
+      type === "scaleBar"
+        ? buildFabricScaleBar(sheetScale)
+        : type === "scaleText"
+          ? buildFabricScaleText(sheetScale)
+          : buildFabricNorthArrow(sheetScale);
+    canvas.add(object);
+    canvas.setActiveObject(object);
+    canvas.requestRenderAll();
+  };
+
+  const selectedMapFrame = isMapFrame(selectedObject) ? selectedObject : null;
+
+  const handleInsertMapFrame = async (frame: MapFrame) => {
+    const canvas = fabricRef.current;
+    if (!canvas) return;
+
+    try {
+      const mapData = await readProjectMapState(frame.projectId);
+      if (!mapData) {
+        alert("The job's map could not be read.");
+        return;
+      }
+
+      // Later frames are placed a little further in, e.g. for insets
+      const page = PAGE_SIZES[pageSize];
+      const [canvasWidth, canvasHeight] =
+        orientation === "landscape"
+          ? [page.height, page.width]
+          : [page.width, page.height];
+      const offset = 40 + canvas.getObjects().filter(isMapFrame).length * 20;
+      const image = await createMapFrameImage(frame, mapData, {
+        left: offset,
+        top: offset,
+        width: Math.round(canvasWidth * 0.6),
+        height: Math.round(canvasHeight * 0.4),
+      });
+
+      drawnMapFramesRef.current.add(image);
+      canvas.add(image);
+      canvas.setActiveObject(image);
+      canvas.requestRenderAll();
+    } catch (error) {
+      console.error("Map frame insert failed:", error);
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Map frame could not be drawn. Check console.",
+      );
+    }
+  };
+
+  const handleUpdateMapFrame = async (frame: MapFrame) => {
+    const canvas = fabricRef.current;
+    if (!canvas || !selectedMapFrame) return;
+
+    const image = selectedMapFrame;
+    const previous = getMapFrame(image);
+    image.mapFrame = frame;
+    try {
+      await refreshMapFrameFromJob(image, readProjectMapState);
+      canvas.requestRenderAll();
+      canvas.fire("object:modified", { target: image });
+    } catch (error) {
+      console.error("Map frame update failed:", error);
+      image.mapFrame = previous;
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Map frame could not be drawn. Check console.",
+      );
+    }
+  };
+
+  // Selected title block, or the one holding the selected text
+  const selectedTitleBlock = [selectedObject, selectedObject?.group].find(
+    isTitleBlockGroup,
+  );
+
+  const handleSaveTitleBlockTemplate = (name: string) => {
+    if (!selectedTitleBlock) return;
+    addTitleBlockTemplate({ name, objectData: selectedTitleBlock.toObject() });
+  };
+
   const handleSaveName = () => {
     if (currentLayoutId && editingName.trim()) {
       updateLayout(currentLayoutId, { name: editingName.trim() });
@@ -313,7 +647,7 @@ export default function LayoutEditor() {
     }
   };
 
-  const handleDownloadPdf = () => {
+  const handleDownloadPdf = async () => {
     const canvas = fabricRef.current;
     if (!canvas || !canvas.width || !canvas.height) return;
 
@@ -321,6 +655,23 @@ export default function LayoutEditor() {
     canvas.discardActiveObject();
     canvas.requestRenderAll();
 
+    // Map frames show the jobs' latest data
+    const failedFrames = await refreshCanvasMapFrames(
+      canvas,
+      readProjectMapState,
+    );
+    if (failedFrames > 0) {
+      alert(
+        `${failedFrames} map frame(s) could not be redrawn and show their last drawing.`,
+      );
+    }
+    const sheetScale = syncScaleObjects(canvas);
+    if (sheetScale) {
+      fillCanvasTitleBlocks(canvas, {
+        scale: formatScale(sheetScale.denominator),
+      });
+    }
+
     // Get page dimensions in mm based on orientation
     const pageSizeLower = pageSize.toLowerCase() as keyof typeof PDF_PAGE_SIZES;
     const pageDims = PDF_PAGE_SIZES[pageSizeLower];
@@ -387,6 +738,12 @@ export default function LayoutEditor() {
       canvasData,
       previewImage,
       backgroundImage: backgroundImage || currentLayout?.backgroundImage,
+      // Including text typed straight into the title block
+      titleBlockValues: {
+        ...titleBlockValues,
+        ...readCanvasTitleBlockValues(canvas),
+      },
+      projectId: savedProjectId ?? currentLayout?.projectId,
     };
 
     if (currentLayoutId) {
@@ -500,6 +857,9 @@ export default function LayoutEditor() {
           onImportImage={handleImportImage}
           onSaveLayout={handleSaveLayout}
           onDownloadPdf={handleDownloadPdf}
+          onTitleBlock={() => setShowTitleBlockDialog(true)}
+          onMapFrame={() => setShowMapFrameDialog(true)}
+          onAddScaleObject={handleAddScaleObject}
           showSave={!backgroundImage}
         />
 
@@ -522,6 +882,7 @@ export default function LayoutEditor() {
           zoom={zoom}
           onZoomChange={setZoom}
           backgroundImage={backgroundImage}
+          backgroundScale={mapScale ?? undefined}
         />
 
         <ZoomControls zoom={zoom} onZoomChange={setZoom} />
@@ -540,6 +901,27 @@ export default function LayoutEditor() {
         isEditing={!!currentLayout}
       />
 
+      <TitleBlockDialog
+        isOpen={showTitleBlockDialog}
+        onClose={() => setShowTitleBlockDialog(false)}
+        values={titleBlockValues}
+        onApply={setTitleBlockValues}
+        onInsert={handleInsertTitleBlock}
+        onSaveTemplate={selectedTitleBlock ? handleSaveTitleBlockTemplate : null}
+        hasTitleBlocks={
+          showTitleBlockDialog &&
+          !!fabricRef.current?.getObjects().some(isTitleBlockGroup)
+        }
+      />
+
+      <MapFrameDialog
+        isOpen={showMapFrameDialog}
+        onClose={() => setShowMapFrameDialog(false)}
+        frame={selectedMapFrame ? (getMapFrame(selectedMapFrame) ?? null) : null}
+        onInsert={handleInsertMapFrame}
+        onUpdate={handleUpdateMapFrame}
+      />
+
       <Dialog open={showLimitWarning} onOpenChange={setShowLimitWarning}>
         <DialogContent>
           <DialogHeader>
@@ -12,7 +12,9 @@ import JSZip from "jszip";
 import { MapViewToggle } from "../components/MapViewToggle";
 import { LoadingOverlay } from "../components/LoadingOverlay";
 import Toolbar from "../components/ToolBar";
-import FileManager from "../components/FileManager";
+import FileManager, { useFileHandler } from "../components/FileManager";
+import { ImportDialog } from "../components/ImportDialog";
+import { SpreadsheetImportDialog } from "../components/SpreadsheetImportDialog";
 import MapInstance from "../components/MapInstance";
 import MapInteractions from "../components/MapInteractions";
 import ToolManager from "../components/ToolManager";
@@ -21,12 +23,12 @@ import { useToolState } from "@/hooks/useToolState";
 import { useFeatureState } from "@/hooks/useFeatureState";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { useEscapeHandler } from "@/hooks/useEscapeHandler";
+import { useFileDrop } from "@/hooks/useFileDrop";
 import { Select, DragBox } from "ol/interaction";
 import {
   convertFeaturesToGeoJSON,
   convertGeoJSONToFeatures,
   isEmptyExtent,
-  normalizeImportedGeoJSON,
 } from "@/utils/serializationUtils";
 import { fitMapToFeatures, restoreMapView } from "@/utils/mapStateUtils";
 import { getMapUrl } from "@/utils/routeUtils";
@@ -40,6 +42,36 @@ import SearchWrapper, {
 } from "../components/SearchWrapper";
 import type { SearchResult } from "../components/SearchPanel";
 import { PdfExportDialog } from "../components/PdfExportDialog";
+import { AtlasExportDialog } from "../components/AtlasExportDialog";
+import { DxfExportDialog } from "../components/DxfExportDialog";
+import { JobCrsDialog } from "../components/JobCrsDialog";
+import { QuantitiesDialog } from "../components/QuantitiesDialog";
+import { RevisionHistoryDialog } from "../components/RevisionHistoryDialog";
+import { ComparisonDialog } from "../components/ComparisonDialog";
+import { ComparisonPanel } from "../components/ComparisonPanel";
+import { useComparisonLayer } from "@/hooks/useComparisonLayer";
+import { useComparisonStore } from "@/stores/useComparisonStore";
+import { CrossingDialog } from "../components/CrossingDialog";
+import { CrossingPanel } from "../components/CrossingPanel";
+import { useCrossingLayer } from "@/hooks/useCrossingLayer";
+import { useCrossingStore } from "@/stores/useCrossingStore";
+import { TopologyDialog } from "../components/TopologyDialog";
+import { TopologyPanel } from "../components/TopologyPanel";
+import { useTopologyLayer } from "@/hooks/useTopologyLayer";
+import { useTopologyStore } from "@/stores/useTopologyStore";
+import { applyTopologyFix, type TopologyFix } from "@/utils/topologyUtils";
+import { PathPanel } from "../components/PathPanel";
+import { useShortestPathTool } from "@/hooks/useShortestPathTool";
+import { usePathStore } from "@/stores/usePathStore";
+import { createPathFeature } from "@/utils/pathUtils";
+import { CollaborationDialog } from "../components/CollaborationDialog";
+import { ServerSyncDialog } from "../components/ServerSyncDialog";
+import {
+  PROJECT_PULLED_EVENT,
+  type ProjectPulledDetail,
+} from "@/utils/projectSyncUtils";
+import { useCollaboration } from "@/hooks/useCollaboration";
+import { useCollaborationLayer } from "@/hooks/useCollaborationLayer";
 import { DragBoxInstruction } from "../components/DragBoxInstruction";
 import {
   exportMapToImage,
@@ -51,26 +83,66 @@ import { MergePropertiesDialog } from "@/components/MergePropertiesDialog";
 import { OffsetDialog } from "@/components/OffsetDialog";
 import { type MergeRequestDetail } from "@/components/MapInteractions";
 import { performMerge } from "@/utils/splitUtils";
-import { createOffsetFeature, type OffsetSide } from "@/utils/offsetUtils";
 import {
-  injectKmlStyles,
-  parseKmlStyles,
-  parsePlacemarkStyles,
-  applyKmlStylesToFeatures,
-} from "@/utils/kmlStyleUtils";
+  createBufferFeature,
+  createOffsetFeature,
+  findClearanceViolations,
+  type OffsetSide,
+} from "@/utils/offsetUtils";
+import { BufferDialog, type BufferOptions } from "@/components/BufferDialog";
+import { useClearanceLayer } from "@/hooks/useClearanceLayer";
+import { useClearanceStore } from "@/stores/useClearanceStore";
+import { useNetworkConnectivity } from "@/hooks/useNetworkConnectivity";
+import { injectKmlStyles } from "@/utils/kmlStyleUtils";
+import { createExportedGeoJSON } from "@/utils/kmlFolderUtils";
+import { DEFAULT_RESOLUTION, type PdfExportConfig } from "@/types/pdf";
 import {
-  createExportedGeoJSON,
-  extractFolderStructureFromGeoJSON,
-  parseKmlFolders,
-  assignUniquePlacemarkIds,
-} from "@/utils/kmlFolderUtils";
-import type { PdfExportConfig } from "@/types/pdf";
+  generateGridSheets,
+  generateRouteSheets,
+  getRouteCoordinates,
+  type AtlasOptions,
+  type AtlasSheet,
+} from "@/utils/atlasUtils";
+import { exportAtlasPdf } from "@/utils/atlasExport";
+import { exportMapToVector, type VectorExportOptions } from "@/utils/vectorExport";
+import { useLayoutStore } from "@/stores/layoutStore";
 import { HelpModal } from "@/components/HelpModal";
 import { useToolStore } from "@/stores/useToolStore";
 import { useFolderStore } from "@/stores/useFolderStore";
+import { useHiddenFeaturesStore } from "@/stores/useHiddenFeaturesStore";
+import {
+  assignCopiedFeatureId,
+  ensureUniqueFeatureIds,
+  getFeatureId,
+} from "@/utils/featureIdUtils";
 import { SeparateFeatures } from "@/components/SeparateFeatures";
 import { TogglingObject } from "@/components/TogglingObject";
 import { usePendingFileStore } from "@/stores/usePendingFileStore";
+import {
+  writeShapefileZip,
+  type ShapefileLayering,
+} from "@/utils/shapefileUtils";
+import { writeDxf, type DxfExportOptions } from "@/utils/dxfUtils";
+import { writeGpx } from "@/utils/gpxUtils";
+import {
+  getSuggestedCrs,
+  getUtmZoneAt,
+  transformGeoJSONToCrs,
+  type CrsOption,
+} from "@/utils/crsUtils";
+import { useJobCrsStore } from "@/stores/useJobCrsStore";
+import {
+  DEFAULT_IMPORT_OPTIONS,
+  IMPORT_FILE_ACCEPT,
+  type FileImportOptions,
+  type ImportFileResult,
+  type ParsedImportFile,
+} from "@/utils/importUtils";
+import {
+  isSpreadsheetFile,
+  SPREADSHEET_FILE_ACCEPT,
+  writeSpreadsheetCsv,
+} from "@/utils/spreadsheetUtils";
 import { ToolCommand } from "@/components/ToolCommand";
 import { CommandBar } from "@/components/CommandBar";
 
@@ -85,6 +157,8 @@ interface SerializedMapData {
   folderStructure?: {
     folders: Record<string, any>;
   };
+  hiddenFeatureIds?: string[];
+  crs?: CrsOption;
 }
 
 const MapEditor: React.FC = () => {
@@ -110,8 +184,25 @@ const MapEditor: React.FC = () => {
     loadProject,
     saveMapState: saveToDb,
     loadMapState: loadFromDb,
+    listRevisions,
+    loadRevision,
+    restoreRevision,
   } = useMapProjects();
 
+  // Overlay for the active feature comparison (see ComparisonPanel)
+  useComparisonLayer(interactionReady ? mapRef.current : null);
+  // Overlay for the last crossing check (see CrossingPanel)
+  useCrossingLayer(interactionReady ? mapRef.current : null);
+  // Overlay for the last topology check (see TopologyPanel)
+  useTopologyLayer(interactionReady ? mapRef.current : null);
+  // Keep route segments connected to their nodes (see networkUtils)
+  useNetworkConnectivity(vectorSourceRef.current);
+  // Halo around features flagged by the last clearance check
+  useClearanceLayer(
+    interactionReady ? mapRef.current : null,
+    vectorSourceRef.current
+  );
+
   // Custom hooks
   const {
     currentMapView,
@@ -180,288 +271,122 @@ const MapEditor: React.FC = () => {
 
   // PDF export dialog state
   const [pdfDialogOpen, setPdfDialogOpen] = useState(false);
+  const [revisionDialogOpen, setRevisionDialogOpen] = useState(false);
+  const [comparisonDialogOpen, setComparisonDialogOpen] = useState(false);
+  const [comparisonBaseRevisionId, setComparisonBaseRevisionId] = useState<
+    number | null
+  >(null);
+  const [collaborationDialogOpen, setCollaborationDialogOpen] =
+    useState(false);
+  const [serverSyncDialogOpen, setServerSyncDialogOpen] = useState(false);
   const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [atlasDialogOpen, setAtlasDialogOpen] = useState(false);
+  const [isExportingAtlas, setIsExportingAtlas] = useState(false);
   const [isDragBoxActive, setIsDragBoxActive] = useState(false);
   const [selectedExtent, setSelectedExtent] = useState<Extent | null>(null);
   const dragBoxRef = useRef<DragBox | null>(null);
 
-  // Core import logic — accepts raw file data (works for both browser FileReader and Electron IPC)
-  const importFileData = useCallback(
-    async (fileName: string, data: string | ArrayBuffer) => {
-      const name = fileName.toLowerCase();
-      let features: Feature<Geometry>[] = [];
-
-      try {
-        if (name.endsWith(".geojson") || name.endsWith(".json")) {
-          const json = JSON.parse(data as string);
-
-          // Check for folder structure from dsMapTool export
-          const importedFolderStructure =
-            extractFolderStructureFromGeoJSON(json);
-          if (importedFolderStructure) {
-            // Merge imported folders with existing folders
-            const currentFolders = useFolderStore.getState().folders;
-            useFolderStore.getState().loadFromStorage({
-              folders: {
-                ...currentFolders,
-                ...importedFolderStructure.folders,
-              },
-            });
-            console.log(
-              "Imported folder structure:",
-              Object.keys(importedFolderStructure.folders).length,
-              "folders"
-            );
-          }
-
-          features = new GeoJSON().readFeatures(json, {
-            featureProjection: "EPSG:3857",
-          });
-        } else if (name.endsWith(".kml")) {
-          try {
-            console.log("kml : ", data);
-
-            // Step 0: Pre-process KML to assign unique IDs to each Placemark
-            // OpenLayers merges Placemarks with same id, so we need unique IDs
-            const processedKml = assignUniquePlacemarkIds(data as string);
-
-            // Step 0.5: Parse folder structure from KML (use original to preserve hierarchy)
-            const { folders: importedFolders, featureFolderMap } =
-              parseKmlFolders(data as string);
-            console.log(
-              "Parsed KML folders:",
-              Object.keys(importedFolders).length,
-              "folders found"
-            );
-
-            // Step 0.6: Parse standard KML styles (for Google Earth compatibility)
-            const kmlStyleMap = parseKmlStyles(data as string);
-            const placemarkStyles = parsePlacemarkStyles(data as string);
-            console.log(
-              "Parsed KML styles:",
-              kmlStyleMap.size,
-              "styles found"
-            );
-
-            // Step 1: Parse KML to OpenLayers Features with correct projections
-            // Use processed KML with unique IDs to prevent merging
-            const kmlFeatures = new KML({
-              extractStyles: false,
-            }).readFeatures(processedKml, {
-              featureProjection: "EPSG:3857",
-              dataProjection: "EPSG:4326", // CRITICAL: KML is always in WGS84
-            });
-
-            // Step 1.5: Apply parsed KML styles to features (if no ExtendedData styles)
-            applyKmlStylesToFeatures(
-              kmlFeatures,
-              kmlStyleMap,
-              placemarkStyles
-            );
-
-            // Step 1.6: Apply folder assignments from KML structure
-            if (Object.keys(importedFolders).length > 0) {
-              kmlFeatures.forEach((feature, index) => {
-                const folderId = featureFolderMap.get(index);
-                if (folderId) {
-                  feature.set("folderId", folderId);
-                }
-              });
-              // Merge imported folders into store
-              const currentFolders = useFolderStore.getState().folders;
-              useFolderStore.getState().loadFromStorage({
-                folders: { ...currentFolders, ...importedFolders },
-              });
-            }
-
-            // Step 2: Convert Features to GeoJSON with proper property preservation
-            const tempSource = new VectorSource();
-            tempSource.addFeatures(kmlFeatures);
-            let geoJSONData = convertFeaturesToGeoJSON(tempSource);
-            geoJSONData = normalizeImportedGeoJSON(geoJSONData);
-            console.log(
-              "KML converted and normalized to GeoJSON:",
-              geoJSONData
-            );
-
-            // Step 3: Convert GeoJSON back to Features for map display
-            features = convertGeoJSONToFeatures(geoJSONData);
-            console.log("KML features parsed and converted:", features.length);
-          } catch (error) {
-            console.error("Error parsing KML:", error);
-            alert("Failed to parse KML file. Check console for details.");
-            return;
-          }
-        } else if (name.endsWith(".kmz") || name.endsWith(".ds")) {
-          try {
-            const format = name.endsWith(".ds") ? "DS" : "KMZ";
-            console.log(`${format} : `, data);
-
-            let kmzData: ArrayBuffer | string = data;
-
-            // .ds is a zip containing a .kmz — unwrap the outer layer
-            if (name.endsWith(".ds")) {
-              const dsZip = await JSZip.loadAsync(data);
-              const kmzEntry = Object.keys(dsZip.files).find((f) =>
-                f.toLowerCase().endsWith(".kmz")
-              );
-              if (!kmzEntry) {
-                alert("No KMZ file found in DS archive");
-                return;
-              }
-              kmzData = await dsZip.file(kmzEntry)!.async("arraybuffer");
-            }
-
-            // data can be ArrayBuffer (from FileReader or Electron IPC)
-            const zip = await JSZip.loadAsync(kmzData);
-            const kmlFile = Object.keys(zip.files).find((f) =>
-              f.toLowerCase().endsWith(".kml")
-            );
-
-            if (!kmlFile) {
-              alert(`No KML file found in ${format} archive`);
-              return;
-            }
-
-            const kmlText = await zip.file(kmlFile)?.async("text");
-            if (!kmlText) {
-              alert(`Failed to extract KML from ${format} file`);
-              return;
-            }
-
-            // Step 0: Pre-process KML to assign unique IDs to each Placemark
-            // OpenLayers merges Placemarks with same id, so we need unique IDs
-            const processedKml = assignUniquePlacemarkIds(kmlText);
-
-            // Step 0.5: Parse folder structure from KML (use original to preserve hierarchy)
-            const { folders: importedFolders, featureFolderMap } =
-              parseKmlFolders(kmlText);
-            console.log(
-              `Parsed ${format} folders:`,
-              Object.keys(importedFolders).length,
-              "folders found"
-            );
-
-            // Step 0.6: Parse standard KML styles (for Google Earth compatibility)
-            const kmlStyleMap = parseKmlStyles(kmlText);
-            const placemarkStyles = parsePlacemarkStyles(kmlText);
-            console.log(
-              `Parsed ${format} styles:`,
-              kmlStyleMap.size,
-              "styles found"
-            );
-
-            // Step 1: Parse KML to OpenLayers Features with correct projections
-            // Use processed KML with unique IDs to prevent merging
-            const kmlFeatures = new KML({
-              extractStyles: false,
-            }).readFeatures(processedKml, {
-              featureProjection: "EPSG:3857",
-              dataProjection: "EPSG:4326", // CRITICAL: KML is always in WGS84
-            });
-
-            // Step 1.5: Apply parsed KML styles to features (if no ExtendedData styles)
-            applyKmlStylesToFeatures(
-              kmlFeatures,
-              kmlStyleMap,
-              placemarkStyles
-            );
-
-            // Step 1.6: Apply folder assignments from KML structure
-            if (Object.keys(importedFolders).length > 0) {
-              kmlFeatures.forEach((feature, index) => {
-                const folderId = featureFolderMap.get(index);
-                if (folderId) {
-                  feature.set("folderId", folderId);
-                }
-              });
-              // Merge imported folders into store
-              const currentFolders = useFolderStore.getState().folders;
-              useFolderStore.getState().loadFromStorage({
-                folders: { ...currentFolders, ...importedFolders },
-              });
-            }
-
-            // Step 2: Convert Features to GeoJSON with proper property preservation
-            const tempSource = new VectorSource();
-            tempSource.addFeatures(kmlFeatures);
-            let geoJSONData = convertFeaturesToGeoJSON(tempSource);
-            geoJSONData = normalizeImportedGeoJSON(geoJSONData);
-            console.log(
-              `${format} converted and normalized to GeoJSON:`,
-              geoJSONData
-            );
-
-            // Step 3: Convert GeoJSON back to Features for map display
-            features = convertGeoJSONToFeatures(geoJSONData);
-            console.log(`${format} features parsed and converted:`, features.length);
-          } catch (error) {
-            const format = name.endsWith(".ds") ? "DS" : "KMZ";
-            console.error(`Error parsing ${format}:`, error);
-            alert(`Failed to parse ${format} file. Check console for details.`);
-            return;
-          }
-        }
-
-        if (features.length === 0) {
-          alert("No valid features found in the file.");
-          return;
-        }
-
-        // Check if features already have folder assignments (from imported structure)
-        const hasExistingFolders = features.some((f) => f.get("folderId"));
-
-        // Only create wrapper folder if features don't already have folder assignments
-        if (!hasExistingFolders) {
-          const filename = fileName.replace(/\.[^/.]+$/, "");
-          const folderId = useFolderStore.getState().createFolder(filename);
+  // Shared editing session through the backend
+  useCollaboration({
+    map: interactionReady ? mapRef.current : null,
+    vectorSource: vectorSourceRef.current,
+    projectId: currentProjectId,
+    selectInteraction: interactionReady ? selectInteractionRef.current : null,
+    getUndoRedo: () => undoRedoInteractionRef.current,
+    onRemoteChange: () => saveMapState(),
+  });
+  useCollaborationLayer(
+    interactionReady ? mapRef.current : null,
+    vectorSourceRef.current
+  );
 
-          // Set folderId on all imported features
-          features.forEach((feature) => {
-            feature.set("folderId", folderId);
-          });
-        }
+  // Shortest path between two picked points
+  useShortestPathTool(
+    interactionReady ? mapRef.current : null,
+    vectorSourceRef.current,
+    interactionReady ? selectInteractionRef.current : null
+  );
 
-        // Add features without clearing existing ones
-        vectorSourceRef.current.addFeatures(features);
+  // Batch import: files picked in the file input or dropped on the map
+  const {
+    importFileData: importIntoSource,
+    importFiles,
+    importParsedFile,
+  } = useFileHandler(mapRef, vectorSourceRef.current);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [filesToImport, setFilesToImport] = useState<File[]>([]);
+  // CSV/XLSX files wait for their column mapping in a dialog of their own
+  const [spreadsheetFiles, setSpreadsheetFiles] = useState<File[]>([]);
+
+  const openImportDialog = (files: File[]) => {
+    const spreadsheets = files.filter((file) => isSpreadsheetFile(file.name));
+    const others = files.filter((file) => !isSpreadsheetFile(file.name));
+    if (spreadsheets.length > 0) setSpreadsheetFiles(spreadsheets);
+    if (others.length > 0) {
+      setFilesToImport(others);
+      setImportDialogOpen(true);
+    }
+  };
+  const { isDraggingFiles, dropHandlers } = useFileDrop(openImportDialog);
+
+  const handleImportFiles = async (
+    files: File[],
+    options: FileImportOptions
+  ): Promise<ImportFileResult[]> => {
+    const results = await importFiles(files, options);
+    if (results.some((result) => result.added > 0)) await saveMapState();
+    return results;
+  };
 
-        const extent = vectorSourceRef.current.getExtent();
-        if (extent) {
-          if (mapRef.current) {
-            fitMapToFeatures(mapRef.current, extent);
-          }
-        } else {
-          console.log("No extent found");
-        }
+  const handleImportSpreadsheet = async (
+    fileName: string,
+    parsed: ParsedImportFile
+  ): Promise<ImportFileResult> => {
+    const result = await importParsedFile(fileName, parsed, {
+      alwaysCreateFolder: true,
+    });
+    if (result.added > 0) await saveMapState();
+    return result;
+  };
 
-        await saveMapState();
-      } catch (err) {
-        console.error(err);
-        alert("Invalid or unsupported file format.");
+  // Core import logic — accepts raw file data (works for both browser FileReader and Electron IPC)
+  const importFileData = useCallback(
+    async (fileName: string, data: string | ArrayBuffer) => {
+      // Same options as the import dialog: the file gets a folder of its
+      // own, features already in the job are skipped (and reported), DXF is
+      // read in the system the dialog would suggest
+      const defaultUtm = getUtmZoneAt(
+        mapRef.current?.getView().getCenter() ?? [0, 0]
+      );
+      const result = await importIntoSource(fileName, data, {
+        ...DEFAULT_IMPORT_OPTIONS,
+        dxfCrs: getSuggestedCrs(
+          useJobCrsStore.getState().crs,
+          { kind: "utm", ...defaultUtm },
+          defaultUtm
+        ),
+      });
+      if (result.error) {
+        alert(result.error);
+        return;
+      }
+      if (result.duplicates > 0) {
+        alert(
+          `${fileName}: ${result.added} feature(s) added, ${result.duplicates} already in the job skipped.`
+        );
       }
+      if (result.added > 0) await saveMapState();
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    []
+    [importIntoSource]
   );
 
-  // File input handler — reads browser File object then delegates to importFileData
-  const handleFileChange = async (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const data = e.target?.result;
-      if (data) await importFileData(file.name, data);
-    };
-
-    if (file.name.toLowerCase().endsWith(".kmz") || file.name.toLowerCase().endsWith(".ds")) {
-      reader.readAsArrayBuffer(file);
-    } else {
-      reader.readAsText(file);
-    }
+  // File input handler — queues the picked files in the import dialog
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Clear so picking the same file again still fires a change
+    event.target.value = "";
+    if (files.length > 0) openImportDialog(files);
   };
 
   // Electron file association: listen for files opened via OS double-click / "Open with"
@@ -485,6 +410,19 @@ const MapEditor: React.FC = () => {
     return cleanup;
   }, [importFileData, interactionReady]);
 
+  // Every feature gets a persistent id, whichever tool added it
+  useEffect(() => {
+    const source = vectorSourceRef.current;
+    const handleAddFeature = (event: { feature?: Feature<Geometry> }) => {
+      if (event.feature) getFeatureId(event.feature);
+    };
+
+    source.on("addfeature", handleAddFeature);
+    return () => {
+      source.un("addfeature", handleAddFeature);
+    };
+  }, []);
+
   // Import pending file from JobWelcome (auto-created job from direct file open)
   const pendingFile = usePendingFileStore((s) => s.pendingFile);
   const clearPendingFile = usePendingFileStore((s) => s.clearPendingFile);
@@ -582,6 +520,7 @@ const MapEditor: React.FC = () => {
       // This ensures the clone starts with the layer's default style.
       clone.setStyle(undefined);
 
+      assignCopiedFeatureId(clone, originalFeature);
       vectorSourceRef.current.addFeature(clone);
       pastedFeatures.push(clone);
     });
@@ -696,6 +635,264 @@ const MapEditor: React.FC = () => {
     }
   };
 
+  // Zipped shapefile layers, split by geometry type or by folder
+  const handleShapefileExportClick = async (layering: ShapefileLayering) => {
+    if (!mapRef.current) return;
+
+    try {
+      const mapData = await loadFromDb();
+
+      if (!mapData?.features || mapData.features.length === 0) {
+        alert("No features to export.");
+        return;
+      }
+
+      const currentProject = projects.find(p => p.id === currentProjectId);
+      const fileName = currentProject?.name || "map-export";
+
+      const olFeatures = convertGeoJSONToFeatures(mapData.features);
+      const zipBlob = await writeShapefileZip(
+        olFeatures,
+        mapData.folderStructure?.folders ?? {},
+        layering,
+        fileName
+      );
+
+      downloadBlob(zipBlob, `${fileName}_shp.zip`);
+    } catch (error) {
+      console.error("Shapefile export failed:", error);
+      alert("Shapefile export failed. Check console.");
+    }
+  };
+
+  // Selected polylines as GPX tracks for loading onto GPS devices
+  const handleGpxExportClick = () => {
+    const selected =
+      selectInteractionRef.current?.getFeatures().getArray() ?? [];
+    const polylines = selected.filter((feature) => {
+      const type = feature.getGeometry()?.getType();
+      return (
+        (type === "LineString" || type === "MultiLineString") &&
+        !feature.get("isAlignedDimension") &&
+        !feature.get("isLinearDimension") &&
+        !feature.get("isRadiusDimension") &&
+        !feature.get("isDimension")
+      );
+    });
+
+    if (polylines.length === 0) {
+      alert("Select one or more polylines to export as GPX.");
+      return;
+    }
+
+    try {
+      const currentProject = projects.find(p => p.id === currentProjectId);
+      const fileName = currentProject?.name || "map-export";
+
+      downloadBlob(
+        new Blob([writeGpx(polylines)], { type: "application/gpx+xml" }),
+        `${fileName}.gpx`
+      );
+    } catch (error) {
+      console.error("GPX export failed:", error);
+      alert("GPX export failed. Check console.");
+    }
+  };
+
+  // DXF drawing in a user-chosen coordinate system
+  const [dxfDialogOpen, setDxfDialogOpen] = useState(false);
+
+  const handleDxfExport = async (options: DxfExportOptions) => {
+    try {
+      const mapData = await loadFromDb();
+
+      if (!mapData?.features || mapData.features.length === 0) {
+        alert("No features to export.");
+        return;
+      }
+
+      const currentProject = projects.find(p => p.id === currentProjectId);
+      const fileName = currentProject?.name || "map-export";
+
+      const dxfText = writeDxf(
+        convertGeoJSONToFeatures(mapData.features),
+        mapData.folderStructure?.folders ?? {},
+        options
+      );
+
+      downloadBlob(
+        new Blob([dxfText], { type: "application/dxf" }),
+        `${fileName}.dxf`
+      );
+    } catch (error) {
+      console.error("DXF export failed:", error);
+      alert(
+        error instanceof Error
+          ? `DXF export failed: ${error.message}`
+          : "DXF export failed. Check console."
+      );
+    }
+  };
+
+  // UTM zone suggested for DXF import and export
+  const mapUtmZone = getUtmZoneAt(
+    mapRef.current?.getView().getCenter() ?? [0, 0]
+  );
+
+  // Coordinate system for entering and showing coordinates in this job
+  const jobCrs = useJobCrsStore((state) => state.crs);
+  const [crsDialogOpen, setCrsDialogOpen] = useState(false);
+
+  const [quantitiesDialogOpen, setQuantitiesDialogOpen] = useState(false);
+  const getJobFeatures = useCallback(
+    () => vectorSourceRef.current.getFeatures(),
+    []
+  );
+  const [crossingDialogOpen, setCrossingDialogOpen] = useState(false);
+
+  const handleAddCrossingMarkers = (features: Feature<Geometry>[]) => {
+    ensureUniqueFeatureIds(features, vectorSourceRef.current);
+    vectorSourceRef.current.addFeatures(features);
+    saveMapState();
+  };
+
+  const [topologyDialogOpen, setTopologyDialogOpen] = useState(false);
+
+  const handleApplyTopologyFix = (fix: TopologyFix) => {
+    const applied = applyTopologyFix(fix, vectorSourceRef.current);
+    if (applied) saveMapState();
+    return applied;
+  };
+
+  // Shortest path between two picked points (see PathPanel)
+  const handlePathClick = () => {
+    // The panels share the same spot on the map
+    useComparisonStore.getState().clearComparison();
+    useCrossingStore.getState().clearCrossings();
+    useTopologyStore.getState().clearIssues();
+    usePathStore.getState().openPathTool();
+  };
+
+  const handleSavePath = () => {
+    const { start, end, path } = usePathStore.getState();
+    if (!start || !end || !path) return;
+
+    const feature = createPathFeature(
+      path,
+      `Path ${start.label} to ${end.label}`,
+      useFolderStore.getState().activeFolderId
+    );
+    ensureUniqueFeatureIds([feature], vectorSourceRef.current);
+    vectorSourceRef.current.addFeature(feature);
+    saveMapState();
+  };
+
+  // Metric buffers around selected features or legend types, flagging
+  // anything else inside the clearance
+  const [bufferDialogOpen, setBufferDialogOpen] = useState(false);
+
+  const handleBufferApply = (options: BufferOptions) => {
+    const allFeatures = vectorSourceRef.current.getFeatures();
+    const sources = (
+      options.target === "selected"
+        ? selectInteractionRef.current?.getFeatures().getArray() ?? []
+        : allFeatures.filter(
+            (feature) =>
+              !!feature.get("islegends") &&
+              options.legendIds.includes(feature.get("legendType"))
+          )
+    ).filter((feature) => !feature.get("isBuffer"));
+
+    if (sources.length === 0) {
+      alert("No features to buffer.");
+      return;
+    }
+
+    try {
+      const buffers = sources
+        .map((source) =>
+          createBufferFeature(source, options.distance, options.style)
+        )
+        .filter((feature): feature is Feature<Geometry> => feature !== null);
+
+      ensureUniqueFeatureIds(buffers, vectorSourceRef.current);
+      vectorSourceRef.current.addFeatures(buffers);
+
+      let violationCount = 0;
+      if (options.flagViolations) {
+        const violations = findClearanceViolations(
+          sources,
+          allFeatures,
+          options.distance
+        );
+        useClearanceStore.getState().setViolations(violations);
+        violationCount = violations.length;
+      }
+
+      saveMapState();
+      alert(
+        options.flagViolations
+          ? `Created ${buffers.length} buffer(s). ${violationCount} feature(s) inside the clearance.`
+          : `Created ${buffers.length} buffer(s).`
+      );
+    } catch (error) {
+      console.error("Buffer failed:", error);
+      alert("Buffer failed. Check console.");
+    }
+  };
+
+  const handleClearClearanceFlags = () => {
+    useClearanceStore.getState().clearViolations();
+  };
+
+  const handleJobCrsSave = (crs: CrsOption) => {
+    useJobCrsStore.getState().setCrs(crs);
+    saveMapState();
+  };
+
+  // GeoJSON or a CSV of vertices written in the job's coordinate system
+  const handleCrsExportClick = async (format: "geojson" | "csv") => {
+    try {
+      const mapData = await loadFromDb();
+
+      if (!mapData?.features || mapData.features.length === 0) {
+        alert("No features to export.");
+        return;
+      }
+
+      const currentProject = projects.find(p => p.id === currentProjectId);
+      const fileName = currentProject?.name || "map-export";
+
+      if (format === "geojson") {
+        const exportData = createExportedGeoJSON(
+          transformGeoJSONToCrs(mapData.features, jobCrs),
+          mapData.folderStructure,
+          jobCrs
+        );
+        downloadBlob(
+          new Blob([JSON.stringify(exportData, null, 2)], {
+            type: "application/json",
+          }),
+          `${fileName}.json`
+        );
+        return;
+      }
+
+      const csvText = writeSpreadsheetCsv(
+        convertGeoJSONToFeatures(mapData.features),
+        jobCrs
+      );
+      downloadBlob(new Blob([csvText], { type: "text/csv" }), `${fileName}.csv`);
+    } catch (error) {
+      console.error("Export failed:", error);
+      alert(
+        error instanceof Error
+          ? `Export failed: ${error.message}`
+          : "Export failed. Check console."
+      );
+    }
+  };
+
   const handleExportClick = async (format: "geojson" | "kml" | "kmz") => {
     if (!mapRef.current) return;
 
@@ -851,6 +1048,116 @@ const MapEditor: React.FC = () => {
     }
   };
 
+  // Vector drawing of the selected area, saved straight to a file
+  const handleVectorExport = async (
+    options: VectorExportOptions,
+    onProgress: (progress: ExportProgress) => void
+  ) => {
+    if (!mapRef.current || !vectorLayerRef.current) {
+      throw new Error("Map not ready for export");
+    }
+
+    if (!selectedExtent) {
+      throw new Error("No area selected for export");
+    }
+
+    setIsExportingPdf(true);
+
+    try {
+      const blob = await exportMapToVector(
+        mapRef.current,
+        vectorLayerRef.current,
+        selectedExtent,
+        options,
+        onProgress
+      );
+      const jobName = projects.find(p => p.id === currentProjectId)?.name;
+      downloadBlob(blob, `${jobName || "map"}.${options.format}`);
+    } catch (error) {
+      console.error("Vector export failed:", error);
+      alert("Vector export failed. Check console.");
+      throw error;
+    } finally {
+      setIsExportingPdf(false);
+      setPdfDialogOpen(false);
+      setSelectedExtent(null);
+    }
+  };
+
+  // Map series: sheets along the selected route or over the whole job
+  const getAtlasSheets = useCallback((options: AtlasOptions): AtlasSheet[] => {
+    if (options.source === "grid") {
+      const features = vectorSourceRef.current.getFeatures();
+      if (features.length === 0) {
+        throw new Error("The job has no features to export.");
+      }
+      return generateGridSheets(features, options);
+    }
+
+    const route = (selectInteractionRef.current?.getFeatures().getArray() ?? [])
+      .filter(
+        (feature) =>
+          !feature.get("isAlignedDimension") &&
+          !feature.get("isLinearDimension") &&
+          !feature.get("isRadiusDimension") &&
+          !feature.get("isDimension")
+      )
+      .map(getRouteCoordinates)
+      .find((coordinates) => coordinates && coordinates.length > 1);
+    if (!route) {
+      throw new Error("Select a route polyline on the map first.");
+    }
+    return generateRouteSheets(route, options);
+  }, []);
+
+  const handleAtlasExport = async (
+    sheets: AtlasSheet[],
+    options: AtlasOptions,
+    onProgress: (progress: ExportProgress) => void
+  ) => {
+    if (!mapRef.current) {
+      throw new Error("Map not ready for export");
+    }
+
+    setIsExportingAtlas(true);
+    try {
+      const jobName = projects.find(p => p.id === currentProjectId)?.name;
+      const pdf = await exportAtlasPdf(
+        mapRef.current,
+        sheets,
+        options,
+        {
+          resolution: DEFAULT_RESOLUTION,
+          jobName,
+          layout: options.layoutId
+            ? useLayoutStore.getState().getLayout(options.layoutId)
+            : null,
+        },
+        onProgress
+      );
+      pdf.save(`${jobName || "map"} series.pdf`);
+    } finally {
+      setIsExportingAtlas(false);
+    }
+  };
+
+  // Snapshot of the current map in the shape stored by the project DB
+  const buildMapData = useCallback((): SerializedMapData | null => {
+    if (!mapRef.current) return null;
+
+    return {
+      features: convertFeaturesToGeoJSON(vectorSourceRef.current),
+      mapState: {
+        center: mapRef.current.getView().getCenter() as [number, number],
+        zoom: mapRef.current.getView().getZoom() || 0,
+        viewMode: currentMapView,
+      },
+      folderStructure: useFolderStore.getState().exportToStorage(),
+      hiddenFeatureIds: [...useHiddenFeaturesStore.getState().hiddenFeatureIds],
+      crs: useJobCrsStore.getState().crs,
+    };
+  }, [currentMapView]);
+
   // ✅ SAVE to isolated DB
   const saveMapState = async () => {
     if (!isProjectReadyRef.current) {
@@ -861,15 +1168,8 @@ const MapEditor: React.FC = () => {
     if (!mapRef.current) return;
 
     try {
-      const mapData: SerializedMapData = {
-        features: convertFeaturesToGeoJSON(vectorSourceRef.current),
-        mapState: {
-          center: mapRef.current.getView().getCenter() as [number, number],
-          zoom: mapRef.current.getView().getZoom() || 0,
-          viewMode: currentMapView,
-        },
-        folderStructure: useFolderStore.getState().exportToStorage(),
-      };
+      const mapData = buildMapData();
+      if (!mapData) return;
 
       await saveToDb(mapData);
       console.log("Saved to isolated DB");
@@ -878,6 +1178,34 @@ const MapEditor: React.FC = () => {
     }
   };
 
+  // Save the current map as a named revision
+  const handleCreateCheckpoint = async (note: string): Promise<boolean> => {
+    if (!isProjectReadyRef.current) return false;
+
+    const mapData = buildMapData();
+    if (!mapData) return false;
+
+    return saveToDb(mapData, note);
+  };
+
+  // Open the comparison dialog, optionally with a revision as the base
+  const handleOpenComparison = (baseRevisionId: number | null = null) => {
+    setComparisonBaseRevisionId(baseRevisionId);
+    setRevisionDialogOpen(false);
+    setComparisonDialogOpen(true);
+  };
+
+  // Replace the current map with an earlier revision and reload it
+  const handleRestoreRevision = async (revisionId: number): Promise<boolean> => {
+    const restored = await restoreRevision(revisionId);
+    if (restored) {
+      setSelectedFeature(null);
+      selectInteractionRef.current?.getFeatures().clear();
+      await handleLoadMapState();
+    }
+    return restored;
+  };
+
   // ✅ LOAD from isolated DB
   const handleLoadMapState = async () => {
     try {
@@ -895,11 +1223,21 @@ const MapEditor: React.FC = () => {
       vectorSourceRef.current.clear();
       // Also clear folder structure when switching projects
       useFolderStore.getState().clearAll();
+      useHiddenFeaturesStore.getState().clearAll();
+      useJobCrsStore.getState().resetCrs();
+      // A comparison only makes sense against the map it was made for
+      useComparisonStore.getState().clearComparison();
+      useCrossingStore.getState().clearCrossings();
+      useTopologyStore.getState().clearIssues();
+      useClearanceStore.getState().clearViolations();
+      usePathStore.getState().closePathTool();
 
       const mapData = await loadFromDb();
       if (mapData?.features) {
         // vectorSourceRef.current.clear();
         const features = convertGeoJSONToFeatures(mapData.features);
+        // Older saves have no ids; features without one get a new id here
+        ensureUniqueFeatureIds(features);
         vectorSourceRef.current.addFeatures(features);
 
         const extent = vectorSourceRef.current.getExtent();
@@ -915,6 +1253,15 @@ const MapEditor: React.FC = () => {
       if (mapData?.folderStructure) {
         useFolderStore.getState().loadFromStorage(mapData.folderStructure);
       }
+      // Restore hidden features (ids are persistent, so they still match)
+      if (mapData?.hiddenFeatureIds) {
+        useHiddenFeaturesStore
+          .getState()
+          .setHiddenFeatureIds(mapData.hiddenFeatureIds);
+      }
+      if (mapData?.crs) {
+        useJobCrsStore.getState().setCrs(mapData.crs);
+      }
       if (mapData?.mapState && mapRef.current) {
         restoreMapView(mapRef.current, mapData.mapState, handleMapViewChange);
       }
@@ -934,6 +1281,29 @@ const MapEditor: React.FC = () => {
     }
   };
 
+  // Apply a server copy of the open job (see ServerSyncDialog)
+  useEffect(() => {
+    const handleProjectPulled = async (event: Event) => {
+      const { projectId, mapData } = (
+        event as CustomEvent<ProjectPulledDetail>
+      ).detail;
+      if (projectId !== currentProjectId || !mapData) return;
+
+      const saved = await saveToDb(mapData, "Downloaded from server");
+      if (saved) {
+        setSelectedFeature(null);
+        selectInteractionRef.current?.getFeatures().clear();
+        await handleLoadMapState();
+      }
+    };
+
+    window.addEventListener(PROJECT_PULLED_EVENT, handleProjectPulled);
+    return () => {
+      window.removeEventListener(PROJECT_PULLED_EVENT, handleProjectPulled);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentProjectId, currentDb]);
+
   // Initialize project from URL on mount
   useEffect(() => {
     if (urlProjectId && !currentProjectId) {
@@ -1377,7 +1747,7 @@ const MapEditor: React.FC = () => {
   });
 
   return (
-    <div>
+    <div {...dropHandlers}>
       <MapInstance
         onMapReady={handleMapReady}
         osmLayerRef={osmLayerRef}
@@ -1452,13 +1822,147 @@ const MapEditor: React.FC = () => {
         isOpen={pdfDialogOpen}
         onClose={() => setPdfDialogOpen(false)}
         onExport={handlePdfExport}
+        onVectorExport={handleVectorExport}
         isExporting={isExportingPdf}
         jobName={projects.find(p => p.id === currentProjectId)?.name}
+        projectId={currentProjectId}
         vectorSource={vectorSourceRef.current}
+        extent={selectedExtent}
+      />
+
+      <AtlasExportDialog
+        isOpen={atlasDialogOpen}
+        onClose={() => setAtlasDialogOpen(false)}
+        getSheets={getAtlasSheets}
+        onExport={handleAtlasExport}
+        isExporting={isExportingAtlas}
+      />
+
+      <RevisionHistoryDialog
+        isOpen={revisionDialogOpen}
+        onClose={() => setRevisionDialogOpen(false)}
+        listRevisions={listRevisions}
+        loadRevision={loadRevision}
+        getCurrentMapData={buildMapData}
+        onRestore={handleRestoreRevision}
+        onCreateCheckpoint={handleCreateCheckpoint}
+        onCompare={handleOpenComparison}
+      />
+
+      <ComparisonDialog
+        isOpen={comparisonDialogOpen}
+        onClose={() => setComparisonDialogOpen(false)}
+        listRevisions={listRevisions}
+        loadRevision={loadRevision}
+        getCurrentMapData={buildMapData}
+        initialBaseRevisionId={comparisonBaseRevisionId}
+      />
+
+      <ComparisonPanel map={mapRef.current} />
+
+      <CrossingDialog
+        isOpen={crossingDialogOpen}
+        onClose={() => setCrossingDialogOpen(false)}
+        getFeatures={() => vectorSourceRef.current.getFeatures()}
+      />
+
+      <TopologyDialog
+        isOpen={topologyDialogOpen}
+        onClose={() => setTopologyDialogOpen(false)}
+        getFeatures={() => vectorSourceRef.current.getFeatures()}
+      />
+
+      <PathPanel onSavePath={handleSavePath} />
+
+      <TopologyPanel
+        map={mapRef.current}
+        getFeatures={() => vectorSourceRef.current.getFeatures()}
+        onApplyFix={handleApplyTopologyFix}
+      />
+
+      <BufferDialog
+        isOpen={bufferDialogOpen}
+        onClose={() => setBufferDialogOpen(false)}
+        onApply={handleBufferApply}
+        onClearFlags={handleClearClearanceFlags}
+        selectedCount={
+          selectInteractionRef.current?.getFeatures().getLength() ?? 0
+        }
+      />
+
+      <CrossingPanel
+        map={mapRef.current}
+        onAddMarkers={handleAddCrossingMarkers}
+        onDownload={downloadBlob}
+        jobName={projects.find(p => p.id === currentProjectId)?.name}
+      />
+
+      <CollaborationDialog
+        isOpen={collaborationDialogOpen}
+        onClose={() => setCollaborationDialogOpen(false)}
+        projectId={currentProjectId}
+      />
+
+      <ServerSyncDialog
+        isOpen={serverSyncDialogOpen}
+        onClose={() => setServerSyncDialogOpen(false)}
+        projects={projects}
+        currentProjectId={currentProjectId}
+        onSelectProject={loadProject}
+        getCurrentMapData={buildMapData}
+      />
+
+      <ImportDialog
+        isOpen={importDialogOpen}
+        onClose={() => setImportDialogOpen(false)}
+        files={filesToImport}
+        onImport={handleImportFiles}
+        defaultUtm={mapUtmZone}
+      />
+
+      <SpreadsheetImportDialog
+        // Wait for the other files of a mixed batch to be imported first
+        isOpen={spreadsheetFiles.length > 0 && !importDialogOpen}
+        onClose={() => setSpreadsheetFiles([])}
+        files={spreadsheetFiles}
+        onImport={handleImportSpreadsheet}
+        defaultUtm={mapUtmZone}
+      />
+
+      <DxfExportDialog
+        isOpen={dxfDialogOpen}
+        onClose={() => setDxfDialogOpen(false)}
+        onExport={handleDxfExport}
+        defaultUtm={mapUtmZone}
+      />
+
+      <JobCrsDialog
+        isOpen={crsDialogOpen}
+        onClose={() => setCrsDialogOpen(false)}
+        crs={jobCrs}
+        onSave={handleJobCrsSave}
+        defaultUtm={mapUtmZone}
+        previewCoordinate={mapRef.current?.getView().getCenter() ?? null}
+      />
+
+      <QuantitiesDialog
+        isOpen={quantitiesDialogOpen}
+        onClose={() => setQuantitiesDialogOpen(false)}
+        getFeatures={getJobFeatures}
+        jobName={projects.find(p => p.id === currentProjectId)?.name}
+        onDownload={downloadBlob}
       />
 
       <DragBoxInstruction isActive={isDragBoxActive} />
 
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-50 pointer-events-none bg-blue-500/10 border-4 border-dashed border-blue-500 flex items-center justify-center">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl px-4 py-3 text-gray-700 dark:text-gray-200">
+            Drop files to add them to this job
+          </div>
+        </div>
+      )}
+
       <MapInteractions
         map={mapRef.current}
         vectorLayer={vectorLayerRef.current}
@@ -1493,7 +1997,22 @@ const MapEditor: React.FC = () => {
         onLegendSelect={handleLegendSelect}
         onExportClick={handleExportClick}
         onDsExportClick={handleDsExportClick}
+        onShapefileExportClick={handleShapefileExportClick}
+        onDxfExportClick={() => setDxfDialogOpen(true)}
+        onGpxExportClick={handleGpxExportClick}
+        onCrsExportClick={handleCrsExportClick}
         onPdfExportClick={handlePdfExportClick}
+        onAtlasExportClick={() => setAtlasDialogOpen(true)}
+        onHistoryClick={() => setRevisionDialogOpen(true)}
+        onCompareClick={() => handleOpenComparison()}
+        onCollaborateClick={() => setCollaborationDialogOpen(true)}
+        onServerSyncClick={() => setServerSyncDialogOpen(true)}
+        onCrsClick={() => setCrsDialogOpen(true)}
+        onQuantitiesClick={() => setQuantitiesDialogOpen(true)}
+        onCrossingsClick={() => setCrossingDialogOpen(true)}
+        onBufferClick={() => setBufferDialogOpen(true)}
+        onTopologyClick={() => setTopologyDialogOpen(true)}
+        onPathClick={handlePathClick}
         lineColor={lineColor}
         lineWidth={lineWidth}
         onLineColorChange={setLineColor}
@@ -1511,7 +2030,8 @@ const MapEditor: React.FC = () => {
 
       <input
         type="file"
-        accept=".geojson,.json,.kml,.kmz,.ds"
+        accept={`${IMPORT_FILE_ACCEPT},${SPREADSHEET_FILE_ACCEPT}`}
+        multiple
         ref={fileInputRef}
         onChange={handleFileChange}
         style={{ display: "none" }}
@@ -3,3 +3,4 @@ export { useToolStore } from './useToolStore';
 export { useSelectionStore } from './useSelectionStore';
 export { useHiddenFeaturesStore } from './useHiddenFeaturesStore';
 export { useMatchPropertiesStore } from './useMatchPropertiesStore';
+export { useJobCrsStore } from './useJobCrsStore';
@@ -2,6 +2,9 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import type { PageSize } from '@/types/pdf'
 import type { LegendMetadata } from '@/utils/legendMetadataUtils'
+import type { QuantitiesReport } from '@/utils/quantitiesUtils'
+import type { TitleBlockValues } from '@/utils/titleBlockUtils'
+import type { MapImageScale } from '@/utils/mapImageExport'
 
 export interface Layout {
   id: string
@@ -9,43 +12,78 @@ export interface Layout {
   canvasData: object // Fabric.js JSON data
   backgroundImage?: string // Locked background image (full quality base64)
   previewImage: string // Base64 data URL with transparent background
+  titleBlockValues?: Partial<TitleBlockValues> // Last values put into its title blocks
+  projectId?: string // Job the layout was made for; only synced with that job
   createdAt: number
   updatedAt: number
 }
 
+export interface TitleBlockTemplate {
+  id: string
+  name: string
+  objectData: object // Fabric.js JSON of the title block group
+  createdAt: number
+}
+
+// Map export handed to the layout editor by setPendingBackground
+export interface PendingBackground {
+  image: string
+  pageSize: PageSize
+  layoutId: string | null
+  layoutName?: string | null
+  projectId?: string | null
+  legendMetadata?: LegendMetadata | null
+  quantities?: QuantitiesReport | null
+  titleBlockValues?: Partial<TitleBlockValues> | null
+  mapScale?: MapImageScale | null
+}
+
 interface LayoutStore {
   layouts: Layout[]
+  titleBlockTemplates: TitleBlockTemplate[]
 
   // Pending background for layout editor (not persisted)
   pendingBackgroundImage: string | null
   pendingPageSize: PageSize | null
   pendingLayoutId: string | null
   pendingLayoutName: string | null
+  pendingProjectId: string | null
   pendingLegendMetadata: LegendMetadata | null
+  pendingQuantities: QuantitiesReport | null
+  pendingTitleBlockValues: Partial<TitleBlockValues> | null
+  pendingMapScale: MapImageScale | null
 
   addLayout: (layout: Omit<Layout, 'id' | 'createdAt' | 'updatedAt'>) => string
   updateLayout: (id: string, data: Partial<Omit<Layout, 'id' | 'createdAt'>>) => void
   deleteLayout: (id: string) => void
   getLayout: (id: string) => Layout | undefined
 
+  addTitleBlockTemplate: (template: Omit<TitleBlockTemplate, 'id' | 'createdAt'>) => string
+  deleteTitleBlockTemplate: (id: string) => void
+
   // Pending background methods
-  setPendingBackground: (image: string, pageSize: PageSize, layoutId: string | null, layoutName?: string | null, legendMetadata?: LegendMetadata | null) => void
+  setPendingBackground: (background: PendingBackground) => void
   clearPendingBackground: () => void
 }
 
-const generateId = () => `layout_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+const generateId = (prefix = 'layout') => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
 
 export const useLayoutStore = create<LayoutStore>()(
   persist(
     (set, get) => ({
       layouts: [],
+      titleBlockTemplates: [],
 
       // Pending state (not persisted)
       pendingBackgroundImage: null,
       pendingPageSize: null,
       pendingLayoutId: null,
       pendingLayoutName: null,
+      pendingProjectId: null,
       pendingLegendMetadata: null,
+      pendingQuantities: null,
+      pendingTitleBlockValues: null,
+      pendingMapScale: null,
 
       addLayout: (layout) => {
         const currentLayouts = get().layouts
@@ -85,13 +123,34 @@ export const useLayoutStore = create<LayoutStore>()(
         return get().layouts.find((layout) => layout.id === id)
       },
 
-      setPendingBackground: (image, pageSize, layoutId, layoutName, legendMetadata) => {
+      addTitleBlockTemplate: (template) => {
+        const id = generateId('titleblock')
+        set((state) => ({
+          titleBlockTemplates: [
+            ...state.titleBlockTemplates,
+            { ...template, id, createdAt: Date.now() },
+          ],
+        }))
+        return id
+      },
+
+      deleteTitleBlockTemplate: (id) => {
+        set((state) => ({
+          titleBlockTemplates: state.titleBlockTemplates.filter((template) => template.id !== id),
+        }))
+      },
+
+      setPendingBackground: ({ image, pageSize, layoutId, layoutName, projectId, legendMetadata, quantities, titleBlockValues, mapScale }) => {
         set({
           pendingBackgroundImage: image,
           pendingPageSize: pageSize,
           pendingLayoutId: layoutId,
           pendingLayoutName: layoutName || null,
+          pendingProjectId: projectId || null,
           pendingLegendMetadata: legendMetadata || null,
+          pendingQuantities: quantities || null,
+          pendingTitleBlockValues: titleBlockValues || null,
+          pendingMapScale: mapScale || null,
         })
       },
 
@@ -101,7 +160,11 @@ export const useLayoutStore = create<LayoutStore>()(
           pendingPageSize: null,
           pendingLayoutId: null,
           pendingLayoutName: null,
+          pendingProjectId: null,
           pendingLegendMetadata: null,
+          pendingQuantities: null,
+          pendingTitleBlockValues: null,
+          pendingMapScale: null,
         })
       },
     }),
@@ -110,6 +173,7 @@ export const useLayoutStore = create<LayoutStore>()(
       // Exclude pending state from persistence
       partialize: (state) => ({
         layouts: state.layouts,
+        titleBlockTemplates: state.titleBlockTemplates,
       }),
     }
   )
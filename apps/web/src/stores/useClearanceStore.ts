@@ -0,0 +1,20 @@
+import { create } from 'zustand';
+import type { ClearanceViolation } from '@/utils/offsetUtils';
+
+interface ClearanceState {
+  // State - features flagged by the last clearance check (null when none
+  // has run). Kept out of the features so the flags are never saved.
+  violations: ClearanceViolation[] | null;
+
+  // Actions
+  setViolations: (violations: ClearanceViolation[]) => void;
+  clearViolations: () => void;
+}
+
+export const useClearanceStore = create<ClearanceState>((set) => ({
+  violations: null,
+
+  setViolations: (violations) => set({ violations }),
+
+  clearViolations: () => set({ violations: null }),
+}));
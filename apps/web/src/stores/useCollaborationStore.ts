@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type {
+  CollaborationStatus,
+  Presence,
+} from '@/types/collaboration';
+import { pickUserColor } from '@/utils/collaborationUtils';
+
+interface CollaborationSession {
+  sessionId: string;
+  // Job the session was joined from; switching jobs leaves the session
+  projectId: string;
+}
+
+interface CollaborationState {
+  // Settings (persisted)
+  serverUrl: string;
+  userName: string;
+  userColor: string;
+
+  // Session state
+  session: CollaborationSession | null;
+  status: CollaborationStatus;
+  peers: Record<string, Presence>;
+  // Local edits not yet confirmed by the server
+  pendingCount: number;
+
+  // Actions
+  setServerUrl: (serverUrl: string) => void;
+  setUserName: (userName: string) => void;
+  joinSession: (sessionId: string, projectId: string) => void;
+  leaveSession: () => void;
+  setStatus: (status: CollaborationStatus) => void;
+  setPeers: (peers: Presence[]) => void;
+  upsertPeer: (peer: Presence) => void;
+  removePeer: (clientId: string) => void;
+  setPendingCount: (pendingCount: number) => void;
+}
+
+const DEFAULT_SERVER_URL = 'ws://localhost:3001';
+
+export const useCollaborationStore = create<CollaborationState>()(
+  persist(
+    (set) => ({
+      serverUrl: DEFAULT_SERVER_URL,
+      userName: '',
+      userColor: pickUserColor(),
+
+      session: null,
+      status: 'disconnected',
+      peers: {},
+      pendingCount: 0,
+
+      setServerUrl: (serverUrl) => set({ serverUrl }),
+      setUserName: (userName) => set({ userName }),
+
+      joinSession: (sessionId, projectId) =>
+        set({ session: { sessionId, projectId }, peers: {}, status: 'connecting' }),
+
+      leaveSession: () =>
+        set({ session: null, peers: {}, status: 'disconnected', pendingCount: 0 }),
+
+      setStatus: (status) => set({ status }),
+
+      setPeers: (peers) =>
+        set({
+          peers: Object.fromEntries(peers.map((peer) => [peer.clientId, peer])),
+        }),
+
+      upsertPeer: (peer) =>
+        set((state) => ({ peers: { ...state.peers, [peer.clientId]: peer } })),
+
+      removePeer: (clientId) =>
+        set((state) => {
+          if (!state.peers[clientId]) return state;
+          const peers = { ...state.peers };
+          delete peers[clientId];
+          return { peers };
+        }),
+
+      setPendingCount: (pendingCount) => set({ pendingCount }),
+    }),
+    {
+      name: 'collaboration-settings',
+      partialize: (state) => ({
+        serverUrl: state.serverUrl,
+        userName: state.userName,
+        userColor: state.userColor,
+      }),
+    }
+  )
+);
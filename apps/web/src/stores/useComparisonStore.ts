@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import type {
+  FeatureDiffResult,
+  FeatureDiffStatus,
+} from '@/utils/featureDiffUtils';
+
+interface ComparisonState {
+  // State - active comparison result (null when comparison mode is off)
+  result: FeatureDiffResult | null;
+  baseLabel: string;
+  targetLabel: string;
+  visibleStatuses: Set<FeatureDiffStatus>;
+  // Index into result.entries of the highlighted entry
+  focusedEntryIndex: number | null;
+
+  // Actions
+  setComparison: (
+    result: FeatureDiffResult,
+    baseLabel: string,
+    targetLabel: string,
+  ) => void;
+  toggleStatus: (status: FeatureDiffStatus) => void;
+  setFocusedEntry: (index: number | null) => void;
+  clearComparison: () => void;
+}
+
+const DEFAULT_VISIBLE_STATUSES: FeatureDiffStatus[] = [
+  'added',
+  'removed',
+  'geometry-changed',
+  'property-changed',
+];
+
+export const useComparisonStore = create<ComparisonState>((set) => ({
+  result: null,
+  baseLabel: '',
+  targetLabel: '',
+  visibleStatuses: new Set<FeatureDiffStatus>(DEFAULT_VISIBLE_STATUSES),
+  focusedEntryIndex: null,
+
+  setComparison: (result, baseLabel, targetLabel) =>
+    set({
+      result,
+      baseLabel,
+      targetLabel,
+      visibleStatuses: new Set<FeatureDiffStatus>(DEFAULT_VISIBLE_STATUSES),
+      focusedEntryIndex: null,
+    }),
+
+  toggleStatus: (status) =>
+    set((state) => {
+      const newSet = new Set(state.visibleStatuses);
+      if (newSet.has(status)) {
+        newSet.delete(status);
+      } else {
+        newSet.add(status);
+      }
+      return { visibleStatuses: newSet };
+    }),
+
+  setFocusedEntry: (index) => set({ focusedEntryIndex: index }),
+
+  clearComparison: () =>
+    set({
+      result: null,
+      baseLabel: '',
+      targetLabel: '',
+      focusedEntryIndex: null,
+    }),
+}));
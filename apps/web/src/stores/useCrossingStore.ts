@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import type { Crossing } from '@/utils/crossingUtils';
+
+interface CrossingState {
+  // State - crossings found by the last check (null when none has run)
+  crossings: Crossing[] | null;
+  // Index into crossings of the highlighted crossing
+  focusedIndex: number | null;
+
+  // Actions
+  setCrossings: (crossings: Crossing[]) => void;
+  setFocusedCrossing: (index: number | null) => void;
+  clearCrossings: () => void;
+}
+
+export const useCrossingStore = create<CrossingState>((set) => ({
+  crossings: null,
+  focusedIndex: null,
+
+  setCrossings: (crossings) => set({ crossings, focusedIndex: null }),
+
+  setFocusedCrossing: (index) => set({ focusedIndex: index }),
+
+  clearCrossings: () => set({ crossings: null, focusedIndex: null }),
+}));
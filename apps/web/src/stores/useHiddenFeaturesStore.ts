@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 
 interface HiddenFeaturesState {
-  // State - Set of hidden feature IDs (ol_uid)
+  // State - Set of hidden feature IDs (persistent feature ids, saved with the map)
   hiddenFeatureIds: Set<string>;
 
   // Actions
@@ -10,6 +10,7 @@ interface HiddenFeaturesState {
   showFeature: (featureId: string) => void;
   isHidden: (featureId: string) => boolean;
   removeFeatureId: (featureId: string) => void;
+  setHiddenFeatureIds: (featureIds: string[]) => void;
   clearAll: () => void;
 }
 
@@ -53,5 +54,8 @@ export const useHiddenFeaturesStore = create<HiddenFeaturesState>((set, get) =>
       return state;
     }),
 
+  setHiddenFeatureIds: (featureIds) =>
+    set({ hiddenFeatureIds: new Set<string>(featureIds) }),
+
   clearAll: () => set({ hiddenFeatureIds: new Set<string>() }),
 }));
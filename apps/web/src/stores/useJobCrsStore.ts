@@ -0,0 +1,20 @@
+import { create } from 'zustand';
+import { DEFAULT_JOB_CRS, type CrsOption } from '@/utils/crsUtils';
+
+interface JobCrsState {
+  // Coordinate system for entering and showing coordinates in the open job,
+  // saved with the map
+  crs: CrsOption;
+
+  // Actions
+  setCrs: (crs: CrsOption) => void;
+  resetCrs: () => void;
+}
+
+export const useJobCrsStore = create<JobCrsState>((set) => ({
+  crs: DEFAULT_JOB_CRS,
+
+  setCrs: (crs) => set({ crs }),
+
+  resetCrs: () => set({ crs: DEFAULT_JOB_CRS }),
+}));
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import type { Feature } from 'ol';
 import type { Geometry } from 'ol/geom';
 import { getLegendById } from '@/tools/legendsConfig';
+import { getFeatureId } from '@/utils/featureIdUtils';
 
 /**
  * Captured styles from a source feature that can be applied to target features.
@@ -173,7 +174,7 @@ const applyStylesToFeature = (feature: Feature<Geometry>, styles: CapturedStyles
     const isLineFeature = feature.get('isPolyline') || feature.get('isFreehand') ||
         feature.get('isArrow') || feature.get('isDimension') || feature.get('islegends') || feature.get('isArc');
     const isMeasureFeature = feature.get('isMeasure');
-    const isShapeFeature = feature.get('isBox') || feature.get('isCircle') || feature.get('isRevisionCloud');
+    const isShapeFeature = feature.get('isBox') || feature.get('isCircle') || feature.get('isRevisionCloud') || feature.get('isBuffer');
     const isTextFeature = feature.get('isText');
     // Point features include ALL icon types: GP, Tower, Junction, Triangle, Pit
     const isPointFeature = feature.get('isPoint') ||
@@ -270,10 +271,6 @@ const applyStylesToFeature = (feature: Feature<Geometry>, styles: CapturedStyles
     feature.changed();
 };
 
-const getFeatureId = (feature: Feature<Geometry>): string => {
-    return (feature as unknown as { ol_uid: string }).ol_uid || '';
-};
-
 export const useMatchPropertiesStore = create<MatchPropertiesState>((set, get) => ({
     isActive: false,
     capturedStyles: null,
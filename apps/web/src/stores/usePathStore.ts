@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import type { Coordinate } from 'ol/coordinate';
+import type { ShortestPath } from '@/utils/pathUtils';
+
+export interface PathEndpoint {
+  // Picked location (EPSG:3857)
+  coordinate: Coordinate;
+  // Name of the icon picked, or "Point"
+  label: string;
+}
+
+interface PathState {
+  // State - whether the shortest path tool is open
+  isActive: boolean;
+  // Which end the next map click picks
+  picking: 'start' | 'end' | null;
+  start: PathEndpoint | null;
+  end: PathEndpoint | null;
+  // Path between start and end (null until both are picked or if none)
+  path: ShortestPath | null;
+  error: string | null;
+
+  // Actions
+  openPathTool: () => void;
+  closePathTool: () => void;
+  setPicking: (picking: 'start' | 'end' | null) => void;
+  setEndpoint: (which: 'start' | 'end', endpoint: PathEndpoint) => void;
+  setResult: (path: ShortestPath | null, error: string | null) => void;
+}
+
+export const usePathStore = create<PathState>((set) => ({
+  isActive: false,
+  picking: null,
+  start: null,
+  end: null,
+  path: null,
+  error: null,
+
+  openPathTool: () =>
+    set({
+      isActive: true,
+      picking: 'start',
+      start: null,
+      end: null,
+      path: null,
+      error: null,
+    }),
+
+  closePathTool: () =>
+    set({
+      isActive: false,
+      picking: null,
+      start: null,
+      end: null,
+      path: null,
+      error: null,
+    }),
+
+  setPicking: (picking) => set({ picking }),
+
+  // Picking the start goes on to pick the end
+  setEndpoint: (which, endpoint) =>
+    set((state) => ({
+      [which]: endpoint,
+      picking: which === 'start' && !state.end ? 'end' : null,
+      path: null,
+      error: null,
+    })),
+
+  setResult: (path, error) => set({ path, error }),
+}));
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import type { Feature } from 'ol';
 import type { Geometry } from 'ol/geom';
+import { getFeatureId } from '@/utils/featureIdUtils';
 
 interface ClipboardState {
   features: Feature<Geometry>[];
@@ -24,10 +25,6 @@ interface SelectionState {
   clearClipboard: () => void;
 }
 
-const getFeatureId = (feature: Feature<Geometry>): string => {
-  return (feature as unknown as { ol_uid: string }).ol_uid || '';
-};
-
 export const useSelectionStore = create<SelectionState>((set) => ({
   selectedFeature: null,
   selectedFeatures: [],
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface ServerSyncState {
+  // Settings
+  serverUrl: string;
+  // Opt-in: push every saved job to the server
+  autoSync: boolean;
+
+  // State - last successful push per project id (ISO date)
+  lastSyncedAt: Record<string, string>;
+  lastError: string | null;
+
+  // Actions
+  setServerUrl: (serverUrl: string) => void;
+  setAutoSync: (autoSync: boolean) => void;
+  markSynced: (projectId: string) => void;
+  setError: (error: string | null) => void;
+}
+
+const DEFAULT_SERVER_URL = 'http://localhost:3001';
+
+export const useServerSyncStore = create<ServerSyncState>()(
+  persist(
+    (set) => ({
+      serverUrl: DEFAULT_SERVER_URL,
+      autoSync: false,
+      lastSyncedAt: {},
+      lastError: null,
+
+      setServerUrl: (serverUrl) => set({ serverUrl }),
+      setAutoSync: (autoSync) => set({ autoSync }),
+
+      markSynced: (projectId) =>
+        set((state) => ({
+          lastSyncedAt: {
+            ...state.lastSyncedAt,
+            [projectId]: new Date().toISOString(),
+          },
+          lastError: null,
+        })),
+
+      setError: (lastError) => set({ lastError }),
+    }),
+    {
+      name: 'server-sync-settings',
+      partialize: (state) => ({
+        serverUrl: state.serverUrl,
+        autoSync: state.autoSync,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    }
+  )
+);
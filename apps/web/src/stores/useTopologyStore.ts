@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import type { TopologyIssue, TopologyOptions } from '@/utils/topologyUtils';
+
+interface TopologyState {
+  // State - issues found by the last check (null when none has run)
+  issues: TopologyIssue[] | null;
+  // Options of the last check, reused by Re-check
+  options: TopologyOptions | null;
+  // Index into issues of the highlighted issue
+  focusedIndex: number | null;
+
+  // Actions
+  setIssues: (issues: TopologyIssue[], options: TopologyOptions) => void;
+  setFocusedIssue: (index: number | null) => void;
+  removeIssue: (index: number) => void;
+  clearIssues: () => void;
+}
+
+export const useTopologyStore = create<TopologyState>((set) => ({
+  issues: null,
+  options: null,
+  focusedIndex: null,
+
+  setIssues: (issues, options) => set({ issues, options, focusedIndex: null }),
+
+  setFocusedIssue: (index) => set({ focusedIndex: index }),
+
+  removeIssue: (index) =>
+    set((state) => ({
+      issues: state.issues?.filter((_, i) => i !== index) ?? null,
+      focusedIndex: null,
+    })),
+
+  clearIssues: () => set({ issues: null, options: null, focusedIndex: null }),
+}));
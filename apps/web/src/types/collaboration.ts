@@ -0,0 +1,39 @@
+// Wire protocol shared with the backend collaboration server.
+// Keep in sync with apps/backend/src/collab/protocol.ts.
+
+export type EntityKind = 'feature' | 'folder';
+
+export interface EntityRecord {
+  kind: EntityKind;
+  id: string;
+  data: unknown; // GeoJSON feature (EPSG:4326) or Folder; null when deleted
+  clock: number; // Lamport clock, client id breaks ties
+  clientId: string;
+}
+
+export interface Presence {
+  clientId: string;
+  name: string;
+  color: string;
+  cursor: [number, number] | null; // [lon, lat]
+  selection: string[]; // Selected feature ids
+}
+
+export type ClientMessage =
+  | { type: 'hello'; clientId: string; name: string; color: string }
+  | { type: 'ops'; ops: EntityRecord[] }
+  | { type: 'presence'; cursor: [number, number] | null; selection: string[] };
+
+export type ServerMessage =
+  | { type: 'snapshot'; records: EntityRecord[]; peers: Presence[]; clock: number }
+  | { type: 'ops'; ops: EntityRecord[] }
+  | { type: 'ack'; ops: Array<{ kind: EntityKind; id: string; clock: number }> }
+  | { type: 'presence'; peer: Presence }
+  | { type: 'leave'; clientId: string }
+  | { type: 'error'; message: string };
+
+export type CollaborationStatus =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting';
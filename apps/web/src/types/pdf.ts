@@ -11,6 +11,8 @@ export interface PdfExportConfig {
   resolution: Resolution;
   keepVectorLayerConstant?: boolean; // If true, vector features stay at original size while base layer zooms
   layoutId?: string; // ID of saved layout to overlay on the PDF
+  rotation?: number; // View rotation in radians; the extent is then taken in the turned view
+  pageDimensions?: PageDimensions; // Page in mm as printed, e.g. turned to portrait; PAGE_SIZES[pageSize] if not set
 }
 
 // Page dimensions in millimeters [width, height]
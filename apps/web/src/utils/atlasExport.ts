@@ -0,0 +1,304 @@
+import type Map from 'ol/Map';
+import { buffer, getHeight, getWidth } from 'ol/extent';
+import * as fabric from 'fabric';
+import { jsPDF } from 'jspdf';
+import type { Layout } from '@/stores/layoutStore';
+import type { Resolution } from '@/types/pdf';
+import {
+  getAtlasExtent,
+  getAtlasPageMm,
+  getSheetCorners,
+  getSheetViewExtent,
+  type AtlasOptions,
+  type AtlasSheet,
+} from './atlasUtils';
+import { getFabricExportSettings } from './canvasExportUtils';
+import { setMapImageScale, syncScaleObjects } from './fabricScaleUtils';
+import {
+  exportMapToImage,
+  type ExportProgress,
+  type MapImageExportResult,
+} from './mapImageExport';
+import {
+  fillCanvasTitleBlocks,
+  formatScale,
+  type TitleBlockValues,
+} from './titleBlockUtils';
+
+export interface AtlasExportContext {
+  resolution: Resolution;
+  jobName?: string;
+  // Layout drawn over every sheet, with its title blocks filled in
+  layout?: Layout | null;
+}
+
+// Layout pages are laid out at 72 DPI (see PAGE_SIZES in components/layout)
+const LAYOUT_PIXELS_PER_MM = 72 / 25.4;
+
+// Room around the key map's sheets, as a share of their extent
+const KEY_MAP_PADDING = 0.05;
+
+const KEY_MAP_MARGIN_MM = 10;
+
+const getImageFormat = (dataURL: string): 'PNG' | 'JPEG' =>
+  dataURL.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+
+const loadImage = async (dataURL: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.src = dataURL;
+  await image.decode();
+  return image;
+};
+
+/**
+ * Overview of the sheet outlines and numbers over the whole series
+ */
+async function renderKeyMap(
+  map: Map,
+  sheets: AtlasSheet[],
+  options: AtlasOptions,
+  resolution: Resolution
+): Promise<MapImageExportResult> {
+  const sheetsExtent = getAtlasExtent(sheets);
+  const extent = buffer(
+    sheetsExtent,
+    Math.max(getWidth(sheetsExtent), getHeight(sheetsExtent)) * KEY_MAP_PADDING
+  );
+
+  const result = await exportMapToImage(
+    map,
+    {
+      pageSize: options.pageSize,
+      pageDimensions: getAtlasPageMm(options),
+      resolution,
+      rotation: 0,
+    },
+    undefined,
+    extent
+  );
+
+  const canvas = document.createElement('canvas');
+  canvas.width = result.width;
+  canvas.height = result.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get key map canvas context');
+  }
+  context.drawImage(await loadImage(result.dataURL), 0, 0);
+
+  // The image covers the extent exactly (see exportMapToImage)
+  const toPixel = ([x, y]: number[]): [number, number] => [
+    ((x - extent[0]) / getWidth(extent)) * result.width,
+    ((extent[3] - y) / getHeight(extent)) * result.height,
+  ];
+  const lineWidth = Math.max(2, result.width / 800);
+  const fontSize = Math.max(12, Math.round(result.width / 60));
+
+  sheets.forEach((sheet) => {
+    const corners = getSheetCorners(sheet).map(toPixel);
+    context.beginPath();
+    corners.forEach(([x, y], i) => (i === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+    context.closePath();
+    context.fillStyle = 'rgba(220, 38, 38, 0.08)';
+    context.fill();
+    context.strokeStyle = '#dc2626';
+    context.lineWidth = lineWidth;
+    context.stroke();
+  });
+
+  // Numbers on top of every outline
+  context.font = `bold ${fontSize}px Arial, sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.lineJoin = 'round';
+  sheets.forEach((sheet) => {
+    const [x, y] = toPixel(sheet.center);
+    context.strokeStyle = '#ffffff';
+    context.lineWidth = fontSize / 4;
+    context.strokeText(String(sheet.number), x, y);
+    context.fillStyle = '#dc2626';
+    context.fillText(String(sheet.number), x, y);
+  });
+
+  return { ...result, dataURL: canvas.toDataURL('image/jpeg', 0.95) };
+}
+
+/**
+ * Put a sheet's map under the layout's objects and fill its title blocks,
+ * as the layout editor does with an exported map
+ */
+async function composeLayoutSheet(
+  image: MapImageExportResult,
+  layout: Layout,
+  pageMm: { width: number; height: number },
+  values: Partial<TitleBlockValues>,
+  resolution: Resolution
+): Promise<string> {
+  const width = Math.round(pageMm.width * LAYOUT_PIXELS_PER_MM);
+  const height = Math.round(pageMm.height * LAYOUT_PIXELS_PER_MM);
+  const canvas = new fabric.StaticCanvas(undefined, {
+    width,
+    height,
+    backgroundColor: '#ffffff',
+  });
+
+  try {
+    await canvas.loadFromJSON(layout.canvasData);
+
+    // The layout's own map image makes way for the sheet's
+    canvas
+      .getObjects()
+      .filter((object) => (object as fabric.FabricObject & { isMapImage?: boolean }).isMapImage)
+      .forEach((object) => canvas.remove(object));
+
+    const mapImage = await fabric.FabricImage.fromURL(image.dataURL);
+    const scale = Math.max(width / mapImage.width, height / mapImage.height);
+    mapImage.set({
+      scaleX: scale,
+      scaleY: scale,
+      originX: 'center',
+      originY: 'center',
+      left: width / 2,
+      top: height / 2,
+    });
+    (mapImage as fabric.FabricImage & { isMapImage?: boolean }).isMapImage = true;
+    setMapImageScale(mapImage, image);
+    canvas.insertAt(0, mapImage);
+
+    // Scale bars and north arrows follow this sheet's map
+    syncScaleObjects(canvas);
+    fillCanvasTitleBlocks(canvas, values);
+
+    const exportSettings = getFabricExportSettings({
+      resolution,
+      canvasWidthPx: width,
+      canvasHeightPx: height,
+      pageWidthMm: pageMm.width,
+      pageHeightMm: pageMm.height,
+    });
+    canvas.renderAll();
+    return canvas.toDataURL({
+      format: exportSettings.format,
+      quality: exportSettings.quality,
+      multiplier: exportSettings.multiplier,
+    });
+  } finally {
+    canvas.dispose();
+  }
+}
+
+/**
+ * Render a map series to one PDF: an optional key map, then one page per
+ * sheet at the series' scale, each through exportMapToImage and the chosen
+ * layout
+ */
+export async function exportAtlasPdf(
+  map: Map,
+  sheets: AtlasSheet[],
+  options: AtlasOptions,
+  context: AtlasExportContext,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<jsPDF> {
+  if (sheets.length === 0) {
+    throw new Error('No sheets to export');
+  }
+
+  const pageMm = getAtlasPageMm(options);
+  const pdf = new jsPDF({
+    orientation: options.orientation,
+    unit: 'mm',
+    format: options.pageSize,
+  });
+  const scaleText = formatScale(options.scaleDenominator);
+  const totalSteps = sheets.length + (options.includeKeyMap ? 1 : 0);
+  let pageCount = 0;
+  const addPage = () => {
+    if (pageCount > 0) pdf.addPage(options.pageSize, options.orientation);
+    pageCount++;
+  };
+  const reportProgress = (message: string) =>
+    onProgress?.({
+      stage: 'rendering',
+      message,
+      percent: Math.round((pageCount / totalSteps) * 100),
+    });
+
+  if (options.includeKeyMap) {
+    reportProgress('Rendering key map...');
+    const keyMap = await renderKeyMap(map, sheets, options, context.resolution);
+
+    addPage();
+    const title = context.jobName ? `Key Map - ${context.jobName}` : 'Key Map';
+    pdf.setFontSize(14);
+    pdf.text(title, KEY_MAP_MARGIN_MM, KEY_MAP_MARGIN_MM);
+    pdf.setFontSize(9);
+    pdf.text(
+      `${sheets.length} sheets at ${scaleText}`,
+      KEY_MAP_MARGIN_MM,
+      KEY_MAP_MARGIN_MM + 5
+    );
+
+    // Fit the overview below the title
+    const top = KEY_MAP_MARGIN_MM + 10;
+    const maxWidth = pageMm.width - KEY_MAP_MARGIN_MM * 2;
+    const maxHeight = pageMm.height - top - KEY_MAP_MARGIN_MM;
+    const fit = Math.min(maxWidth / keyMap.width, maxHeight / keyMap.height);
+    const imageWidth = keyMap.width * fit;
+    const imageHeight = keyMap.height * fit;
+    pdf.addImage(
+      keyMap.dataURL,
+      getImageFormat(keyMap.dataURL),
+      (pageMm.width - imageWidth) / 2,
+      top,
+      imageWidth,
+      imageHeight
+    );
+  }
+
+  for (const sheet of sheets) {
+    reportProgress(`Rendering sheet ${sheet.number} of ${sheets.length}...`);
+    const image = await exportMapToImage(
+      map,
+      {
+        pageSize: options.pageSize,
+        pageDimensions: pageMm,
+        resolution: context.resolution,
+        rotation: sheet.rotation,
+      },
+      undefined,
+      getSheetViewExtent(sheet)
+    );
+    const sheetText = `${sheet.number} of ${sheets.length}`;
+
+    addPage();
+    if (context.layout) {
+      const dataURL = await composeLayoutSheet(
+        image,
+        context.layout,
+        pageMm,
+        {
+          ...context.layout.titleBlockValues,
+          ...(context.jobName ? { jobName: context.jobName } : {}),
+          date: new Date().toLocaleDateString(),
+          scale: scaleText,
+          sheet: sheetText,
+        },
+        context.resolution
+      );
+      pdf.addImage(dataURL, getImageFormat(dataURL), 0, 0, pageMm.width, pageMm.height);
+    } else {
+      pdf.addImage(image.dataURL, getImageFormat(image.dataURL), 0, 0, pageMm.width, pageMm.height);
+
+      // Sheet number and scale in the bottom-right corner
+      const label = `Sheet ${sheetText}  ${scaleText}`;
+      pdf.setFontSize(9);
+      const labelWidth = pdf.getTextWidth(label) + 4;
+      pdf.setFillColor(255, 255, 255);
+      pdf.rect(pageMm.width - labelWidth - 5, pageMm.height - 11, labelWidth, 6, 'F');
+      pdf.text(label, pageMm.width - labelWidth - 3, pageMm.height - 6.8);
+    }
+  }
+
+  onProgress?.({ stage: 'complete', message: 'Export complete!', percent: 100 });
+  return pdf;
+}
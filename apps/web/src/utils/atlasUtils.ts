@@ -0,0 +1,344 @@
+import type Feature from "ol/Feature";
+import type { Coordinate } from "ol/coordinate";
+import {
+  boundingExtent,
+  createEmpty,
+  extend,
+  getCenter,
+  getHeight,
+  getWidth,
+  type Extent,
+} from "ol/extent";
+import type { Geometry, LineString, MultiLineString } from "ol/geom";
+import { PAGE_SIZES, type PageSize } from "@/types/pdf";
+import { getMapUnitsPerMeter } from "./offsetUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AtlasSource = "route" | "grid";
+
+export type AtlasOrientation = "landscape" | "portrait";
+
+export interface AtlasOptions {
+  // Sheets along the selected route, or a grid over the job's features
+  source: AtlasSource;
+  pageSize: PageSize;
+  orientation: AtlasOrientation;
+  // Fixed scale of every sheet, e.g. 2500 for 1:2500
+  scaleDenominator: number;
+  // Share of a sheet repeated on its neighbour (0 to 0.5)
+  overlap: number;
+  // Turn route sheets so the route runs across the page
+  followRoute: boolean;
+  // Saved layout drawn over every sheet
+  layoutId: string | null;
+  includeKeyMap: boolean;
+}
+
+export interface AtlasSheet {
+  // 1-based sheet number
+  number: number;
+  center: Coordinate;
+  // View rotation in radians (as View#setRotation), 0 = north up
+  rotation: number;
+  // Sheet size in map units
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_ATLAS_OPTIONS: AtlasOptions = {
+  source: "route",
+  pageSize: "a3",
+  orientation: "landscape",
+  scaleDenominator: 2500,
+  overlap: 0.1,
+  followRoute: true,
+  layoutId: null,
+  includeKeyMap: true,
+};
+
+export const MAX_ATLAS_SHEETS = 200;
+
+// Shortest route piece put on one sheet, as a share of the sheet width
+const MIN_STEP_RATIO = 0.05;
+
+const TOO_MANY_SHEETS_MESSAGE = `More than ${MAX_ATLAS_SHEETS} sheets. Use a smaller scale or a larger page.`;
+
+// ============================================================================
+// SHEET GEOMETRY
+// ============================================================================
+
+/**
+ * Page size in mm for the chosen orientation (PAGE_SIZES are landscape)
+ */
+export const getAtlasPageMm = (
+  options: Pick<AtlasOptions, "pageSize" | "orientation">,
+): { width: number; height: number } => {
+  const page = PAGE_SIZES[options.pageSize];
+  return options.orientation === "portrait"
+    ? { width: page.height, height: page.width }
+    : { width: page.width, height: page.height };
+};
+
+/**
+ * Ground covered by one sheet, in map units at the given point
+ */
+const getSheetSize = (
+  options: AtlasOptions,
+  at: Coordinate,
+): [number, number] => {
+  const page = getAtlasPageMm(options);
+  const unitsPerMm = (options.scaleDenominator / 1000) * getMapUnitsPerMeter(at);
+  return [page.width * unitsPerMm, page.height * unitsPerMm];
+};
+
+// Into the frame of a sheet turned by the given rotation, and back
+const toSheetFrame = ([x, y]: Coordinate, rotation: number): Coordinate => [
+  x * Math.cos(rotation) + y * Math.sin(rotation),
+  -x * Math.sin(rotation) + y * Math.cos(rotation),
+];
+
+const fromSheetFrame = ([x, y]: Coordinate, rotation: number): Coordinate => [
+  x * Math.cos(rotation) - y * Math.sin(rotation),
+  x * Math.sin(rotation) + y * Math.cos(rotation),
+];
+
+/**
+ * Corners of a sheet on the map, clockwise from top-left
+ */
+export const getSheetCorners = (sheet: AtlasSheet): Coordinate[] => {
+  const halfWidth = sheet.width / 2;
+  const halfHeight = sheet.height / 2;
+  return [
+    [-halfWidth, halfHeight],
+    [halfWidth, halfHeight],
+    [halfWidth, -halfHeight],
+    [-halfWidth, -halfHeight],
+  ].map((corner) => {
+    const [dx, dy] = fromSheetFrame(corner, sheet.rotation);
+    return [sheet.center[0] + dx, sheet.center[1] + dy];
+  });
+};
+
+/**
+ * Area to pass to exportMapToImage with the sheet's rotation: the sheet
+ * before it is turned, about the same centre
+ */
+export const getSheetViewExtent = (sheet: AtlasSheet): Extent => [
+  sheet.center[0] - sheet.width / 2,
+  sheet.center[1] - sheet.height / 2,
+  sheet.center[0] + sheet.width / 2,
+  sheet.center[1] + sheet.height / 2,
+];
+
+/**
+ * Extent on the map covering every sheet
+ */
+export const getAtlasExtent = (sheets: AtlasSheet[]): Extent =>
+  boundingExtent(sheets.flatMap(getSheetCorners));
+
+// ============================================================================
+// ROUTE SHEETS
+// ============================================================================
+
+/**
+ * Vertices of a route polyline; the parts of a multi-line are joined in order
+ */
+export const getRouteCoordinates = (
+  feature: Feature<Geometry>,
+): Coordinate[] | null => {
+  const geometry = feature.getGeometry();
+  if (geometry?.getType() === "LineString") {
+    return (geometry as LineString).getCoordinates();
+  }
+  if (geometry?.getType() === "MultiLineString") {
+    return (geometry as MultiLineString).getCoordinates().flat();
+  }
+  return null;
+};
+
+// Direction of the route between two points, kept within 90° of north up
+// so that sheets are never upside down
+const getRouteRotation = (from: Coordinate, to: Coordinate): number => {
+  let rotation = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  if (rotation > Math.PI / 2) rotation -= Math.PI;
+  if (rotation < -Math.PI / 2) rotation += Math.PI;
+  return rotation;
+};
+
+/**
+ * Point at a distance along the route; distances holds that of each vertex
+ */
+const getPointAlong = (
+  route: Coordinate[],
+  distances: number[],
+  distance: number,
+): Coordinate => {
+  const found = distances.findIndex((d) => d >= distance);
+  const index = found === -1 ? route.length - 1 : Math.max(1, found);
+  const segmentStart = distances[index - 1];
+  const segmentLength = distances[index] - segmentStart;
+  const t = segmentLength > 0 ? (distance - segmentStart) / segmentLength : 0;
+  const [x1, y1] = route[index - 1];
+  const [x2, y2] = route[index];
+  return [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t];
+};
+
+/**
+ * Part of the route between two distances along it
+ */
+const sliceRoute = (
+  route: Coordinate[],
+  distances: number[],
+  start: number,
+  end: number,
+): Coordinate[] => [
+  getPointAlong(route, distances, start),
+  ...route.filter((_, i) => distances[i] > start && distances[i] < end),
+  getPointAlong(route, distances, end),
+];
+
+/**
+ * Overlapping sheets along a route at a fixed scale. Each sheet takes as
+ * much of the route as fits with the overlap left free on either side, so
+ * bends get shorter sheets.
+ */
+export function generateRouteSheets(
+  route: Coordinate[],
+  options: AtlasOptions,
+): AtlasSheet[] {
+  const points = route.filter(
+    (point, i) =>
+      i === 0 || point[0] !== route[i - 1][0] || point[1] !== route[i - 1][1],
+  );
+  if (points.length < 2) return [];
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i - 1];
+    const [x2, y2] = points[i];
+    distances.push(distances[i - 1] + Math.hypot(x2 - x1, y2 - y1));
+  }
+  const total = distances[distances.length - 1];
+
+  const sheets: AtlasSheet[] = [];
+  let start = 0;
+  while (start < total) {
+    if (sheets.length >= MAX_ATLAS_SHEETS) {
+      throw new Error(TOO_MANY_SHEETS_MESSAGE);
+    }
+
+    const [width, height] = getSheetSize(
+      options,
+      getPointAlong(points, distances, start),
+    );
+    const usableWidth = width * (1 - options.overlap);
+    const usableHeight = height * (1 - options.overlap);
+
+    let step = usableWidth;
+    for (;;) {
+      const end = Math.min(start + step, total);
+      const piece = sliceRoute(points, distances, start, end);
+      const rotation = options.followRoute
+        ? getRouteRotation(piece[0], piece[piece.length - 1])
+        : 0;
+
+      // Bounds of the piece on the turned sheet
+      const bounds = boundingExtent(
+        piece.map((point) => toSheetFrame(point, rotation)),
+      );
+      const fits =
+        getWidth(bounds) <= usableWidth && getHeight(bounds) <= usableHeight;
+
+      if (fits || step <= usableWidth * MIN_STEP_RATIO) {
+        sheets.push({
+          number: sheets.length + 1,
+          center: fromSheetFrame(getCenter(bounds), rotation),
+          rotation,
+          width,
+          height,
+        });
+        start = end;
+        break;
+      }
+      step *= 0.7;
+    }
+  }
+
+  return sheets;
+}
+
+// ============================================================================
+// GRID SHEETS
+// ============================================================================
+
+/**
+ * North-up grid of overlapping sheets over the features, numbered in rows
+ * from the top left. Sheets without any features are left out.
+ */
+export function generateGridSheets(
+  features: Feature<Geometry>[],
+  options: AtlasOptions,
+): AtlasSheet[] {
+  const geometries = features
+    .map((feature) => feature.getGeometry())
+    .filter((geometry): geometry is Geometry => !!geometry);
+  if (geometries.length === 0) return [];
+
+  const extent = geometries.reduce(
+    (result, geometry) => extend(result, geometry.getExtent()),
+    createEmpty(),
+  );
+  const [width, height] = getSheetSize(options, getCenter(extent));
+  const stepX = width * (1 - options.overlap);
+  const stepY = height * (1 - options.overlap);
+
+  // Sheets needed to cover the extent, the grid centred on it
+  const columns = Math.max(
+    1,
+    Math.ceil((getWidth(extent) - width * options.overlap) / stepX),
+  );
+  const rows = Math.max(
+    1,
+    Math.ceil((getHeight(extent) - height * options.overlap) / stepY),
+  );
+  // Empty sheets are left out below; this only stops runaway grids
+  if (columns * rows > MAX_ATLAS_SHEETS * 10) {
+    throw new Error(TOO_MANY_SHEETS_MESSAGE);
+  }
+
+  const [centerX, centerY] = getCenter(extent);
+  const left = centerX - (columns * stepX + width * options.overlap) / 2;
+  const top = centerY + (rows * stepY + height * options.overlap) / 2;
+
+  const sheets: AtlasSheet[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const sheet: AtlasSheet = {
+        number: sheets.length + 1,
+        center: [
+          left + column * stepX + width / 2,
+          top - row * stepY - height / 2,
+        ],
+        rotation: 0,
+        width,
+        height,
+      };
+      const sheetExtent = getSheetViewExtent(sheet);
+      if (geometries.some((geometry) => geometry.intersectsExtent(sheetExtent))) {
+        sheets.push(sheet);
+      }
+    }
+  }
+
+  if (sheets.length > MAX_ATLAS_SHEETS) {
+    throw new Error(TOO_MANY_SHEETS_MESSAGE);
+  }
+  return sheets;
+}
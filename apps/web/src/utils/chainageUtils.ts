@@ -0,0 +1,261 @@
+import type { Feature } from "ol";
+import type { FeatureLike } from "ol/Feature";
+import type { Coordinate } from "ol/coordinate";
+import { LineString, type Geometry } from "ol/geom";
+import { getLength } from "ol/sphere";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Chainage (stationing) settings stored on a route feature
+ */
+export interface ChainageSettings {
+  enabled: boolean;
+  // Distance between tick marks, in metres
+  interval: number;
+  // Distance between labelled major ticks, in metres
+  majorInterval: number;
+  // Chainage at the first vertex, in metres
+  start: number;
+}
+
+/**
+ * A tick mark along a route
+ */
+export interface ChainageTick {
+  // Position on the line (EPSG:3857)
+  coordinate: Coordinate;
+  // Direction of the line at the tick, radians counter-clockwise from east
+  angle: number;
+  // Chainage in metres
+  chainage: number;
+  major: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_CHAINAGE_SETTINGS: ChainageSettings = {
+  enabled: false,
+  interval: 50,
+  majorInterval: 500,
+  start: 0,
+};
+
+/**
+ * Feature properties holding the chainage settings
+ */
+export const CHAINAGE_PROPERTY_KEYS = {
+  enabled: "chainageEnabled",
+  interval: "chainageInterval",
+  majorInterval: "chainageMajorInterval",
+  start: "chainageStart",
+} as const;
+
+// Upper bound on ticks computed for one route, to keep styling responsive
+const MAX_CHAINAGE_TICKS = 5000;
+
+// Tolerance (metres) when matching chainages to intervals
+const CHAINAGE_EPSILON = 1e-6;
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Whether a feature can show chainage: legend routes and polylines
+ */
+export const supportsChainage = (feature: FeatureLike | null): boolean => {
+  if (!feature) return false;
+  if (feature.getGeometry()?.getType() !== "LineString") return false;
+  return !!(feature.get("islegends") || feature.get("isPolyline"));
+};
+
+// KML ExtendedData brings values back as strings
+const readNumber = (value: unknown, fallback: number): number => {
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : fallback;
+};
+
+/**
+ * Chainage settings of a feature, with defaults for anything unset
+ */
+export const getChainageSettings = (feature: FeatureLike): ChainageSettings => {
+  const enabled = feature.get(CHAINAGE_PROPERTY_KEYS.enabled);
+  const interval = readNumber(
+    feature.get(CHAINAGE_PROPERTY_KEYS.interval),
+    DEFAULT_CHAINAGE_SETTINGS.interval
+  );
+  const majorInterval = readNumber(
+    feature.get(CHAINAGE_PROPERTY_KEYS.majorInterval),
+    DEFAULT_CHAINAGE_SETTINGS.majorInterval
+  );
+
+  return {
+    enabled: enabled === true || enabled === "true",
+    interval: interval > 0 ? interval : DEFAULT_CHAINAGE_SETTINGS.interval,
+    majorInterval: majorInterval > 0 ? majorInterval : DEFAULT_CHAINAGE_SETTINGS.majorInterval,
+    start: readNumber(
+      feature.get(CHAINAGE_PROPERTY_KEYS.start),
+      DEFAULT_CHAINAGE_SETTINGS.start
+    ),
+  };
+};
+
+/**
+ * Store chainage settings on a feature. Turning chainage off keeps the
+ * intervals and start so they come back when it is turned on again.
+ */
+export const setChainageSettings = (
+  feature: Feature<Geometry>,
+  settings: ChainageSettings
+): void => {
+  feature.set(CHAINAGE_PROPERTY_KEYS.enabled, settings.enabled);
+  feature.set(CHAINAGE_PROPERTY_KEYS.interval, settings.interval);
+  feature.set(CHAINAGE_PROPERTY_KEYS.majorInterval, settings.majorInterval);
+  feature.set(CHAINAGE_PROPERTY_KEYS.start, settings.start);
+};
+
+// ============================================================================
+// CHAINAGE
+// ============================================================================
+
+/**
+ * Format a chainage in metres as kilometre+metre stationing, e.g. 1250 → "1+250"
+ */
+export const formatChainage = (metres: number, decimals: number = 0): string => {
+  const sign = metres < 0 ? "-" : "";
+  const factor = Math.pow(10, decimals);
+  const rounded = Math.round(Math.abs(metres) * factor) / factor;
+  const km = Math.floor(rounded / 1000);
+  const rest = (rounded - km * 1000).toFixed(decimals);
+  const [whole, fraction] = rest.split(".");
+  return `${sign}${km}+${whole.padStart(3, "0")}${fraction ? `.${fraction}` : ""}`;
+};
+
+/**
+ * Whether a chainage falls on a multiple of an interval
+ */
+export const isChainageMultiple = (chainage: number, interval: number): boolean => {
+  const remainder = Math.abs(chainage % interval);
+  return remainder < CHAINAGE_EPSILON || interval - remainder < CHAINAGE_EPSILON;
+};
+
+/**
+ * Ground length of each segment of a line in metres, measured the same way as
+ * the length property (ol/sphere getLength)
+ */
+const getSegmentLengths = (coordinates: Coordinate[]): number[] =>
+  coordinates
+    .slice(1)
+    .map((coordinate, i) => getLength(new LineString([coordinates[i], coordinate])));
+
+/**
+ * Chainage at the last vertex of a line
+ */
+export const getEndChainage = (
+  coordinates: Coordinate[],
+  settings: ChainageSettings
+): number =>
+  settings.start + getSegmentLengths(coordinates).reduce((sum, l) => sum + l, 0);
+
+/**
+ * Tick marks at every multiple of the interval between the start and end
+ * chainage of a line (EPSG:3857). Ticks are placed by ground distance along
+ * each segment. Minor ticks are dropped when a route would need too many.
+ */
+export const computeChainageTicks = (
+  coordinates: Coordinate[],
+  settings: ChainageSettings
+): ChainageTick[] => {
+  if (coordinates.length < 2) return [];
+
+  const segmentLengths = getSegmentLengths(coordinates);
+  const total = segmentLengths.reduce((sum, l) => sum + l, 0);
+  if (total <= 0) return [];
+
+  const { start, majorInterval } = settings;
+  const end = start + total;
+  const interval =
+    total / settings.interval > MAX_CHAINAGE_TICKS ? majorInterval : settings.interval;
+  if (total / interval > MAX_CHAINAGE_TICKS) return [];
+
+  const ticks: ChainageTick[] = [];
+  let segmentIndex = 0;
+  let segmentStart = start;
+
+  const firstIndex = Math.ceil((start - CHAINAGE_EPSILON) / interval);
+  for (let n = firstIndex; n * interval <= end + CHAINAGE_EPSILON; n++) {
+    const chainage = n * interval;
+
+    // Advance to the segment containing this chainage
+    while (
+      segmentIndex < segmentLengths.length - 1 &&
+      segmentStart + segmentLengths[segmentIndex] < chainage
+    ) {
+      segmentStart += segmentLengths[segmentIndex];
+      segmentIndex++;
+    }
+
+    const from = coordinates[segmentIndex];
+    const to = coordinates[segmentIndex + 1];
+    const segmentLength = segmentLengths[segmentIndex];
+    const fraction =
+      segmentLength > 0
+        ? Math.min(1, Math.max(0, (chainage - segmentStart) / segmentLength))
+        : 0;
+
+    ticks.push({
+      coordinate: [
+        from[0] + (to[0] - from[0]) * fraction,
+        from[1] + (to[1] - from[1]) * fraction,
+      ],
+      angle: Math.atan2(to[1] - from[1], to[0] - from[0]),
+      chainage,
+      major: isChainageMultiple(chainage, majorInterval),
+    });
+  }
+
+  return ticks;
+};
+
+/**
+ * Labelled positions along a route: the major ticks, plus the start and end
+ * of the route when they don't fall on one
+ */
+export const getChainageLabelTicks = (
+  coordinates: Coordinate[],
+  settings: ChainageSettings,
+  ticks: ChainageTick[] = computeChainageTicks(coordinates, settings)
+): ChainageTick[] => {
+  if (coordinates.length < 2) return [];
+
+  const labels = ticks.filter((tick) => tick.major);
+  const last = coordinates.length - 1;
+
+  if (!isChainageMultiple(settings.start, settings.majorInterval)) {
+    const [from, to] = [coordinates[0], coordinates[1]];
+    labels.unshift({
+      coordinate: from,
+      angle: Math.atan2(to[1] - from[1], to[0] - from[0]),
+      chainage: settings.start,
+      major: true,
+    });
+  }
+
+  const endChainage = getEndChainage(coordinates, settings);
+  if (!isChainageMultiple(endChainage, settings.majorInterval)) {
+    const [from, to] = [coordinates[last - 1], coordinates[last]];
+    labels.push({
+      coordinate: to,
+      angle: Math.atan2(to[1] - from[1], to[0] - from[0]),
+      chainage: endChainage,
+      major: true,
+    });
+  }
+
+  return labels;
+};
@@ -0,0 +1,223 @@
+import type { Feature } from "ol";
+import type { Geometry } from "ol/geom";
+import type { Vector as VectorSource } from "ol/source";
+import type { Folder } from "@/types/folders";
+import type {
+  CollaborationStatus,
+  EntityKind,
+  EntityRecord,
+} from "@/types/collaboration";
+import {
+  convertFeatureToGeoJSON,
+  convertGeoJSONToFeatures,
+} from "./serializationUtils";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PEER_COLORS = [
+  "#e11d48",
+  "#7c3aed",
+  "#0891b2",
+  "#16a34a",
+  "#ea580c",
+  "#db2777",
+  "#4f46e5",
+  "#65a30d",
+];
+
+export const COLLABORATION_STATUS_LABELS: Record<CollaborationStatus, string> = {
+  disconnected: "Not connected",
+  connecting: "Connecting...",
+  connected: "Connected",
+  reconnecting: "Offline - reconnecting...",
+};
+
+export const COLLABORATION_STATUS_COLORS: Record<CollaborationStatus, string> = {
+  disconnected: "#9ca3af",
+  connecting: "#f59e0b",
+  connected: "#16a34a",
+  reconnecting: "#dc2626",
+};
+
+const PENDING_STORAGE_PREFIX = "collabPending_";
+
+// Folder fields that are personal UI state rather than shared job data
+type SharedFolder = Omit<Folder, "isExpanded">;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const pickUserColor = (): string =>
+  PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)];
+
+export const getRecordKey = (record: { kind: EntityKind; id: string }): string =>
+  `${record.kind}:${record.id}`;
+
+/**
+ * Compare two record versions: positive when `a` is newer than `b`.
+ * Same ordering as the server (Lamport clock, then client id).
+ */
+export const compareVersions = (
+  a: { clock: number; clientId: string },
+  b: { clock: number; clientId: string },
+): number => {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  if (a.clientId === b.clientId) return 0;
+  return a.clientId > b.clientId ? 1 : -1;
+};
+
+/**
+ * WebSocket URL of a collaboration session. Accepts http(s) or ws(s) server
+ * URLs.
+ */
+export const buildCollaborationUrl = (
+  serverUrl: string,
+  sessionId: string,
+): string => {
+  const base = serverUrl.trim().replace(/\/+$/, "").replace(/^http/, "ws");
+  return `${base}/collab/${encodeURIComponent(sessionId)}`;
+};
+
+// ============================================================================
+// SHARED DATA
+// ============================================================================
+
+export const getSharedFolder = (
+  folder: Folder | undefined,
+): SharedFolder | null => {
+  if (!folder) return null;
+  // Whether a folder is expanded is each user's own view
+  const { id, name, parentId, order, createdAt } = folder;
+  return { id, name, parentId, order, createdAt };
+};
+
+/**
+ * Current local data of a shared entity, in the form sent to the server.
+ */
+export const getLocalEntityData = (
+  kind: EntityKind,
+  id: string,
+  vectorSource: VectorSource<Feature<Geometry>>,
+  folders: Record<string, Folder>,
+): unknown => {
+  if (kind === "folder") return getSharedFolder(folders[id]);
+
+  const feature = vectorSource.getFeatureById(id);
+  return feature ? convertFeatureToGeoJSON(feature) : null;
+};
+
+/**
+ * Apply remote feature records to the vector source. Existing features are
+ * updated in place so selections and open panels keep their reference.
+ * Returns the features that were added or updated.
+ */
+export const applyFeatureRecords = (
+  vectorSource: VectorSource<Feature<Geometry>>,
+  records: EntityRecord[],
+): Feature<Geometry>[] => {
+  records
+    .filter((record) => record.data === null)
+    .forEach((record) => {
+      const existing = vectorSource.getFeatureById(record.id);
+      if (existing) vectorSource.removeFeature(existing);
+    });
+
+  const upserts = records.filter((record) => record.data !== null);
+  if (upserts.length === 0) return [];
+
+  const incoming = convertGeoJSONToFeatures({
+    type: "FeatureCollection",
+    features: upserts.map((record) => ({
+      ...(record.data as object),
+      id: record.id,
+    })),
+  });
+
+  return incoming.map((feature) => {
+    const existing = vectorSource.getFeatureById(feature.getId()!);
+    if (!existing) {
+      vectorSource.addFeature(feature);
+      return feature;
+    }
+
+    const properties = feature.getProperties();
+    Object.keys(existing.getProperties()).forEach((key) => {
+      if (!(key in properties)) existing.unset(key);
+    });
+    existing.setProperties(properties);
+    return existing;
+  });
+};
+
+/**
+ * Apply remote folder records, keeping each user's expanded/collapsed state.
+ */
+export const applyFolderRecords = (
+  folders: Record<string, Folder>,
+  records: EntityRecord[],
+): Record<string, Folder> => {
+  const next = { ...folders };
+  records.forEach((record) => {
+    if (record.data === null) {
+      delete next[record.id];
+    } else {
+      next[record.id] = {
+        ...(record.data as SharedFolder),
+        id: record.id,
+        isExpanded: folders[record.id]?.isExpanded ?? true,
+      };
+    }
+  });
+  return next;
+};
+
+// ============================================================================
+// OFFLINE QUEUE
+// ============================================================================
+
+interface StoredPendingOps {
+  clock: number;
+  records: EntityRecord[];
+}
+
+/**
+ * Edits not yet confirmed by the server survive a reload so they can be
+ * sent when the session is joined again.
+ */
+export const loadPendingOps = (sessionId: string): StoredPendingOps => {
+  try {
+    const stored = localStorage.getItem(PENDING_STORAGE_PREFIX + sessionId);
+    if (stored) {
+      const parsed = JSON.parse(stored) as StoredPendingOps;
+      return {
+        clock: Number(parsed.clock) || 0,
+        records: Array.isArray(parsed.records) ? parsed.records : [],
+      };
+    }
+  } catch (error) {
+    console.error("Failed to load pending collaboration edits:", error);
+  }
+  return { clock: 0, records: [] };
+};
+
+export const savePendingOps = (
+  sessionId: string,
+  clock: number,
+  records: EntityRecord[],
+): void => {
+  try {
+    if (records.length === 0) {
+      localStorage.removeItem(PENDING_STORAGE_PREFIX + sessionId);
+    } else {
+      localStorage.setItem(
+        PENDING_STORAGE_PREFIX + sessionId,
+        JSON.stringify({ clock, records }),
+      );
+    }
+  } catch (error) {
+    console.error("Failed to save pending collaboration edits:", error);
+  }
+};
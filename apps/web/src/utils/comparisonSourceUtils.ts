@@ -0,0 +1,136 @@
+import KML from "ol/format/KML";
+import { Vector as VectorSource } from "ol/source";
+import JSZip from "jszip";
+import {
+  convertFeaturesToGeoJSON,
+  normalizeImportedGeoJSON,
+} from "@/utils/serializationUtils";
+import {
+  applyKmlStylesToFeatures,
+  parseKmlStyles,
+  parsePlacemarkStyles,
+  stripChainageLabels,
+} from "@/utils/kmlStyleUtils";
+import {
+  assignUniquePlacemarkIds,
+  extractPlacemarkIds,
+} from "@/utils/kmlFolderUtils";
+import type { FeatureCollectionLike } from "@/utils/featureDiffUtils";
+import { transformGeoJSONToWgs84 } from "@/utils/crsUtils";
+
+/**
+ * File extensions accepted as a comparison source
+ */
+export const COMPARISON_FILE_ACCEPT = ".geojson,.json,.kml,.kmz,.ds";
+
+/**
+ * Unwrap a .kmz (or a .ds, which is a zip containing a .kmz) to its KML text.
+ */
+export async function extractKmlFromArchive(
+  data: ArrayBuffer,
+  isDs: boolean,
+): Promise<string> {
+  let kmzData: ArrayBuffer = data;
+
+  if (isDs) {
+    const dsZip = await JSZip.loadAsync(data);
+    const kmzEntry = Object.keys(dsZip.files).find((f) =>
+      f.toLowerCase().endsWith(".kmz"),
+    );
+    if (!kmzEntry) {
+      throw new Error("No KMZ file found in DS archive");
+    }
+    kmzData = await dsZip.file(kmzEntry)!.async("arraybuffer");
+  }
+
+  const zip = await JSZip.loadAsync(kmzData);
+  const kmlFile = Object.keys(zip.files).find((f) =>
+    f.toLowerCase().endsWith(".kml"),
+  );
+  if (!kmlFile) {
+    throw new Error(`No KML file found in ${isDs ? "DS" : "KMZ"} archive`);
+  }
+
+  const kmlText = await zip.file(kmlFile)?.async("text");
+  if (!kmlText) {
+    throw new Error(`Failed to extract KML from ${isDs ? "DS" : "KMZ"} file`);
+  }
+  return kmlText;
+}
+
+/**
+ * Parse KML into a GeoJSON FeatureCollection (EPSG:4326) using the same
+ * style handling as the regular import, but keeping each Placemark's
+ * original id as the GeoJSON feature id so it can be matched in a diff.
+ */
+export function kmlToFeatureCollection(rawKmlText: string): FeatureCollectionLike {
+  // Chainage labels written on export aren't features of their own
+  const kmlText = stripChainageLabels(rawKmlText);
+  const originalIds = extractPlacemarkIds(kmlText);
+  const processedKml = assignUniquePlacemarkIds(kmlText);
+
+  const kmlFeatures = new KML({ extractStyles: false }).readFeatures(
+    processedKml,
+    {
+      featureProjection: "EPSG:3857",
+      dataProjection: "EPSG:4326",
+    },
+  );
+  applyKmlStylesToFeatures(
+    kmlFeatures,
+    parseKmlStyles(kmlText),
+    parsePlacemarkStyles(kmlText),
+  );
+
+  const tempSource = new VectorSource();
+  tempSource.addFeatures(kmlFeatures);
+  const geoJSON = normalizeImportedGeoJSON(convertFeaturesToGeoJSON(tempSource));
+
+  geoJSON.features.forEach((feature: { id?: string }, index: number) => {
+    const originalId = originalIds[index];
+    if (originalId) {
+      feature.id = originalId;
+    } else {
+      delete feature.id;
+    }
+  });
+
+  return geoJSON;
+}
+
+/**
+ * Read a GeoJSON/KML/KMZ/DS file into a FeatureCollection for comparison.
+ * Unlike the regular import this never touches the map or the folder store.
+ */
+export async function readComparisonFile(
+  fileName: string,
+  data: string | ArrayBuffer,
+): Promise<FeatureCollectionLike> {
+  const name = fileName.toLowerCase();
+
+  if (name.endsWith(".geojson") || name.endsWith(".json")) {
+    const json = transformGeoJSONToWgs84(JSON.parse(data as string));
+    const collection =
+      json.type === "Feature"
+        ? { type: "FeatureCollection", features: [json] }
+        : json;
+    if (!Array.isArray(collection.features)) {
+      throw new Error("File is not a GeoJSON FeatureCollection");
+    }
+    return normalizeImportedGeoJSON(collection);
+  }
+
+  if (name.endsWith(".kml")) {
+    return kmlToFeatureCollection(data as string);
+  }
+
+  if (name.endsWith(".kmz") || name.endsWith(".ds")) {
+    const kmlText = await extractKmlFromArchive(
+      data as ArrayBuffer,
+      name.endsWith(".ds"),
+    );
+    return kmlToFeatureCollection(kmlText);
+  }
+
+  throw new Error(`Unsupported file type: ${fileName}`);
+}
@@ -6,7 +6,14 @@ import type LineString from "ol/geom/LineString";
 import type Polygon from "ol/geom/Polygon";
 import type GeometryCollection from "ol/geom/GeometryCollection";
 import type MultiLineString from "ol/geom/MultiLineString";
+import type { Coordinate } from "ol/coordinate";
 import { getCenter } from "ol/extent";
+import {
+  createCrsTransform,
+  DEFAULT_JOB_CRS,
+  formatCrsCoordinate,
+  type CrsOption,
+} from "./crsUtils";
 
 export interface CoordinateState {
   long: string;
@@ -15,63 +22,63 @@ export interface CoordinateState {
 }
 
 /**
- * Extracts coordinates from a feature based on its geometry type.
+ * Extracts coordinates from a feature based on its geometry type, written in
+ * the job's coordinate system (WGS84 longitude/latitude by default).
  * Returns center point for polygons/collections, start point for linestrings.
  */
-export const extractCoordinates = (feature: Feature): CoordinateState => {
+export const extractCoordinates = (
+  feature: Feature,
+  crs: CrsOption = DEFAULT_JOB_CRS
+): CoordinateState => {
   const geometry = feature.getGeometry();
   if (!geometry) return { long: "", lat: "", name: "" };
 
-  let lon = 0;
-  let lat = 0;
+  let anchor: Coordinate;
 
   switch (geometry.getType()) {
     case "Point": {
       const point = geometry as Point;
-      const coords = toLonLat(point.getCoordinates());
-      [lon, lat] = coords;
+      anchor = point.getCoordinates();
       break;
     }
     case "LineString": {
       const lineString = geometry as LineString;
-      const coords = lineString.getCoordinates();
       // Use start point
-      const startCoords = toLonLat(coords[0]);
-      [lon, lat] = startCoords;
-      break;
-    }
-    case "Polygon": {
-      const polygon = geometry as Polygon;
-      const center = getCenter(polygon.getExtent());
-      const centerCoords = toLonLat(center);
-      [lon, lat] = centerCoords;
-      break;
-    }
-    case "GeometryCollection": {
-      const geometryCollection = geometry as GeometryCollection;
-      const center = getCenter(geometryCollection.getExtent());
-      const centerCoords = toLonLat(center);
-      [lon, lat] = centerCoords;
+      anchor = lineString.getCoordinates()[0];
       break;
     }
+    case "Polygon":
+    case "GeometryCollection":
     case "MultiLineString": {
-      const multiLineString = geometry as MultiLineString;
-      const center = getCenter(multiLineString.getExtent());
-      const centerCoords = toLonLat(center);
-      [lon, lat] = centerCoords;
+      anchor = getCenter(geometry.getExtent());
       break;
     }
     default:
       return { long: "", lat: "", name: "" };
   }
 
+  const [long, lat] = formatCrsCoordinate(anchor, crs);
   return {
-    long: lon.toFixed(6),
-    lat: lat.toFixed(6),
+    long,
+    lat,
     name: feature.get("name") || "",
   };
 };
 
+/**
+ * Longitude/latitude of a coordinate entered in the job's coordinate system,
+ * or null if it isn't a number pair
+ */
+export const crsCoordinateToLonLat = (
+  x: number,
+  y: number,
+  crs: CrsOption = DEFAULT_JOB_CRS
+): [number, number] | null => {
+  if (isNaN(x) || isNaN(y)) return null;
+  const [lon, lat] = toLonLat(createCrsTransform(crs).toMap([x, y]));
+  return isNaN(lon) || isNaN(lat) ? null : [lon, lat];
+};
+
 /**
  * Updates feature geometry with new coordinates.
  * Translates entire geometry to maintain shape while moving to new position.
@@ -0,0 +1,285 @@
+import { Feature } from "ol";
+import type { Coordinate } from "ol/coordinate";
+import { LineString, MultiLineString, Point, type Geometry } from "ol/geom";
+import { getLength } from "ol/sphere";
+import { getLegendById } from "@/tools/legendsConfig";
+import { getChainageSettings, formatChainage } from "./chainageUtils";
+import { getFeatureId } from "./featureIdUtils";
+import { getIconNameFromPath } from "./iconUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Which legend types are checked against which
+ */
+export interface CrossingOptions {
+  // Legend types of the proposed routes, e.g. Proposed OFC Route
+  routeLegendIds: string[];
+  // Legend types of the existing utilities they may cross
+  utilityLegendIds: string[];
+}
+
+/**
+ * A point where a route crosses an existing utility
+ */
+export interface Crossing {
+  // Location (EPSG:3857)
+  coordinate: Coordinate;
+  routeId: string;
+  routeLabel: string;
+  utilityId: string;
+  utilityLegendId: string;
+  utilityLabel: string;
+  // Chainage along the route in metres, from the route's chainage start
+  chainage: number;
+  // Angle between the route and the utility, 0-90 degrees
+  angle: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_CROSSING_OPTIONS: CrossingOptions = {
+  routeLegendIds: ["proposedOfcRoute"],
+  utilityLegendIds: [
+    "Road",
+    "railwayMetroCrossing",
+    "gasPipeLine",
+    "indianOilPipeLine",
+    "waterPipeLine",
+    "powerCabel",
+  ],
+};
+
+/**
+ * Properties set on crossing marker icons
+ */
+export const CROSSING_MARKER_KEYS = {
+  chainage: "crossingChainage",
+  route: "crossingRouteId",
+  utility: "crossingUtilityId",
+} as const;
+
+// Crossings of the same utility closer than this along a route (metres) are
+// the same crossing, found on both segments meeting at a vertex
+const DUPLICATE_CHAINAGE_TOLERANCE = 0.01;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const getLineParts = (geometry: Geometry | undefined): Coordinate[][] => {
+  if (geometry instanceof LineString) return [geometry.getCoordinates()];
+  if (geometry instanceof MultiLineString) return geometry.getCoordinates();
+  return [];
+};
+
+const getFeatureLabel = (feature: Feature<Geometry>): string => {
+  const legendId = feature.get("legendType") as string;
+  const legendName = getLegendById(legendId)?.name || legendId;
+  const name = feature.get("name");
+  return name && name !== legendName ? `${name} (${legendName})` : legendName;
+};
+
+/**
+ * Intersection of segments a1-a2 and b1-b2 as fractions along each, or null
+ * if they don't cross. Parallel and overlapping segments are not crossings.
+ */
+const intersectSegments = (
+  a1: Coordinate,
+  a2: Coordinate,
+  b1: Coordinate,
+  b2: Coordinate
+): { t: number; u: number } | null => {
+  const dax = a2[0] - a1[0];
+  const day = a2[1] - a1[1];
+  const dbx = b2[0] - b1[0];
+  const dby = b2[1] - b1[1];
+  const denominator = dax * dby - day * dbx;
+  if (denominator === 0) return null;
+
+  const t = ((b1[0] - a1[0]) * dby - (b1[1] - a1[1]) * dbx) / denominator;
+  const u = ((b1[0] - a1[0]) * day - (b1[1] - a1[1]) * dax) / denominator;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return { t, u };
+};
+
+// Angle between two directions folded into 0-90 degrees
+const getCrossingAngle = (
+  a1: Coordinate,
+  a2: Coordinate,
+  b1: Coordinate,
+  b2: Coordinate
+): number => {
+  const angleA = Math.atan2(a2[1] - a1[1], a2[0] - a1[0]);
+  const angleB = Math.atan2(b2[1] - b1[1], b2[0] - b1[0]);
+  const degrees = Math.abs(((angleA - angleB) * 180) / Math.PI) % 180;
+  return degrees > 90 ? 180 - degrees : degrees;
+};
+
+const segmentsOverlapExtent = (
+  a1: Coordinate,
+  a2: Coordinate,
+  b1: Coordinate,
+  b2: Coordinate
+): boolean =>
+  Math.max(a1[0], a2[0]) >= Math.min(b1[0], b2[0]) &&
+  Math.max(b1[0], b2[0]) >= Math.min(a1[0], a2[0]) &&
+  Math.max(a1[1], a2[1]) >= Math.min(b1[1], b2[1]) &&
+  Math.max(b1[1], b2[1]) >= Math.min(a1[1], a2[1]);
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Find every point where a line of one of the route legend types crosses a
+ * line of one of the utility legend types. Chainage is measured along the
+ * route by ground distance, from the route's chainage start (0 unless set in
+ * its chainage settings). Results are ordered by route, then chainage.
+ */
+export const findCrossings = (
+  features: Feature<Geometry>[],
+  options: CrossingOptions
+): Crossing[] => {
+  const routeIds = new Set(options.routeLegendIds);
+  const utilityIds = new Set(options.utilityLegendIds);
+
+  const isLegendOf = (feature: Feature<Geometry>, ids: Set<string>) =>
+    !!feature.get("islegends") && ids.has(feature.get("legendType"));
+
+  const routes = features.filter((feature) => isLegendOf(feature, routeIds));
+  const utilities = features.filter((feature) => isLegendOf(feature, utilityIds));
+
+  const crossings: Crossing[] = [];
+
+  routes.forEach((route) => {
+    const routeExtent = route.getGeometry()?.getExtent();
+    const candidates = utilities.filter((utility) => {
+      if (utility === route) return false;
+      const utilityExtent = utility.getGeometry()?.getExtent();
+      return (
+        !!routeExtent &&
+        !!utilityExtent &&
+        routeExtent[0] <= utilityExtent[2] &&
+        utilityExtent[0] <= routeExtent[2] &&
+        routeExtent[1] <= utilityExtent[3] &&
+        utilityExtent[1] <= routeExtent[3]
+      );
+    });
+    if (candidates.length === 0) return;
+
+    const routeId = getFeatureId(route);
+    const routeLabel = getFeatureLabel(route);
+    const routeCrossings: Crossing[] = [];
+    let segmentStart = getChainageSettings(route).start;
+
+    getLineParts(route.getGeometry()).forEach((routeCoords) => {
+      for (let i = 0; i < routeCoords.length - 1; i++) {
+        const a1 = routeCoords[i];
+        const a2 = routeCoords[i + 1];
+
+        candidates.forEach((utility) => {
+          getLineParts(utility.getGeometry()).forEach((utilityCoords) => {
+            for (let j = 0; j < utilityCoords.length - 1; j++) {
+              const b1 = utilityCoords[j];
+              const b2 = utilityCoords[j + 1];
+              if (!segmentsOverlapExtent(a1, a2, b1, b2)) continue;
+
+              const hit = intersectSegments(a1, a2, b1, b2);
+              if (!hit) continue;
+
+              const coordinate = [
+                a1[0] + (a2[0] - a1[0]) * hit.t,
+                a1[1] + (a2[1] - a1[1]) * hit.t,
+              ];
+              const chainage =
+                segmentStart + getLength(new LineString([a1, coordinate]));
+              const utilityId = getFeatureId(utility);
+
+              const isDuplicate = routeCrossings.some(
+                (crossing) =>
+                  crossing.utilityId === utilityId &&
+                  Math.abs(crossing.chainage - chainage) <
+                    DUPLICATE_CHAINAGE_TOLERANCE
+              );
+              if (isDuplicate) continue;
+
+              routeCrossings.push({
+                coordinate,
+                routeId,
+                routeLabel,
+                utilityId,
+                utilityLegendId: utility.get("legendType"),
+                utilityLabel: getFeatureLabel(utility),
+                chainage,
+                angle: getCrossingAngle(a1, a2, b1, b2),
+              });
+            }
+          });
+        });
+
+        segmentStart += getLength(new LineString([a1, a2]));
+      }
+    });
+
+    routeCrossings.sort((a, b) => a.chainage - b.chainage);
+    crossings.push(...routeCrossings);
+  });
+
+  return crossings;
+};
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+/**
+ * Create marker icons at crossings, named after the utility crossed and
+ * carrying the crossing's chainage
+ */
+export const createCrossingMarkers = (
+  crossings: Crossing[],
+  iconPath: string,
+  folderId: string | null
+): Feature<Geometry>[] =>
+  crossings.map((crossing) => {
+    const feature = new Feature<Geometry>(new Point(crossing.coordinate));
+    feature.set("isIcon", true);
+    feature.set("iconPath", iconPath);
+    feature.set(
+      "name",
+      `${getLegendById(crossing.utilityLegendId)?.name || getIconNameFromPath(iconPath)} crossing`
+    );
+    feature.set(CROSSING_MARKER_KEYS.chainage, formatChainage(crossing.chainage));
+    feature.set(CROSSING_MARKER_KEYS.route, crossing.routeId);
+    feature.set(CROSSING_MARKER_KEYS.utility, crossing.utilityId);
+    if (folderId) feature.set("folderId", folderId);
+    return feature;
+  });
+
+/**
+ * Crossings as CSV rows, with the location in the given coordinate format
+ */
+export const crossingsToRows = (
+  crossings: Crossing[],
+  axes: { x: string; y: string },
+  formatCoordinate: (coordinate: Coordinate) => [string, string]
+): (string | number)[][] => [
+  ["No", "Route", "Chainage", "Crosses", axes.x, axes.y, "Angle (deg)"],
+  ...crossings.map((crossing, index) => {
+    const [x, y] = formatCoordinate(crossing.coordinate);
+    return [
+      index + 1,
+      crossing.routeLabel,
+      formatChainage(crossing.chainage, 1),
+      crossing.utilityLabel,
+      x,
+      y,
+      Math.round(crossing.angle),
+    ];
+  }),
+];
@@ -0,0 +1,419 @@
+import type { Coordinate } from "ol/coordinate";
+import { fromLonLat, toLonLat } from "ol/proj";
+import proj4 from "proj4";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Coordinate reference system of data exchanged with other tools, or of a
+ * job's coordinate entry and display. The map itself always works in
+ * EPSG:3857.
+ */
+export type CrsOption =
+  | { kind: "utm"; zone: number; south: boolean }
+  | { kind: "preset"; code: string }
+  | { kind: "wgs84" }
+  | { kind: "webMercator" }
+  | { kind: "custom"; definition: string };
+
+export type CrsKind = CrsOption["kind"];
+
+export const CRS_KIND_LABELS: Record<CrsKind, string> = {
+  utm: "UTM (metres)",
+  preset: "Built-in definition",
+  wgs84: "WGS84 longitude/latitude (EPSG:4326)",
+  webMercator: "Web Mercator (EPSG:3857)",
+  custom: "Custom (proj4 or WKT)",
+};
+
+export interface CrsPreset {
+  code: string;
+  name: string;
+  definition: string;
+}
+
+// GeoJSON `crs` member, as written before RFC 7946 dropped it
+export interface GeoJSONCrsMember {
+  type: "name";
+  properties: { name: string };
+}
+
+interface GeoJSONGeometryLike {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometryLike[];
+}
+
+// The parts of a (possibly exported) feature collection that carry
+// coordinates or say which system they are in
+interface GeoJSONCollectionLike {
+  type?: string;
+  crs?: { properties?: { name?: unknown } };
+  features?: { geometry?: GeoJSONGeometryLike | null }[];
+  dsMapTool?: { crs?: CrsOption };
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const KALIANPUR_1975 =
+  "+a=6377299.151 +b=6356098.145120132 +towgs84=295,736,257,0,0,0,0";
+
+const indiaZone = (lat: number, lon: number): string =>
+  `+proj=lcc +lat_1=${lat} +lat_0=${lat} +lon_0=${lon} +k_0=0.99878641 +x_0=2743195.5 +y_0=914398.5 ${KALIANPUR_1975} +units=m +no_defs`;
+
+/**
+ * Built-in definitions offered for jobs and exports, mostly the systems
+ * asked for in Indian government submissions
+ */
+export const CRS_PRESETS: CrsPreset[] = [
+  {
+    code: "EPSG:32643",
+    name: "WGS 84 / UTM zone 43N",
+    definition: "+proj=utm +zone=43 +datum=WGS84 +units=m +no_defs",
+  },
+  {
+    code: "EPSG:32644",
+    name: "WGS 84 / UTM zone 44N",
+    definition: "+proj=utm +zone=44 +datum=WGS84 +units=m +no_defs",
+  },
+  {
+    code: "EPSG:7755",
+    name: "WGS 84 / India NSF LCC",
+    definition:
+      "+proj=lcc +lat_0=24 +lon_0=80 +lat_1=12.472955 +lat_2=35.1728044444444 +x_0=4000000 +y_0=4000000 +datum=WGS84 +units=m +no_defs",
+  },
+  {
+    code: "EPSG:4146",
+    name: "Kalianpur 1975 (Everest) longitude/latitude",
+    definition: `+proj=longlat ${KALIANPUR_1975} +no_defs`,
+  },
+  {
+    code: "EPSG:24343",
+    name: "Kalianpur 1975 / UTM zone 43N",
+    definition: `+proj=utm +zone=43 ${KALIANPUR_1975} +units=m +no_defs`,
+  },
+  {
+    code: "EPSG:24344",
+    name: "Kalianpur 1975 / UTM zone 44N",
+    definition: `+proj=utm +zone=44 ${KALIANPUR_1975} +units=m +no_defs`,
+  },
+  {
+    code: "EPSG:24378",
+    name: "Kalianpur 1975 / India zone I",
+    definition: indiaZone(32.5, 68),
+  },
+  {
+    code: "EPSG:24379",
+    name: "Kalianpur 1975 / India zone IIa",
+    definition: indiaZone(26, 74),
+  },
+  {
+    code: "EPSG:24380",
+    name: "Kalianpur 1975 / India zone IIb",
+    definition: indiaZone(26, 90),
+  },
+  {
+    code: "EPSG:24381",
+    name: "Kalianpur 1975 / India zone IIIa",
+    definition: indiaZone(19, 80),
+  },
+  {
+    code: "EPSG:24383",
+    name: "Kalianpur 1975 / India zone IVa",
+    definition: indiaZone(12, 80),
+  },
+];
+
+/**
+ * Coordinate system of a job that hasn't chosen one
+ */
+export const DEFAULT_JOB_CRS: CrsOption = { kind: "wgs84" };
+
+export const getCrsPreset = (code: string): CrsPreset | undefined =>
+  CRS_PRESETS.find((preset) => preset.code === code);
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+/**
+ * UTM zone containing a map coordinate (EPSG:3857)
+ */
+export const getUtmZoneAt = (
+  coordinate: Coordinate,
+): { zone: number; south: boolean } => {
+  const [lon, lat] = toLonLat(coordinate);
+  const zone = Math.min(60, Math.max(1, Math.floor((lon + 180) / 6) + 1));
+  return { zone, south: lat < 0 };
+};
+
+export const getUtmEpsgCode = (zone: number, south: boolean): number =>
+  (south ? 32700 : 32600) + zone;
+
+/**
+ * proj4 definition of a CRS option
+ */
+export const getCrsDefinition = (crs: CrsOption): string => {
+  switch (crs.kind) {
+    case "utm":
+      return `+proj=utm +zone=${crs.zone}${crs.south ? " +south" : ""} +datum=WGS84 +units=m +no_defs`;
+    case "preset":
+      return getCrsPreset(crs.code)?.definition ?? "";
+    case "wgs84":
+      return "EPSG:4326";
+    case "webMercator":
+      return "EPSG:3857";
+    case "custom":
+      return crs.definition.trim();
+  }
+};
+
+export const describeCrs = (crs: CrsOption): string => {
+  if (crs.kind === "utm") {
+    return `UTM zone ${crs.zone}${crs.south ? "S" : "N"} (EPSG:${getUtmEpsgCode(crs.zone, crs.south)})`;
+  }
+  if (crs.kind === "preset") {
+    const preset = getCrsPreset(crs.code);
+    return preset ? `${preset.name} (${preset.code})` : crs.code;
+  }
+  if (crs.kind === "custom") return "Custom CRS";
+  return CRS_KIND_LABELS[crs.kind];
+};
+
+/**
+ * True for CRS options measured in degrees rather than metres
+ */
+export const isGeographicCrs = (crs: CrsOption): boolean => {
+  if (crs.kind === "wgs84") return true;
+  if (crs.kind !== "custom" && crs.kind !== "preset") return false;
+  const definition = getCrsDefinition(crs);
+  return /\+proj=(longlat|latlong)/.test(definition) || /^GEOGCS\[/i.test(definition);
+};
+
+/**
+ * CRS to offer for exchanged data: the job's own system unless that is plain
+ * WGS84, otherwise the current choice with UTM moved to the zone at the map
+ */
+export const getSuggestedCrs = (
+  jobCrs: CrsOption,
+  current: CrsOption,
+  defaultUtm: { zone: number; south: boolean }
+): CrsOption => {
+  if (jobCrs.kind !== "wgs84") return jobCrs;
+  return current.kind === "utm" ? { kind: "utm", ...defaultUtm } : current;
+};
+
+export const isSameCrs = (a: CrsOption, b: CrsOption): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Names of the two coordinate axes, for labelling entry fields and columns
+ */
+export const getCrsAxisNames = (crs: CrsOption): { x: string; y: string } =>
+  isGeographicCrs(crs)
+    ? { x: "Longitude", y: "Latitude" }
+    : { x: "Easting", y: "Northing" };
+
+/**
+ * EPSG code of a CRS option, or null for custom definitions
+ */
+export const getCrsEpsgCode = (crs: CrsOption): number | null => {
+  switch (crs.kind) {
+    case "utm":
+      return getUtmEpsgCode(crs.zone, crs.south);
+    case "preset":
+      return Number(crs.code.replace(/^EPSG:/, "")) || null;
+    case "wgs84":
+      return 4326;
+    case "webMercator":
+      return 3857;
+    case "custom":
+      return null;
+  }
+};
+
+/**
+ * CRS option for an EPSG code, or null if it isn't one this app knows
+ */
+export const getCrsFromEpsgCode = (code: number): CrsOption | null => {
+  if (code === 4326) return { kind: "wgs84" };
+  if (code === 3857 || code === 900913) return { kind: "webMercator" };
+  if (code > 32600 && code <= 32660) {
+    return { kind: "utm", zone: code - 32600, south: false };
+  }
+  if (code > 32700 && code <= 32760) {
+    return { kind: "utm", zone: code - 32700, south: true };
+  }
+  const preset = getCrsPreset(`EPSG:${code}`);
+  return preset ? { kind: "preset", code: preset.code } : null;
+};
+
+// ============================================================================
+// TRANSFORMS
+// ============================================================================
+
+export interface CrsTransform {
+  // Map coordinate (EPSG:3857) to the CRS
+  fromMap: (coordinate: Coordinate) => Coordinate;
+  // CRS coordinate to the map (EPSG:3857)
+  toMap: (coordinate: Coordinate) => Coordinate;
+}
+
+/**
+ * Transforms between the map projection and a CRS option.
+ * Throws if a custom definition can't be parsed.
+ */
+export const createCrsTransform = (crs: CrsOption): CrsTransform => {
+  // Same maths as the rest of the app, so WGS84 values match exactly
+  if (crs.kind === "wgs84") {
+    return { fromMap: (c) => toLonLat(c), toMap: (c) => fromLonLat(c) };
+  }
+
+  const definition = getCrsDefinition(crs);
+  if (!definition) {
+    throw new Error("Enter a coordinate reference system definition");
+  }
+
+  let converter: proj4.Converter;
+  try {
+    converter = proj4("EPSG:3857", definition);
+  } catch (error) {
+    console.error("Invalid CRS definition:", error);
+    throw new Error("Unrecognized coordinate reference system definition");
+  }
+
+  return {
+    fromMap: (coordinate) =>
+      converter.forward([coordinate[0], coordinate[1]]) as Coordinate,
+    toMap: (coordinate) =>
+      converter.inverse([coordinate[0], coordinate[1]]) as Coordinate,
+  };
+};
+
+/**
+ * A map coordinate (EPSG:3857) written out in a CRS: six decimals for
+ * degrees, millimetres for metres
+ */
+export const formatCrsCoordinate = (
+  coordinate: Coordinate,
+  crs: CrsOption
+): [string, string] => {
+  const [x, y] = createCrsTransform(crs).fromMap(coordinate);
+  const digits = isGeographicCrs(crs) ? 6 : 3;
+  return [x.toFixed(digits), y.toFixed(digits)];
+};
+
+// ============================================================================
+// GEOJSON
+// ============================================================================
+
+const transformPositions = (
+  coordinates: unknown,
+  transform: (coordinate: Coordinate) => Coordinate
+): unknown => {
+  if (!Array.isArray(coordinates)) return coordinates;
+  if (typeof coordinates[0] === "number") {
+    return transform(coordinates as Coordinate);
+  }
+  return coordinates.map((child) => transformPositions(child, transform));
+};
+
+const transformGeometry = (
+  geometry: GeoJSONGeometryLike | null | undefined,
+  transform: (coordinate: Coordinate) => Coordinate
+): GeoJSONGeometryLike | null | undefined => {
+  if (!geometry) return geometry;
+  if (geometry.type === "GeometryCollection") {
+    return {
+      ...geometry,
+      geometries: (geometry.geometries || []).map(
+        (child) => transformGeometry(child, transform) as GeoJSONGeometryLike
+      ),
+    };
+  }
+  return {
+    ...geometry,
+    coordinates: transformPositions(geometry.coordinates, transform),
+  };
+};
+
+const transformFeatureCollection = <T extends GeoJSONCollectionLike>(
+  featureCollection: T,
+  transform: (coordinate: Coordinate) => Coordinate
+): T => ({
+  ...featureCollection,
+  features: (featureCollection.features || []).map((feature) => ({
+    ...feature,
+    geometry: transformGeometry(feature.geometry, transform),
+  })),
+});
+
+/**
+ * Named `crs` member for a GeoJSON file in a CRS, or undefined for WGS84
+ * (the GeoJSON default) and custom definitions without an EPSG code
+ */
+export const getGeoJSONCrsMember = (
+  crs: CrsOption
+): GeoJSONCrsMember | undefined => {
+  const code = getCrsEpsgCode(crs);
+  if (code === null || code === 4326) return undefined;
+  return { type: "name", properties: { name: `urn:ogc:def:crs:EPSG::${code}` } };
+};
+
+/**
+ * Reproject a WGS84 feature collection (as stored in the job) into a CRS
+ */
+export const transformGeoJSONToCrs = <T extends GeoJSONCollectionLike>(
+  featureCollection: T,
+  crs: CrsOption
+): T => {
+  if (crs.kind === "wgs84") return featureCollection;
+  const transform = createCrsTransform(crs);
+  return transformFeatureCollection(featureCollection, (coordinate) =>
+    transform.fromMap(fromLonLat(coordinate))
+  );
+};
+
+/**
+ * CRS a GeoJSON file was written in: our own `dsMapTool.crs` first, then a
+ * named `crs` member with an EPSG code this app knows. Null means WGS84 or
+ * a system that can't be read.
+ */
+export const getGeoJSONCrs = (
+  json: GeoJSONCollectionLike | null
+): CrsOption | null => {
+  if (json?.dsMapTool?.crs?.kind) return json.dsMapTool.crs;
+
+  const name = json?.crs?.properties?.name;
+  if (typeof name !== "string") return null;
+  const match = name.match(/EPSG:{1,2}(\d+)$/i);
+  return match ? getCrsFromEpsgCode(Number(match[1])) : null;
+};
+
+/**
+ * Reproject a GeoJSON file written in another CRS back to WGS84, dropping
+ * its `crs` member so OpenLayers reads it as plain GeoJSON
+ */
+export const transformGeoJSONToWgs84 = <T>(json: T): T => {
+  const collection = json as GeoJSONCollectionLike | null;
+  const crs = getGeoJSONCrs(collection);
+  if (
+    !collection ||
+    !crs ||
+    crs.kind === "wgs84" ||
+    collection.type !== "FeatureCollection"
+  ) {
+    return json;
+  }
+
+  const transform = createCrsTransform(crs);
+  const transformed = transformFeatureCollection(collection, (coordinate) =>
+    toLonLat(transform.toMap(coordinate))
+  );
+  delete transformed.crs;
+  return transformed as T;
+};
@@ -0,0 +1,1214 @@
+import { Feature } from "ol";
+import type { Coordinate } from "ol/coordinate";
+import {
+  LineString,
+  Point,
+  Polygon,
+  type Geometry,
+  type GeometryCollection,
+  type MultiLineString,
+  type MultiPoint,
+  type MultiPolygon,
+} from "ol/geom";
+import type { Folder } from "@/types/folders";
+import { getLegendById } from "@/tools/legendsConfig";
+import { getIconNameFromPath } from "@/utils/iconUtils";
+import {
+  calculateCircleFromThreePoints,
+  createArcGeometry,
+} from "@/utils/arcUtils";
+import {
+  createCrsTransform,
+  type CrsOption,
+  type CrsTransform,
+} from "@/utils/crsUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How exported features are grouped into DXF layers
+ * - folder: one layer per folder path
+ * - legend: one layer per legend type, other features by kind
+ */
+export type DxfLayering = "folder" | "legend";
+
+export interface DxfExportOptions {
+  crs: CrsOption;
+  layering: DxfLayering;
+}
+
+/**
+ * Features read from one DXF layer, in EPSG:3857
+ */
+export interface DxfLayerData {
+  name: string;
+  features: Feature<Geometry>[];
+}
+
+type GroupCode = [number, string];
+
+interface DxfEntity {
+  type: string;
+  codes: GroupCode[];
+  // VERTEX entities of a POLYLINE
+  vertices: GroupCode[][];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Standard AutoCAD Color Index entries. 7 is black or white depending on
+// the drawing background.
+const ACI_COLORS: [number, string][] = [
+  [1, "#ff0000"],
+  [2, "#ffff00"],
+  [3, "#00ff00"],
+  [4, "#00ffff"],
+  [5, "#0000ff"],
+  [6, "#ff00ff"],
+  [7, "#000000"],
+  [7, "#ffffff"],
+  [8, "#808080"],
+  [9, "#c0c0c0"],
+];
+
+const ACI_BY_BLOCK = 0;
+const ACI_BY_LAYER = 256;
+
+const DEFAULT_COLOR = "#00ff00";
+
+// Sizes in metres on the ground, converted to the target CRS units
+const TEXT_HEIGHT_METRES = 2;
+const ICON_SIZE_METRES = 2;
+const DIMENSION_TEXT_HEIGHT_METRES = 1;
+const DIMENSION_ARROW_METRES = 0.75;
+
+const CIRCLE_SEGMENTS = 64;
+// Segments per full turn when approximating bulged polyline segments
+const BULGE_SEGMENTS_PER_TURN = 64;
+
+// POLYLINE flags
+const POLYLINE_CLOSED = 1;
+const POLYLINE_MESH = 16;
+const POLYFACE_MESH = 64;
+
+const ICON_BLOCK_PREFIX = "ICON_";
+
+// ============================================================================
+// WRITER HELPERS
+// ============================================================================
+
+const formatNumber = (value: number): string =>
+  Number.isFinite(value) ? String(Number(value.toFixed(9))) : "0";
+
+const pushCodes = (out: string[], ...codes: [number, string | number][]) => {
+  codes.forEach(([code, value]) => {
+    out.push(
+      String(code),
+      typeof value === "number" ? formatNumber(value) : value
+    );
+  });
+};
+
+const pushPoint = (out: string[], baseCode: number, [x, y]: Coordinate) => {
+  pushCodes(out, [baseCode, x], [baseCode + 10, y], [baseCode + 20, 0]);
+};
+
+// Characters AutoCAD does not allow in layer and block names
+const sanitizeDxfName = (name: string): string =>
+  name.replace(/[<>/\\":;?*|=,'`\r\n]+/g, "_").trim().slice(0, 255) || "0";
+
+const hexToRgb = (hex: string): [number, number, number] | null => {
+  const match = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value =
+    match[1].length === 3
+      ? match[1].split("").map((c) => c + c).join("")
+      : match[1];
+  return [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16),
+  ];
+};
+
+/**
+ * Nearest AutoCAD Color Index to a hex colour
+ */
+const hexToAci = (hex: string): number => {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return 7;
+
+  let best = 7;
+  let bestDistance = Infinity;
+  ACI_COLORS.forEach(([aci, aciHex]) => {
+    const aciRgb = hexToRgb(aciHex)!;
+    const distance =
+      (rgb[0] - aciRgb[0]) ** 2 +
+      (rgb[1] - aciRgb[1]) ** 2 +
+      (rgb[2] - aciRgb[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = aci;
+    }
+  });
+  return best;
+};
+
+const aciToHex = (aci: number): string | undefined =>
+  ACI_COLORS.find(([value]) => value === Math.abs(aci))?.[1];
+
+const getFeatureColor = (feature: Feature<Geometry>): string => {
+  if (feature.get("isText")) {
+    return feature.get("textFillColor") || "#000000";
+  }
+  const legendType = feature.get("legendType");
+  const legend = legendType ? getLegendById(legendType) : undefined;
+  return (
+    feature.get("lineColor") ||
+    feature.get("strokeColor") ||
+    legend?.style.strokeColor ||
+    DEFAULT_COLOR
+  );
+};
+
+const getFolderPath = (
+  folderId: string,
+  folders: Record<string, Folder>
+): string => {
+  const names: string[] = [];
+  let folder: Folder | undefined = folders[folderId];
+  while (folder && names.length < 20) {
+    names.unshift(folder.name);
+    folder = folder.parentId ? folders[folder.parentId] : undefined;
+  }
+  return names.join("-");
+};
+
+const isDimensionFeature = (feature: Feature<Geometry>): boolean =>
+  !!(
+    feature.get("isAlignedDimension") ||
+    feature.get("isLinearDimension") ||
+    feature.get("isRadiusDimension") ||
+    feature.get("isDimension")
+  );
+
+const getFeatureKindLayer = (feature: Feature<Geometry>): string => {
+  if (feature.get("isText")) return "Text";
+  if (feature.get("isIcon")) return "Icons";
+  if (isDimensionFeature(feature)) return "Dimensions";
+
+  const type = feature.getGeometry()?.getType() ?? "";
+  if (type.includes("Polygon")) return "Shapes";
+  if (type.includes("LineString")) return "Lines";
+  return "Points";
+};
+
+const getLayerName = (
+  feature: Feature<Geometry>,
+  folders: Record<string, Folder>,
+  layering: DxfLayering
+): string => {
+  if (layering === "folder") {
+    const folderId = feature.get("folderId");
+    const path = folderId ? getFolderPath(folderId, folders) : "";
+    return sanitizeDxfName(path || "0");
+  }
+
+  const legendType = feature.get("legendType");
+  const legend = legendType ? getLegendById(legendType) : undefined;
+  return sanitizeDxfName(legend?.name ?? getFeatureKindLayer(feature));
+};
+
+// ============================================================================
+// ENTITY WRITERS
+// ============================================================================
+
+interface EntityContext {
+  transform: CrsTransform;
+  layer: string;
+  color: number;
+  // Converts a length in metres at a map coordinate to target CRS units
+  toCrsLength: (mapCoordinate: Coordinate, metres: number) => number;
+}
+
+const pushEntityHeader = (
+  out: string[],
+  type: string,
+  layer: string,
+  color: number
+) => {
+  pushCodes(out, [0, type], [8, layer], [62, color]);
+};
+
+const writePolyline = (
+  out: string[],
+  points: Coordinate[],
+  closed: boolean,
+  { layer, color }: Pick<EntityContext, "layer" | "color">
+) => {
+  if (points.length < 2) return;
+  pushEntityHeader(out, "POLYLINE", layer, color);
+  pushCodes(out, [66, 1]);
+  pushPoint(out, 10, [0, 0]);
+  pushCodes(out, [70, closed ? POLYLINE_CLOSED : 0]);
+  points.forEach((point) => {
+    pushEntityHeader(out, "VERTEX", layer, color);
+    pushPoint(out, 10, point);
+  });
+  pushCodes(out, [0, "SEQEND"], [8, layer]);
+};
+
+const writeLine = (
+  out: string[],
+  start: Coordinate,
+  end: Coordinate,
+  layer: string,
+  color: number
+) => {
+  pushEntityHeader(out, "LINE", layer, color);
+  pushPoint(out, 10, start);
+  pushPoint(out, 11, end);
+};
+
+/**
+ * TEXT entity, centred on `position`. Multi-line text becomes one TEXT per
+ * line since R12 has no MTEXT.
+ */
+const writeText = (
+  out: string[],
+  text: string,
+  position: Coordinate,
+  height: number,
+  rotationDegrees: number,
+  align: "left" | "center" | "right",
+  layer: string,
+  color: number
+) => {
+  const lines = text.split(/\r?\n/);
+  const horizontal = align === "left" ? 0 : align === "right" ? 2 : 1;
+  const angle = (rotationDegrees * Math.PI) / 180;
+  const lineSpacing = height * 1.5;
+
+  lines.forEach((line, index) => {
+    // Offset each line perpendicular to the baseline, centred as a block
+    const offset = ((lines.length - 1) / 2 - index) * lineSpacing;
+    const linePosition: Coordinate = [
+      position[0] - Math.sin(angle) * offset,
+      position[1] + Math.cos(angle) * offset,
+    ];
+    pushEntityHeader(out, "TEXT", layer, color);
+    pushPoint(out, 10, linePosition);
+    pushCodes(out, [40, height], [1, line || " "], [50, rotationDegrees]);
+    pushCodes(out, [72, horizontal]);
+    pushPoint(out, 11, linePosition);
+    pushCodes(out, [73, 2]);
+  });
+};
+
+const writeArrowhead = (
+  out: string[],
+  tip: Coordinate,
+  towards: Coordinate,
+  size: number,
+  color: number
+) => {
+  const length = Math.hypot(towards[0] - tip[0], towards[1] - tip[1]);
+  if (length === 0) return;
+  const ux = (towards[0] - tip[0]) / length;
+  const uy = (towards[1] - tip[1]) / length;
+  const base: Coordinate = [tip[0] + ux * size, tip[1] + uy * size];
+  const half = size / 3;
+  const left: Coordinate = [base[0] - uy * half, base[1] + ux * half];
+  const right: Coordinate = [base[0] + uy * half, base[1] - ux * half];
+
+  pushEntityHeader(out, "SOLID", "0", color);
+  pushPoint(out, 10, tip);
+  pushPoint(out, 11, left);
+  pushPoint(out, 12, right);
+  pushPoint(out, 13, right);
+};
+
+/**
+ * Readable text angle (degrees) for a line from `start` to `end`
+ */
+const getReadableAngle = (start: Coordinate, end: Coordinate): number => {
+  let angle =
+    (Math.atan2(end[1] - start[1], end[0] - start[0]) * 180) / Math.PI;
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+  return angle;
+};
+
+/**
+ * Aligned (type 1) or rotated (type 0) DIMENSION with the anonymous block
+ * holding its graphics, so CAD tools without dimension support still show it.
+ */
+const writeDimension = (
+  entities: string[],
+  blocks: string[],
+  blockName: string,
+  [p1, p2, dimP1, dimP2]: Coordinate[],
+  text: string | undefined,
+  rotated: boolean,
+  context: EntityContext,
+  mapMidpoint: Coordinate
+) => {
+  const { layer, color } = context;
+  const textHeight = context.toCrsLength(
+    mapMidpoint,
+    DIMENSION_TEXT_HEIGHT_METRES
+  );
+  const arrowSize = context.toCrsLength(mapMidpoint, DIMENSION_ARROW_METRES);
+  const textMid: Coordinate = [
+    (dimP1[0] + dimP2[0]) / 2,
+    (dimP1[1] + dimP2[1]) / 2,
+  ];
+  const angle = getReadableAngle(dimP1, dimP2);
+  const rad = (angle * Math.PI) / 180;
+  // Text sits just above the dimension line
+  const textPosition: Coordinate = [
+    textMid[0] - Math.sin(rad) * textHeight * 0.75,
+    textMid[1] + Math.cos(rad) * textHeight * 0.75,
+  ];
+  const measured = Math.hypot(dimP2[0] - dimP1[0], dimP2[1] - dimP1[1]);
+
+  // Block graphics, in drawing coordinates
+  pushCodes(blocks, [0, "BLOCK"], [8, "0"], [2, blockName], [70, 1]);
+  pushPoint(blocks, 10, [0, 0]);
+  pushCodes(blocks, [3, blockName], [1, ""]);
+  writeLine(blocks, p1, dimP1, "0", ACI_BY_BLOCK);
+  writeLine(blocks, p2, dimP2, "0", ACI_BY_BLOCK);
+  writeLine(blocks, dimP1, dimP2, "0", ACI_BY_BLOCK);
+  writeArrowhead(blocks, dimP1, dimP2, arrowSize, ACI_BY_BLOCK);
+  writeArrowhead(blocks, dimP2, dimP1, arrowSize, ACI_BY_BLOCK);
+  writeText(
+    blocks,
+    text || formatNumber(Math.round(measured * 100) / 100),
+    textPosition,
+    textHeight,
+    angle,
+    "center",
+    "0",
+    ACI_BY_BLOCK
+  );
+  pushCodes(blocks, [0, "ENDBLK"], [8, "0"]);
+
+  pushEntityHeader(entities, "DIMENSION", layer, color);
+  pushCodes(entities, [2, blockName]);
+  pushPoint(entities, 10, dimP2);
+  pushPoint(entities, 11, textPosition);
+  // 32: the block is used by this dimension only
+  pushCodes(entities, [70, (rotated ? 0 : 1) | 32]);
+  // An empty override shows the measured value
+  pushCodes(entities, [1, text ?? ""]);
+  pushPoint(entities, 13, p1);
+  pushPoint(entities, 14, p2);
+  if (rotated) {
+    pushCodes(
+      entities,
+      [
+        50,
+        (Math.atan2(dimP2[1] - dimP1[1], dimP2[0] - dimP1[0]) * 180) /
+          Math.PI,
+      ]
+    );
+  }
+};
+
+/**
+ * Block for an icon: a unit circle with a cross, scaled by each INSERT
+ */
+const writeIconBlock = (blocks: string[], blockName: string) => {
+  pushCodes(blocks, [0, "BLOCK"], [8, "0"], [2, blockName], [70, 0]);
+  pushPoint(blocks, 10, [0, 0]);
+  pushCodes(blocks, [3, blockName], [1, ""]);
+  pushEntityHeader(blocks, "CIRCLE", "0", ACI_BY_BLOCK);
+  pushPoint(blocks, 10, [0, 0]);
+  pushCodes(blocks, [40, 0.5]);
+  writeLine(blocks, [-0.5, 0], [0.5, 0], "0", ACI_BY_BLOCK);
+  writeLine(blocks, [0, -0.5], [0, 0.5], "0", ACI_BY_BLOCK);
+  pushCodes(blocks, [0, "ENDBLK"], [8, "0"]);
+};
+
+/**
+ * Lines, polygons and points of any geometry, exploded into simple entities
+ */
+const writeGeometry = (
+  out: string[],
+  geometry: Geometry,
+  context: EntityContext
+) => {
+  const { transform, layer, color } = context;
+  const toCrs = (points: Coordinate[]) => points.map(transform.fromMap);
+
+  switch (geometry.getType()) {
+    case "Point":
+      pushEntityHeader(out, "POINT", layer, color);
+      pushPoint(out, 10, transform.fromMap((geometry as Point).getCoordinates()));
+      break;
+    case "MultiPoint":
+      (geometry as MultiPoint)
+        .getPoints()
+        .forEach((point) => writeGeometry(out, point, context));
+      break;
+    case "LineString":
+      writePolyline(
+        out,
+        toCrs((geometry as LineString).getCoordinates()),
+        false,
+        context
+      );
+      break;
+    case "MultiLineString":
+      (geometry as MultiLineString)
+        .getLineStrings()
+        .forEach((line) => writeGeometry(out, line, context));
+      break;
+    case "Polygon":
+      (geometry as Polygon).getCoordinates().forEach((ring) => {
+        // DXF closes the polyline itself
+        writePolyline(out, toCrs(ring.slice(0, -1)), true, context);
+      });
+      break;
+    case "MultiPolygon":
+      (geometry as MultiPolygon)
+        .getPolygons()
+        .forEach((polygon) => writeGeometry(out, polygon, context));
+      break;
+    case "GeometryCollection":
+      (geometry as GeometryCollection)
+        .getGeometries()
+        .forEach((child) => writeGeometry(out, child, context));
+      break;
+  }
+};
+
+/**
+ * Arc through its three control points as an ARC entity (counter-clockwise
+ * from start to end angle)
+ */
+const writeArc = (
+  out: string[],
+  controlPoints: Coordinate[],
+  context: EntityContext
+): boolean => {
+  const [p1, p2, p3] = controlPoints.map(context.transform.fromMap);
+  const circle = calculateCircleFromThreePoints(p1, p2, p3);
+  if (!circle) return false;
+
+  const angleOf = ([x, y]: Coordinate) =>
+    (((Math.atan2(y - circle.center[1], x - circle.center[0]) * 180) /
+      Math.PI) +
+      360) %
+    360;
+  const a1 = angleOf(p1);
+  const a2 = angleOf(p2);
+  const a3 = angleOf(p3);
+  const counterClockwise = (a2 - a1 + 360) % 360 < (a3 - a1 + 360) % 360;
+
+  pushEntityHeader(out, "ARC", context.layer, context.color);
+  pushPoint(out, 10, circle.center);
+  pushCodes(
+    out,
+    [40, circle.radius],
+    [50, counterClockwise ? a1 : a3],
+    [51, counterClockwise ? a3 : a1]
+  );
+  return true;
+};
+
+const writeCircle = (
+  out: string[],
+  polygon: Polygon,
+  context: EntityContext
+) => {
+  const ring = polygon.getCoordinates()[0];
+  const extent = polygon.getExtent();
+  const center = context.transform.fromMap([
+    (extent[0] + extent[2]) / 2,
+    (extent[1] + extent[3]) / 2,
+  ]);
+  const edge = context.transform.fromMap(ring[0]);
+
+  pushEntityHeader(out, "CIRCLE", context.layer, context.color);
+  pushPoint(out, 10, center);
+  pushCodes(out, [40, Math.hypot(edge[0] - center[0], edge[1] - center[1])]);
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const writeTable = (
+  out: string[],
+  name: string,
+  entries: [number, string | number][][]
+) => {
+  pushCodes(out, [0, "TABLE"], [2, name], [70, entries.length]);
+  entries.forEach((entry) => pushCodes(out, [0, name], ...entry));
+  pushCodes(out, [0, "ENDTAB"]);
+};
+
+/**
+ * Write features (EPSG:3857) as an ASCII DXF R12 drawing in the given CRS.
+ * Dimensions become DIMENSION entities, text TEXT, icons INSERTs of a block
+ * per icon, circles and arcs CIRCLE/ARC, everything else POLYLINE/POINT.
+ */
+export const writeDxf = (
+  features: Feature<Geometry>[],
+  folders: Record<string, Folder>,
+  { crs, layering }: DxfExportOptions
+): string => {
+  const transform = createCrsTransform(crs);
+
+  const toCrsLength = (mapCoordinate: Coordinate, metres: number): number => {
+    // Web Mercator stretches distances by 1 / cos(latitude)
+    const lat = Math.atan(Math.sinh(mapCoordinate[1] / 6378137));
+    const mapLength = metres / Math.cos(lat);
+    const start = transform.fromMap(mapCoordinate);
+    const end = transform.fromMap([
+      mapCoordinate[0] + mapLength,
+      mapCoordinate[1],
+    ]);
+    return Math.hypot(end[0] - start[0], end[1] - start[1]) || metres;
+  };
+
+  const entities: string[] = [];
+  const blocks: string[] = [];
+  const layers = new Set<string>(["0"]);
+  const iconBlocks = new Set<string>();
+  let dimensionCount = 0;
+  let min: Coordinate = [Infinity, Infinity];
+  let max: Coordinate = [-Infinity, -Infinity];
+
+  const trackedTransform: CrsTransform = {
+    toMap: transform.toMap,
+    fromMap: (coordinate) => {
+      const result = transform.fromMap(coordinate);
+      min = [Math.min(min[0], result[0]), Math.min(min[1], result[1])];
+      max = [Math.max(max[0], result[0]), Math.max(max[1], result[1])];
+      return result;
+    },
+  };
+
+  features.forEach((feature) => {
+    const geometry = feature.getGeometry();
+    if (!geometry) return;
+
+    const layer = getLayerName(feature, folders, layering);
+    layers.add(layer);
+    const context: EntityContext = {
+      transform: trackedTransform,
+      layer,
+      color: hexToAci(getFeatureColor(feature)),
+      toCrsLength,
+    };
+
+    if (feature.get("isText") && geometry instanceof Point) {
+      const mapPosition = geometry.getCoordinates();
+      writeText(
+        entities,
+        String(feature.get("text") ?? ""),
+        trackedTransform.fromMap(mapPosition),
+        toCrsLength(mapPosition, TEXT_HEIGHT_METRES) *
+          (feature.get("textScale") ?? 1),
+        // Map rotation is clockwise, DXF angles counter-clockwise
+        -(feature.get("textRotation") ?? 0),
+        feature.get("textAlign") ?? "center",
+        layer,
+        context.color
+      );
+      return;
+    }
+
+    if (feature.get("isIcon") && geometry instanceof Point) {
+      const iconPath: string = feature.get("iconPath") ?? "";
+      const blockName = sanitizeDxfName(
+        `${ICON_BLOCK_PREFIX}${getIconNameFromPath(iconPath) || "icon"}`
+      );
+      if (!iconBlocks.has(blockName)) {
+        iconBlocks.add(blockName);
+        writeIconBlock(blocks, blockName);
+      }
+      const mapPosition = geometry.getCoordinates();
+      const scale =
+        toCrsLength(mapPosition, ICON_SIZE_METRES) *
+        (feature.get("iconScale") ?? 1);
+      pushEntityHeader(entities, "INSERT", layer, context.color);
+      pushCodes(entities, [2, blockName]);
+      pushPoint(entities, 10, trackedTransform.fromMap(mapPosition));
+      pushCodes(
+        entities,
+        [41, scale],
+        [42, scale],
+        [50, -(feature.get("iconRotation") ?? 0)]
+      );
+      return;
+    }
+
+    if (geometry instanceof LineString && isDimensionFeature(feature)) {
+      const coordinates = geometry.getCoordinates();
+      const text: string | undefined = feature.get("dimensionText") || undefined;
+
+      if (feature.get("isRadiusDimension") && coordinates.length >= 2) {
+        // Leader from the circle to the label
+        writePolyline(
+          entities,
+          coordinates.map(trackedTransform.fromMap),
+          false,
+          context
+        );
+        writeText(
+          entities,
+          text ?? feature.get("radiusText") ?? "",
+          trackedTransform.fromMap(coordinates[coordinates.length - 1]),
+          toCrsLength(coordinates[0], DIMENSION_TEXT_HEIGHT_METRES),
+          0,
+          "left",
+          layer,
+          context.color
+        );
+        return;
+      }
+
+      // Aligned and linear dimensions store [p1, p2, dimP1, dimP2]; the
+      // legacy arrow dimension is just its dimension line
+      const points =
+        coordinates.length >= 4 && !feature.get("isDimension")
+          ? coordinates.slice(0, 4)
+          : [
+              coordinates[0],
+              coordinates[coordinates.length - 1],
+              coordinates[0],
+              coordinates[coordinates.length - 1],
+            ];
+      dimensionCount++;
+      writeDimension(
+        entities,
+        blocks,
+        `*D${dimensionCount}`,
+        points.map(trackedTransform.fromMap),
+        text,
+        !!feature.get("isLinearDimension"),
+        context,
+        points[2]
+      );
+      return;
+    }
+
+    if (feature.get("isCircle") && geometry instanceof Polygon) {
+      writeCircle(entities, geometry, context);
+      return;
+    }
+
+    const arcControlPoints: Coordinate[] | undefined =
+      feature.get("arcControlPoints");
+    if (
+      feature.get("isArc") &&
+      arcControlPoints?.length === 3 &&
+      writeArc(entities, arcControlPoints, context)
+    ) {
+      return;
+    }
+
+    writeGeometry(entities, geometry, context);
+  });
+
+  if (!Number.isFinite(min[0])) {
+    min = [0, 0];
+    max = [0, 0];
+  }
+
+  const out: string[] = [];
+  pushCodes(out, [0, "SECTION"], [2, "HEADER"]);
+  pushCodes(out, [9, "$ACADVER"], [1, "AC1009"]);
+  pushCodes(out, [9, "$EXTMIN"]);
+  pushPoint(out, 10, min);
+  pushCodes(out, [9, "$EXTMAX"]);
+  pushPoint(out, 10, max);
+  pushCodes(out, [0, "ENDSEC"]);
+
+  pushCodes(out, [0, "SECTION"], [2, "TABLES"]);
+  writeTable(out, "LTYPE", [
+    [[2, "CONTINUOUS"], [70, 0], [3, "Solid line"], [72, 65], [73, 0], [40, 0]],
+  ]);
+  writeTable(
+    out,
+    "LAYER",
+    Array.from(layers).map((name) => [
+      [2, name],
+      [70, 0],
+      [62, 7],
+      [6, "CONTINUOUS"],
+    ])
+  );
+  writeTable(out, "STYLE", [
+    [
+      [2, "STANDARD"],
+      [70, 0],
+      [40, 0],
+      [41, 1],
+      [50, 0],
+      [71, 0],
+      [42, 2.5],
+      [3, "txt"],
+      [4, ""],
+    ],
+  ]);
+  writeTable(out, "DIMSTYLE", [[[2, "STANDARD"], [70, 0]]]);
+  pushCodes(out, [0, "ENDSEC"]);
+
+  pushCodes(out, [0, "SECTION"], [2, "BLOCKS"]);
+  out.push(...blocks);
+  pushCodes(out, [0, "ENDSEC"]);
+
+  pushCodes(out, [0, "SECTION"], [2, "ENTITIES"]);
+  out.push(...entities);
+  pushCodes(out, [0, "ENDSEC"], [0, "EOF"]);
+
+  return out.join("\n") + "\n";
+};
+
+// ============================================================================
+// READER HELPERS
+// ============================================================================
+
+const readGroupCodes = (text: string): GroupCode[] => {
+  const lines = text.split(/\r?\n/);
+  const codes: GroupCode[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (Number.isNaN(code)) {
+      throw new Error("Not an ASCII DXF file");
+    }
+    codes.push([code, lines[i + 1].trim()]);
+  }
+  return codes;
+};
+
+/**
+ * Split a section's group codes at each 0 code into entities, attaching
+ * POLYLINE vertices to their polyline
+ */
+const readEntities = (codes: GroupCode[]): DxfEntity[] => {
+  const entities: DxfEntity[] = [];
+  let current: DxfEntity | null = null;
+  let polyline: DxfEntity | null = null;
+
+  codes.forEach(([code, value]) => {
+    if (code !== 0) {
+      current?.codes.push([code, value]);
+      return;
+    }
+
+    if (value === "VERTEX" && polyline) {
+      current = { type: value, codes: [], vertices: [] };
+      polyline.vertices.push(current.codes);
+      return;
+    }
+    if (value === "SEQEND") {
+      polyline = null;
+      current = null;
+      return;
+    }
+
+    current = { type: value, codes: [], vertices: [] };
+    entities.push(current);
+    polyline = value === "POLYLINE" ? current : null;
+  });
+
+  return entities;
+};
+
+/**
+ * Group codes between `0 SECTION / 2 <name>` and `0 ENDSEC`
+ */
+const getSection = (codes: GroupCode[], name: string): GroupCode[] => {
+  for (let i = 0; i < codes.length - 1; i++) {
+    if (
+      codes[i][0] === 0 &&
+      codes[i][1] === "SECTION" &&
+      codes[i + 1][0] === 2 &&
+      codes[i + 1][1] === name
+    ) {
+      const end = codes.findIndex(
+        ([code, value], index) => index > i && code === 0 && value === "ENDSEC"
+      );
+      return codes.slice(i + 2, end === -1 ? undefined : end);
+    }
+  }
+  return [];
+};
+
+const getCode = (codes: GroupCode[], code: number): string | undefined =>
+  codes.find(([c]) => c === code)?.[1];
+
+const getNumber = (
+  codes: GroupCode[],
+  code: number,
+  fallback = 0
+): number => {
+  const value = parseFloat(getCode(codes, code) ?? "");
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const getPointCode = (codes: GroupCode[], baseCode: number): Coordinate => [
+  getNumber(codes, baseCode),
+  getNumber(codes, baseCode + 10),
+];
+
+/**
+ * Points along a polyline segment with a bulge (tan of a quarter of the
+ * arc's included angle, positive counter-clockwise), excluding `start`
+ */
+const bulgeToPoints = (
+  start: Coordinate,
+  end: Coordinate,
+  bulge: number
+): Coordinate[] => {
+  if (!bulge) return [end];
+
+  const chord = Math.hypot(end[0] - start[0], end[1] - start[1]);
+  if (chord === 0) return [end];
+
+  const includedAngle = 4 * Math.atan(bulge);
+  const radius = chord / (2 * Math.sin(includedAngle / 2));
+  // Centre lies on the chord's perpendicular bisector
+  const mid: Coordinate = [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2];
+  const distance = radius * Math.cos(includedAngle / 2);
+  const ux = (end[0] - start[0]) / chord;
+  const uy = (end[1] - start[1]) / chord;
+  const center: Coordinate = [mid[0] - uy * distance, mid[1] + ux * distance];
+
+  const startAngle = Math.atan2(start[1] - center[1], start[0] - center[0]);
+  const segments = Math.max(
+    2,
+    Math.ceil((Math.abs(includedAngle) / (2 * Math.PI)) * BULGE_SEGMENTS_PER_TURN)
+  );
+  const r = Math.abs(radius);
+  const points: Coordinate[] = [];
+  for (let i = 1; i < segments; i++) {
+    const angle = startAngle + (includedAngle * i) / segments;
+    points.push([
+      center[0] + r * Math.cos(angle),
+      center[1] + r * Math.sin(angle),
+    ]);
+  }
+  points.push(end);
+  return points;
+};
+
+/**
+ * Vertices with bulges into a point list, closing the ring if needed
+ */
+const expandBulges = (
+  vertices: { point: Coordinate; bulge: number }[],
+  closed: boolean
+): Coordinate[] => {
+  if (vertices.length === 0) return [];
+  const points: Coordinate[] = [vertices[0].point];
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const next = vertices[(i + 1) % vertices.length];
+    points.push(
+      ...bulgeToPoints(vertices[i].point, next.point, vertices[i].bulge)
+    );
+  }
+  return points;
+};
+
+const readLwPolylineVertices = (
+  codes: GroupCode[]
+): { point: Coordinate; bulge: number }[] => {
+  const vertices: { point: Coordinate; bulge: number }[] = [];
+  codes.forEach(([code, value]) => {
+    const number = parseFloat(value);
+    if (code === 10) {
+      vertices.push({ point: [number, 0], bulge: 0 });
+    } else if (code === 20 && vertices.length > 0) {
+      vertices[vertices.length - 1].point[1] = number;
+    } else if (code === 42 && vertices.length > 0) {
+      vertices[vertices.length - 1].bulge = number || 0;
+    }
+  });
+  return vertices;
+};
+
+/**
+ * MTEXT content without formatting codes
+ */
+const cleanMText = (text: string): string =>
+  text
+    .replace(/\\P/g, "\n")
+    .replace(/\\~/g, " ")
+    .replace(/\\[ACFHQTWfhpqa][^;\\{}]*;/g, "")
+    .replace(/\\[LlOoKk]/g, "")
+    .replace(/\\S([^;]*);/g, (_, stacked: string) =>
+      stacked.replace(/[#^]/g, "/")
+    )
+    .replace(/\\([\\{}])/g, "$1")
+    .replace(/(?<!\\)[{}]/g, "");
+
+/**
+ * Decode %%-codes used in TEXT entities
+ */
+const cleanText = (text: string): string =>
+  text
+    .replace(/%%[dD]/g, "°")
+    .replace(/%%[pP]/g, "±")
+    .replace(/%%[cC]/g, "Ø")
+    .replace(/%%[uUoO]/g, "")
+    .replace(/%%%/g, "%");
+
+// ============================================================================
+// ENTITY READERS
+// ============================================================================
+
+const toLineFeature = (
+  points: Coordinate[],
+  closed: boolean,
+  toMap: CrsTransform["toMap"]
+): Feature<Geometry> | null => {
+  const mapPoints = points.map(toMap);
+  if (closed && mapPoints.length >= 3) {
+    return new Feature(new Polygon([[...mapPoints, mapPoints[0]]]));
+  }
+  if (mapPoints.length < 2) return null;
+  const feature = new Feature(new LineString(mapPoints));
+  feature.set("isPolyline", true);
+  return feature;
+};
+
+const readEntity = (
+  entity: DxfEntity,
+  toMap: CrsTransform["toMap"]
+): Feature<Geometry> | null => {
+  const { codes } = entity;
+
+  switch (entity.type) {
+    case "LINE":
+      return toLineFeature(
+        [getPointCode(codes, 10), getPointCode(codes, 11)],
+        false,
+        toMap
+      );
+
+    case "LWPOLYLINE": {
+      const closed = (getNumber(codes, 70) & POLYLINE_CLOSED) !== 0;
+      return toLineFeature(
+        expandBulges(readLwPolylineVertices(codes), closed),
+        closed,
+        toMap
+      );
+    }
+
+    case "POLYLINE": {
+      const flags = getNumber(codes, 70);
+      if (flags & (POLYLINE_MESH | POLYFACE_MESH)) return null;
+      const closed = (flags & POLYLINE_CLOSED) !== 0;
+      const vertices = entity.vertices.map((vertex) => ({
+        point: getPointCode(vertex, 10),
+        bulge: getNumber(vertex, 42),
+      }));
+      return toLineFeature(expandBulges(vertices, closed), closed, toMap);
+    }
+
+    case "ARC": {
+      const center = getPointCode(codes, 10);
+      const radius = getNumber(codes, 40);
+      const start = (getNumber(codes, 50) * Math.PI) / 180;
+      let end = (getNumber(codes, 51) * Math.PI) / 180;
+      if (end <= start) end += 2 * Math.PI;
+      if (radius <= 0) return null;
+
+      const pointAt = (angle: number): Coordinate =>
+        toMap([
+          center[0] + radius * Math.cos(angle),
+          center[1] + radius * Math.sin(angle),
+        ]);
+      const controlPoints = [
+        pointAt(start),
+        pointAt((start + end) / 2),
+        pointAt(end),
+      ];
+      const feature = new Feature(
+        createArcGeometry(
+          controlPoints[0],
+          controlPoints[1],
+          controlPoints[2],
+          64
+        )
+      );
+      feature.set("isArc", true);
+      feature.set("arcControlPoints", controlPoints);
+      return feature;
+    }
+
+    case "CIRCLE": {
+      const center = getPointCode(codes, 10);
+      const radius = getNumber(codes, 40);
+      if (radius <= 0) return null;
+
+      const ring: Coordinate[] = [];
+      for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+        const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+        ring.push(
+          toMap([
+            center[0] + radius * Math.cos(angle),
+            center[1] + radius * Math.sin(angle),
+          ])
+        );
+      }
+      ring.push(ring[0]);
+      const mapCenter = toMap(center);
+
+      const feature = new Feature(new Polygon([ring]));
+      feature.set("isCircle", true);
+      feature.set(
+        "radius",
+        Math.hypot(ring[0][0] - mapCenter[0], ring[0][1] - mapCenter[1])
+      );
+      feature.set("fillOpacity", 0);
+      return feature;
+    }
+
+    case "TEXT":
+    case "MTEXT": {
+      const isMText = entity.type === "MTEXT";
+      // TEXT with a justification is placed at its alignment point
+      const justified =
+        !isMText && (getNumber(codes, 72) !== 0 || getNumber(codes, 73) !== 0);
+      const position = getPointCode(codes, justified ? 11 : 10);
+      const rawText = isMText
+        ? codes
+            .filter(([code]) => code === 3 || code === 1)
+            .map(([, value]) => value)
+            .join("")
+        : (getCode(codes, 1) ?? "");
+      const text = (isMText ? cleanMText(rawText) : cleanText(rawText)).trim();
+      if (!text) return null;
+
+      let rotation = getNumber(codes, 50);
+      if (isMText && getCode(codes, 11) !== undefined) {
+        const [dx, dy] = getPointCode(codes, 11);
+        rotation = (Math.atan2(dy, dx) * 180) / Math.PI;
+      }
+      const horizontal = getNumber(codes, isMText ? 71 : 72);
+      const align = isMText
+        ? [1, 4, 7].includes(horizontal)
+          ? "left"
+          : [3, 6, 9].includes(horizontal)
+            ? "right"
+            : "center"
+        : horizontal === 0
+          ? "left"
+          : horizontal === 2
+            ? "right"
+            : "center";
+
+      const feature = new Feature(new Point(toMap(position)));
+      feature.set("isText", true);
+      feature.set("editable", true);
+      feature.set("text", text);
+      feature.set("textScale", 1);
+      feature.set("textRotation", -rotation);
+      feature.set("textOpacity", 1);
+      feature.set("textStrokeColor", "#ffffff");
+      feature.set("textAlign", align);
+      return feature;
+    }
+
+    case "INSERT": {
+      const feature = new Feature(new Point(toMap(getPointCode(codes, 10))));
+      const blockName = getCode(codes, 2) ?? "";
+      feature.set("name", blockName);
+      feature.set("block", blockName);
+      return feature;
+    }
+
+    case "POINT":
+      return new Feature(new Point(toMap(getPointCode(codes, 10))));
+
+    default:
+      return null;
+  }
+};
+
+const applyEntityColor = (feature: Feature<Geometry>, color: string) => {
+  if (feature.get("isText")) {
+    feature.set("textFillColor", color);
+  } else if (feature.getGeometry()?.getType() === "Polygon") {
+    feature.set("strokeColor", color);
+    feature.set("fillColor", color);
+    if (feature.get("fillOpacity") === undefined) {
+      feature.set("fillOpacity", 0);
+    }
+  } else if (feature.getGeometry()?.getType() === "LineString") {
+    feature.set("lineColor", color);
+  }
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Read the supported entities of an ASCII DXF drawing, one list per layer.
+ * Coordinates are taken to be in `crs` and returned in EPSG:3857. Throws if
+ * the text isn't DXF or the CRS is invalid.
+ */
+export const readDxf = (text: string, crs: CrsOption): DxfLayerData[] => {
+  const { toMap } = createCrsTransform(crs);
+  const codes = readGroupCodes(text);
+
+  const entitySection = getSection(codes, "ENTITIES");
+  if (entitySection.length === 0) {
+    throw new Error("No ENTITIES section found in DXF file");
+  }
+
+  // Layer colours for entities drawn BYLAYER
+  const layerColors = new Map<string, number>();
+  readEntities(getSection(codes, "TABLES"))
+    .filter((entry) => entry.type === "LAYER")
+    .forEach((entry) => {
+      const name = getCode(entry.codes, 2);
+      if (name) layerColors.set(name, getNumber(entry.codes, 62, 7));
+    });
+
+  const layers = new Map<string, Feature<Geometry>[]>();
+  const skipped = new Map<string, number>();
+
+  readEntities(entitySection).forEach((entity) => {
+    let feature: Feature<Geometry> | null = null;
+    try {
+      feature = readEntity(entity, toMap);
+    } catch (error) {
+      console.warn(`Skipping unreadable DXF ${entity.type}:`, error);
+    }
+    if (!feature) {
+      skipped.set(entity.type, (skipped.get(entity.type) ?? 0) + 1);
+      return;
+    }
+
+    const layer = getCode(entity.codes, 8) ?? "0";
+    let aci = getNumber(entity.codes, 62, ACI_BY_LAYER);
+    if (aci === ACI_BY_LAYER || aci === ACI_BY_BLOCK) {
+      aci = layerColors.get(layer) ?? 7;
+    }
+    const color = aciToHex(aci);
+    if (color) applyEntityColor(feature, color);
+
+    if (!layers.has(layer)) layers.set(layer, []);
+    layers.get(layer)!.push(feature);
+  });
+
+  if (skipped.size > 0) {
+    console.info("DXF entities not imported:", Object.fromEntries(skipped));
+  }
+
+  return Array.from(layers, ([name, features]) => ({ name, features }));
+};
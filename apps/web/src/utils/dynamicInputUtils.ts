@@ -0,0 +1,197 @@
+import type { Coordinate } from "ol/coordinate";
+import { fromLonLat, toLonLat } from "ol/proj";
+import { getDistance, offset } from "ol/sphere";
+import { constrainToOrtho } from "./orthoUtils";
+import { crsCoordinateToLonLat } from "./coordinateUtils";
+import type { CrsOption } from "./crsUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Parsed dynamic input for the next vertex of a line being drawn
+ * - length: segment length in metres, along a bearing or towards the cursor
+ * - bearing: bearing only, with the length taken from the cursor
+ * - absolute: position in the job coordinate system, or WGS84 lat/lon
+ */
+export type DynamicInputCommand =
+  | { kind: "length"; length: number; bearing: number | null }
+  | { kind: "bearing"; bearing: number }
+  | { kind: "absolute"; x: number; y: number; latLon: boolean };
+
+export interface DynamicInputContext {
+  // Last placed vertex (EPSG:3857), or null before the first click
+  lastVertex: Coordinate | null;
+  // Cursor position (EPSG:3857), giving the direction of the next segment
+  cursor: Coordinate | null;
+  // Whether ortho mode is on, constraining the cursor direction
+  orthoMode: boolean;
+  // Job coordinate system used for absolute positions
+  crs: CrsOption;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NUMBER = "[-+]?(?:\\d+\\.?\\d*|\\.\\d+)";
+
+const LENGTH_UNITS: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  ft: 0.3048,
+};
+
+const LENGTH_PATTERN = new RegExp(
+  `^(${NUMBER})\\s*(m|km|ft)?\\s*(?:@\\s*(${NUMBER})\\s*°?)?$`
+);
+const BEARING_PATTERN = new RegExp(`^@\\s*(${NUMBER})\\s*°?$`);
+const ABSOLUTE_PATTERN = new RegExp(
+  `^(ll\\s+)?(${NUMBER})\\s*(?:,|\\s)\\s*(${NUMBER})$`
+);
+
+/**
+ * Short help for the accepted input forms
+ */
+export const DYNAMIC_INPUT_HINT =
+  "120m · 1.2km · 120@45 · @45 · x,y · ll lat,lon";
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const normalizeBearing = (bearing: number): number =>
+  ((bearing % 360) + 360) % 360;
+
+/**
+ * Parse typed input for the next vertex. Accepts a length ("120", "120m",
+ * "1.2km", "400ft"), a length at a bearing in degrees clockwise from north
+ * ("120@45"), a bearing alone ("@45"), a position in the job coordinate
+ * system ("x,y") or a WGS84 position ("ll lat,lon").
+ * @returns The command, or null if the text isn't recognised
+ */
+export const parseDynamicInput = (text: string): DynamicInputCommand | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+
+  const lengthMatch = value.match(LENGTH_PATTERN);
+  if (lengthMatch) {
+    const length = parseFloat(lengthMatch[1]) * LENGTH_UNITS[lengthMatch[2] ?? "m"];
+    if (!(length > 0)) return null;
+    return {
+      kind: "length",
+      length,
+      bearing:
+        lengthMatch[3] !== undefined
+          ? normalizeBearing(parseFloat(lengthMatch[3]))
+          : null,
+    };
+  }
+
+  const bearingMatch = value.match(BEARING_PATTERN);
+  if (bearingMatch) {
+    return {
+      kind: "bearing",
+      bearing: normalizeBearing(parseFloat(bearingMatch[1])),
+    };
+  }
+
+  const absoluteMatch = value.match(ABSOLUTE_PATTERN);
+  if (absoluteMatch) {
+    return {
+      kind: "absolute",
+      x: parseFloat(absoluteMatch[2]),
+      y: parseFloat(absoluteMatch[3]),
+      latLon: !!absoluteMatch[1],
+    };
+  }
+
+  return null;
+};
+
+// ============================================================================
+// RESOLVING
+// ============================================================================
+
+/**
+ * Bearing in degrees clockwise from north from one map coordinate towards
+ * another, or null if they coincide
+ */
+const getMapBearing = (from: Coordinate, to: Coordinate): number | null => {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  if (dx === 0 && dy === 0) return null;
+  return normalizeBearing((Math.atan2(dx, dy) * 180) / Math.PI);
+};
+
+/**
+ * Point at a ground distance (metres) and bearing from a map coordinate.
+ * Works on the sphere so the drawn segment measures exactly the typed length.
+ */
+const offsetMapCoordinate = (
+  from: Coordinate,
+  length: number,
+  bearing: number
+): Coordinate =>
+  fromLonLat(offset(toLonLat(from), length, (bearing * Math.PI) / 180));
+
+/**
+ * Work out the map coordinate (EPSG:3857) of the next vertex from a parsed
+ * command. Without an explicit bearing the segment follows the cursor,
+ * constrained to horizontal or vertical when ortho mode is on.
+ * @throws Error describing why the input can't be placed
+ */
+export const resolveDynamicInput = (
+  command: DynamicInputCommand,
+  context: DynamicInputContext
+): Coordinate => {
+  if (command.kind === "absolute") {
+    if (command.latLon) {
+      const [lat, lon] = [command.x, command.y];
+      if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+        throw new Error("Latitude must be within ±90° and longitude ±180°");
+      }
+      return fromLonLat([lon, lat]);
+    }
+    const lonLat = crsCoordinateToLonLat(command.x, command.y, context.crs);
+    if (!lonLat) {
+      throw new Error("Coordinates are outside the job coordinate system");
+    }
+    return fromLonLat(lonLat);
+  }
+
+  const { lastVertex, cursor } = context;
+  if (!lastVertex) {
+    throw new Error("Click the first point, or type its coordinates");
+  }
+
+  if (command.kind === "length") {
+    let bearing = command.bearing;
+    if (bearing === null) {
+      const target =
+        cursor && context.orthoMode ? constrainToOrtho(lastVertex, cursor) : cursor;
+      bearing = target ? getMapBearing(lastVertex, target) : null;
+      if (bearing === null) {
+        throw new Error("Move the cursor to set the direction, or add @bearing");
+      }
+    }
+    return offsetMapCoordinate(lastVertex, command.length, bearing);
+  }
+
+  // Bearing only: use the cursor's distance along the bearing
+  if (!cursor) {
+    throw new Error("Move the cursor to set the length");
+  }
+  const cursorBearing = getMapBearing(lastVertex, cursor);
+  const cursorDistance = getDistance(toLonLat(lastVertex), toLonLat(cursor));
+  const length =
+    cursorBearing === null
+      ? 0
+      : cursorDistance *
+        Math.cos(((cursorBearing - command.bearing) * Math.PI) / 180);
+  if (!(length > 0)) {
+    throw new Error("Move the cursor ahead along the bearing to set the length");
+  }
+  return offsetMapCoordinate(lastVertex, length, command.bearing);
+};
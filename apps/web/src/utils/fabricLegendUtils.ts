@@ -1,5 +1,6 @@
 import * as fabric from "fabric";
 import type { LegendMetadata, LegendMetadataItem } from "./legendMetadataUtils";
+import { formatQuantity, type QuantitiesReport } from "./quantitiesUtils";
 
 const ROW_HEIGHT = 30;
 const ICON_WIDTH = 60;
@@ -9,6 +10,7 @@ const TITLE_HEIGHT = 28;
 const LABEL_FONT_SIZE = 12;
 const TITLE_FONT_SIZE = 14;
 const COL_GAP = 8;
+const GROUP_HEADING_HEIGHT = 24;
 
 /**
  * Attempt to load an SVG from the given path.
@@ -281,3 +283,185 @@ export async function buildFabricLegend(
 
   return group;
 }
+
+/**
+ * Measure the widest of the given strings at the label font size.
+ */
+function measureMaxTextWidth(texts: string[], minWidth: number): number {
+  const measureCanvas = document.createElement("canvas");
+  const ctx = measureCanvas.getContext("2d");
+  if (!ctx) {
+    return Math.max(...texts.map((text) => text.length * 8), minWidth);
+  }
+  ctx.font = `${LABEL_FONT_SIZE}px Arial, sans-serif`;
+  return Math.max(...texts.map((text) => ctx.measureText(text).width), minWidth);
+}
+
+/**
+ * Build a Fabric.js Group with a bill of quantities table: one row per legend
+ * type (total length) and icon (count), under a heading per folder when the
+ * report is grouped by folder. Returns null if there is nothing to list.
+ *
+ * Uses the same center-origin layout as buildFabricLegend.
+ */
+export async function buildFabricQuantitiesTable(
+  report: QuantitiesReport,
+  options?: FabricLegendOptions,
+): Promise<fabric.Group | null> {
+  const groups = report.groups.filter((group) => group.items.length > 0);
+  if (!groups.length) return null;
+
+  // Headings only when grouped by folder
+  const showHeadings = groups.length > 1 || groups[0].folderId !== null;
+
+  const objects: fabric.FabricObject[] = [];
+  const allItems = groups.flatMap((group) => group.items);
+
+  const maxLabelWidth = measureMaxTextWidth(
+    [
+      ...allItems.map((item) => item.label),
+      ...(showHeadings ? groups.map((group) => group.name) : []),
+    ],
+    100,
+  );
+  const maxQuantityWidth = measureMaxTextWidth(
+    allItems.map((item) => formatQuantity(item)),
+    60,
+  );
+  const contentWidth =
+    PADDING + ICON_WIDTH + COL_GAP + maxLabelWidth + COL_GAP * 3 + maxQuantityWidth + PADDING;
+  const totalHeight =
+    PADDING +
+    TITLE_HEIGHT +
+    (showHeadings ? groups.length * GROUP_HEADING_HEIGHT : 0) +
+    allItems.length * ROW_HEIGHT +
+    PADDING;
+
+  const cx = contentWidth / 2;
+  const cy = totalHeight / 2;
+
+  // Background
+  objects.push(
+    new fabric.Rect({
+      left: 0,
+      top: 0,
+      width: contentWidth,
+      height: totalHeight,
+      fill: "#ffffff",
+      stroke: "#000000",
+      strokeWidth: 1.5,
+      originX: "center",
+      originY: "center",
+      selectable: false,
+      evented: false,
+    }),
+  );
+
+  // Title (editable)
+  objects.push(
+    new fabric.IText("BILL OF QUANTITIES:-", {
+      left: PADDING - cx,
+      top: PADDING - cy,
+      fontSize: TITLE_FONT_SIZE,
+      fontWeight: "bold",
+      fontFamily: "Arial, sans-serif",
+      fill: "#000000",
+      underline: true,
+      originX: "left",
+      originY: "top",
+      selectable: true,
+      evented: true,
+    }),
+  );
+
+  let rowY = PADDING + TITLE_HEIGHT;
+  for (const group of groups) {
+    if (showHeadings) {
+      objects.push(
+        new fabric.IText(group.name, {
+          left: PADDING - cx,
+          top: rowY + GROUP_HEADING_HEIGHT / 2 - cy,
+          fontSize: LABEL_FONT_SIZE,
+          fontWeight: "bold",
+          fontFamily: "Arial, sans-serif",
+          fill: "#000000",
+          originX: "left",
+          originY: "center",
+          selectable: true,
+          evented: true,
+        }),
+      );
+      rowY += GROUP_HEADING_HEIGHT;
+    }
+
+    for (const item of group.items) {
+      const iconCenterY = rowY + ROW_HEIGHT / 2;
+
+      const icon = await buildRowIcon(item);
+      icon.set({
+        left: PADDING - cx,
+        top: iconCenterY - cy,
+        originX: "left",
+        originY: "center",
+        selectable: true,
+        evented: true,
+      });
+      objects.push(icon);
+
+      objects.push(
+        new fabric.IText(item.label, {
+          left: PADDING + ICON_WIDTH + COL_GAP - cx,
+          top: iconCenterY - cy,
+          fontSize: LABEL_FONT_SIZE,
+          fontFamily: "Arial, sans-serif",
+          fill: "#000000",
+          originX: "left",
+          originY: "center",
+          selectable: true,
+          evented: true,
+        }),
+      );
+
+      // Quantity, right-aligned
+      objects.push(
+        new fabric.IText(formatQuantity(item), {
+          left: contentWidth - PADDING - cx,
+          top: iconCenterY - cy,
+          fontSize: LABEL_FONT_SIZE,
+          fontFamily: "Arial, sans-serif",
+          fill: "#000000",
+          originX: "right",
+          originY: "center",
+          selectable: true,
+          evented: true,
+        }),
+      );
+
+      rowY += ROW_HEIGHT;
+    }
+  }
+
+  // Position: default to bottom-left if canvas dimensions are provided, so
+  // it doesn't overlap the legend in the bottom-right corner
+  const margin = 20;
+  let tableLeft = options?.left ?? margin;
+  let tableTop = options?.top ?? margin;
+
+  if (options?.canvasWidth && options?.canvasHeight) {
+    tableLeft = options.left ?? margin;
+    tableTop = options.top ?? (options.canvasHeight - totalHeight - margin);
+  }
+
+  const group = new fabric.Group(objects, {
+    left: tableLeft,
+    top: tableTop,
+    selectable: true,
+    evented: true,
+    subTargetCheck: true,
+    interactive: true,
+  });
+
+  (group as fabric.Group & { isQuantitiesGroup?: boolean }).isQuantitiesGroup = true;
+
+  return group;
+}
@@ -0,0 +1,310 @@
+import * as fabric from "fabric";
+import type { MapImageScale } from "./mapImageExport";
+import { formatScale } from "./titleBlockUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ScaleObjectType = "scaleBar" | "scaleText" | "northArrow";
+
+type ScaleObject = fabric.FabricObject & {
+  scaleObjectType?: ScaleObjectType;
+  // Ground length the scale bar stands for and its width on the sheet
+  scaleBarMeters?: number;
+  scaleBarWidth?: number;
+};
+
+type MapImage = fabric.FabricImage & {
+  isMapImage?: boolean;
+  mapMetersPerPixel?: number;
+  mapRotation?: number;
+};
+
+/**
+ * Scale of the map image as placed on the sheet
+ */
+export interface SheetScale {
+  // Ground metres per sheet pixel
+  metersPerSheetPixel: number;
+  // Scale denominator, e.g. 2500 for 1:2500
+  denominator: number;
+  // Direction of north on the sheet, degrees clockwise from up
+  northAngle: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Layout pages are laid out at 72 DPI (see PAGE_SIZES in components/layout)
+export const SHEET_METERS_PER_PIXEL = 0.0254 / 72;
+
+// Preferred width of a new scale bar in sheet pixels
+const SCALE_BAR_TARGET_WIDTH = 160;
+const SCALE_BAR_SEGMENTS = 4;
+const SCALE_BAR_HEIGHT = 6;
+const SCALE_BAR_FONT_SIZE = 10;
+
+const NORTH_ARROW_SIZE = 40;
+
+// Keep the scale of the map image and the scale objects when layouts are
+// saved as JSON
+fabric.FabricObject.customProperties = Array.from(
+  new Set([
+    ...fabric.FabricObject.customProperties,
+    "isMapImage",
+    "mapMetersPerPixel",
+    "mapRotation",
+    "scaleObjectType",
+    "scaleBarMeters",
+    "scaleBarWidth",
+  ]),
+);
+
+// ============================================================================
+// SHEET SCALE
+// ============================================================================
+
+/**
+ * Store the export's scale on the map image so it survives saving the layout
+ */
+export const setMapImageScale = (
+  image: fabric.FabricImage,
+  scale: MapImageScale,
+) => {
+  (image as MapImage).mapMetersPerPixel = scale.metersPerPixel;
+  (image as MapImage).mapRotation = scale.rotation;
+};
+
+// The exported map image, or else the first map frame (see mapFrameUtils)
+const findMapImage = (canvas: fabric.StaticCanvas): MapImage | undefined => {
+  const images = canvas
+    .getObjects()
+    .filter((object) => !!(object as MapImage).mapMetersPerPixel) as MapImage[];
+  return images.find((image) => image.isMapImage) ?? images[0];
+};
+
+/**
+ * Scale of the map image at its current size and angle on the sheet, or null
+ * if the sheet has no map image with a known scale
+ */
+export const getSheetScale = (canvas: fabric.StaticCanvas): SheetScale | null => {
+  const image = findMapImage(canvas);
+  if (!image?.mapMetersPerPixel || !image.scaleX) return null;
+
+  const metersPerSheetPixel = image.mapMetersPerPixel / image.scaleX;
+  return {
+    metersPerSheetPixel,
+    denominator: metersPerSheetPixel / SHEET_METERS_PER_PIXEL,
+    northAngle: ((image.mapRotation ?? 0) * 180) / Math.PI + (image.angle ?? 0),
+  };
+};
+
+// ============================================================================
+// SCALE OBJECTS
+// ============================================================================
+
+export const getScaleObjectType = (
+  object: fabric.FabricObject,
+): ScaleObjectType | undefined => (object as ScaleObject).scaleObjectType;
+
+// 1, 2 or 5 times a power of ten, no more than the given length
+const getNiceLength = (meters: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(meters)));
+  const step = [5, 2, 1].find((factor) => factor * magnitude <= meters) ?? 1;
+  return step * magnitude;
+};
+
+const formatBarLength = (meters: number): string =>
+  meters >= 1000 ? `${+(meters / 1000).toFixed(2)} km` : `${+meters.toFixed(2)} m`;
+
+/**
+ * Alternating black and white scale bar with its length marked, true to the
+ * given sheet scale. Keeps the length of an earlier bar if given.
+ */
+export function buildFabricScaleBar(
+  sheetScale: SheetScale,
+  options?: { left?: number; top?: number; meters?: number },
+): fabric.Group {
+  const meters =
+    options?.meters ??
+    getNiceLength(SCALE_BAR_TARGET_WIDTH * sheetScale.metersPerSheetPixel);
+  const width = meters / sheetScale.metersPerSheetPixel;
+  const segmentWidth = width / SCALE_BAR_SEGMENTS;
+
+  const objects: fabric.FabricObject[] = [];
+  for (let i = 0; i < SCALE_BAR_SEGMENTS; i++) {
+    objects.push(
+      new fabric.Rect({
+        left: i * segmentWidth,
+        top: SCALE_BAR_FONT_SIZE + 4,
+        width: segmentWidth,
+        height: SCALE_BAR_HEIGHT,
+        fill: i % 2 === 0 ? "#000000" : "#ffffff",
+        stroke: "#000000",
+        strokeWidth: 1,
+        originX: "left",
+        originY: "top",
+      }),
+    );
+  }
+
+  [
+    { position: 0, text: "0" },
+    { position: width / 2, text: formatBarLength(meters / 2) },
+    { position: width, text: formatBarLength(meters) },
+  ].forEach((label) => {
+    objects.push(
+      new fabric.FabricText(label.text, {
+        left: label.position,
+        top: 0,
+        fontSize: SCALE_BAR_FONT_SIZE,
+        fontFamily: "Arial, sans-serif",
+        fill: "#000000",
+        originX: "center",
+        originY: "top",
+      }),
+    );
+  });
+
+  const group = new fabric.Group(objects, {
+    left: options?.left ?? 40,
+    top: options?.top ?? 40,
+    originX: "left",
+    originY: "top",
+    // Stretching would make it wrong; it is rebuilt when the map is resized
+    lockScalingX: true,
+    lockScalingY: true,
+    lockRotation: true,
+  });
+  (group as ScaleObject).scaleObjectType = "scaleBar";
+  (group as ScaleObject).scaleBarMeters = meters;
+  (group as ScaleObject).scaleBarWidth = width;
+
+  return group;
+}
+
+/**
+ * Stated scale ratio, e.g. "Scale 1:2500"
+ */
+export function buildFabricScaleText(
+  sheetScale: SheetScale,
+  options?: { left?: number; top?: number },
+): fabric.IText {
+  const text = new fabric.IText(`Scale ${formatScale(sheetScale.denominator)}`, {
+    left: options?.left ?? 40,
+    top: options?.top ?? 80,
+    fontSize: 14,
+    fontFamily: "Arial, sans-serif",
+    fill: "#000000",
+    originX: "left",
+    originY: "top",
+  });
+  (text as ScaleObject).scaleObjectType = "scaleText";
+  return text;
+}
+
+/**
+ * North arrow pointing to north on the map image
+ */
+export function buildFabricNorthArrow(
+  sheetScale: SheetScale,
+  options?: { left?: number; top?: number },
+): fabric.Group {
+  const half = NORTH_ARROW_SIZE / 2;
+  const group = new fabric.Group(
+    [
+      // Left half filled, right half outlined
+      new fabric.Polygon(
+        [
+          { x: 0, y: -half },
+          { x: -half * 0.5, y: half * 0.6 },
+          { x: 0, y: half * 0.3 },
+        ],
+        { fill: "#000000", stroke: "#000000", strokeWidth: 1 },
+      ),
+      new fabric.Polygon(
+        [
+          { x: 0, y: -half },
+          { x: half * 0.5, y: half * 0.6 },
+          { x: 0, y: half * 0.3 },
+        ],
+        { fill: "#ffffff", stroke: "#000000", strokeWidth: 1 },
+      ),
+      new fabric.FabricText("N", {
+        left: 0,
+        top: -half - 4,
+        fontSize: 14,
+        fontWeight: "bold",
+        fontFamily: "Arial, sans-serif",
+        fill: "#000000",
+        originX: "center",
+        originY: "bottom",
+      }),
+    ],
+    {
+      left: options?.left ?? 60,
+      top: options?.top ?? 140,
+      originX: "center",
+      originY: "center",
+      angle: sheetScale.northAngle,
+      // Its direction comes from the map image
+      lockRotation: true,
+    },
+  );
+  (group as ScaleObject).scaleObjectType = "northArrow";
+  return group;
+}
+
+/**
+ * Bring the scale objects on the sheet in line with the map image after it
+ * was resized or turned. Returns the sheet scale, or null if it is unknown.
+ */
+export const syncScaleObjects = (canvas: fabric.StaticCanvas): SheetScale | null => {
+  const sheetScale = getSheetScale(canvas);
+  if (!sheetScale) return null;
+
+  let changed = false;
+  [...canvas.getObjects()].forEach((object) => {
+    switch (getScaleObjectType(object)) {
+      case "scaleText": {
+        const text = `Scale ${formatScale(sheetScale.denominator)}`;
+        if (object instanceof fabric.IText && object.text !== text) {
+          object.set("text", text);
+          changed = true;
+        }
+        break;
+      }
+      case "northArrow":
+        if (Math.abs((object.angle ?? 0) - sheetScale.northAngle) > 1e-6) {
+          object.rotate(sheetScale.northAngle);
+          object.setCoords();
+          changed = true;
+        }
+        break;
+      case "scaleBar": {
+        const { scaleBarMeters: meters, scaleBarWidth } = object as ScaleObject;
+        const width = meters ? meters / sheetScale.metersPerSheetPixel : 0;
+        if (!meters || !scaleBarWidth || Math.abs(scaleBarWidth - width) > 0.5) {
+          // Same place; a new length if the old one no longer fits well
+          const keepLength =
+            width > SCALE_BAR_TARGET_WIDTH / 3 && width < SCALE_BAR_TARGET_WIDTH * 3;
+          const bar = buildFabricScaleBar(sheetScale, {
+            left: object.left,
+            top: object.top,
+            meters: keepLength ? meters : undefined,
+          });
+          const index = canvas.getObjects().indexOf(object);
+          canvas.remove(object);
+          canvas.insertAt(index, bar);
+          changed = true;
+        }
+        break;
+      }
+    }
+  });
+
+  if (changed) canvas.requestRenderAll();
+  return sheetScale;
+};
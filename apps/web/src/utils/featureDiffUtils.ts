@@ -0,0 +1,377 @@
+import { getDistance } from "ol/sphere";
+import { DERIVED_FROM_KEY, isGeneratedPlacemarkId } from "./featureIdUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FeatureDiffStatus =
+  | "added"
+  | "removed"
+  | "geometry-changed"
+  | "property-changed"
+  | "unchanged";
+
+export interface GeoJSONGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometry[];
+}
+
+export interface GeoJSONFeature {
+  type?: "Feature";
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+export interface FeatureCollectionLike {
+  type?: "FeatureCollection";
+  features: GeoJSONFeature[];
+}
+
+export interface FeatureDiffEntry {
+  status: FeatureDiffStatus;
+  /** Feature in the base (older) collection; null when added */
+  base: GeoJSONFeature | null;
+  /** Feature in the target (newer) collection; null when removed */
+  target: GeoJSONFeature | null;
+  /** How base and target were paired; null for unmatched features */
+  matchedBy: "id" | "proximity" | null;
+  /** Property keys whose values differ between base and target */
+  changedProperties: string[];
+  label: string;
+}
+
+export interface FeatureDiffResult {
+  entries: FeatureDiffEntry[];
+  counts: Record<FeatureDiffStatus, number>;
+}
+
+export interface FeatureDiffOptions {
+  /** Max centroid distance (metres) for pairing features without a shared ID */
+  proximityTolerance?: number;
+  /** Max per-vertex difference (degrees) still treated as the same geometry */
+  coordinateTolerance?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const FEATURE_DIFF_STATUSES: FeatureDiffStatus[] = [
+  "added",
+  "removed",
+  "geometry-changed",
+  "property-changed",
+  "unchanged",
+];
+
+export const FEATURE_DIFF_COLORS: Record<FeatureDiffStatus, string> = {
+  added: "#16a34a",
+  removed: "#dc2626",
+  "geometry-changed": "#ea580c",
+  "property-changed": "#2563eb",
+  unchanged: "#9ca3af",
+};
+
+export const FEATURE_DIFF_LABELS: Record<FeatureDiffStatus, string> = {
+  added: "Added",
+  removed: "Removed",
+  "geometry-changed": "Geometry changed",
+  "property-changed": "Properties changed",
+  unchanged: "Unchanged",
+};
+
+const DEFAULT_PROXIMITY_TOLERANCE = 25;
+const DEFAULT_COORDINATE_TOLERANCE = 1e-7;
+
+/**
+ * Properties that legitimately differ between a job and its exported copy
+ * (folder ids are regenerated on import, KML adds style references) and
+ * therefore must not count as edits.
+ */
+const DIFF_IGNORED_PROPERTY_KEYS = new Set([
+  "folderId",
+  "styleUrl",
+  "featureType",
+  DERIVED_FROM_KEY,
+]);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Stable identifier of a GeoJSON feature, if it carries one that survives
+ * export/import round trips. Generated placemark IDs are ignored.
+ */
+export const getStableFeatureId = (feature: GeoJSONFeature): string | null => {
+  if (feature.id === undefined || feature.id === null || feature.id === "") {
+    return null;
+  }
+  const id = String(feature.id);
+  return isGeneratedPlacemarkId(id) ? null : id;
+};
+
+const getGeometryFamily = (geometry: GeoJSONGeometry | null): string => {
+  const type = geometry?.type || "";
+  if (type.includes("Point")) return "point";
+  if (type.includes("LineString")) return "line";
+  if (type.includes("Polygon")) return "polygon";
+  return type;
+};
+
+const flattenCoordinates = (geometry: GeoJSONGeometry | null): number[][] => {
+  if (!geometry) return [];
+  if (geometry.type === "GeometryCollection") {
+    return (geometry.geometries || []).flatMap(flattenCoordinates);
+  }
+
+  const result: number[][] = [];
+  const walk = (value: unknown) => {
+    if (!Array.isArray(value)) return;
+    if (typeof value[0] === "number") {
+      result.push(value as number[]);
+      return;
+    }
+    value.forEach(walk);
+  };
+  walk(geometry.coordinates);
+  return result;
+};
+
+const getCentroid = (coords: number[][]): number[] | null => {
+  if (coords.length === 0) return null;
+  let sumX = 0;
+  let sumY = 0;
+  coords.forEach(([x, y]) => {
+    sumX += x;
+    sumY += y;
+  });
+  return [sumX / coords.length, sumY / coords.length];
+};
+
+const geometriesEqual = (
+  a: GeoJSONGeometry | null,
+  b: GeoJSONGeometry | null,
+  tolerance: number,
+): boolean => {
+  if (a?.type !== b?.type) return false;
+  const coordsA = flattenCoordinates(a);
+  const coordsB = flattenCoordinates(b);
+  if (coordsA.length !== coordsB.length) return false;
+
+  return coordsA.every(
+    (coord, i) =>
+      Math.abs(coord[0] - coordsB[i][0]) <= tolerance &&
+      Math.abs(coord[1] - coordsB[i][1]) <= tolerance,
+  );
+};
+
+// KML ExtendedData turns every value into a string, so compare loosely
+const normalizePropertyValue = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const getChangedProperties = (
+  a: GeoJSONFeature,
+  b: GeoJSONFeature,
+): string[] => {
+  const propsA = a.properties || {};
+  const propsB = b.properties || {};
+  const keys = new Set([...Object.keys(propsA), ...Object.keys(propsB)]);
+
+  return [...keys]
+    .filter(
+      (key) =>
+        !DIFF_IGNORED_PROPERTY_KEYS.has(key) &&
+        !key.startsWith("_") &&
+        normalizePropertyValue(propsA[key]) !==
+          normalizePropertyValue(propsB[key]),
+    )
+    .sort();
+};
+
+export const getFeatureDiffLabel = (feature: GeoJSONFeature | null): string => {
+  const props = feature?.properties || {};
+  const name = props.name || props.text || props.legendType;
+  if (name) return String(name);
+  return feature?.geometry?.type || "Feature";
+};
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Classify every feature of two collections as added, removed,
+ * geometry-changed, property-changed or unchanged.
+ *
+ * Features are paired by their stable ID first. Whatever is left is paired
+ * by proximity: same geometry family, closest centroid within
+ * `proximityTolerance` metres, preferring pairs that share a name.
+ * A pair whose geometry and properties both changed is reported as
+ * geometry-changed, with the property keys listed in `changedProperties`.
+ */
+export function diffFeatureCollections(
+  base: FeatureCollectionLike | null,
+  target: FeatureCollectionLike | null,
+  options: FeatureDiffOptions = {},
+): FeatureDiffResult {
+  const proximityTolerance =
+    options.proximityTolerance ?? DEFAULT_PROXIMITY_TOLERANCE;
+  const coordinateTolerance =
+    options.coordinateTolerance ?? DEFAULT_COORDINATE_TOLERANCE;
+
+  const baseFeatures = base?.features || [];
+  const targetFeatures = target?.features || [];
+
+  const pairs: Array<{
+    base: GeoJSONFeature;
+    target: GeoJSONFeature;
+    matchedBy: "id" | "proximity";
+  }> = [];
+  const unmatchedBase = new Set<number>(baseFeatures.map((_, i) => i));
+  const unmatchedTarget = new Set<number>(targetFeatures.map((_, i) => i));
+
+  // Step 1: Pair by stable ID
+  const baseById = new Map<string, number>();
+  baseFeatures.forEach((feature, index) => {
+    const id = getStableFeatureId(feature);
+    if (id && !baseById.has(id)) baseById.set(id, index);
+  });
+
+  targetFeatures.forEach((feature, targetIndex) => {
+    const id = getStableFeatureId(feature);
+    if (!id) return;
+    const baseIndex = baseById.get(id);
+    if (baseIndex === undefined || !unmatchedBase.has(baseIndex)) return;
+
+    pairs.push({
+      base: baseFeatures[baseIndex],
+      target: feature,
+      matchedBy: "id",
+    });
+    unmatchedBase.delete(baseIndex);
+    unmatchedTarget.delete(targetIndex);
+  });
+
+  // Step 2: Pair the remainder by geometry proximity
+  const centroids = (features: GeoJSONFeature[], indices: Set<number>) => {
+    const result = new Map<number, number[]>();
+    indices.forEach((index) => {
+      const centroid = getCentroid(flattenCoordinates(features[index].geometry));
+      if (centroid) result.set(index, centroid);
+    });
+    return result;
+  };
+  const baseCentroids = centroids(baseFeatures, unmatchedBase);
+  const targetCentroids = centroids(targetFeatures, unmatchedTarget);
+
+  const candidates: Array<{
+    baseIndex: number;
+    targetIndex: number;
+    distance: number;
+    sameName: boolean;
+  }> = [];
+
+  baseCentroids.forEach((baseCentroid, baseIndex) => {
+    const baseFeature = baseFeatures[baseIndex];
+    const family = getGeometryFamily(baseFeature.geometry);
+    const baseName = baseFeature.properties?.name;
+
+    targetCentroids.forEach((targetCentroid, targetIndex) => {
+      const targetFeature = targetFeatures[targetIndex];
+      if (getGeometryFamily(targetFeature.geometry) !== family) return;
+
+      const distance = getDistance(baseCentroid, targetCentroid);
+      if (distance > proximityTolerance) return;
+
+      candidates.push({
+        baseIndex,
+        targetIndex,
+        distance,
+        sameName: !!baseName && baseName === targetFeature.properties?.name,
+      });
+    });
+  });
+
+  candidates
+    .sort((a, b) =>
+      a.sameName === b.sameName
+        ? a.distance - b.distance
+        : a.sameName
+          ? -1
+          : 1,
+    )
+    .forEach(({ baseIndex, targetIndex }) => {
+      if (!unmatchedBase.has(baseIndex) || !unmatchedTarget.has(targetIndex)) {
+        return;
+      }
+      pairs.push({
+        base: baseFeatures[baseIndex],
+        target: targetFeatures[targetIndex],
+        matchedBy: "proximity",
+      });
+      unmatchedBase.delete(baseIndex);
+      unmatchedTarget.delete(targetIndex);
+    });
+
+  // Step 3: Classify
+  const entries: FeatureDiffEntry[] = pairs.map((pair) => {
+    const changedProperties = getChangedProperties(pair.base, pair.target);
+    const geometryChanged = !geometriesEqual(
+      pair.base.geometry,
+      pair.target.geometry,
+      coordinateTolerance,
+    );
+
+    const status: FeatureDiffStatus = geometryChanged
+      ? "geometry-changed"
+      : changedProperties.length > 0
+        ? "property-changed"
+        : "unchanged";
+
+    return {
+      status,
+      base: pair.base,
+      target: pair.target,
+      matchedBy: pair.matchedBy,
+      changedProperties,
+      label: getFeatureDiffLabel(pair.target),
+    };
+  });
+
+  unmatchedTarget.forEach((index) => {
+    entries.push({
+      status: "added",
+      base: null,
+      target: targetFeatures[index],
+      matchedBy: null,
+      changedProperties: [],
+      label: getFeatureDiffLabel(targetFeatures[index]),
+    });
+  });
+
+  unmatchedBase.forEach((index) => {
+    entries.push({
+      status: "removed",
+      base: baseFeatures[index],
+      target: null,
+      matchedBy: null,
+      changedProperties: [],
+      label: getFeatureDiffLabel(baseFeatures[index]),
+    });
+  });
+
+  const counts = FEATURE_DIFF_STATUSES.reduce(
+    (acc, status) => ({ ...acc, [status]: 0 }),
+    {} as Record<FeatureDiffStatus, number>,
+  );
+  entries.forEach((entry) => counts[entry.status]++);
+
+  return { entries, counts };
+}
@@ -0,0 +1,153 @@
+import type { Feature } from "ol";
+import type { Geometry } from "ol/geom";
+import type { Vector as VectorSource } from "ol/source";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Property listing the ids of the features a feature was derived from
+ * (split/break pieces, merge partners, offset copies), comma-separated so it
+ * survives KML ExtendedData, which only stores strings.
+ */
+export const DERIVED_FROM_KEY = "derivedFrom";
+
+// Placemark ids generated on import by assignUniquePlacemarkIds
+const GENERATED_PLACEMARK_ID = /^pm_\d+_\d+$/;
+
+/**
+ * True for ids generated during KML import, which change on every import
+ * and so can't identify a feature.
+ */
+export const isGeneratedPlacemarkId = (id: string): boolean =>
+  GENERATED_PLACEMARK_ID.test(id);
+
+// ============================================================================
+// FEATURE IDS
+// ============================================================================
+
+export const generateFeatureId = (): string => crypto.randomUUID();
+
+/**
+ * Get the persistent id of a feature, assigning a new UUID if it has none.
+ * The id is the OpenLayers feature id, so GeoJSON writes it as `id` and KML
+ * as the Placemark `id` attribute without extra handling.
+ */
+export const getFeatureId = (feature: Feature<Geometry>): string => {
+  const id = feature.getId();
+  if (id !== undefined && id !== null && id !== "") {
+    return String(id);
+  }
+
+  const newId = generateFeatureId();
+  feature.setId(newId);
+  return newId;
+};
+
+/**
+ * Make sure every feature about to be added to `vectorSource` has an id that
+ * is unique both among `features` and in the source. Features without an id,
+ * with an id generated during KML import, or whose id is already taken get
+ * a fresh UUID; all other ids are kept as they are.
+ */
+export const ensureUniqueFeatureIds = (
+  features: Feature<Geometry>[],
+  vectorSource?: VectorSource<Feature<Geometry>>,
+): void => {
+  const seen = new Set<string>();
+
+  features.forEach((feature) => {
+    const id = feature.getId();
+    const idString = id === undefined || id === null ? "" : String(id);
+
+    const needsNewId =
+      !idString ||
+      isGeneratedPlacemarkId(idString) ||
+      seen.has(idString) ||
+      (!!vectorSource && !!vectorSource.getFeatureById(idString));
+
+    const finalId = needsNewId ? generateFeatureId() : idString;
+    if (needsNewId) feature.setId(finalId);
+    seen.add(finalId);
+  });
+};
+
+// ============================================================================
+// LINEAGE
+// ============================================================================
+
+export const getDerivedFrom = (feature: Feature<Geometry>): string[] => {
+  const value = feature.get(DERIVED_FROM_KEY);
+  if (!value) return [];
+  return String(value)
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+};
+
+const setDerivedFrom = (feature: Feature<Geometry>, ids: string[]): void => {
+  const unique = [...new Set(ids)].filter((id) => id !== feature.getId());
+  if (unique.length > 0) {
+    feature.set(DERIVED_FROM_KEY, unique.join(","));
+  } else {
+    feature.unset(DERIVED_FROM_KEY);
+  }
+};
+
+/**
+ * Assign ids to the pieces of a split/break. The first piece continues the
+ * original feature and keeps its id (so hidden state and references stay
+ * attached); every other piece gets a new id derived from the original.
+ *
+ * The original must already be removed from its source, or the pieces must
+ * not be added yet, since a source can't hold two features with one id.
+ */
+export const assignSplitFeatureIds = (
+  original: Feature<Geometry>,
+  pieces: Feature<Geometry>[],
+): void => {
+  const originalId = getFeatureId(original);
+  const originalLineage = getDerivedFrom(original);
+
+  pieces.forEach((piece, index) => {
+    if (index === 0) {
+      piece.setId(originalId);
+      setDerivedFrom(piece, originalLineage);
+    } else {
+      piece.setId(generateFeatureId());
+      setDerivedFrom(piece, [originalId]);
+    }
+  });
+};
+
+/**
+ * Merged features keep the id of the primary feature and record the
+ * absorbed feature (plus both lineages) in derivedFrom.
+ */
+export const assignMergedFeatureId = (
+  merged: Feature<Geometry>,
+  primary: Feature<Geometry>,
+  absorbed: Feature<Geometry>,
+): void => {
+  const primaryId = getFeatureId(primary);
+  const absorbedId = getFeatureId(absorbed);
+
+  merged.setId(primaryId);
+  setDerivedFrom(merged, [
+    ...getDerivedFrom(primary),
+    absorbedId,
+    ...getDerivedFrom(absorbed),
+  ]);
+};
+
+/**
+ * Copies (offset, paste) are new features derived from their source.
+ */
+export const assignCopiedFeatureId = (
+  copy: Feature<Geometry>,
+  source: Feature<Geometry>,
+): void => {
+  copy.setId(generateFeatureId());
+  setDerivedFrom(copy, [getFeatureId(source)]);
+};
@@ -67,8 +67,8 @@ export const isEditableFeature = (feature: FeatureLike): boolean => {
     return false;
   }
 
-  // NOT editable: Box, Circle, and Revision Cloud shapes (no vertex editing)
-  if (feature.get("isBox") || feature.get("isCircle") || feature.get("isRevisionCloud")) {
+  // NOT editable: Box, Circle, Revision Cloud and Buffer shapes (no vertex editing)
+  if (feature.get("isBox") || feature.get("isCircle") || feature.get("isRevisionCloud") || feature.get("isBuffer")) {
     return false;
   }
 
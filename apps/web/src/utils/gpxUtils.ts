@@ -0,0 +1,216 @@
+import { Feature } from "ol";
+import GPX from "ol/format/GPX";
+import {
+  LineString,
+  MultiLineString,
+  Point,
+  type Geometry,
+  type SimpleGeometry,
+} from "ol/geom";
+import { toLonLat } from "ol/proj";
+import type { Folder } from "@/types/folders";
+import type { ParsedImportFile } from "@/utils/importUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GpxReadOptions {
+  // Douglas-Peucker tolerance in metres for track and route lines, if any
+  simplifyTolerance?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default tolerance offered for simplifying walked tracks, in metres
+ */
+export const DEFAULT_GPX_SIMPLIFY_TOLERANCE = 2;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Time (seconds since the epoch, stored as the M value by OpenLayers) of
+ * each vertex, or nothing if the geometry has no M values
+ */
+const getVertexTimes = (geometry: SimpleGeometry): number[] => {
+  const layout = geometry.getLayout();
+  if (layout !== "XYM" && layout !== "XYZM") return [];
+
+  const stride = geometry.getStride();
+  const flatCoordinates = geometry.getFlatCoordinates();
+  const times: number[] = [];
+  for (let i = stride - 1; i < flatCoordinates.length; i += stride) {
+    times.push(flatCoordinates[i]);
+  }
+  return times;
+};
+
+// OpenLayers pads the M values of points without a time with 0
+const formatTime = (seconds: number | undefined): string | undefined =>
+  seconds !== undefined && Number.isFinite(seconds) && seconds > 0
+    ? new Date(seconds * 1000).toISOString()
+    : undefined;
+
+/**
+ * 2D copy of a line, simplified with a tolerance in metres. Web Mercator
+ * stretches distances by 1 / cos(latitude), so the tolerance is scaled to
+ * map units at the line's first vertex.
+ */
+const toPlainLine = (
+  coordinates: number[][],
+  simplifyTolerance: number | undefined
+): LineString => {
+  const line = new LineString(coordinates.map(([x, y]) => [x, y]));
+  if (!simplifyTolerance || coordinates.length < 3) return line;
+
+  const [, lat] = toLonLat(coordinates[0]);
+  const tolerance = simplifyTolerance / Math.cos((lat * Math.PI) / 180);
+  return line.simplify(tolerance) as LineString;
+};
+
+const createFolder = (name: string, order: number): Folder => ({
+  id: `folder_import_${Date.now()}_${order}`,
+  name,
+  parentId: null,
+  isExpanded: true,
+  order,
+  createdAt: new Date().toISOString(),
+});
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Read GPX tracks, routes and waypoints. Each track gets a folder holding a
+ * polyline per track segment with its start and end time; routes become
+ * polylines and waypoints named points.
+ */
+export const readGpx = (
+  text: string,
+  options: GpxReadOptions = {}
+): ParsedImportFile => {
+  const gpxFeatures = new GPX().readFeatures(text, {
+    featureProjection: "EPSG:3857",
+  });
+
+  const features: Feature<Geometry>[] = [];
+  const folders: Record<string, Folder> = {};
+  let trackCount = 0;
+
+  gpxFeatures.forEach((gpxFeature) => {
+    const geometry = gpxFeature.getGeometry();
+    const name: string | undefined = gpxFeature.get("name");
+    const description: string | undefined = gpxFeature.get("desc");
+
+    // Track: a MultiLineString with a line string per segment
+    if (geometry instanceof MultiLineString) {
+      trackCount++;
+      const folder = createFolder(name || `Track ${trackCount}`, trackCount);
+      const segments = geometry.getLineStrings();
+
+      segments.forEach((segment, index) => {
+        const coordinates = segment.getCoordinates();
+        if (coordinates.length < 2) return;
+
+        const times = getVertexTimes(segment);
+        const feature = new Feature(
+          toPlainLine(coordinates, options.simplifyTolerance)
+        );
+        feature.set("isPolyline", true);
+        feature.set(
+          "name",
+          segments.length > 1 ? `${folder.name} (${index + 1})` : folder.name
+        );
+        feature.set("folderId", folder.id);
+        if (description) feature.set("description", description);
+        const startTime = formatTime(times[0]);
+        const endTime = formatTime(times[times.length - 1]);
+        if (startTime) feature.set("startTime", startTime);
+        if (endTime) feature.set("endTime", endTime);
+        features.push(feature);
+      });
+
+      if (features.some((f) => f.get("folderId") === folder.id)) {
+        folders[folder.id] = folder;
+      }
+      return;
+    }
+
+    // Route
+    if (geometry instanceof LineString) {
+      const coordinates = geometry.getCoordinates();
+      if (coordinates.length < 2) return;
+      const feature = new Feature(
+        toPlainLine(coordinates, options.simplifyTolerance)
+      );
+      feature.set("isPolyline", true);
+      if (name) feature.set("name", name);
+      if (description) feature.set("description", description);
+      features.push(feature);
+      return;
+    }
+
+    // Waypoint
+    if (geometry instanceof Point) {
+      const [x, y] = geometry.getCoordinates();
+      const feature = new Feature(new Point([x, y]));
+      feature.set("isPoint", true);
+      if (name) feature.set("name", name);
+      if (description) feature.set("description", description);
+      const time = formatTime(getVertexTimes(geometry)[0]);
+      if (time) feature.set("time", time);
+      const layout = geometry.getLayout();
+      if (layout === "XYZ" || layout === "XYZM") {
+        feature.set("elevation", String(geometry.getCoordinates()[2]));
+      }
+      features.push(feature);
+    }
+  });
+
+  return { features, folders };
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Write polylines (EPSG:3857) as GPX tracks, one track per feature and a
+ * segment per line part, for loading onto GPS devices. Other geometries are
+ * left out.
+ */
+export const writeGpx = (features: Feature<Geometry>[]): string => {
+  const tracks: Feature<Geometry>[] = [];
+
+  features.forEach((feature, index) => {
+    const geometry = feature.getGeometry();
+    let lines: number[][][] | null = null;
+    if (geometry instanceof LineString) {
+      lines = [geometry.getCoordinates()];
+    } else if (geometry instanceof MultiLineString) {
+      lines = geometry.getCoordinates();
+    }
+    if (!lines) return;
+
+    // Only GPX properties are written, so start from a clean feature
+    const track = new Feature(
+      new MultiLineString(lines.map((line) => line.map(([x, y]) => [x, y])))
+    );
+    track.set("name", feature.get("name") || `Route ${index + 1}`);
+    const description = feature.get("description");
+    if (description) track.set("desc", String(description));
+    tracks.push(track);
+  });
+
+  const gpx = new GPX().writeFeatures(tracks, {
+    featureProjection: "EPSG:3857",
+    dataProjection: "EPSG:4326",
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${gpx}`;
+};
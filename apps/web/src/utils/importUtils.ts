@@ -0,0 +1,428 @@
+import { Feature } from "ol";
+import GeoJSON from "ol/format/GeoJSON";
+import KML from "ol/format/KML";
+import type { Geometry, GeometryCollection, SimpleGeometry } from "ol/geom";
+import { Vector as VectorSource } from "ol/source";
+import type { Folder } from "@/types/folders";
+import {
+  convertFeaturesToGeoJSON,
+  convertGeoJSONToFeatures,
+  normalizeImportedGeoJSON,
+} from "@/utils/serializationUtils";
+import {
+  applyKmlStylesToFeatures,
+  parseKmlStyles,
+  parsePlacemarkStyles,
+  stripChainageLabels,
+} from "@/utils/kmlStyleUtils";
+import {
+  assignUniquePlacemarkIds,
+  extractFolderStructureFromGeoJSON,
+  parseKmlFolders,
+} from "@/utils/kmlFolderUtils";
+import { extractKmlFromArchive } from "@/utils/comparisonSourceUtils";
+import { readShapefileZip } from "@/utils/shapefileUtils";
+import { readDxf } from "@/utils/dxfUtils";
+import { readGpx } from "@/utils/gpxUtils";
+import { transformGeoJSONToWgs84, type CrsOption } from "@/utils/crsUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A parsed file, not yet added to the map. Features are in EPSG:3857 and
+ * carry the `folderId` of the folder they were in, if the file had folders.
+ */
+export interface ParsedImportFile {
+  features: Feature<Geometry>[];
+  folders: Record<string, Folder>;
+}
+
+export interface ParseImportOptions {
+  // Coordinate system of DXF files, which don't record one
+  dxfCrs?: CrsOption;
+  // Simplify GPX tracks and routes to this tolerance in metres
+  gpxSimplifyTolerance?: number;
+}
+
+export interface FileImportOptions extends ParseImportOptions {
+  // Leave out features that match one already in the job
+  skipDuplicates?: boolean;
+  // Put each file in a new folder named after it, even if it has folders
+  // of its own (they are nested inside). Otherwise a folder is only created
+  // for files without any.
+  alwaysCreateFolder?: boolean;
+}
+
+/**
+ * Outcome of importing one file of a batch
+ */
+export interface ImportFileResult {
+  fileName: string;
+  added: number;
+  duplicates: number;
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * File extensions the editor can import
+ */
+export const IMPORT_FILE_ACCEPT = ".geojson,.json,.kml,.kmz,.ds,.zip,.dxf,.gpx";
+
+/**
+ * Options the import dialog starts with. Files imported without the dialog
+ * (opened from the OS or passed on from the job list) use them too.
+ */
+export const DEFAULT_IMPORT_OPTIONS = {
+  skipDuplicates: true,
+  alwaysCreateFolder: true,
+} satisfies FileImportOptions;
+
+// Coordinates closer than this (in map units, i.e. metres) count as equal
+const DUPLICATE_COORDINATE_PRECISION = 0.01;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Read a browser File with the right FileReader mode for its extension.
+ */
+export function readImportFile(file: File): Promise<string | ArrayBuffer> {
+  const name = file.name.toLowerCase();
+  const asBinary =
+    name.endsWith(".kmz") ||
+    name.endsWith(".ds") ||
+    name.endsWith(".zip") ||
+    name.endsWith(".xlsx");
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string | ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    if (asBinary) {
+      reader.readAsArrayBuffer(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
+
+export const isImportableFile = (fileName: string): boolean => {
+  const name = fileName.toLowerCase();
+  return IMPORT_FILE_ACCEPT.split(",").some((extension) =>
+    name.endsWith(extension)
+  );
+};
+
+/**
+ * Parse KML the same way for .kml, .kmz and .ds files: unique placemark ids,
+ * folder assignments, Google Earth styles and the GeoJSON round trip that
+ * normalizes imported geometries.
+ */
+const parseKmlText = (rawKmlText: string): ParsedImportFile => {
+  // Chainage labels written on export are redrawn from the routes
+  const kmlText = stripChainageLabels(rawKmlText);
+
+  // OpenLayers merges Placemarks with the same id, so make them unique first
+  const processedKml = assignUniquePlacemarkIds(kmlText);
+
+  // Folders come from the original text to preserve the hierarchy
+  const { folders, featureFolderMap } = parseKmlFolders(kmlText);
+
+  const kmlFeatures = new KML({ extractStyles: false }).readFeatures(
+    processedKml,
+    {
+      featureProjection: "EPSG:3857",
+      dataProjection: "EPSG:4326", // KML is always in WGS84
+    }
+  );
+
+  // Standard KML styles, for features without ExtendedData styles
+  applyKmlStylesToFeatures(
+    kmlFeatures,
+    parseKmlStyles(kmlText),
+    parsePlacemarkStyles(kmlText)
+  );
+
+  kmlFeatures.forEach((feature, index) => {
+    const folderId = featureFolderMap.get(index);
+    if (folderId) {
+      feature.set("folderId", folderId);
+    }
+  });
+
+  const tempSource = new VectorSource();
+  tempSource.addFeatures(kmlFeatures);
+  const geoJSONData = normalizeImportedGeoJSON(
+    convertFeaturesToGeoJSON(tempSource)
+  );
+
+  return { features: convertGeoJSONToFeatures(geoJSONData), folders };
+};
+
+/**
+ * Features read from named layers. Several layers get a folder each; a
+ * single layer is left for the caller to put in a folder.
+ */
+const layersToImport = (
+  layers: { name: string; features: Feature<Geometry>[] }[]
+): ParsedImportFile => {
+  const folders: Record<string, Folder> = {};
+  const features: Feature<Geometry>[] = [];
+  const nonEmptyLayers = layers.filter((layer) => layer.features.length > 0);
+
+  nonEmptyLayers.forEach((layer, index) => {
+    if (nonEmptyLayers.length > 1) {
+      const folderId = `folder_import_${Date.now()}_${index}`;
+      folders[folderId] = {
+        id: folderId,
+        name: layer.name,
+        parentId: null,
+        isExpanded: true,
+        order: index,
+        createdAt: new Date().toISOString(),
+      };
+      layer.features.forEach((feature) => feature.set("folderId", folderId));
+    }
+    features.push(...layer.features);
+  });
+
+  return { features, folders };
+};
+
+/**
+ * Parse a zipped shapefile, a layer per .shp in the zip
+ */
+const parseShapefileZip = async (
+  data: ArrayBuffer
+): Promise<ParsedImportFile> => {
+  const layers = await readShapefileZip(data);
+  return layersToImport(
+    layers.map((layer) => ({
+      name: layer.name,
+      features: convertGeoJSONToFeatures(layer.features),
+    }))
+  );
+};
+
+/**
+ * Parse a GeoJSON/KML/KMZ/DS/DXF/GPX file or a zipped shapefile into features
+ * and folders without touching the map or the folder store. Throws if the
+ * file can't be read.
+ */
+export async function parseImportFile(
+  fileName: string,
+  data: string | ArrayBuffer,
+  options: ParseImportOptions = {}
+): Promise<ParsedImportFile> {
+  const name = fileName.toLowerCase();
+
+  if (name.endsWith(".geojson") || name.endsWith(".json")) {
+    const json = transformGeoJSONToWgs84(JSON.parse(data as string));
+    return {
+      features: new GeoJSON().readFeatures(json, {
+        featureProjection: "EPSG:3857",
+      }),
+      folders: extractFolderStructureFromGeoJSON(json)?.folders ?? {},
+    };
+  }
+
+  if (name.endsWith(".kml")) {
+    return parseKmlText(data as string);
+  }
+
+  if (name.endsWith(".kmz") || name.endsWith(".ds")) {
+    const kmlText = await extractKmlFromArchive(
+      data as ArrayBuffer,
+      name.endsWith(".ds")
+    );
+    return parseKmlText(kmlText);
+  }
+
+  if (name.endsWith(".zip")) {
+    return parseShapefileZip(data as ArrayBuffer);
+  }
+
+  if (name.endsWith(".gpx")) {
+    return readGpx(data as string, {
+      simplifyTolerance: options.gpxSimplifyTolerance,
+    });
+  }
+
+  if (name.endsWith(".dxf")) {
+    if (!options.dxfCrs) {
+      throw new Error("Choose the coordinate system of the DXF file");
+    }
+    return layersToImport(readDxf(data as string, options.dxfCrs));
+  }
+
+  throw new Error(`Unsupported file type: ${fileName}`);
+}
+
+// ============================================================================
+// FOLDERS
+// ============================================================================
+
+/**
+ * Give imported folders whose id is already taken a fresh id, updating the
+ * folders' parents and the features' `folderId` to match. Exported jobs
+ * reuse their folder ids, so importing two copies would otherwise merge
+ * their folders.
+ */
+export const remapClashingFolderIds = (
+  parsed: ParsedImportFile,
+  existingFolderIds: Set<string>
+): ParsedImportFile => {
+  const idMap = new Map<string, string>();
+  Object.keys(parsed.folders).forEach((id, index) => {
+    if (existingFolderIds.has(id)) {
+      idMap.set(
+        id,
+        `folder_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 9)}`
+      );
+    }
+  });
+  if (idMap.size === 0) return parsed;
+
+  const folders: Record<string, Folder> = {};
+  Object.values(parsed.folders).forEach((folder) => {
+    const id = idMap.get(folder.id) ?? folder.id;
+    const parentId = folder.parentId
+      ? (idMap.get(folder.parentId) ?? folder.parentId)
+      : null;
+    folders[id] = { ...folder, id, parentId };
+  });
+
+  parsed.features.forEach((feature) => {
+    const newId = idMap.get(feature.get("folderId"));
+    if (newId) feature.set("folderId", newId);
+  });
+
+  return { features: parsed.features, folders };
+};
+
+/**
+ * Move a parsed file into `parentId`: its top-level folders and any features
+ * outside a folder end up in the given folder.
+ */
+export const nestImportInFolder = (
+  parsed: ParsedImportFile,
+  parentId: string
+): ParsedImportFile => {
+  const folders: Record<string, Folder> = {};
+  Object.values(parsed.folders).forEach((folder) => {
+    const hasImportedParent =
+      !!folder.parentId && !!parsed.folders[folder.parentId];
+    folders[folder.id] = hasImportedParent
+      ? folder
+      : { ...folder, parentId };
+  });
+
+  parsed.features.forEach((feature) => {
+    const folderId = feature.get("folderId");
+    if (!folderId || !folders[folderId]) {
+      feature.set("folderId", parentId);
+    }
+  });
+
+  return { features: parsed.features, folders };
+};
+
+/**
+ * Drop imported folders that hold none of `features`, directly or through a
+ * subfolder, e.g. after every feature in them was skipped as a duplicate.
+ */
+export const removeUnusedFolders = (
+  parsed: ParsedImportFile
+): ParsedImportFile => {
+  const usedIds = new Set<string>();
+  parsed.features.forEach((feature) => {
+    let folderId: string | null = feature.get("folderId") ?? null;
+    while (folderId && parsed.folders[folderId] && !usedIds.has(folderId)) {
+      usedIds.add(folderId);
+      folderId = parsed.folders[folderId].parentId;
+    }
+  });
+
+  const folders: Record<string, Folder> = {};
+  usedIds.forEach((id) => {
+    folders[id] = parsed.folders[id];
+  });
+  return { features: parsed.features, folders };
+};
+
+// ============================================================================
+// DUPLICATES
+// ============================================================================
+
+const collectCoordinates = (geometry: Geometry, result: number[]): void => {
+  if (geometry.getType() === "GeometryCollection") {
+    (geometry as GeometryCollection)
+      .getGeometries()
+      .forEach((child) => collectCoordinates(child, result));
+    return;
+  }
+  const flatCoordinates = (geometry as SimpleGeometry).getFlatCoordinates?.();
+  if (flatCoordinates) result.push(...flatCoordinates);
+};
+
+/**
+ * Key that is equal for two features with the same geometry (to the
+ * centimetre) and the same name, text and legend. Used to recognize a
+ * feature that is already in the job when the same data is imported again.
+ */
+export const getFeatureFingerprint = (
+  feature: Feature<Geometry>
+): string | null => {
+  const geometry = feature.getGeometry();
+  if (!geometry) return null;
+
+  const coordinates: number[] = [];
+  collectCoordinates(geometry, coordinates);
+  const roundedCoordinates = coordinates
+    .map((value) => Math.round(value / DUPLICATE_COORDINATE_PRECISION))
+    .join(",");
+
+  return [
+    geometry.getType(),
+    roundedCoordinates,
+    feature.get("name") ?? "",
+    feature.get("text") ?? "",
+    feature.get("legendType") ?? "",
+  ].join("|");
+};
+
+/**
+ * Split `features` into those not yet in `vectorSource` and duplicates of
+ * features it already holds (or of an earlier feature in the same list).
+ */
+export const partitionDuplicateFeatures = (
+  features: Feature<Geometry>[],
+  vectorSource: VectorSource<Feature<Geometry>>
+): { unique: Feature<Geometry>[]; duplicates: Feature<Geometry>[] } => {
+  const seen = new Set<string>();
+  vectorSource.getFeatures().forEach((feature) => {
+    const fingerprint = getFeatureFingerprint(feature);
+    if (fingerprint) seen.add(fingerprint);
+  });
+
+  const unique: Feature<Geometry>[] = [];
+  const duplicates: Feature<Geometry>[] = [];
+  features.forEach((feature) => {
+    const fingerprint = getFeatureFingerprint(feature);
+    if (fingerprint && seen.has(fingerprint)) {
+      duplicates.push(feature);
+      return;
+    }
+    if (fingerprint) seen.add(fingerprint);
+    unique.push(feature);
+  });
+
+  return { unique, duplicates };
+};
@@ -18,6 +18,7 @@ import {
 import { applyOrthoToMarkedCoordinates, constrainToOrtho } from "./orthoUtils";
 import { useToolStore } from "@/stores/useToolStore";
 import { useFolderStore } from "@/stores/useFolderStore";
+import { getFeatureId } from "./featureIdUtils";
 
 /**
  * Draw interaction configuration interface
@@ -190,6 +191,9 @@ export const createDrawInteraction = (config: DrawInteractionConfig): Draw => {
 
     const feature = event.feature;
 
+    // Assign the persistent feature id before the feature reaches the source
+    getFeatureId(feature);
+
     // Set feature properties if specified
     if (config.featureProperties) {
       Object.entries(config.featureProperties!).forEach(([key, value]) => {
@@ -225,6 +229,8 @@ interface OrthoGeometryHelper {
   getOrthoStates: () => boolean[];
   reset: () => void;
   recordFinalSegment: () => void;
+  // Keep the next confirmed segment exactly as placed, ignoring ortho mode
+  skipOrthoForNextSegment: () => void;
 }
 
 /**
@@ -237,6 +243,8 @@ const createOrthoGeometryFunction = (): OrthoGeometryHelper => {
   // Track ortho state for each segment during drawing
   // orthoStates[i] = true means segment from coord[i] to coord[i+1] should be ortho
   let orthoStates: boolean[] = [];
+  // Set when the next vertex is placed by typed input rather than a click
+  let skipNextSegment = false;
 
   const geometryFunction = (
     coordinates: Coordinate[] | Coordinate[][],
@@ -259,8 +267,9 @@ const createOrthoGeometryFunction = (): OrthoGeometryHelper => {
     if (confirmedSegments > orthoStates.length) {
       const newSegments = confirmedSegments - orthoStates.length;
       for (let i = 0; i < newSegments; i++) {
-        orthoStates.push(currentOrthoEnabled);
+        orthoStates.push(currentOrthoEnabled && !skipNextSegment);
       }
+      skipNextSegment = false;
     }
 
     // Build the preview coordinates with selective ortho constraint
@@ -297,14 +306,58 @@ const createOrthoGeometryFunction = (): OrthoGeometryHelper => {
   return {
     geometryFunction,
     getOrthoStates: () => [...orthoStates],
-    reset: () => { orthoStates = []; },
+    reset: () => {
+      orthoStates = [];
+      skipNextSegment = false;
+    },
     recordFinalSegment: () => {
       const currentOrthoEnabled = useToolStore.getState().orthoMode;
       orthoStates.push(currentOrthoEnabled);
-    }
+    },
+    skipOrthoForNextSegment: () => { skipNextSegment = true; },
   };
 };
 
+// Private OpenLayers Draw state read by the dynamic input helpers
+interface DrawSketchInternals {
+  sketchFeature_: Feature<Geometry> | null;
+}
+
+/**
+ * Last placed vertex and cursor position (EPSG:3857) of a line being drawn,
+ * both null before the first point is placed
+ * @param draw - LineString draw interaction
+ */
+export const getDrawSketchState = (
+  draw: Draw
+): { lastVertex: Coordinate | null; cursor: Coordinate | null } => {
+  const sketchFeature = (draw as unknown as DrawSketchInternals).sketchFeature_;
+  const geometry = sketchFeature?.getGeometry();
+  if (!(geometry instanceof LineString)) {
+    return { lastVertex: null, cursor: null };
+  }
+
+  // The last coordinate follows the cursor
+  const coords = geometry.getCoordinates();
+  if (coords.length < 2) return { lastVertex: null, cursor: null };
+  return { lastVertex: coords[coords.length - 2], cursor: coords[coords.length - 1] };
+};
+
+/**
+ * Place the next vertex of a line being drawn at an exact coordinate, starting
+ * the line if no point has been placed yet. The new segment is kept as given
+ * rather than snapped again by ortho mode.
+ * @param draw - Draw interaction created by a factory with ortho tracking
+ * @param coordinate - Vertex position in EPSG:3857
+ */
+export const appendDrawVertex = (draw: Draw, coordinate: Coordinate): void => {
+  const orthoHelper: OrthoGeometryHelper | undefined = draw.get("orthoHelper");
+  if (orthoHelper && getDrawSketchState(draw).lastVertex) {
+    orthoHelper.skipOrthoForNextSegment();
+  }
+  draw.appendCoordinates([coordinate]);
+};
+
 /**
  * Create a point draw interaction
  * @param source - Vector source to draw on
@@ -389,6 +442,9 @@ export const createPolylineDraw = (
     orthoHelper.reset();
   });
 
+  // Let typed vertices bypass the ortho constraint
+  drawInteraction.set('orthoHelper', orthoHelper);
+
   return drawInteraction;
 };
 
@@ -713,6 +769,9 @@ export const createLegendDraw = (
     orthoHelper.reset();
   });
 
+  // Let typed vertices bypass the ortho constraint
+  drawInteraction.set('orthoHelper', orthoHelper);
+
   return drawInteraction;
 };
 
@@ -826,6 +885,9 @@ export const createMeasureDraw = (
     orthoHelper.reset();
   });
 
+  // Let typed vertices bypass the ortho constraint
+  drawInteraction.set('orthoHelper', orthoHelper);
+
   return drawInteraction;
 };
 
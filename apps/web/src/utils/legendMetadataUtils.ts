@@ -17,6 +17,42 @@ export interface LegendMetadata {
   items: LegendMetadataItem[];
 }
 
+/**
+ * Legend or icon metadata for a single feature, or null if the feature is
+ * neither a legend line nor a picked icon.
+ */
+export function getLegendMetadataItem(
+  feature: Feature,
+): LegendMetadataItem | null {
+  // Legend features
+  if (feature.get("islegends") && feature.get("legendType")) {
+    const legendId = feature.get("legendType") as string;
+    const config = getLegendById(legendId);
+    return {
+      type: "legend",
+      id: legendId,
+      label: config?.name || legendId,
+      imagePath: config?.imagePath || `/svgs/${legendId}.svg`,
+      strokeColor: config?.style.strokeColor,
+      strokeDash: config?.style.strokeDash,
+    };
+  }
+
+  // Icon features (from icon picker)
+  if (feature.get("isIcon") && feature.get("iconPath")) {
+    const iconPath = feature.get("iconPath") as string;
+    const iconName = getIconNameFromPath(iconPath);
+    return {
+      type: "icon",
+      id: iconName,
+      label: iconName,
+      imagePath: iconPath,
+    };
+  }
+
+  return null;
+}
+
 /**
  * Scans all features on the vector source and returns deduplicated
  * metadata about which legend types and icon types are present.
@@ -28,40 +64,13 @@ export function collectLegendMetadata(
   const items: LegendMetadataItem[] = [];
 
   vectorSource.getFeatures().forEach((feature: Feature) => {
-    // Legend features
-    if (feature.get("islegends") && feature.get("legendType")) {
-      const legendId = feature.get("legendType") as string;
-      const key = `legend:${legendId}`;
-      if (seen.has(key)) return;
-      seen.add(key);
-
-      const config = getLegendById(legendId);
-      items.push({
-        type: "legend",
-        id: legendId,
-        label: config?.name || legendId,
-        imagePath: config?.imagePath || `/svgs/${legendId}.svg`,
-        strokeColor: config?.style.strokeColor,
-        strokeDash: config?.style.strokeDash,
-      });
-      return;
-    }
-
-    // Icon features (from icon picker)
-    if (feature.get("isIcon") && feature.get("iconPath")) {
-      const iconPath = feature.get("iconPath") as string;
-      const iconName = getIconNameFromPath(iconPath);
-      const key = `icon:${iconName}`;
-      if (seen.has(key)) return;
-      seen.add(key);
+    const item = getLegendMetadataItem(feature);
+    if (!item) return;
 
-      items.push({
-        type: "icon",
-        id: iconName,
-        label: iconName,
-        imagePath: iconPath,
-      });
-    }
+    const key = `${item.type}:${item.id}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    items.push(item);
   });
 
   return { items };
@@ -0,0 +1,442 @@
+import * as fabric from "fabric";
+import Map from "ol/Map";
+import View from "ol/View";
+import type { Feature } from "ol";
+import type { Geometry } from "ol/geom";
+import {
+  createEmpty,
+  extend,
+  getCenter,
+  getHeight,
+  getWidth,
+  isEmpty,
+  type Extent,
+} from "ol/extent";
+import { Tile as TileLayer, Vector as VectorLayer } from "ol/layer";
+import { OSM, XYZ, Vector as VectorSource } from "ol/source";
+import type { SerializedMapData } from "@/hooks/useMapProjects";
+import { useToolStore } from "@/stores/useToolStore";
+import type { Folder } from "@/types/folders";
+import { SHEET_METERS_PER_PIXEL } from "./fabricScaleUtils";
+import { getMapUnitsPerMeter } from "./offsetUtils";
+import { convertGeoJSONToFeatures } from "./serializationUtils";
+import { createVectorLayerStyle } from "./vectorLayerStyleUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MapFrameBasemap = "none" | "osm" | "satellite";
+
+/**
+ * What a map frame on a layout sheet shows. The frame is re-rendered from
+ * the job's saved map whenever the layout is opened or exported.
+ */
+export interface MapFrame {
+  projectId: string;
+  // Features in this folder and its subfolders; the whole job if null
+  folderId: string | null;
+  // Fixed scale denominator (e.g. 2500); null fits the area into the frame
+  scaleDenominator: number | null;
+  basemap: MapFrameBasemap;
+  // View picked on the map (EPSG:3857). Shown instead of the extent of the
+  // features when set; the frame shows at least this area.
+  extent?: Extent | null;
+}
+
+export type MapFrameImage = fabric.FabricImage & {
+  mapFrame?: MapFrame;
+  mapMetersPerPixel?: number;
+  mapRotation?: number;
+};
+
+export type MapDataLoader = (
+  projectId: string,
+) => Promise<SerializedMapData | null>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAP_FRAME_BASEMAP_LABELS: Record<MapFrameBasemap, string> = {
+  none: "None",
+  osm: "Street map",
+  satellite: "Satellite",
+};
+
+// Frames are rendered at 150 DPI on the 72 DPI sheet
+const FRAME_PIXEL_RATIO = 150 / 72;
+
+// Room left around the area when it is fitted into the frame
+const FRAME_FIT_PADDING = 0.05;
+
+const FRAME_RENDER_TIMEOUT_MS = 60000;
+
+// Renders run one at a time: each creates an off-screen map
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+// Keep the frame settings when layouts are saved as JSON
+fabric.FabricObject.customProperties = Array.from(
+  new Set([...fabric.FabricObject.customProperties, "mapFrame"]),
+);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const getMapFrame = (
+  object: fabric.FabricObject | null | undefined,
+): MapFrame | undefined => (object as MapFrameImage | undefined)?.mapFrame;
+
+export const isMapFrame = (
+  object: fabric.FabricObject | null | undefined,
+): object is MapFrameImage =>
+  object instanceof fabric.FabricImage && !!getMapFrame(object);
+
+/**
+ * Ids of a folder and all folders nested in it
+ */
+const getFolderTreeIds = (
+  folders: Record<string, Folder>,
+  folderId: string,
+): Set<string> => {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    Object.values(folders).forEach((folder) => {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+const getFrameFeatures = (
+  mapData: SerializedMapData,
+  folderId: string | null,
+): Feature<Geometry>[] => {
+  const features = convertGeoJSONToFeatures(mapData.features);
+  if (!folderId) return features;
+
+  const folderIds = getFolderTreeIds(
+    mapData.folderStructure?.folders ?? {},
+    folderId,
+  );
+  return features.filter((feature) => folderIds.has(feature.get("folderId")));
+};
+
+const createBasemapLayer = (basemap: MapFrameBasemap) => {
+  if (basemap === "osm") {
+    return new TileLayer({ source: new OSM({ crossOrigin: "anonymous" }) });
+  }
+  if (basemap === "satellite") {
+    return new TileLayer({
+      source: new XYZ({
+        url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+        maxZoom: 18,
+        crossOrigin: "anonymous",
+      }),
+    });
+  }
+  return null;
+};
+
+/**
+ * Extent of the features a frame shows
+ */
+export const getMapFrameFeatureExtent = (
+  mapData: SerializedMapData,
+  folderId: string | null,
+): Extent =>
+  getFrameFeatures(mapData, folderId).reduce((result, feature) => {
+    const geometry = feature.getGeometry();
+    return geometry ? extend(result, geometry.getExtent()) : result;
+  }, createEmpty());
+
+/**
+ * Basemap and feature layers of a frame, styled as in the editor
+ */
+export const createMapFrameLayers = (
+  mapData: SerializedMapData,
+  folderId: string | null,
+  basemap: MapFrameBasemap,
+) => {
+  const { hiddenFeatureIds = [] } = mapData;
+  const vectorLayer = new VectorLayer({
+    source: new VectorSource<Feature<Geometry>>({
+      features: getFrameFeatures(mapData, folderId),
+    }),
+    style: createVectorLayerStyle({
+      hiddenTypes: {},
+      hiddenFeatureIds: new Set(hiddenFeatureIds),
+      resolutionScalingEnabled: useToolStore.getState().resolutionScalingEnabled,
+    }),
+  });
+  const basemapLayer = createBasemapLayer(basemap);
+  return basemapLayer ? [basemapLayer, vectorLayer] : [vectorLayer];
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const queueRender = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = renderQueue.then(task);
+  renderQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Render a map frame off-screen at the given size on the sheet. Returns the
+ * image and the ground distance covered by one of its pixels.
+ */
+export const renderMapFrame = (
+  frame: MapFrame,
+  mapData: SerializedMapData,
+  sheetWidth: number,
+  sheetHeight: number,
+): Promise<{ dataURL: string; metersPerPixel: number }> =>
+  queueRender(() => drawMapFrame(frame, mapData, sheetWidth, sheetHeight));
+
+async function drawMapFrame(
+  frame: MapFrame,
+  mapData: SerializedMapData,
+  sheetWidth: number,
+  sheetHeight: number,
+): Promise<{ dataURL: string; metersPerPixel: number }> {
+  const extent =
+    frame.extent ?? getMapFrameFeatureExtent(mapData, frame.folderId);
+  if (isEmpty(extent)) {
+    throw new Error("Nothing to show in this map frame");
+  }
+
+  const width = Math.max(1, Math.round(sheetWidth));
+  const height = Math.max(1, Math.round(sheetHeight));
+  const center = getCenter(extent);
+  const unitsPerMeter = getMapUnitsPerMeter(center);
+
+  // Map units per CSS pixel, which is one sheet pixel here. A picked view
+  // is fitted as it is; feature extents get some room around them.
+  const padding = frame.extent ? 0 : FRAME_FIT_PADDING;
+  const resolution = frame.scaleDenominator
+    ? frame.scaleDenominator * SHEET_METERS_PER_PIXEL * unitsPerMeter
+    : Math.max(getWidth(extent) / width, getHeight(extent) / height, 1e-6) *
+      (1 + padding * 2);
+
+  // Off-screen container at the frame's size
+  const container = document.createElement("div");
+  container.style.cssText = `position:fixed;left:-10000px;top:0;width:${width}px;height:${height}px;`;
+  document.body.appendChild(container);
+
+  const map = new Map({
+    target: container,
+    layers: createMapFrameLayers(mapData, frame.folderId, frame.basemap),
+    controls: [],
+    interactions: [],
+    pixelRatio: FRAME_PIXEL_RATIO,
+    view: new View({ center, resolution, maxZoom: 30 }),
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(
+        () => reject(new Error("Map frame render timeout")),
+        FRAME_RENDER_TIMEOUT_MS,
+      );
+      map.once("rendercomplete", () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      map.renderSync();
+    });
+
+    // Combine the layer canvases (as in the OpenLayers export example)
+    const output = document.createElement("canvas");
+    output.width = Math.round(width * FRAME_PIXEL_RATIO);
+    output.height = Math.round(height * FRAME_PIXEL_RATIO);
+    const context = output.getContext("2d");
+    if (!context) {
+      throw new Error("Failed to get map frame canvas context");
+    }
+    context.fillStyle = "white";
+    context.fillRect(0, 0, output.width, output.height);
+
+    map
+      .getViewport()
+      .querySelectorAll<HTMLCanvasElement>(".ol-layer canvas, canvas.ol-layer")
+      .forEach((canvas) => {
+        if (canvas.width === 0) return;
+        const opacity =
+          (canvas.parentNode as HTMLElement | null)?.style.opacity ||
+          canvas.style.opacity;
+        context.globalAlpha = opacity === "" ? 1 : Number(opacity);
+
+        const matrix = canvas.style.transform
+          .match(/^matrix\(([^(]*)\)$/)?.[1]
+          .split(",")
+          .map(Number) ?? [1, 0, 0, 1, 0, 0];
+        context.setTransform(
+          FRAME_PIXEL_RATIO,
+          0,
+          0,
+          FRAME_PIXEL_RATIO,
+          0,
+          0,
+        );
+        context.transform(
+          matrix[0],
+          matrix[1],
+          matrix[2],
+          matrix[3],
+          matrix[4],
+          matrix[5],
+        );
+        context.drawImage(canvas, 0, 0);
+      });
+    context.globalAlpha = 1;
+    context.setTransform(1, 0, 0, 1, 0, 0);
+
+    return {
+      dataURL: output.toDataURL("image/png"),
+      metersPerPixel: resolution / unitsPerMeter / FRAME_PIXEL_RATIO,
+    };
+  } finally {
+    map.setTarget(undefined);
+    container.remove();
+  }
+}
+
+/**
+ * Size a frame image was last rendered for, in sheet pixels
+ */
+const getRenderedSize = (image: fabric.FabricImage) => ({
+  width: image.width / FRAME_PIXEL_RATIO,
+  height: image.height / FRAME_PIXEL_RATIO,
+});
+
+/**
+ * Whether a frame was resized on the sheet since it was last rendered
+ */
+export const isMapFrameResized = (image: MapFrameImage): boolean => {
+  const rendered = getRenderedSize(image);
+  return (
+    Math.abs(image.getScaledWidth() - rendered.width) > 0.5 ||
+    Math.abs(image.getScaledHeight() - rendered.height) > 0.5
+  );
+};
+
+/**
+ * Re-render a frame on the sheet at its current size from the job's map
+ */
+export async function refreshMapFrame(
+  image: MapFrameImage,
+  mapData: SerializedMapData,
+): Promise<void> {
+  const frame = getMapFrame(image);
+  if (!frame) return;
+
+  const sheetWidth = image.getScaledWidth();
+  const sheetHeight = image.getScaledHeight();
+  const { dataURL, metersPerPixel } = await renderMapFrame(
+    frame,
+    mapData,
+    sheetWidth,
+    sheetHeight,
+  );
+
+  await image.setSrc(dataURL);
+  image.set({
+    scaleX: sheetWidth / image.width,
+    scaleY: sheetHeight / image.height,
+  });
+  image.mapMetersPerPixel = metersPerPixel;
+  image.mapRotation = 0;
+  image.setCoords();
+}
+
+/**
+ * Create a frame object for the sheet
+ */
+export async function createMapFrameImage(
+  frame: MapFrame,
+  mapData: SerializedMapData,
+  placement: { left: number; top: number; width: number; height: number },
+): Promise<MapFrameImage> {
+  const { dataURL, metersPerPixel } = await renderMapFrame(
+    frame,
+    mapData,
+    placement.width,
+    placement.height,
+  );
+
+  const image: MapFrameImage = await fabric.FabricImage.fromURL(dataURL);
+  image.set({
+    left: placement.left,
+    top: placement.top,
+    originX: "left",
+    originY: "top",
+    scaleX: placement.width / image.width,
+    scaleY: placement.height / image.height,
+    stroke: "#000000",
+    strokeWidth: 1,
+  });
+  image.mapFrame = frame;
+  image.mapMetersPerPixel = metersPerPixel;
+  image.mapRotation = 0;
+
+  return image;
+}
+
+/**
+ * Re-render a frame from the current map of its job
+ */
+export async function refreshMapFrameFromJob(
+  image: MapFrameImage,
+  loadMapData: MapDataLoader,
+): Promise<void> {
+  const frame = getMapFrame(image);
+  if (!frame) return;
+
+  const mapData = await loadMapData(frame.projectId);
+  if (!mapData) {
+    throw new Error("The frame's job was not found in this browser");
+  }
+  await refreshMapFrame(image, mapData);
+}
+
+/**
+ * Re-render every frame on the sheet from the current map of its job. The
+ * map of each job is read once. Returns how many frames could not be
+ * rendered; those keep their last drawing.
+ */
+export async function refreshCanvasMapFrames(
+  canvas: fabric.Canvas,
+  loadMapData: MapDataLoader,
+): Promise<number> {
+  const mapDataByProject = new globalThis.Map<
+    string,
+    Promise<SerializedMapData | null>
+  >();
+  const loadOnce: MapDataLoader = (projectId) => {
+    if (!mapDataByProject.has(projectId)) {
+      mapDataByProject.set(projectId, loadMapData(projectId));
+    }
+    return mapDataByProject.get(projectId)!;
+  };
+
+  let failed = 0;
+  for (const image of canvas.getObjects().filter(isMapFrame)) {
+    try {
+      await refreshMapFrameFromJob(image, loadOnce);
+    } catch (error) {
+      console.error("Map frame render failed:", error);
+      failed++;
+    }
+  }
+
+  canvas.requestRenderAll();
+  return failed;
+}
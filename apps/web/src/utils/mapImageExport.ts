@@ -2,13 +2,21 @@ import type Map from 'ol/Map';
 import type { Extent } from 'ol/extent';
 import { Tile as TileLayer, Vector as VectorLayer } from 'ol/layer';
 import { PAGE_SIZES, type PdfExportConfig } from '@/types/pdf';
+import { getMapUnitsPerMeter } from './offsetUtils';
 
 export interface MapImageExportResult {
   dataURL: string;
   width: number;
   height: number;
+  // Ground distance covered by one image pixel
+  metersPerPixel: number;
+  // View rotation in radians (0 = north up)
+  rotation: number;
 }
 
+// Scale of an exported map image, carried over to the layout editor
+export type MapImageScale = Pick<MapImageExportResult, 'metersPerPixel' | 'rotation'>;
+
 export interface ExportProgress {
   stage: 'preparing' | 'rendering' | 'complete';
   message: string;
@@ -27,7 +35,7 @@ export async function exportMapToImage(
 ): Promise<MapImageExportResult> {
   onProgress?.({ stage: 'preparing', message: 'Preparing export...', percent: 0 });
 
-  const dims = PAGE_SIZES[config.pageSize];
+  const dims = config.pageDimensions ?? PAGE_SIZES[config.pageSize];
   let width = Math.round((dims.width * config.resolution) / 25.4);
   let height = Math.round((dims.height * config.resolution) / 25.4);
 
@@ -51,6 +59,11 @@ export async function exportMapToImage(
   const originalCenter = map.getView().getCenter();
   const originalRotation = map.getView().getRotation();
 
+  // Turned sheets (e.g. along a route); restored with the rest of the view
+  if (config.rotation !== undefined) {
+    map.getView().setRotation(config.rotation);
+  }
+
   // Get layer references for separate rendering if needed
   const layers = map.getLayers().getArray();
   const baseLayers = layers.filter(layer => layer instanceof TileLayer);
@@ -242,6 +255,14 @@ export async function exportMapToImage(
 
     onProgress?.({ stage: 'rendering', message: 'Processing map canvas...', percent: 70 });
 
+    // One export pixel is one CSS pixel of the view as rendered at print size
+    const renderResolution = map.getView().getResolution();
+    const renderCenter = map.getView().getCenter();
+    if (renderResolution === undefined || !renderCenter) {
+      throw new Error('Cannot calculate scale - missing view resolution or center');
+    }
+    const metersPerPixel = renderResolution / getMapUnitsPerMeter(renderCenter);
+
     // Create export canvas
     const exportCanvas = document.createElement('canvas');
     exportCanvas.width = width;
@@ -308,6 +329,8 @@ export async function exportMapToImage(
       dataURL,
       width: exportCanvas.width,
       height: exportCanvas.height,
+      metersPerPixel,
+      rotation: map.getView().getRotation(),
     };
   } catch (error) {
     console.error('Map image export failed:', error);
@@ -0,0 +1,367 @@
+import type { Feature } from "ol";
+import type { FeatureLike } from "ol/Feature";
+import type { Coordinate } from "ol/coordinate";
+import type { Geometry, LineString, Point } from "ol/geom";
+import { getMapUnitsPerMeter } from "./offsetUtils";
+import { getFeatureId } from "./featureIdUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A structured attribute of a network feature, edited in PropertiesPanel
+ */
+export interface NetworkAttribute {
+  key: string;
+  label: string;
+  type: "select" | "number";
+  // Choices for select attributes
+  options?: string[];
+  // Shown after number values, e.g. "F" for fibre count
+  unit?: string;
+}
+
+export type NetworkAttributeValues = Record<string, string>;
+
+export type NetworkRole = "node" | "segment";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Feature properties of the network model. Stored as plain properties so
+ * they export as KML ExtendedData and GeoJSON properties.
+ */
+export const NETWORK_PROPERTY_KEYS = {
+  cableType: "cableType",
+  fibreCount: "fibreCount",
+  ductCount: "ductCount",
+  ownership: "ownership",
+  fromNode: "fromNode",
+  toNode: "toNode",
+} as const;
+
+export const OWNERSHIP_OPTIONS = ["Airtel", "Other"];
+
+export const SEGMENT_ATTRIBUTES: NetworkAttribute[] = [
+  {
+    key: NETWORK_PROPERTY_KEYS.cableType,
+    label: "Cable type",
+    type: "select",
+    options: ["Armoured", "Unarmoured", "ADSS", "Micro", "Ribbon"],
+  },
+  {
+    key: NETWORK_PROPERTY_KEYS.fibreCount,
+    label: "Fibre count",
+    type: "select",
+    options: ["6", "12", "24", "48", "96", "144", "288"],
+    unit: "F",
+  },
+  {
+    key: NETWORK_PROPERTY_KEYS.ductCount,
+    label: "Duct count",
+    type: "number",
+  },
+  {
+    key: NETWORK_PROPERTY_KEYS.ownership,
+    label: "Ownership",
+    type: "select",
+    options: OWNERSHIP_OPTIONS,
+  },
+];
+
+export const NODE_ATTRIBUTES: NetworkAttribute[] = [
+  {
+    key: NETWORK_PROPERTY_KEYS.ownership,
+    label: "Ownership",
+    type: "select",
+    options: OWNERSHIP_OPTIONS,
+  },
+];
+
+/**
+ * Legend types drawn as OFC route segments, with the ownership their
+ * legend implies
+ */
+const ROUTE_SEGMENT_LEGENDS: Record<string, string | undefined> = {
+  proposedOfcRoute: undefined,
+  "airtelExistOfcRoute(Tx)": "Airtel",
+  otherExistOfcRoute: "Other",
+};
+
+/**
+ * Icon files that are network nodes, by node type
+ */
+const NODE_ICON_TYPES: Record<string, string> = {
+  "chamber.png": "Chamber",
+  "EXISTING CHAMBER.png": "Chamber",
+  "PROPSED CHAMBER.png": "Chamber",
+  "EP POLE.png": "EP Pole",
+  "Own Pole.png": "Pole",
+  "TOWER.png": "Tower",
+};
+
+// Segment ends within this distance (metres) of a node connect to it
+export const NODE_SNAP_METERS = 0.5;
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+/**
+ * Node type of a feature (Chamber, EP Pole, Tower...), or null if it is not
+ * a network node
+ */
+export const getNodeType = (feature: FeatureLike | null): string | null => {
+  if (!feature || feature.getGeometry()?.getType() !== "Point") return null;
+  if (feature.get("isTower")) return "Tower";
+  if (!feature.get("isIcon")) return null;
+
+  const iconFile = String(feature.get("iconPath") ?? "").split("/").pop() ?? "";
+  return NODE_ICON_TYPES[iconFile] ?? null;
+};
+
+/**
+ * Whether a feature is a route segment: an OFC route legend line
+ */
+export const isRouteSegment = (feature: FeatureLike | null): boolean =>
+  !!feature &&
+  feature.getGeometry()?.getType() === "LineString" &&
+  !!feature.get("islegends") &&
+  feature.get("legendType") in ROUTE_SEGMENT_LEGENDS;
+
+export const getNetworkRole = (feature: FeatureLike | null): NetworkRole | null => {
+  if (isRouteSegment(feature)) return "segment";
+  if (getNodeType(feature)) return "node";
+  return null;
+};
+
+// ============================================================================
+// ATTRIBUTES
+// ============================================================================
+
+/**
+ * Attribute schema for a feature, or null if it is not part of the network
+ */
+export const getNetworkAttributes = (
+  feature: FeatureLike | null
+): NetworkAttribute[] | null => {
+  const role = getNetworkRole(feature);
+  if (role === "segment") return SEGMENT_ATTRIBUTES;
+  if (role === "node") return NODE_ATTRIBUTES;
+  return null;
+};
+
+/**
+ * Attribute values of a network feature, "" for unset attributes. Segments
+ * of Airtel and other existing routes default to that ownership.
+ */
+export const getNetworkAttributeValues = (
+  feature: FeatureLike
+): NetworkAttributeValues => {
+  const values: NetworkAttributeValues = {};
+  (getNetworkAttributes(feature) ?? []).forEach((attribute) => {
+    const value = feature.get(attribute.key);
+    values[attribute.key] =
+      value === undefined || value === null ? "" : String(value);
+  });
+
+  const impliedOwnership = isRouteSegment(feature)
+    ? ROUTE_SEGMENT_LEGENDS[feature.get("legendType")]
+    : undefined;
+  if (impliedOwnership && !values[NETWORK_PROPERTY_KEYS.ownership]) {
+    values[NETWORK_PROPERTY_KEYS.ownership] = impliedOwnership;
+  }
+
+  return values;
+};
+
+/**
+ * Store attribute values on a network feature, unsetting empty ones.
+ * Number attributes are stored as numbers.
+ */
+export const setNetworkAttributeValues = (
+  feature: Feature<Geometry>,
+  values: NetworkAttributeValues
+): void => {
+  (getNetworkAttributes(feature) ?? []).forEach((attribute) => {
+    const value = values[attribute.key]?.trim() ?? "";
+    if (!value) {
+      feature.unset(attribute.key);
+    } else if (attribute.type === "number") {
+      const number = parseFloat(value);
+      if (Number.isFinite(number)) feature.set(attribute.key, number);
+    } else {
+      feature.set(attribute.key, value);
+    }
+  });
+};
+
+/**
+ * Format an attribute value for display, e.g. "24F"
+ */
+export const formatNetworkAttribute = (
+  attribute: NetworkAttribute,
+  value: string
+): string => (value ? `${value}${attribute.unit ?? ""}` : "-");
+
+// ============================================================================
+// CONNECTIVITY
+// ============================================================================
+
+const getSegmentCoordinates = (segment: Feature<Geometry>): Coordinate[] =>
+  (segment.getGeometry() as LineString).getCoordinates();
+
+const getNodeCoordinate = (node: Feature<Geometry>): Coordinate =>
+  (node.getGeometry() as Point).getCoordinates();
+
+const distance = (a: Coordinate, b: Coordinate): number =>
+  Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+/**
+ * Closest node within the snap distance of a coordinate
+ */
+export const findNodeAt = (
+  coordinate: Coordinate,
+  features: Feature<Geometry>[]
+): Feature<Geometry> | null => {
+  const tolerance = NODE_SNAP_METERS * getMapUnitsPerMeter(coordinate);
+  let closest: Feature<Geometry> | null = null;
+  let closestDistance = Infinity;
+
+  for (const feature of features) {
+    if (!getNodeType(feature)) continue;
+    const nodeDistance = distance(coordinate, getNodeCoordinate(feature));
+    if (nodeDistance <= tolerance && nodeDistance < closestDistance) {
+      closest = feature;
+      closestDistance = nodeDistance;
+    }
+  }
+
+  return closest;
+};
+
+/**
+ * Ids of the nodes at the start and end of a segment, as last connected
+ */
+export const getSegmentNodeIds = (
+  segment: FeatureLike
+): { from: string | null; to: string | null } => ({
+  from: (segment.get(NETWORK_PROPERTY_KEYS.fromNode) as string) || null,
+  to: (segment.get(NETWORK_PROPERTY_KEYS.toNode) as string) || null,
+});
+
+const setNodeRef = (
+  segment: Feature<Geometry>,
+  key: string,
+  node: Feature<Geometry> | null
+) => {
+  const nodeId = node ? getFeatureId(node) : null;
+  if ((segment.get(key) || null) === nodeId) return;
+  if (nodeId) segment.set(key, nodeId);
+  else segment.unset(key);
+};
+
+/**
+ * Connect a segment to the nodes its ends lie on, snapping each end exactly
+ * onto its node. Ends on no node are disconnected.
+ */
+export const connectSegment = (
+  segment: Feature<Geometry>,
+  features: Feature<Geometry>[]
+): void => {
+  const coords = getSegmentCoordinates(segment);
+  if (coords.length < 2) return;
+
+  const last = coords.length - 1;
+  const fromNode = findNodeAt(coords[0], features);
+  const toNode = findNodeAt(coords[last], features);
+
+  const snapped = coords.slice();
+  if (fromNode) snapped[0] = getNodeCoordinate(fromNode);
+  if (toNode) snapped[last] = getNodeCoordinate(toNode);
+  if (
+    distance(snapped[0], coords[0]) > 0 ||
+    distance(snapped[last], coords[last]) > 0
+  ) {
+    (segment.getGeometry() as LineString).setCoordinates(snapped);
+  }
+
+  setNodeRef(segment, NETWORK_PROPERTY_KEYS.fromNode, fromNode);
+  setNodeRef(segment, NETWORK_PROPERTY_KEYS.toNode, toNode);
+};
+
+/**
+ * Move the ends of a segment back onto the nodes it is connected to, so a
+ * segment dragged as a whole stays connected
+ */
+export const pinSegmentEnds = (
+  segment: Feature<Geometry>,
+  features: Feature<Geometry>[]
+): void => {
+  const { from, to } = getSegmentNodeIds(segment);
+  if (!from && !to) return;
+
+  const nodeById = (id: string | null) =>
+    id
+      ? features.find((feature) => String(feature.getId() ?? "") === id) ?? null
+      : null;
+  const fromNode = nodeById(from);
+  const toNode = nodeById(to);
+  if (!fromNode && !toNode) return;
+
+  const coords = getSegmentCoordinates(segment).slice();
+  if (fromNode) coords[0] = getNodeCoordinate(fromNode);
+  if (toNode) coords[coords.length - 1] = getNodeCoordinate(toNode);
+  (segment.getGeometry() as LineString).setCoordinates(coords);
+};
+
+/**
+ * After a node is added or moved: pull the ends of its segments along with
+ * it, then connect any other segment ends that now lie on it
+ */
+export const syncNodeSegments = (
+  node: Feature<Geometry>,
+  features: Feature<Geometry>[]
+): void => {
+  const nodeId = getFeatureId(node);
+  const nodeCoordinate = getNodeCoordinate(node);
+
+  features.forEach((feature) => {
+    if (!isRouteSegment(feature)) return;
+
+    const { from, to } = getSegmentNodeIds(feature);
+    const coords = getSegmentCoordinates(feature);
+    const last = coords.length - 1;
+    const isAttached = from === nodeId || to === nodeId;
+    const touches =
+      findNodeAt(coords[0], [node]) !== null ||
+      findNodeAt(coords[last], [node]) !== null;
+    if (!isAttached && !touches) return;
+
+    if (isAttached) {
+      const moved = coords.slice();
+      if (from === nodeId) moved[0] = nodeCoordinate;
+      if (to === nodeId) moved[last] = nodeCoordinate;
+      (feature.getGeometry() as LineString).setCoordinates(moved);
+    }
+    connectSegment(feature, features);
+  });
+};
+
+/**
+ * Disconnect segments from a node that was removed
+ */
+export const disconnectNode = (
+  nodeId: string,
+  features: Feature<Geometry>[]
+): void => {
+  features.forEach((feature) => {
+    if (!isRouteSegment(feature)) return;
+    const { from, to } = getSegmentNodeIds(feature);
+    if (from === nodeId) feature.unset(NETWORK_PROPERTY_KEYS.fromNode);
+    if (to === nodeId) feature.unset(NETWORK_PROPERTY_KEYS.toNode);
+  });
+};
@@ -6,10 +6,19 @@
  */
 
 import Feature from "ol/Feature";
-import { LineString, Polygon } from "ol/geom";
+import {
+    LineString,
+    MultiLineString,
+    MultiPoint,
+    MultiPolygon,
+    Point,
+    Polygon,
+} from "ol/geom";
 import type { Geometry } from "ol/geom";
+import { circular } from "ol/geom/Polygon";
 import type { Coordinate } from "ol/coordinate";
 import { getLength } from "ol/sphere";
+import { assignCopiedFeatureId, getDerivedFrom, getFeatureId } from "./featureIdUtils";
 import { transform } from "ol/proj";
 import { getCenter } from "ol/extent";
 
@@ -31,6 +40,15 @@ export const coordsAreEqual = (p1: Coordinate, p2: Coordinate): boolean => {
     return p1[0] === p2[0] && p1[1] === p2[1];
 };
 
+/**
+ * EPSG:3857 map units per metre on the ground at a coordinate.
+ * Web Mercator stretches distances by 1 / cos(latitude).
+ */
+export const getMapUnitsPerMeter = (coordinate: Coordinate): number => {
+    const latitude = transform(coordinate, "EPSG:3857", "EPSG:4326")[1];
+    return 1 / Math.cos((latitude * Math.PI) / 180);
+};
+
 // ============== CORE OFFSET ALGORITHM ==============
 
 /**
@@ -232,16 +250,9 @@ export const createOffsetFeature = (
     let offsetGeometry: Geometry | null = null;
 
     // In EPSG:3857 (Web Mercator), map units ≠ meters except at the equator
-    // Calculate scale factor based on geometry's center latitude
-    const extent = geometry.getExtent();
-    const center = getCenter(extent);
-    const centerWGS84 = transform(center, "EPSG:3857", "EPSG:4326");
-    const latitude = centerWGS84[1];
-
-    // Web Mercator scale factor: 1 / cos(latitude in radians)
-    // This converts meters to map units at the given latitude
-    const scaleFactor = 1 / Math.cos((latitude * Math.PI) / 180);
-    const distanceMapUnits = distanceMeters * scaleFactor;
+    // Convert using the scale at the geometry's center latitude
+    const center = getCenter(geometry.getExtent());
+    const distanceMapUnits = distanceMeters * getMapUnitsPerMeter(center);
 
     switch (geometryType) {
         case "LineString": {
@@ -299,6 +310,9 @@ export const createOffsetFeature = (
         newFeature.set("distance", length);
     }
 
+    // The offset copy is a new feature derived from the original
+    assignCopiedFeatureId(newFeature, originalFeature);
+
     return newFeature;
 };
 
@@ -320,3 +334,352 @@ export const getOffsetSideOptions = (
         { value: "inward", label: "Inward" },
     ];
 };
+
+// ============== BUFFER ==============
+
+/**
+ * Styling of buffer polygons, applied through the shape style properties
+ */
+export interface BufferStyle {
+    strokeColor: string;
+    strokeWidth: number;
+    fillColor: string;
+    fillOpacity: number;
+}
+
+export const DEFAULT_BUFFER_STYLE: BufferStyle = {
+    strokeColor: "#dc2626",
+    strokeWidth: 1,
+    fillColor: "#dc2626",
+    fillOpacity: 0.15,
+};
+
+// Vertices per full circle for round caps, joins and point buffers
+const BUFFER_CIRCLE_SEGMENTS = 64;
+
+/**
+ * Points on an arc around a center, turning clockwise from one angle to
+ * another (radians, counter-clockwise from east)
+ */
+const clockwiseArc = (
+    center: Coordinate,
+    radius: number,
+    fromAngle: number,
+    toAngle: number
+): Coordinate[] => {
+    let sweep = fromAngle - toAngle;
+    while (sweep < 0) sweep += 2 * Math.PI;
+    while (sweep > 2 * Math.PI) sweep -= 2 * Math.PI;
+
+    const steps = Math.max(1, Math.ceil((sweep / (2 * Math.PI)) * BUFFER_CIRCLE_SEGMENTS));
+    const points: Coordinate[] = [];
+    for (let i = 0; i <= steps; i++) {
+        const angle = fromAngle - (sweep * i) / steps;
+        points.push([
+            center[0] + radius * Math.cos(angle),
+            center[1] + radius * Math.sin(angle),
+        ]);
+    }
+    return points;
+};
+
+/**
+ * Left side of a buffer outline along a line: the line offset to the left,
+ * with round joins where the line turns right and mitred joins where it
+ * turns left
+ */
+const bufferLeftSide = (coords: Coordinate[], radii: number[]): Coordinate[] => {
+    const normals = coords
+        .slice(1)
+        .map((p1, i) => Math.atan2(p1[1] - coords[i][1], p1[0] - coords[i][0]) + Math.PI / 2);
+    const offsetAt = (p: Coordinate, r: number, normal: number): Coordinate => [
+        p[0] + r * Math.cos(normal),
+        p[1] + r * Math.sin(normal),
+    ];
+
+    const side: Coordinate[] = [offsetAt(coords[0], radii[0], normals[0])];
+    for (let i = 1; i < coords.length - 1; i++) {
+        const [p0, p1, p2] = [coords[i - 1], coords[i], coords[i + 1]];
+        const [before, after] = [normals[i - 1], normals[i]];
+        const cross =
+            (p1[0] - p0[0]) * (p2[1] - p1[1]) - (p1[1] - p0[1]) * (p2[0] - p1[0]);
+        const cosTurn = Math.cos(after - before);
+
+        if (cross < 0 || (cross === 0 && cosTurn < 0)) {
+            // Right turn: the left side is convex, round it off
+            side.push(...clockwiseArc(p1, radii[i], before, after));
+        } else if (cosTurn > -0.9) {
+            // Left turn: meet where the two offset lines cross
+            const scale = radii[i] / (1 + cosTurn);
+            side.push([
+                p1[0] + scale * (Math.cos(before) + Math.cos(after)),
+                p1[1] + scale * (Math.sin(before) + Math.sin(after)),
+            ]);
+        } else {
+            // Hairpin left turn: the mitre would reach too far, pass through the vertex
+            side.push(offsetAt(p1, radii[i], before), p1, offsetAt(p1, radii[i], after));
+        }
+    }
+    const last = coords.length - 1;
+    side.push(offsetAt(coords[last], radii[last], normals[last - 1]));
+    return side;
+};
+
+/**
+ * Outline of a buffer around a line with round caps and joins, as a closed
+ * ring (EPSG:3857). The distance is converted to map units at each vertex,
+ * so the buffer is metric along the whole line. Sharp inward turns tighter
+ * than the distance produce a ring that crosses itself but still covers the
+ * buffer area.
+ */
+export const bufferLineCoordinates = (
+    coords: Coordinate[],
+    distanceMeters: number
+): Coordinate[] => {
+    const points = coords.filter(
+        (coord, i) => i === 0 || !coordsAreEqual(coord, coords[i - 1])
+    );
+    const radii = points.map((coord) => distanceMeters * getMapUnitsPerMeter(coord));
+
+    if (points.length < 2) {
+        return clockwiseArc(points[0], radii[0], 0, -2 * Math.PI + 1e-9);
+    }
+
+    const reversed = [...points].reverse();
+    const reversedRadii = [...radii].reverse();
+    const last = points.length - 1;
+    const endNormal =
+        Math.atan2(points[last][1] - points[last - 1][1], points[last][0] - points[last - 1][0]) +
+        Math.PI / 2;
+    const startNormal =
+        Math.atan2(points[1][1] - points[0][1], points[1][0] - points[0][0]) + Math.PI / 2;
+
+    const ring = [
+        ...bufferLeftSide(points, radii),
+        ...clockwiseArc(points[last], radii[last], endNormal, endNormal - Math.PI),
+        ...bufferLeftSide(reversed, reversedRadii),
+        ...clockwiseArc(points[0], radii[0], startNormal - Math.PI, startNormal - 2 * Math.PI),
+    ];
+    ring.push(ring[0]);
+    return ring;
+};
+
+/**
+ * Geodesic circle around a point (EPSG:3857)
+ */
+export const bufferPoint = (center: Coordinate, distanceMeters: number): Polygon =>
+    circular(
+        transform(center, "EPSG:3857", "EPSG:4326"),
+        distanceMeters,
+        BUFFER_CIRCLE_SEGMENTS
+    ).transform("EPSG:4326", "EPSG:3857") as Polygon;
+
+/**
+ * Buffer polygon(s) around a geometry, `distanceMeters` on the ground on
+ * every side. Points get geodesic circles, lines round-capped outlines and
+ * polygons an outward offset (see offsetPolygon).
+ * @returns The buffer, or null for unsupported geometry types
+ */
+export const bufferGeometry = (
+    geometry: Geometry,
+    distanceMeters: number
+): Polygon | MultiPolygon | null => {
+    if (geometry instanceof Point) {
+        return bufferPoint(geometry.getCoordinates(), distanceMeters);
+    }
+    if (geometry instanceof MultiPoint) {
+        return new MultiPolygon(
+            geometry.getPoints().map((point) => bufferPoint(point.getCoordinates(), distanceMeters))
+        );
+    }
+    if (geometry instanceof LineString) {
+        return new Polygon([bufferLineCoordinates(geometry.getCoordinates(), distanceMeters)]);
+    }
+    if (geometry instanceof MultiLineString) {
+        return new MultiPolygon(
+            geometry
+                .getCoordinates()
+                .map((coords) => [bufferLineCoordinates(coords, distanceMeters)])
+        );
+    }
+    if (geometry instanceof Polygon) {
+        const center = getCenter(geometry.getExtent());
+        return offsetPolygon(geometry, distanceMeters * getMapUnitsPerMeter(center), "outward");
+    }
+    if (geometry instanceof MultiPolygon) {
+        return new MultiPolygon(
+            geometry.getPolygons().map((polygon) => {
+                const center = getCenter(polygon.getExtent());
+                return offsetPolygon(polygon, distanceMeters * getMapUnitsPerMeter(center), "outward")
+                    .getCoordinates();
+            })
+        );
+    }
+    return null;
+};
+
+/**
+ * Create a buffer polygon feature around a feature, styled as a shape and
+ * placed in the same folder
+ */
+export const createBufferFeature = (
+    sourceFeature: Feature<Geometry>,
+    distanceMeters: number,
+    style: BufferStyle = DEFAULT_BUFFER_STYLE
+): Feature<Geometry> | null => {
+    const geometry = sourceFeature.getGeometry();
+    const bufferGeom = geometry ? bufferGeometry(geometry, distanceMeters) : null;
+    if (!bufferGeom) return null;
+
+    const bufferFeature = new Feature<Geometry>({ geometry: bufferGeom });
+    bufferFeature.set("isBuffer", true);
+    bufferFeature.set("bufferDistance", distanceMeters);
+    bufferFeature.set("strokeColor", style.strokeColor);
+    bufferFeature.set("strokeWidth", style.strokeWidth);
+    bufferFeature.set("fillColor", style.fillColor);
+    bufferFeature.set("fillOpacity", style.fillOpacity);
+
+    const sourceName = sourceFeature.get("name") || "Feature";
+    bufferFeature.set("name", `${sourceName} (${distanceMeters} m buffer)`);
+    if (sourceFeature.get("folderId")) {
+        bufferFeature.set("folderId", sourceFeature.get("folderId"));
+    }
+
+    assignCopiedFeatureId(bufferFeature, sourceFeature);
+    return bufferFeature;
+};
+
+// ============== CLEARANCE ==============
+
+export interface ClearanceViolation {
+    feature: Feature<Geometry>;
+    source: Feature<Geometry>;
+    // Closest distance to the source in metres (0 when they touch or cross)
+    distance: number;
+}
+
+interface GeometryParts {
+    points: Coordinate[];
+    segments: [Coordinate, Coordinate][];
+    polygons: Polygon[];
+}
+
+const getGeometryParts = (geometry: Geometry): GeometryParts => {
+    const parts: GeometryParts = { points: [], segments: [], polygons: [] };
+    // Pushed one by one; spreading long coordinate arrays overflows the stack
+    const addPoints = (coords: Coordinate[]) => coords.forEach((coord) => parts.points.push(coord));
+    const addLine = (coords: Coordinate[]) => {
+        addPoints(coords);
+        for (let i = 0; i < coords.length - 1; i++) {
+            parts.segments.push([coords[i], coords[i + 1]]);
+        }
+    };
+
+    if (geometry instanceof Point) parts.points.push(geometry.getCoordinates());
+    else if (geometry instanceof MultiPoint) addPoints(geometry.getCoordinates());
+    else if (geometry instanceof LineString) addLine(geometry.getCoordinates());
+    else if (geometry instanceof MultiLineString) geometry.getCoordinates().forEach(addLine);
+    else if (geometry instanceof Polygon) {
+        geometry.getCoordinates().forEach(addLine);
+        parts.polygons.push(geometry);
+    } else if (geometry instanceof MultiPolygon) {
+        geometry.getPolygons().forEach((polygon) => {
+            polygon.getCoordinates().forEach(addLine);
+            parts.polygons.push(polygon);
+        });
+    }
+    return parts;
+};
+
+const distanceToSegment = (p: Coordinate, a: Coordinate, b: Coordinate): number => {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq));
+    return distanceBetweenPoints(p, [a[0] + t * dx, a[1] + t * dy]);
+};
+
+const segmentsIntersect = (
+    [a1, a2]: [Coordinate, Coordinate],
+    [b1, b2]: [Coordinate, Coordinate]
+): boolean => {
+    const orientation = (p: Coordinate, q: Coordinate, r: Coordinate) =>
+        Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+    return (
+        orientation(a1, a2, b1) * orientation(a1, a2, b2) < 0 &&
+        orientation(b1, b2, a1) * orientation(b1, b2, a2) < 0
+    );
+};
+
+/**
+ * Closest distance between two geometries in map units, 0 if they touch,
+ * cross or one lies inside the other
+ */
+const getMapDistance = (a: GeometryParts, b: GeometryParts): number => {
+    const inside = (points: Coordinate[], polygons: Polygon[]) =>
+        points.some((p) => polygons.some((polygon) => polygon.intersectsCoordinate(p)));
+    if (inside(a.points, b.polygons) || inside(b.points, a.polygons)) return 0;
+    if (a.segments.some((sa) => b.segments.some((sb) => segmentsIntersect(sa, sb)))) return 0;
+
+    // Reduced rather than spread into Math.min, which overflows the stack
+    // on long geometries
+    const minOf = <T>(items: T[], distance: (item: T) => number) =>
+        items.reduce((min, item) => Math.min(min, distance(item)), Infinity);
+    const toParts = (points: Coordinate[], other: GeometryParts) =>
+        minOf(points, (p) =>
+            other.segments.length > 0
+                ? minOf(other.segments, ([s1, s2]) => distanceToSegment(p, s1, s2))
+                : minOf(other.points, (q) => distanceBetweenPoints(p, q))
+        );
+    return Math.min(toParts(a.points, b), toParts(b.points, a));
+};
+
+/**
+ * Find features closer to any of the sources than the clearance distance.
+ * Buffers, the sources themselves and features derived from them are skipped.
+ * Distances are measured in map units and converted to metres at the source.
+ */
+export const findClearanceViolations = (
+    sources: Feature<Geometry>[],
+    candidates: Feature<Geometry>[],
+    distanceMeters: number
+): ClearanceViolation[] => {
+    const sourceSet = new Set(sources);
+    const sourceIds = new Set(sources.map((source) => getFeatureId(source)));
+    const violations = new Map<Feature<Geometry>, ClearanceViolation>();
+
+    sources.forEach((source) => {
+        const sourceGeom = source.getGeometry();
+        if (!sourceGeom) return;
+
+        const unitsPerMeter = getMapUnitsPerMeter(getCenter(sourceGeom.getExtent()));
+        const searchExtent = sourceGeom.getExtent().slice();
+        const margin = distanceMeters * unitsPerMeter * 1.5;
+        searchExtent[0] -= margin;
+        searchExtent[1] -= margin;
+        searchExtent[2] += margin;
+        searchExtent[3] += margin;
+        const sourceParts = getGeometryParts(sourceGeom);
+
+        candidates.forEach((candidate) => {
+            if (sourceSet.has(candidate) || candidate.get("isBuffer")) return;
+            if (getDerivedFrom(candidate).some((id) => sourceIds.has(id))) return;
+
+            const geometry = candidate.getGeometry();
+            if (!geometry || !geometry.intersectsExtent(searchExtent)) return;
+
+            const distance =
+                getMapDistance(sourceParts, getGeometryParts(geometry)) / unitsPerMeter;
+            if (distance >= distanceMeters) return;
+
+            const existing = violations.get(candidate);
+            if (!existing || distance < existing.distance) {
+                violations.set(candidate, { feature: candidate, source, distance });
+            }
+        });
+    });
+
+    return Array.from(violations.values());
+};
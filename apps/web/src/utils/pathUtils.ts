@@ -0,0 +1,411 @@
+import { Feature } from "ol";
+import type { Coordinate } from "ol/coordinate";
+import { getCenter } from "ol/extent";
+import { LineString, type Geometry } from "ol/geom";
+import { getLength } from "ol/sphere";
+import { getLegendById } from "@/tools/legendsConfig";
+import { getMapUnitsPerMeter } from "./offsetUtils";
+import { findNearbyEndpoint, getCoordinateDistance } from "./splitUtils";
+import { isNetworkLine } from "./topologyUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface GraphEdge {
+  from: number;
+  to: number;
+  // Ground length in metres
+  length: number;
+  // Legend type of the line, null for plain polylines
+  legendId: string | null;
+}
+
+/**
+ * Lines of the job as a graph: vertices are nodes and the segments between
+ * them are edges. Line ends that meet (within the snap distance) share a node.
+ */
+export interface NetworkGraph {
+  coordinates: Coordinate[];
+  edges: GraphEdge[];
+  // Edge indices at each node
+  adjacency: number[][];
+}
+
+/**
+ * A point on an edge, `t` of the way from its `from` node to its `to` node
+ */
+interface EdgePosition {
+  edge: number;
+  t: number;
+  coordinate: Coordinate;
+}
+
+export interface PathLegendLength {
+  legendId: string | null;
+  label: string;
+  length: number;
+}
+
+export interface ShortestPath {
+  coordinates: Coordinate[];
+  // Total ground length in metres
+  length: number;
+  // Length along each legend type, longest first
+  byLegend: PathLegendLength[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Line ends closer than this (metres) are joined
+export const PATH_SNAP_METERS = 1;
+
+// Picked points further than this (metres) from every line are off the network
+export const PATH_PICK_METERS = 50;
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+/**
+ * Build the graph of the job's lines. Ends are matched like the merge tool
+ * does (findNearbyEndpoint); vertices at the same place also join, so lines
+ * meeting at a shared vertex connect.
+ */
+export const buildNetworkGraph = (features: Feature<Geometry>[]): NetworkGraph => {
+  const lines = features.filter(
+    (feature) =>
+      isNetworkLine(feature, false) &&
+      (feature.getGeometry() as LineString).getCoordinates().length >= 2
+  );
+
+  // Union-find over every vertex of every line
+  const parent: number[] = [];
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const vertexCoordinates: Coordinate[] = [];
+  const lineVertices = new Map<Feature<Geometry>, number[]>();
+  const vertexAtCoordinate = new Map<string, number>();
+
+  lines.forEach((line) => {
+    const indices = (line.getGeometry() as LineString)
+      .getCoordinates()
+      .map((coordinate) => {
+        const index = vertexCoordinates.length;
+        vertexCoordinates.push(coordinate);
+        parent.push(index);
+
+        const key = `${coordinate[0]},${coordinate[1]}`;
+        const existing = vertexAtCoordinate.get(key);
+        if (existing !== undefined) union(index, existing);
+        else vertexAtCoordinate.set(key, index);
+        return index;
+      });
+    lineVertices.set(line, indices);
+  });
+
+  // Join line ends to nearby ends of other lines
+  lines.forEach((line) => {
+    const indices = lineVertices.get(line)!;
+    const geometry = line.getGeometry() as LineString;
+    const tolerance =
+      PATH_SNAP_METERS * getMapUnitsPerMeter(getCenter(geometry.getExtent()));
+
+    [indices[0], indices[indices.length - 1]].forEach((vertex) => {
+      const nearby = findNearbyEndpoint(
+        vertexCoordinates[vertex],
+        lines,
+        line,
+        tolerance
+      );
+      if (!nearby) return;
+      const nearbyIndices = lineVertices.get(nearby.feature)!;
+      union(
+        vertex,
+        nearby.endpoint === "start"
+          ? nearbyIndices[0]
+          : nearbyIndices[nearbyIndices.length - 1]
+      );
+    });
+  });
+
+  // One graph node per joined group of vertices
+  const nodeOfRoot = new Map<number, number>();
+  const coordinates: Coordinate[] = [];
+  const nodeOf = (vertex: number): number => {
+    const root = find(vertex);
+    let node = nodeOfRoot.get(root);
+    if (node === undefined) {
+      node = coordinates.length;
+      nodeOfRoot.set(root, node);
+      coordinates.push(vertexCoordinates[root]);
+    }
+    return node;
+  };
+
+  const edges: GraphEdge[] = [];
+  lines.forEach((line) => {
+    const indices = lineVertices.get(line)!;
+    const legendId = line.get("islegends")
+      ? (line.get("legendType") as string) ?? null
+      : null;
+
+    for (let i = 0; i < indices.length - 1; i++) {
+      const from = nodeOf(indices[i]);
+      const to = nodeOf(indices[i + 1]);
+      if (from === to) continue;
+      edges.push({
+        from,
+        to,
+        length: getLength(
+          new LineString([coordinates[from], coordinates[to]])
+        ),
+        legendId,
+      });
+    }
+  });
+
+  const adjacency: number[][] = coordinates.map(() => []);
+  edges.forEach((edge, index) => {
+    adjacency[edge.from].push(index);
+    adjacency[edge.to].push(index);
+  });
+
+  return { coordinates, edges, adjacency };
+};
+
+/**
+ * Closest point on the network to a coordinate, or null if the network is
+ * further than PATH_PICK_METERS away
+ */
+const findEdgePosition = (
+  graph: NetworkGraph,
+  coordinate: Coordinate
+): EdgePosition | null => {
+  const maxDistance = PATH_PICK_METERS * getMapUnitsPerMeter(coordinate);
+  let closest: (EdgePosition & { distance: number }) | null = null;
+
+  graph.edges.forEach((edge, index) => {
+    const a = graph.coordinates[edge.from];
+    const b = graph.coordinates[edge.to];
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              ((coordinate[0] - a[0]) * dx + (coordinate[1] - a[1]) * dy) /
+                lengthSq
+            )
+          );
+    const point = [a[0] + t * dx, a[1] + t * dy];
+    const distance = getCoordinateDistance(coordinate, point);
+    if (distance <= maxDistance && (!closest || distance < closest.distance)) {
+      closest = { edge: index, t, coordinate: point, distance };
+    }
+  });
+
+  return closest;
+};
+
+// ============================================================================
+// SHORTEST PATH
+// ============================================================================
+
+/**
+ * Minimal binary heap of [distance, node] pairs
+ */
+class DistanceQueue {
+  private items: [number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: [number, number]) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const getLegendLabel = (legendId: string | null): string =>
+  legendId ? getLegendById(legendId)?.name || legendId : "Polyline";
+
+/**
+ * Shortest path along the network between two coordinates, each snapped to
+ * the closest point on a line. Returns null if either is off the network or
+ * they are not connected.
+ */
+export const findShortestPath = (
+  graph: NetworkGraph,
+  startCoordinate: Coordinate,
+  endCoordinate: Coordinate
+): ShortestPath | null => {
+  const start = findEdgePosition(graph, startCoordinate);
+  const end = findEdgePosition(graph, endCoordinate);
+  if (!start || !end) return null;
+
+  const startEdge = graph.edges[start.edge];
+  const endEdge = graph.edges[end.edge];
+
+  // Both on the same edge: straight along it
+  if (start.edge === end.edge) {
+    const length = Math.abs(end.t - start.t) * startEdge.length;
+    return {
+      coordinates: [start.coordinate, end.coordinate],
+      length,
+      byLegend: [
+        {
+          legendId: startEdge.legendId,
+          label: getLegendLabel(startEdge.legendId),
+          length,
+        },
+      ],
+    };
+  }
+
+  // Dijkstra from both nodes of the start edge
+  const nodeCount = graph.coordinates.length;
+  const distances = new Array<number>(nodeCount).fill(Infinity);
+  const previousEdge = new Array<number>(nodeCount).fill(-1);
+  const queue = new DistanceQueue();
+
+  const seed = (node: number, distance: number) => {
+    if (distance < distances[node]) {
+      distances[node] = distance;
+      queue.push([distance, node]);
+    }
+  };
+  seed(startEdge.from, start.t * startEdge.length);
+  seed(startEdge.to, (1 - start.t) * startEdge.length);
+
+  while (queue.size > 0) {
+    const [distance, node] = queue.pop()!;
+    if (distance > distances[node]) continue;
+
+    graph.adjacency[node].forEach((edgeIndex) => {
+      const edge = graph.edges[edgeIndex];
+      const next = edge.from === node ? edge.to : edge.from;
+      const nextDistance = distance + edge.length;
+      if (nextDistance < distances[next]) {
+        distances[next] = nextDistance;
+        previousEdge[next] = edgeIndex;
+        queue.push([nextDistance, next]);
+      }
+    });
+  }
+
+  // Leave the network at whichever end of the end edge is closer overall
+  const viaFrom = distances[endEdge.from] + end.t * endEdge.length;
+  const viaTo = distances[endEdge.to] + (1 - end.t) * endEdge.length;
+  const length = Math.min(viaFrom, viaTo);
+  if (!Number.isFinite(length)) return null;
+
+  // Walk back to the start edge
+  const lastNode = viaFrom <= viaTo ? endEdge.from : endEdge.to;
+  const pathEdges: { edge: GraphEdge; length: number }[] = [
+    {
+      edge: endEdge,
+      length: (viaFrom <= viaTo ? end.t : 1 - end.t) * endEdge.length,
+    },
+  ];
+  const nodes: number[] = [lastNode];
+  let node = lastNode;
+  while (previousEdge[node] !== -1) {
+    const edge = graph.edges[previousEdge[node]];
+    pathEdges.push({ edge, length: edge.length });
+    node = edge.from === node ? edge.to : edge.from;
+    nodes.push(node);
+  }
+  pathEdges.push({
+    edge: startEdge,
+    length: (node === startEdge.from ? start.t : 1 - start.t) * startEdge.length,
+  });
+
+  const coordinates = [
+    start.coordinate,
+    ...nodes.reverse().map((index) => graph.coordinates[index]),
+    end.coordinate,
+  ].filter(
+    (coordinate, index, all) =>
+      index === 0 || getCoordinateDistance(coordinate, all[index - 1]) > 0
+  );
+
+  const lengthByLegend = new Map<string | null, number>();
+  pathEdges.forEach(({ edge, length: edgeLength }) => {
+    lengthByLegend.set(
+      edge.legendId,
+      (lengthByLegend.get(edge.legendId) ?? 0) + edgeLength
+    );
+  });
+
+  return {
+    coordinates,
+    length,
+    byLegend: Array.from(lengthByLegend, ([legendId, legendLength]) => ({
+      legendId,
+      label: getLegendLabel(legendId),
+      length: legendLength,
+    }))
+      .filter((item) => item.length > 0)
+      .sort((a, b) => b.length - a.length),
+  };
+};
+
+/**
+ * Polyline following a path, to keep it in the job
+ */
+export const createPathFeature = (
+  path: ShortestPath,
+  name: string,
+  folderId: string | null
+): Feature<Geometry> => {
+  const feature = new Feature<Geometry>(new LineString(path.coordinates));
+  feature.set("isPolyline", true);
+  feature.set("name", name);
+  if (folderId) feature.set("folderId", folderId);
+  return feature;
+};
@@ -0,0 +1,178 @@
+import type { Project, SerializedMapData } from "@/hooks/useMapProjects";
+import type { FolderStructure } from "@/types/folders";
+import { useLayoutStore, type Layout } from "@/stores/layoutStore";
+import { useServerSyncStore } from "@/stores/useServerSyncStore";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Wait for a burst of autosaves to settle before pushing
+const PUSH_DELAY_MS = 3000;
+// Same limit as useLayoutStore.addLayout
+const MAX_LAYOUTS = 3;
+
+export const PROJECT_PULLED_EVENT = "serverProjectPulled";
+
+export interface ProjectPulledDetail {
+  projectId: string;
+  mapData: SerializedMapData | null;
+}
+
+export interface ServerProjectData {
+  project: Project;
+  mapData: SerializedMapData | null;
+  layouts: Layout[];
+}
+
+// ============================================================================
+// API
+// ============================================================================
+
+const getApiUrl = (serverUrl: string, path: string): string =>
+  `${serverUrl.trim().replace(/\/+$/, "")}/api/projects${path}`;
+
+const request = async <T>(
+  serverUrl: string,
+  path: string,
+  init?: RequestInit,
+): Promise<T | null> => {
+  const response = await fetch(getApiUrl(serverUrl, path), {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Server responded with ${response.status}`);
+  }
+  if (response.status === 204) return null;
+  return (await response.json()) as T;
+};
+
+const putJson = (serverUrl: string, path: string, data: unknown) =>
+  request(serverUrl, path, { method: "PUT", body: JSON.stringify(data) });
+
+export const fetchServerProjects = async (
+  serverUrl: string,
+): Promise<Project[]> => (await request<Project[]>(serverUrl, "")) ?? [];
+
+/**
+ * Upload a project with its map data, folder structure and the layouts made
+ * for it. Creates the project on the server if needed.
+ */
+export const pushProject = async (
+  serverUrl: string,
+  project: Project,
+  mapData: SerializedMapData | null,
+): Promise<void> => {
+  const id = encodeURIComponent(project.id);
+
+  await putJson(serverUrl, `/${id}`, project);
+  if (mapData) {
+    await putJson(serverUrl, `/${id}/map-data`, mapData);
+    await putJson(
+      serverUrl,
+      `/${id}/folders`,
+      mapData.folderStructure ?? { folders: {} },
+    );
+  }
+  await putJson(
+    serverUrl,
+    `/${id}/layouts`,
+    useLayoutStore
+      .getState()
+      .layouts.filter((layout) => layout.projectId === project.id),
+  );
+};
+
+/**
+ * Download a project with all its documents. The separately stored folder
+ * structure takes precedence over the one embedded in the map data.
+ */
+export const pullProject = async (
+  serverUrl: string,
+  projectId: string,
+): Promise<ServerProjectData> => {
+  const id = encodeURIComponent(projectId);
+
+  const project = await request<Project>(serverUrl, `/${id}`);
+  if (!project) {
+    throw new Error("Job not found on the server");
+  }
+
+  const [mapData, folders, layouts] = await Promise.all([
+    request<SerializedMapData>(serverUrl, `/${id}/map-data`),
+    request<FolderStructure>(serverUrl, `/${id}/folders`),
+    request<Layout[]>(serverUrl, `/${id}/layouts`),
+  ]);
+
+  return {
+    project,
+    mapData: mapData && folders ? { ...mapData, folderStructure: folders } : mapData,
+    layouts: layouts ?? [],
+  };
+};
+
+// ============================================================================
+// AUTO SYNC
+// ============================================================================
+
+const pendingPushes = new Map<
+  string,
+  { timer: ReturnType<typeof setTimeout>; mapData: SerializedMapData | null }
+>();
+
+/**
+ * Push a project to the sync server once its saves have settled. Pass null
+ * map data for metadata-only changes (e.g. a rename). Failures are recorded
+ * in useServerSyncStore; the local copy is unaffected.
+ */
+export const scheduleProjectPush = (
+  project: Project,
+  mapData: SerializedMapData | null,
+): void => {
+  const existing = pendingPushes.get(project.id);
+  if (existing) clearTimeout(existing.timer);
+  const latestMapData = mapData ?? existing?.mapData ?? null;
+
+  const timer = setTimeout(async () => {
+    pendingPushes.delete(project.id);
+    const { serverUrl, markSynced, setError } = useServerSyncStore.getState();
+
+    try {
+      await pushProject(serverUrl, project, latestMapData);
+      markSynced(project.id);
+    } catch (error) {
+      console.error("Failed to sync job to server:", error);
+      setError(error instanceof Error ? error.message : "Sync failed");
+    }
+  }, PUSH_DELAY_MS);
+
+  pendingPushes.set(project.id, { timer, mapData: latestMapData });
+};
+
+/**
+ * Add the pulled project's layouts that this browser doesn't have yet,
+ * within the layout limit of the layout store. Layouts made for other jobs
+ * are left out.
+ */
+export const mergeServerLayouts = (
+  layouts: Layout[],
+  projectId: string,
+): number => {
+  const { layouts: existing } = useLayoutStore.getState();
+  const existingIds = new Set(existing.map((layout) => layout.id));
+  const available = Math.max(0, MAX_LAYOUTS - existing.length);
+  const added = layouts
+    .filter(
+      (layout) => layout.projectId === projectId && !existingIds.has(layout.id),
+    )
+    .slice(0, available);
+
+  if (added.length > 0) {
+    useLayoutStore.setState({ layouts: [...existing, ...added] });
+  }
+  return added.length;
+};
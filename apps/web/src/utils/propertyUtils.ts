@@ -2,6 +2,8 @@ import type Feature from "ol/Feature";
 import type { LineString } from "ol/geom";
 import { getLength } from "ol/sphere";
 import { extractCoordinates } from "./coordinateUtils";
+import type { CrsOption } from "./crsUtils";
+import { DERIVED_FROM_KEY } from "./featureIdUtils";
 
 export interface CustomProperty {
   id: string;
@@ -151,6 +153,18 @@ const STYLE_PROPERTY_KEYS = [
   "textFillColor",
   "textStrokeColor",
   "textAlign",
+  // Chainage properties
+  "chainageEnabled",
+  "chainageInterval",
+  "chainageMajorInterval",
+  "chainageStart",
+  // Network properties
+  "cableType",
+  "fibreCount",
+  "ductCount",
+  "ownership",
+  "fromNode",
+  "toNode",
 ] as const;
 
 /**
@@ -172,6 +186,8 @@ const shouldExcludeProperty = (key: string): boolean => {
   if (key === "lengthUnit") return true;
   if (key === "scallopRadius") return true;
   if (key === "dimensionText") return true;
+  // Feature lineage is system metadata (see featureIdUtils)
+  if (key === DERIVED_FROM_KEY) return true;
   // Calculated properties have their own UI section in the panel
   if (isCalculatedProperty(key)) return true;
   // Style properties have their own UI section in the panel
@@ -179,13 +195,25 @@ const shouldExcludeProperty = (key: string): boolean => {
   return false;
 };
 
+/**
+ * Check if a key can hold a custom property, i.e. it is not a coordinate,
+ * style, calculated or system property
+ */
+export const isCustomPropertyKey = (key: string): boolean => {
+  return !shouldExcludeProperty(key) && !isProtectedProperty(key);
+};
+
 /**
  * Extracts all displayable properties from a feature.
  * Includes coordinates (name, long, lat), label property, and custom properties.
+ * Coordinates are written in `crs`, WGS84 longitude/latitude by default.
  * Parses HTML description from KML into individual properties.
  */
-export const extractAllProperties = (feature: Feature): CustomProperty[] => {
-  const coords = extractCoordinates(feature);
+export const extractAllProperties = (
+  feature: Feature,
+  crs?: CrsOption
+): CustomProperty[] => {
+  const coords = extractCoordinates(feature, crs);
   const properties = feature.getProperties();
   delete properties.geometry;
 
@@ -282,6 +310,8 @@ export const extractAllProperties = (feature: Feature): CustomProperty[] => {
 
 /**
  * Applies properties to a feature, including coordinate updates.
+ * `updateCoordinates` gets the long/lat values as entered, in whatever
+ * coordinate system they were shown in.
  */
 export const applyPropertiesToFeature = (
   feature: Feature,
@@ -315,6 +345,7 @@ export const applyPropertiesToFeature = (
     "name",
     "label",
     "nonEditable",
+    DERIVED_FROM_KEY,
     // Style properties
     "lineColor",
     "lineWidth",
@@ -347,6 +378,18 @@ export const applyPropertiesToFeature = (
     "textFillColor",
     "textStrokeColor",
     "textAlign",
+    // Chainage properties
+    "chainageEnabled",
+    "chainageInterval",
+    "chainageMajorInterval",
+    "chainageStart",
+    // Network properties
+    "cableType",
+    "fibreCount",
+    "ductCount",
+    "ownership",
+    "fromNode",
+    "toNode",
   ];
 
   const currentProperties = feature.getProperties();
@@ -0,0 +1,215 @@
+import type Feature from "ol/Feature";
+import { getLength } from "ol/sphere";
+import type { Folder } from "@/types/folders";
+import {
+  getLegendMetadataItem,
+  type LegendMetadataItem,
+} from "@/utils/legendMetadataUtils";
+import type { SpreadsheetSheet } from "@/utils/spreadsheetUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Quantity of one legend type (count and total length) or icon (count)
+ */
+export interface QuantityItem extends LegendMetadataItem {
+  count: number;
+  // Total length in metres, legend lines only
+  length: number;
+}
+
+/**
+ * Quantities of the features in one folder, or of the whole job
+ */
+export interface QuantityGroup {
+  // null for features outside any folder, or for the job totals
+  folderId: string | null;
+  name: string;
+  items: QuantityItem[];
+}
+
+export interface QuantitiesReport {
+  // Per-folder groups, or a single group for the whole job
+  groups: QuantityGroup[];
+  totals: QuantityItem[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TOTAL_GROUP_NAME = "All features";
+const NO_FOLDER_NAME = "No folder";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Legends before icons, each alphabetically
+const compareItems = (a: QuantityItem, b: QuantityItem): number =>
+  a.type === b.type ? a.label.localeCompare(b.label) : a.type === "legend" ? -1 : 1;
+
+const addFeature = (
+  items: Map<string, QuantityItem>,
+  feature: Feature,
+  item: LegendMetadataItem
+): void => {
+  const key = `${item.type}:${item.id}`;
+  let quantity = items.get(key);
+  if (!quantity) {
+    quantity = { ...item, count: 0, length: 0 };
+    items.set(key, quantity);
+  }
+
+  quantity.count++;
+  const geometry = feature.getGeometry();
+  if (item.type === "legend" && geometry) {
+    quantity.length += getLength(geometry);
+  }
+};
+
+/**
+ * Folder name including its parents, e.g. "Phase 1 / Section A"
+ */
+const getFolderPath = (
+  folderId: string,
+  folders: Record<string, Folder>
+): string => {
+  const names: string[] = [];
+  let folder: Folder | undefined = folders[folderId];
+  while (folder && names.length < 50) {
+    names.unshift(folder.name);
+    folder = folder.parentId ? folders[folder.parentId] : undefined;
+  }
+  return names.join(" / ") || NO_FOLDER_NAME;
+};
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Total the length of each legend type and count each icon in use. With
+ * `byFolder`, features are also grouped by the folder they sit in directly
+ * (subfolders get their own group).
+ */
+export const collectQuantities = (
+  features: Feature[],
+  options: { byFolder?: boolean; folders?: Record<string, Folder> } = {}
+): QuantitiesReport => {
+  const folders = options.folders ?? {};
+  const totals = new Map<string, QuantityItem>();
+  const byFolder = new Map<string | null, Map<string, QuantityItem>>();
+
+  features.forEach((feature) => {
+    const item = getLegendMetadataItem(feature);
+    if (!item) return;
+
+    addFeature(totals, feature, item);
+
+    if (options.byFolder) {
+      const folderId: string | null =
+        feature.get("folderId") && folders[feature.get("folderId")]
+          ? feature.get("folderId")
+          : null;
+      if (!byFolder.has(folderId)) byFolder.set(folderId, new Map());
+      addFeature(byFolder.get(folderId)!, feature, item);
+    }
+  });
+
+  const totalItems = Array.from(totals.values()).sort(compareItems);
+  if (!options.byFolder) {
+    return {
+      groups: [{ folderId: null, name: TOTAL_GROUP_NAME, items: totalItems }],
+      totals: totalItems,
+    };
+  }
+
+  const groups: QuantityGroup[] = Array.from(byFolder.entries()).map(
+    ([folderId, items]) => ({
+      folderId,
+      name: folderId ? getFolderPath(folderId, folders) : NO_FOLDER_NAME,
+      items: Array.from(items.values()).sort(compareItems),
+    })
+  );
+  // Folders by path, loose features last
+  groups.sort((a, b) =>
+    a.folderId === null ? 1 : b.folderId === null ? -1 : a.name.localeCompare(b.name)
+  );
+
+  return { groups, totals: totalItems };
+};
+
+/**
+ * Quantity as shown in the report: total length for legend lines
+ * ("1.234 km" from a kilometre up), count for icons ("12 nos")
+ */
+export const formatQuantity = (item: QuantityItem): string => {
+  if (item.type === "icon") return `${item.count} nos`;
+  return item.length >= 1000
+    ? `${(item.length / 1000).toFixed(3)} km`
+    : `${item.length.toFixed(1)} m`;
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const QUANTITY_HEADERS = ["Item", "Type", "Count", "Length (m)"];
+
+const toRow = (item: QuantityItem): (string | number)[] => [
+  item.label,
+  item.type === "legend" ? "Line" : "Icon",
+  item.count,
+  item.type === "legend" ? Number(item.length.toFixed(3)) : "",
+];
+
+/**
+ * Report rows for CSV: a folder column when grouped by folder, followed by
+ * the job totals
+ */
+export const quantitiesToRows = (
+  report: QuantitiesReport
+): (string | number)[][] => {
+  const grouped = report.groups.length > 1 || report.groups[0]?.folderId !== null;
+  if (!grouped) {
+    return [QUANTITY_HEADERS, ...report.totals.map(toRow)];
+  }
+
+  return [
+    ["Folder", ...QUANTITY_HEADERS],
+    ...report.groups.flatMap((group) =>
+      group.items.map((item) => [group.name, ...toRow(item)])
+    ),
+    ...report.totals.map((item) => [TOTAL_GROUP_NAME, ...toRow(item)]),
+  ];
+};
+
+/**
+ * Report sheets for XLSX: the job totals, plus a sheet of folder rows when
+ * grouped by folder
+ */
+export const quantitiesToSheets = (
+  report: QuantitiesReport
+): SpreadsheetSheet[] => {
+  const sheets: SpreadsheetSheet[] = [
+    { name: "Quantities", rows: [QUANTITY_HEADERS, ...report.totals.map(toRow)] },
+  ];
+
+  const grouped = report.groups.length > 1 || report.groups[0]?.folderId !== null;
+  if (grouped) {
+    sheets.push({
+      name: "By folder",
+      rows: [
+        ["Folder", ...QUANTITY_HEADERS],
+        ...report.groups.flatMap((group) =>
+          group.items.map((item) => [group.name, ...toRow(item)])
+        ),
+      ],
+    });
+  }
+
+  return sheets;
+};
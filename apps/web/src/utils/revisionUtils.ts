@@ -0,0 +1,217 @@
+import type { SerializedMapData } from "@/hooks/useMapProjects";
+
+// ============================================================================
+// Revision summaries
+// ============================================================================
+
+export interface RevisionSummary {
+  featureCount: number;
+  folderCount: number;
+  /** Feature count per GeoJSON geometry type (Point, LineString, ...) */
+  geometryCounts: Record<string, number>;
+}
+
+export interface RevisionDiffSummary {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+interface GeoJSONGeometryLike {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometryLike[];
+}
+
+interface GeoJSONFeatureLike {
+  geometry?: GeoJSONGeometryLike | null;
+  properties?: Record<string, unknown> | null;
+}
+
+const getGeoJSONFeatures = (
+  mapData: SerializedMapData | null,
+): GeoJSONFeatureLike[] =>
+  Array.isArray(mapData?.features?.features) ? mapData.features.features : [];
+
+/**
+ * Summarise a stored snapshot for display in the revision history list.
+ */
+export function summarizeRevision(
+  mapData: SerializedMapData | null,
+): RevisionSummary {
+  const features = getGeoJSONFeatures(mapData);
+  const geometryCounts: Record<string, number> = {};
+
+  features.forEach((feature) => {
+    const type = feature?.geometry?.type || "Unknown";
+    geometryCounts[type] = (geometryCounts[type] || 0) + 1;
+  });
+
+  return {
+    featureCount: features.length,
+    folderCount: Object.keys(mapData?.folderStructure?.folders || {}).length,
+    geometryCounts,
+  };
+}
+
+/**
+ * Stable string signature of a GeoJSON feature (geometry + sorted properties),
+ * used to tell identical features apart from edited ones between snapshots.
+ */
+const getFeatureSignature = (feature: GeoJSONFeatureLike): string => {
+  const properties = feature?.properties || {};
+  const sortedProperties = Object.keys(properties)
+    .sort()
+    .map((key) => [key, properties[key]]);
+  return JSON.stringify([feature?.geometry ?? null, sortedProperties]);
+};
+
+/**
+ * Count how many features were added, removed or left untouched going from
+ * `from` to `to`. An edited feature shows up as one removal plus one addition.
+ */
+export function diffRevisionSummaries(
+  from: SerializedMapData | null,
+  to: SerializedMapData | null,
+): RevisionDiffSummary {
+  const remaining = new Map<string, number>();
+  getGeoJSONFeatures(from).forEach((feature) => {
+    const signature = getFeatureSignature(feature);
+    remaining.set(signature, (remaining.get(signature) || 0) + 1);
+  });
+
+  let added = 0;
+  let unchanged = 0;
+  getGeoJSONFeatures(to).forEach((feature) => {
+    const signature = getFeatureSignature(feature);
+    const count = remaining.get(signature) || 0;
+    if (count > 0) {
+      remaining.set(signature, count - 1);
+      unchanged++;
+    } else {
+      added++;
+    }
+  });
+
+  let removed = 0;
+  remaining.forEach((count) => {
+    removed += count;
+  });
+
+  return { added, removed, unchanged };
+}
+
+// ============================================================================
+// Revision preview
+// ============================================================================
+
+export interface RevisionPreviewShape {
+  type: "point" | "path";
+  /** SVG path data for lines/polygons, or "x,y" for points */
+  data: string;
+  closed: boolean;
+}
+
+const collectLineParts = (
+  geometry: GeoJSONGeometryLike,
+): { rings: number[][][]; closed: boolean } => {
+  switch (geometry.type) {
+    case "LineString":
+      return { rings: [geometry.coordinates as number[][]], closed: false };
+    case "MultiLineString":
+      return { rings: geometry.coordinates as number[][][], closed: false };
+    case "Polygon":
+      return { rings: geometry.coordinates as number[][][], closed: true };
+    case "MultiPolygon":
+      return {
+        rings: (geometry.coordinates as number[][][][]).flat(),
+        closed: true,
+      };
+    default:
+      return { rings: [], closed: false };
+  }
+};
+
+const collectPoints = (geometry: GeoJSONGeometryLike): number[][] => {
+  switch (geometry.type) {
+    case "Point":
+      return [geometry.coordinates as number[]];
+    case "MultiPoint":
+      return geometry.coordinates as number[][];
+    case "GeometryCollection":
+      return (geometry.geometries || []).flatMap(collectPoints);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Project a snapshot's features (EPSG:4326) into a width x height SVG viewport
+ * for a lightweight thumbnail preview. Longitudes are scaled by cos(latitude)
+ * so the shapes keep roughly the proportions they have on the map.
+ */
+export function buildRevisionPreview(
+  mapData: SerializedMapData | null,
+  width: number,
+  height: number,
+  padding = 8,
+): RevisionPreviewShape[] {
+  const geometries = getGeoJSONFeatures(mapData)
+    .map((feature) => feature?.geometry)
+    .filter((geometry): geometry is GeoJSONGeometryLike => !!geometry);
+
+  const allCoords: number[][] = [];
+  geometries.forEach((geometry) => {
+    collectPoints(geometry).forEach((c) => allCoords.push(c));
+    collectLineParts(geometry).rings.forEach((ring) =>
+      ring.forEach((c) => allCoords.push(c)),
+    );
+  });
+
+  if (allCoords.length === 0) return [];
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  allCoords.forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+
+  const lonScale = Math.cos((((minY + maxY) / 2) * Math.PI) / 180);
+  const spanX = Math.max((maxX - minX) * lonScale, 1e-9);
+  const spanY = Math.max(maxY - minY, 1e-9);
+  const scale = Math.min(
+    (width - padding * 2) / spanX,
+    (height - padding * 2) / spanY,
+  );
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  const toPixel = ([x, y]: number[]) =>
+    `${(offsetX + (x - minX) * lonScale * scale).toFixed(1)},${(
+      offsetY +
+      (maxY - y) * scale
+    ).toFixed(1)}`;
+
+  const shapes: RevisionPreviewShape[] = [];
+  geometries.forEach((geometry) => {
+    const { rings, closed } = collectLineParts(geometry);
+    rings.forEach((ring) => {
+      if (ring.length < 2) return;
+      const data =
+        ring.map((c, i) => `${i === 0 ? "M" : "L"}${toPixel(c)}`).join(" ") +
+        (closed ? " Z" : "");
+      shapes.push({ type: "path", data, closed });
+    });
+
+    collectPoints(geometry).forEach((c) => {
+      shapes.push({ type: "point", data: toPixel(c), closed: false });
+    });
+  });
+
+  return shapes;
+}
@@ -1,6 +1,7 @@
 import type Map from 'ol/Map';
 import { fromLonLat, toLonLat } from 'ol/proj';
 import type { SearchResult } from '@/components/SearchPanel';
+import { createCrsTransform, type CrsOption } from '@/utils/crsUtils';
 
 /**
  * Convert a search result coordinate to map projection
@@ -15,6 +16,19 @@ export const convertSearchCoordinate = (
   return coordinate as [number, number];
 };
 
+/**
+ * Convert a coordinate typed in the job's coordinate system to map projection,
+ * or null if it can't be placed
+ */
+export const convertEnteredCoordinate = (
+  x: number,
+  y: number,
+  crs: CrsOption
+): [number, number] | null => {
+  const [mapX, mapY] = createCrsTransform(crs).toMap([x, y]);
+  return Number.isFinite(mapX) && Number.isFinite(mapY) ? [mapX, mapY] : null;
+};
+
 /**
  * Convert map coordinate to lon/lat
  */
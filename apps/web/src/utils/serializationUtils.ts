@@ -2,42 +2,50 @@ import { Feature } from "ol";
 import type { Geometry } from "ol/geom";
 import type { Extent } from "ol/extent";
 import GeoJSON from "ol/format/GeoJSON";
+import { getFeatureId } from "./featureIdUtils";
 
 // Conversion utilities for proper serialization
-export const convertFeaturesToGeoJSON = (vectorSource: any): any => {
-  const features = vectorSource.getFeatures();
+export const convertFeatureToGeoJSON = (feature: Feature<Geometry>) => {
   const geoJSONFormat = new GeoJSON();
 
-  try {
-    const geoJSONFeatures = features.map((feature: Feature<Geometry>) => {
-      // Extract style metadata before converting to GeoJSON
-      const styleMetadata = extractStyleMetadata(feature);
+  // Extract style metadata before converting to GeoJSON
+  const styleMetadata = extractStyleMetadata(feature);
 
-      // Create a copy of the feature and add style metadata to properties
-      const featureClone = feature.clone();
+  // Create a copy of the feature and add style metadata to properties
+  const featureClone = feature.clone();
+  // clone() drops the id; keep the persistent feature id as GeoJSON `id`
+  featureClone.setId(getFeatureId(feature));
 
-      // Add style metadata to feature properties
-      Object.keys(styleMetadata).forEach((key) => {
-        featureClone.set(key, styleMetadata[key]);
-      });
+  // Add style metadata to feature properties
+  Object.keys(styleMetadata).forEach((key) => {
+    featureClone.set(key, styleMetadata[key]);
+  });
 
-      const geoJSONFeature = geoJSONFormat.writeFeature(featureClone, {
-        featureProjection: "EPSG:3857",
-        dataProjection: "EPSG:4326",
-      });
+  const geoJSONFeature = geoJSONFormat.writeFeature(featureClone, {
+    featureProjection: "EPSG:3857",
+    dataProjection: "EPSG:4326",
+  });
 
-      const parsed = JSON.parse(geoJSONFeature);
+  const parsed = JSON.parse(geoJSONFeature);
 
-      // Ensure properties object exists and contains our metadata
-      if (!parsed.properties) {
-        parsed.properties = {};
-      }
+  // Ensure properties object exists and contains our metadata
+  if (!parsed.properties) {
+    parsed.properties = {};
+  }
 
-      // Explicitly add all style metadata to properties
-      Object.assign(parsed.properties, styleMetadata);
+  // Explicitly add all style metadata to properties
+  Object.assign(parsed.properties, styleMetadata);
 
-      return parsed;
-    });
+  return parsed;
+};
+
+export const convertFeaturesToGeoJSON = (vectorSource: any): any => {
+  const features = vectorSource.getFeatures();
+
+  try {
+    const geoJSONFeatures = features.map((feature: Feature<Geometry>) =>
+      convertFeatureToGeoJSON(feature)
+    );
 
     return {
       type: "FeatureCollection",
@@ -138,6 +146,8 @@ export const extractStyleMetadata = (feature: Feature<Geometry>): any => {
   if (feature.get("isCircle")) properties.isCircle = true;
   if (feature.get("isArc")) properties.isArc = true;
   if (feature.get("isRevisionCloud")) properties.isRevisionCloud = true;
+  if (feature.get("isBuffer")) properties.isBuffer = true;
+  if (feature.get("bufferDistance") !== undefined) properties.bufferDistance = feature.get("bufferDistance");
   if (feature.get("scallopRadius")) properties.scallopRadius = feature.get("scallopRadius");
   if (feature.get("bulgeRatio") !== undefined) properties.bulgeRatio = feature.get("bulgeRatio");
   if (feature.get("originalPath")) properties.originalPath = feature.get("originalPath");
@@ -0,0 +1,900 @@
+import type { Feature } from "ol";
+import {
+  Circle,
+  GeometryCollection,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  type Geometry,
+} from "ol/geom";
+import { fromCircle } from "ol/geom/Polygon";
+import JSZip from "jszip";
+import proj4 from "proj4";
+import type { Folder } from "@/types/folders";
+import { extractAllProperties, isCustomPropertyKey } from "@/utils/propertyUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How features are split into shapefile layers on export. A shapefile holds
+ * a single geometry type, so folders with mixed features get one layer per
+ * type.
+ */
+export type ShapefileLayering = "geometry" | "folder";
+
+type GeometryFamily = "point" | "line" | "polygon";
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+interface GeoJSONFeature {
+  type: "Feature";
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, string | boolean>;
+}
+
+/**
+ * One .shp (with its .dbf) read from a zip, in EPSG:4326
+ */
+export interface ShapefileLayerData {
+  name: string;
+  features: { type: "FeatureCollection"; features: GeoJSONFeature[] };
+}
+
+type Position = [number, number];
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SHAPE_TYPE = {
+  NULL: 0,
+  POINT: 1,
+  POLYLINE: 3,
+  POLYGON: 5,
+  MULTIPOINT: 8,
+  MULTIPATCH: 31,
+} as const;
+
+const SHP_FILE_CODE = 9994;
+const SHP_VERSION = 1000;
+const SHP_HEADER_LENGTH = 100;
+
+const DBF_FIELD_NAME_LENGTH = 10;
+const DBF_MAX_FIELD_LENGTH = 254;
+
+// Written as the .prj of every exported layer; coordinates are exported in WGS84
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const LAYER_SUFFIX: Record<GeometryFamily, string> = {
+  point: "points",
+  line: "lines",
+  polygon: "polygons",
+};
+
+// Feature properties that are written as DBF fields besides the custom properties
+const EXPORTED_STYLE_KEYS = [
+  "legendType",
+  "islegends",
+  "iconPath",
+  "isIcon",
+  "text",
+  "isText",
+];
+
+// Style flags, written as "true"/"false" and read back as booleans
+const BOOLEAN_STYLE_KEYS = new Set(["islegends", "isIcon", "isText"]);
+
+// Shown among the custom properties but owned by the editor
+const FOLDER_ID_KEY = "folderId";
+
+// ============================================================================
+// SHP READING
+// ============================================================================
+
+const readPoints = (
+  view: DataView,
+  offset: number,
+  count: number,
+): Position[] => {
+  const points: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([
+      view.getFloat64(offset + i * 16, true),
+      view.getFloat64(offset + i * 16 + 8, true),
+    ]);
+  }
+  return points;
+};
+
+// Split a PolyLine/Polygon record into its parts
+const readParts = (view: DataView, offset: number): Position[][] => {
+  // Skip the shape type and bounding box
+  const numParts = view.getInt32(offset + 36, true);
+  const numPoints = view.getInt32(offset + 40, true);
+  const partStarts: number[] = [];
+  for (let i = 0; i < numParts; i++) {
+    partStarts.push(view.getInt32(offset + 44 + i * 4, true));
+  }
+
+  const points = readPoints(view, offset + 44 + numParts * 4, numPoints);
+  return partStarts.map((start, i) =>
+    points.slice(start, i + 1 < numParts ? partStarts[i + 1] : numPoints),
+  );
+};
+
+// Positive for counter-clockwise rings
+const getSignedArea = (ring: Position[]): number => {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+};
+
+const ringContainsPoint = (ring: Position[], [x, y]: Position): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Group shapefile rings into polygons. Outer rings are clockwise and holes
+ * counter-clockwise; a hole belongs to the outer ring that contains it.
+ */
+const ringsToPolygons = (rings: Position[][]): Position[][][] => {
+  const outers = rings.filter((ring) => getSignedArea(ring) < 0);
+  // Some writers get the orientation wrong, treat every ring as an outer
+  if (outers.length === 0) return rings.map((ring) => [ring]);
+
+  const polygons = outers.map((ring) => [ring]);
+  rings
+    .filter((ring) => getSignedArea(ring) >= 0)
+    .forEach((hole) => {
+      const owner = polygons.find((polygon) =>
+        ringContainsPoint(polygon[0], hole[0]),
+      );
+      if (owner) {
+        owner.push(hole);
+      } else {
+        polygons.push([hole]);
+      }
+    });
+  return polygons;
+};
+
+const readShapeRecord = (
+  view: DataView,
+  offset: number,
+): GeoJSONGeometry | null => {
+  const rawShapeType = view.getInt32(offset, true);
+  if (rawShapeType === SHAPE_TYPE.MULTIPATCH) return null;
+  // Z and M variants (11-28) share the XY layout of their base type
+  const shapeType = rawShapeType % 10;
+
+  switch (shapeType) {
+    case SHAPE_TYPE.POINT:
+      return { type: "Point", coordinates: readPoints(view, offset + 4, 1)[0] };
+    case SHAPE_TYPE.MULTIPOINT: {
+      const numPoints = view.getInt32(offset + 36, true);
+      const points = readPoints(view, offset + 40, numPoints);
+      return points.length === 1
+        ? { type: "Point", coordinates: points[0] }
+        : { type: "MultiPoint", coordinates: points };
+    }
+    case SHAPE_TYPE.POLYLINE: {
+      const parts = readParts(view, offset);
+      return parts.length === 1
+        ? { type: "LineString", coordinates: parts[0] }
+        : { type: "MultiLineString", coordinates: parts };
+    }
+    case SHAPE_TYPE.POLYGON: {
+      const polygons = ringsToPolygons(readParts(view, offset));
+      return polygons.length === 1
+        ? { type: "Polygon", coordinates: polygons[0] }
+        : { type: "MultiPolygon", coordinates: polygons };
+    }
+    default:
+      // Null shapes
+      return null;
+  }
+};
+
+/**
+ * Read every shape of a .shp file, in record order
+ */
+const readShpGeometries = (
+  buffer: ArrayBuffer,
+): (GeoJSONGeometry | null)[] => {
+  const view = new DataView(buffer);
+  if (view.getInt32(0, false) !== SHP_FILE_CODE) {
+    throw new Error("Not a shapefile (.shp)");
+  }
+
+  const fileLength = Math.min(view.getInt32(24, false) * 2, buffer.byteLength);
+  const geometries: (GeoJSONGeometry | null)[] = [];
+  let offset = SHP_HEADER_LENGTH;
+
+  while (offset + 8 <= fileLength) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    geometries.push(readShapeRecord(view, offset + 8));
+    offset += 8 + contentLength;
+  }
+  return geometries;
+};
+
+// ============================================================================
+// DBF READING
+// ============================================================================
+
+/**
+ * Text decoder for the encoding named in a .cpg file. Without one, UTF-8 is
+ * tried first and Windows-1252 (the usual ESRI default) is the fallback.
+ */
+const getDbfDecoder = (cpg?: string): ((bytes: Uint8Array) => string) => {
+  const label = cpg?.trim() ?? "";
+  const encoding = /utf-?8/i.test(label)
+    ? "utf-8"
+    : /8859/.test(label)
+      ? `iso-8859-${label.split("8859").pop()?.replace(/\D/g, "") || "1"}`
+      : /\d{3,4}/.test(label)
+        ? `windows-${label.match(/\d{3,4}/)![0]}`
+        : null;
+
+  if (encoding) {
+    try {
+      const decoder = new TextDecoder(encoding);
+      return (bytes) => decoder.decode(bytes);
+    } catch {
+      // Unknown label, fall through to detection
+    }
+  }
+
+  const utf8 = new TextDecoder("utf-8", { fatal: true });
+  const latin = new TextDecoder("windows-1252");
+  return (bytes) => {
+    try {
+      return utf8.decode(bytes);
+    } catch {
+      return latin.decode(bytes);
+    }
+  };
+};
+
+const formatDbfValue = (type: string, raw: string): string => {
+  const value = raw.trim();
+  if (type === "D" && /^\d{8}$/.test(value)) {
+    return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6)}`;
+  }
+  if (type === "L") {
+    if (/^[TtYy]$/.test(value)) return "true";
+    if (/^[FfNn]$/.test(value)) return "false";
+    return "";
+  }
+  return value;
+};
+
+/**
+ * Read the attribute table of a .dbf file. Every value is returned as a
+ * string, the way custom properties are stored.
+ */
+const readDbfRecords = (
+  buffer: ArrayBuffer,
+  cpg?: string,
+): Record<string, string>[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decode = getDbfDecoder(cpg);
+
+  const numRecords = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let offset = 32; offset < headerLength - 1 && bytes[offset] !== 0x0d; offset += 32) {
+    const nameBytes = bytes.subarray(offset, offset + 11);
+    const nameEnd = nameBytes.indexOf(0);
+    fields.push({
+      name: decode(nameBytes.subarray(0, nameEnd === -1 ? 11 : nameEnd)).trim(),
+      type: String.fromCharCode(bytes[offset + 11]),
+      length: bytes[offset + 16],
+    });
+  }
+
+  const records: Record<string, string>[] = [];
+  for (let i = 0; i < numRecords; i++) {
+    const recordStart = headerLength + i * recordLength;
+    if (recordStart + recordLength > bytes.length) break;
+
+    // Deleted records are kept in the file, flagged with "*"
+    const deleted = bytes[recordStart] === 0x2a;
+    const record: Record<string, string> = {};
+    let offset = recordStart + 1;
+    fields.forEach((field) => {
+      const raw = decode(bytes.subarray(offset, offset + field.length));
+      record[field.name] = formatDbfValue(field.type, raw);
+      offset += field.length;
+    });
+    records.push(deleted ? {} : record);
+  }
+  return records;
+};
+
+// ============================================================================
+// ATTRIBUTES
+// ============================================================================
+
+/**
+ * Turn a DBF record into feature properties. Fields become custom
+ * properties; the ones written on export (name, legend type, icon, text and
+ * their flags) are restored, and fields that would clash with style or
+ * system properties are kept under a `shp_` prefix.
+ */
+const dbfRecordToProperties = (
+  record: Record<string, string>,
+): Record<string, string | boolean> => {
+  const properties: Record<string, string | boolean> = {};
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (!key || value === "") return;
+
+    const restoredKey =
+      key.toLowerCase() === "name"
+        ? "name"
+        : EXPORTED_STYLE_KEYS.find(
+            (styleKey) => styleKey.toLowerCase() === key.toLowerCase(),
+          );
+    if (restoredKey) {
+      properties[restoredKey] = BOOLEAN_STYLE_KEYS.has(restoredKey)
+        ? value === "true"
+        : value;
+    } else {
+      const isReserved = !isCustomPropertyKey(key) || key === FOLDER_ID_KEY;
+      properties[isReserved ? `shp_${key}` : key] = value;
+    }
+  });
+
+  // Files written before the flags were exported only carry the legend type
+  // and icon path, which are enough to tell legends and icons apart
+  if (properties.legendType && properties.islegends === undefined) {
+    properties.islegends = true;
+  }
+  if (properties.iconPath && properties.isIcon === undefined) {
+    properties.isIcon = true;
+  }
+
+  return properties;
+};
+
+/**
+ * DBF attributes of a feature: its name, custom properties and the style
+ * keys above, plus the name of the folder it is in
+ */
+const getFeatureAttributes = (
+  feature: Feature<Geometry>,
+  folders: Record<string, Folder>,
+): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+
+  extractAllProperties(feature).forEach(({ key, value }) => {
+    if (key === "name" || (isCustomPropertyKey(key) && key !== FOLDER_ID_KEY)) {
+      attributes[key] = value;
+    }
+  });
+  EXPORTED_STYLE_KEYS.forEach((key) => {
+    const value = feature.get(key);
+    if (value !== undefined && value !== null && value !== "") {
+      attributes[key] = String(value);
+    }
+  });
+
+  const folderId = feature.get(FOLDER_ID_KEY);
+  if (folderId && folders[folderId]) {
+    attributes.folder = folders[folderId].name;
+  }
+  return attributes;
+};
+
+// ============================================================================
+// ZIP READING
+// ============================================================================
+
+/**
+ * Converter from the coordinate system in a .prj file to EPSG:4326.
+ * Without a .prj the coordinates must already be longitude/latitude.
+ */
+const createToWgs84 = (
+  prj: string | undefined,
+  layerName: string,
+): ((coordinate: Position) => Position) => {
+  if (!prj?.trim()) {
+    return (coordinate) => {
+      if (Math.abs(coordinate[0]) > 180 || Math.abs(coordinate[1]) > 90) {
+        throw new Error(
+          `${layerName} has no .prj file and its coordinates are not longitude/latitude`,
+        );
+      }
+      return coordinate;
+    };
+  }
+
+  let converter: proj4.Converter;
+  try {
+    converter = proj4(prj.trim(), "EPSG:4326");
+  } catch (error) {
+    console.error(`Unsupported projection in ${layerName}.prj:`, error);
+    throw new Error(`Unsupported coordinate system in ${layerName}.prj`);
+  }
+  return (coordinate) => converter.forward(coordinate) as Position;
+};
+
+const transformCoordinates = (
+  coordinates: unknown,
+  transform: (coordinate: Position) => Position,
+): unknown => {
+  if (!Array.isArray(coordinates)) return coordinates;
+  if (typeof coordinates[0] === "number") {
+    return transform(coordinates as Position);
+  }
+  return coordinates.map((child) => transformCoordinates(child, transform));
+};
+
+const getSiblingFile = (
+  zip: JSZip,
+  basePath: string,
+  extension: string,
+): JSZip.JSZipObject | null => {
+  const entryName = Object.keys(zip.files).find(
+    (name) => name.toLowerCase() === `${basePath}.${extension}`.toLowerCase(),
+  );
+  return entryName ? zip.file(entryName) : null;
+};
+
+/**
+ * Read every layer of a zipped shapefile (.shp with its .dbf, .prj and
+ * .cpg), reprojected to EPSG:4326.
+ */
+export async function readShapefileZip(
+  data: ArrayBuffer,
+): Promise<ShapefileLayerData[]> {
+  const zip = await JSZip.loadAsync(data);
+  const shpEntries = Object.keys(zip.files).filter(
+    (name) => name.toLowerCase().endsWith(".shp") && !name.startsWith("__MACOSX/"),
+  );
+  if (shpEntries.length === 0) {
+    throw new Error("No .shp file found in the zip");
+  }
+
+  const layers: ShapefileLayerData[] = [];
+  for (const shpName of shpEntries) {
+    const basePath = shpName.slice(0, -4);
+    const layerName = basePath.split("/").pop() || basePath;
+
+    const geometries = readShpGeometries(
+      await zip.file(shpName)!.async("arraybuffer"),
+    );
+    const dbfFile = getSiblingFile(zip, basePath, "dbf");
+    const cpg = await getSiblingFile(zip, basePath, "cpg")?.async("text");
+    const records = dbfFile
+      ? readDbfRecords(await dbfFile.async("arraybuffer"), cpg)
+      : [];
+    const toWgs84 = createToWgs84(
+      await getSiblingFile(zip, basePath, "prj")?.async("text"),
+      layerName,
+    );
+
+    const features: GeoJSONFeature[] = [];
+    geometries.forEach((geometry, index) => {
+      if (!geometry) return;
+      features.push({
+        type: "Feature",
+        geometry: {
+          type: geometry.type,
+          coordinates: transformCoordinates(geometry.coordinates, toWgs84),
+        },
+        properties: dbfRecordToProperties(records[index] ?? {}),
+      });
+    });
+
+    layers.push({
+      name: layerName,
+      features: { type: "FeatureCollection", features },
+    });
+  }
+  return layers;
+}
+
+// ============================================================================
+// SHP WRITING
+// ============================================================================
+
+interface ShapeRecord {
+  family: GeometryFamily;
+  // Point/MultiPoint: one part per point; lines and polygons: one per part/ring
+  parts: Position[][];
+  isMulti: boolean;
+  attributes: Record<string, string>;
+}
+
+interface ShapeLayer {
+  name: string;
+  family: GeometryFamily;
+  records: ShapeRecord[];
+}
+
+const orientRing = (ring: Position[], clockwise: boolean): Position[] => {
+  const isClockwise = getSignedArea(ring) < 0;
+  return isClockwise === clockwise ? ring : [...ring].reverse();
+};
+
+const polygonToRings = (polygon: Position[][]): Position[][] =>
+  polygon.map((ring, index) => orientRing(ring, index === 0));
+
+/**
+ * Split a geometry (EPSG:4326 coordinates) into shape records per geometry
+ * family; collections can yield records of several families.
+ */
+const geometryToShapes = (
+  geometry: Geometry,
+): Omit<ShapeRecord, "attributes">[] => {
+  if (geometry instanceof GeometryCollection) {
+    return geometry.getGeometries().flatMap(geometryToShapes);
+  }
+  if (geometry instanceof Circle) {
+    return geometryToShapes(fromCircle(geometry, 64));
+  }
+  if (geometry instanceof Point) {
+    return [
+      { family: "point", parts: [[geometry.getCoordinates() as Position]], isMulti: false },
+    ];
+  }
+  if (geometry instanceof MultiPoint) {
+    const points = geometry.getCoordinates() as Position[];
+    return [{ family: "point", parts: points.map((p) => [p]), isMulti: true }];
+  }
+  if (geometry instanceof LineString) {
+    return [
+      { family: "line", parts: [geometry.getCoordinates() as Position[]], isMulti: false },
+    ];
+  }
+  if (geometry instanceof MultiLineString) {
+    return [
+      { family: "line", parts: geometry.getCoordinates() as Position[][], isMulti: true },
+    ];
+  }
+  if (geometry instanceof Polygon) {
+    return [
+      {
+        family: "polygon",
+        parts: polygonToRings(geometry.getCoordinates() as Position[][]),
+        isMulti: false,
+      },
+    ];
+  }
+  if (geometry instanceof MultiPolygon) {
+    const polygons = geometry.getCoordinates() as Position[][][];
+    return [
+      { family: "polygon", parts: polygons.flatMap(polygonToRings), isMulti: true },
+    ];
+  }
+  return [];
+};
+
+const getLayerShapeType = (layer: ShapeLayer): number => {
+  if (layer.family === "point") {
+    return layer.records.some((record) => record.isMulti)
+      ? SHAPE_TYPE.MULTIPOINT
+      : SHAPE_TYPE.POINT;
+  }
+  return layer.family === "line" ? SHAPE_TYPE.POLYLINE : SHAPE_TYPE.POLYGON;
+};
+
+const getBoundingBox = (points: Position[]): [number, number, number, number] => {
+  const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  points.forEach(([x, y]) => {
+    bbox[0] = Math.min(bbox[0], x);
+    bbox[1] = Math.min(bbox[1], y);
+    bbox[2] = Math.max(bbox[2], x);
+    bbox[3] = Math.max(bbox[3], y);
+  });
+  return bbox;
+};
+
+const getRecordContentLength = (shapeType: number, record: ShapeRecord): number => {
+  const numPoints = record.parts.reduce((sum, part) => sum + part.length, 0);
+  if (shapeType === SHAPE_TYPE.POINT) return 20;
+  if (shapeType === SHAPE_TYPE.MULTIPOINT) return 40 + numPoints * 16;
+  return 44 + record.parts.length * 4 + numPoints * 16;
+};
+
+const writeShpHeader = (
+  view: DataView,
+  shapeType: number,
+  fileLengthBytes: number,
+  bbox: [number, number, number, number],
+) => {
+  view.setInt32(0, SHP_FILE_CODE, false);
+  view.setInt32(24, fileLengthBytes / 2, false);
+  view.setInt32(28, SHP_VERSION, true);
+  view.setInt32(32, shapeType, true);
+  bbox.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+};
+
+const writePoints = (view: DataView, offset: number, points: Position[]) => {
+  points.forEach(([x, y], i) => {
+    view.setFloat64(offset + i * 16, x, true);
+    view.setFloat64(offset + i * 16 + 8, y, true);
+  });
+};
+
+/**
+ * Write the .shp and .shx of a layer
+ */
+const writeShpAndShx = (
+  layer: ShapeLayer,
+): { shp: ArrayBuffer; shx: ArrayBuffer } => {
+  const shapeType = getLayerShapeType(layer);
+  const contentLengths = layer.records.map((record) =>
+    getRecordContentLength(shapeType, record),
+  );
+  const shpLength =
+    SHP_HEADER_LENGTH + contentLengths.reduce((sum, length) => sum + 8 + length, 0);
+  const shxLength = SHP_HEADER_LENGTH + layer.records.length * 8;
+
+  const allPoints = layer.records.flatMap((record) => record.parts.flat());
+  const bbox = getBoundingBox(allPoints);
+
+  const shp = new ArrayBuffer(shpLength);
+  const shx = new ArrayBuffer(shxLength);
+  const shpView = new DataView(shp);
+  const shxView = new DataView(shx);
+  writeShpHeader(shpView, shapeType, shpLength, bbox);
+  writeShpHeader(shxView, shapeType, shxLength, bbox);
+
+  let offset = SHP_HEADER_LENGTH;
+  layer.records.forEach((record, index) => {
+    const contentLength = contentLengths[index];
+    shxView.setInt32(SHP_HEADER_LENGTH + index * 8, offset / 2, false);
+    shxView.setInt32(SHP_HEADER_LENGTH + index * 8 + 4, contentLength / 2, false);
+
+    shpView.setInt32(offset, index + 1, false);
+    shpView.setInt32(offset + 4, contentLength / 2, false);
+    const content = offset + 8;
+    shpView.setInt32(content, shapeType, true);
+
+    const points = record.parts.flat();
+    if (shapeType === SHAPE_TYPE.POINT) {
+      writePoints(shpView, content + 4, points);
+    } else {
+      getBoundingBox(points).forEach((value, i) =>
+        shpView.setFloat64(content + 4 + i * 8, value, true),
+      );
+      if (shapeType === SHAPE_TYPE.MULTIPOINT) {
+        shpView.setInt32(content + 36, points.length, true);
+        writePoints(shpView, content + 40, points);
+      } else {
+        shpView.setInt32(content + 36, record.parts.length, true);
+        shpView.setInt32(content + 40, points.length, true);
+        let start = 0;
+        record.parts.forEach((part, i) => {
+          shpView.setInt32(content + 44 + i * 4, start, true);
+          start += part.length;
+        });
+        writePoints(shpView, content + 44 + record.parts.length * 4, points);
+      }
+    }
+    offset += 8 + contentLength;
+  });
+
+  return { shp, shx };
+};
+
+// ============================================================================
+// DBF WRITING
+// ============================================================================
+
+// Cut a string to at most `maxBytes` of UTF-8 without splitting a character
+const encodeTruncated = (
+  encoder: TextEncoder,
+  value: string,
+  maxBytes: number,
+): Uint8Array => {
+  let encoded = encoder.encode(value);
+  let chars = [...value];
+  while (encoded.length > maxBytes) {
+    chars = chars.slice(0, -1);
+    encoded = encoder.encode(chars.join(""));
+  }
+  return encoded;
+};
+
+/**
+ * DBF field names for the attribute keys: at most 10 characters, unique
+ * regardless of case
+ */
+const getDbfFieldNames = (keys: string[]): string[] => {
+  const used = new Set<string>();
+  return keys.map((key) => {
+    const base =
+      key.replace(/[^A-Za-z0-9_]/g, "_").slice(0, DBF_FIELD_NAME_LENGTH) || "field";
+    let name = base;
+    for (let i = 1; used.has(name.toUpperCase()); i++) {
+      const suffix = `_${i}`;
+      name = base.slice(0, DBF_FIELD_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toUpperCase());
+    return name;
+  });
+};
+
+/**
+ * Write the attribute table of a layer as UTF-8 text fields
+ */
+const writeDbf = (records: Record<string, string>[]): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const keys = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const fieldNames = getDbfFieldNames(keys);
+
+  const values = records.map((record) =>
+    keys.map((key) =>
+      encodeTruncated(encoder, record[key] ?? "", DBF_MAX_FIELD_LENGTH),
+    ),
+  );
+  const fieldLengths = keys.map((_, i) =>
+    Math.max(1, ...values.map((row) => row[i].length)),
+  );
+
+  const headerLength = 32 + keys.length * 32 + 1;
+  const recordLength = 1 + fieldLengths.reduce((sum, length) => sum + length, 0);
+  const buffer = new ArrayBuffer(headerLength + records.length * recordLength + 1);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  const now = new Date();
+  view.setUint8(0, 0x03);
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fieldNames.forEach((name, i) => {
+    const offset = 32 + i * 32;
+    bytes.set(encoder.encode(name), offset);
+    bytes[offset + 11] = "C".charCodeAt(0);
+    bytes[offset + 16] = fieldLengths[i];
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  // Records are space padded, starting with a blank "not deleted" flag
+  bytes.fill(0x20, headerLength, buffer.byteLength - 1);
+  values.forEach((row, recordIndex) => {
+    let offset = headerLength + recordIndex * recordLength + 1;
+    row.forEach((value, i) => {
+      bytes.set(value, offset);
+      offset += fieldLengths[i];
+    });
+  });
+  bytes[buffer.byteLength - 1] = 0x1a;
+
+  return buffer;
+};
+
+// ============================================================================
+// ZIP WRITING
+// ============================================================================
+
+const getFolderPath = (
+  folderId: string,
+  folders: Record<string, Folder>,
+): string => {
+  const names: string[] = [];
+  let folder: Folder | undefined = folders[folderId];
+  while (folder && names.length < 20) {
+    names.unshift(folder.name);
+    folder = folder.parentId ? folders[folder.parentId] : undefined;
+  }
+  return names.join("_");
+};
+
+const sanitizeLayerName = (name: string): string =>
+  name.replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "") || "layer";
+
+/**
+ * Group features into shapefile layers, by geometry type or by folder
+ * (folders with several geometry types get a layer per type).
+ */
+const buildShapeLayers = (
+  features: Feature<Geometry>[],
+  folders: Record<string, Folder>,
+  layering: ShapefileLayering,
+  fileName: string,
+): ShapeLayer[] => {
+  const groups = new Map<string, { baseName: string; records: ShapeRecord[] }>();
+
+  features.forEach((feature) => {
+    const geometry = feature.getGeometry()?.clone();
+    if (!geometry) return;
+    geometry.transform("EPSG:3857", "EPSG:4326");
+
+    const attributes = getFeatureAttributes(feature, folders);
+    const folderId = feature.get("folderId");
+    const baseName =
+      layering === "folder" && folderId && folders[folderId]
+        ? getFolderPath(folderId, folders)
+        : fileName;
+    const groupKey = layering === "folder" ? folderId || "" : "";
+
+    geometryToShapes(geometry).forEach((shape) => {
+      const key = `${groupKey}|${shape.family}`;
+      if (!groups.has(key)) groups.set(key, { baseName, records: [] });
+      groups.get(key)!.records.push({ ...shape, attributes });
+    });
+  });
+
+  // Only add the geometry suffix where a group needs telling apart
+  const familiesPerBase = new Map<string, number>();
+  groups.forEach(({ baseName }) =>
+    familiesPerBase.set(baseName, (familiesPerBase.get(baseName) ?? 0) + 1),
+  );
+
+  const usedNames = new Set<string>();
+  return [...groups.entries()].map(([key, { baseName, records }]) => {
+    const family = key.split("|").pop() as GeometryFamily;
+    const rawName =
+      layering === "geometry" || (familiesPerBase.get(baseName) ?? 0) > 1
+        ? `${baseName}_${LAYER_SUFFIX[family]}`
+        : baseName;
+
+    let name = sanitizeLayerName(rawName);
+    for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+      name = `${sanitizeLayerName(rawName)}_${i}`;
+    }
+    usedNames.add(name.toLowerCase());
+
+    return { name, family, records };
+  });
+};
+
+/**
+ * Write features (EPSG:3857) as a zip of shapefile layers in EPSG:4326,
+ * each with .shp, .shx, .dbf, .prj and .cpg.
+ */
+export async function writeShapefileZip(
+  features: Feature<Geometry>[],
+  folders: Record<string, Folder>,
+  layering: ShapefileLayering,
+  fileName: string,
+): Promise<Blob> {
+  const layers = buildShapeLayers(features, folders, layering, fileName);
+  if (layers.length === 0) {
+    throw new Error("No features with a geometry to export");
+  }
+
+  const zip = new JSZip();
+  layers.forEach((layer) => {
+    const { shp, shx } = writeShpAndShx(layer);
+    zip.file(`${layer.name}.shp`, shp);
+    zip.file(`${layer.name}.shx`, shx);
+    zip.file(`${layer.name}.dbf`, writeDbf(layer.records.map((r) => r.attributes)));
+    zip.file(`${layer.name}.prj`, WGS84_PRJ);
+    zip.file(`${layer.name}.cpg`, "UTF-8");
+  });
+
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
@@ -4,6 +4,10 @@ import type { Geometry } from "ol/geom";
 import { getLength } from "ol/sphere";
 import type { Coordinate } from "ol/coordinate";
 import type { Vector as VectorSource } from "ol/source";
+import {
+  assignMergedFeatureId,
+  assignSplitFeatureIds,
+} from "./featureIdUtils";
 
 /**
  * Check if a feature is splittable
@@ -56,6 +60,7 @@ export const isOffsettableFeature = (feature: Feature<Geometry>): boolean => {
  * Copy all properties from original feature to split features
  * Preserves styling, names, and custom properties
  * For measure features, recalculates distance for each split segment
+ * The first piece keeps the original feature id, the others derive from it
  */
 export const copyFeatureProperties = (
   original: Feature<Geometry>,
@@ -88,6 +93,8 @@ export const copyFeatureProperties = (
       }
     }
   });
+
+  assignSplitFeatureIds(original, splitFeatures);
 };
 
 // ============== MERGE UTILITIES ==============
@@ -246,6 +253,9 @@ export const mergeLineStrings = (
     mergedFeature.set("distance", length);
   }
 
+  // Merged feature continues feature1 and records feature2 in its lineage
+  assignMergedFeatureId(mergedFeature, feature1, feature2);
+
   return mergedFeature;
 };
 
@@ -0,0 +1,750 @@
+import { Feature } from "ol";
+import type { Coordinate } from "ol/coordinate";
+import {
+  LineString,
+  MultiLineString,
+  Point,
+  Polygon,
+  type Geometry,
+} from "ol/geom";
+import { getCenter } from "ol/extent";
+import { fromLonLat } from "ol/proj";
+import JSZip from "jszip";
+import { getIconNameFromPath } from "@/utils/iconUtils";
+import { isCustomPropertyKey } from "@/utils/propertyUtils";
+import {
+  createCrsTransform,
+  getCrsAxisNames,
+  isGeographicCrs,
+  type CrsOption,
+} from "@/utils/crsUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One sheet of a spreadsheet (a CSV file has a single sheet). The first
+ * non-empty row is taken as the header.
+ */
+export interface SpreadsheetTable {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * A sheet to write. Numbers are written as numeric cells.
+ */
+export interface SpreadsheetSheet {
+  name: string;
+  rows: (string | number)[][];
+}
+
+/**
+ * Which columns of a table hold what
+ * - lonlat: x/y columns are WGS84 longitude/latitude
+ * - projected: x/y columns are easting/northing in `crs`
+ */
+export interface SpreadsheetMapping {
+  coordinates: "lonlat" | "projected";
+  xColumn: number | null;
+  yColumn: number | null;
+  crs: CrsOption;
+  nameColumn: number | null;
+  // Icon for the points, plain points if null
+  iconPath: string | null;
+  // Rows with the same route id are joined into a polyline in sequence order
+  routeColumn: number | null;
+  sequenceColumn: number | null;
+  // Legend type of the joined polylines
+  legendType: string | null;
+  // Keep a point per row when routes are joined. Routes of a single row
+  // can't be joined and are always kept as a point.
+  includePoints: boolean;
+}
+
+export interface SpreadsheetFeatures {
+  features: Feature<Geometry>[];
+  // 1-based spreadsheet row numbers (header is row 1) without valid coordinates
+  skippedRows: number[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * File extensions imported through the column mapping dialog
+ */
+export const SPREADSHEET_FILE_ACCEPT = ".csv,.tsv,.xlsx";
+
+// Prefix for columns whose name clashes with a style or system property
+const RESERVED_COLUMN_PREFIX = "csv_";
+
+// Header names recognized when guessing the mapping (compared lowercase,
+// without spaces, dots, underscores and dashes)
+const LONGITUDE_HEADERS = ["lon", "long", "lng", "longitude", "x"];
+const LATITUDE_HEADERS = ["lat", "latitude", "y"];
+const EASTING_HEADERS = ["e", "east", "easting", "x"];
+const NORTHING_HEADERS = ["n", "north", "northing", "y"];
+const NAME_HEADERS = ["name", "id", "label", "poleid", "pole", "chamber", "ref"];
+const ROUTE_HEADERS = ["route", "routeid", "routename", "line", "lineid"];
+const SEQUENCE_HEADERS = ["seq", "sequence", "order", "sno", "no", "index"];
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export const isSpreadsheetFile = (fileName: string): boolean => {
+  const name = fileName.toLowerCase();
+  return SPREADSHEET_FILE_ACCEPT.split(",").some((extension) =>
+    name.endsWith(extension)
+  );
+};
+
+/**
+ * Delimiter used in the first line: tab, semicolon or comma
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = ["\t", ";", ","].map(
+    (delimiter) => [delimiter, firstLine.split(delimiter).length] as const
+  );
+  return counts.reduce((best, current) =>
+    current[1] > best[1] ? current : best
+  )[0];
+};
+
+/**
+ * Split delimited text into rows of cells, honouring double-quoted cells
+ * with embedded delimiters, newlines and doubled quotes
+ */
+export const parseDelimitedText = (
+  text: string,
+  delimiter = detectDelimiter(text)
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  // Strip a UTF-8 byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Header row plus data rows, skipping blank lines. Blank and repeated
+ * headers get a unique name.
+ */
+const rowsToTable = (name: string, rawRows: string[][]): SpreadsheetTable => {
+  const rows = rawRows
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some((cell) => cell !== ""));
+  const [headerRow = [], ...dataRows] = rows;
+  const width = Math.max(headerRow.length, ...dataRows.map((r) => r.length));
+
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, index) => {
+    const header = headerRow[index] || `Column ${index + 1}`;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+
+  return {
+    name,
+    headers,
+    rows: dataRows.map((row) =>
+      Array.from({ length: width }, (_, index) => row[index] ?? "")
+    ),
+  };
+};
+
+const parseXmlDocument = (text: string): Document =>
+  new DOMParser().parseFromString(text, "application/xml");
+
+// Zero-based column index of a cell reference such as "AB12"
+const getColumnIndex = (cellRef: string): number => {
+  const letters = /^[A-Z]+/i.exec(cellRef)?.[0].toUpperCase() ?? "";
+  return (
+    letters
+      .split("")
+      .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+  );
+};
+
+// Numbers as Excel shows them, without binary floating point noise
+const formatXlsxNumber = (raw: string): string => {
+  const value = Number(raw);
+  return Number.isFinite(value) ? String(Number(value.toPrecision(15))) : raw;
+};
+
+const readSharedStrings = async (zip: JSZip): Promise<string[]> => {
+  const text = await zip.file("xl/sharedStrings.xml")?.async("text");
+  if (!text) return [];
+  return Array.from(parseXmlDocument(text).getElementsByTagName("si")).map(
+    (item) =>
+      Array.from(item.getElementsByTagName("t"))
+        .map((t) => t.textContent ?? "")
+        .join("")
+  );
+};
+
+const readXlsxSheet = (
+  sheetXml: string,
+  sharedStrings: string[]
+): string[][] => {
+  const rows: string[][] = [];
+
+  Array.from(parseXmlDocument(sheetXml).getElementsByTagName("row")).forEach(
+    (rowElement, rowPosition) => {
+      const rowNumber = Number(rowElement.getAttribute("r")) || rowPosition + 1;
+      const row: string[] = [];
+
+      Array.from(rowElement.getElementsByTagName("c")).forEach(
+        (cell, cellPosition) => {
+          const ref = cell.getAttribute("r");
+          const column = ref ? getColumnIndex(ref) : cellPosition;
+          const type = cell.getAttribute("t");
+          const raw = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+
+          let value: string;
+          if (type === "s") {
+            value = sharedStrings[Number(raw)] ?? "";
+          } else if (type === "inlineStr") {
+            value = Array.from(cell.getElementsByTagName("t"))
+              .map((t) => t.textContent ?? "")
+              .join("");
+          } else if (type === "b") {
+            value = raw === "1" ? "TRUE" : "FALSE";
+          } else if (type === "str" || type === "e") {
+            value = raw;
+          } else {
+            value = formatXlsxNumber(raw);
+          }
+
+          while (row.length < column) row.push("");
+          row[column] = value;
+        }
+      );
+
+      rows[rowNumber - 1] = row;
+    }
+  );
+
+  return Array.from(rows, (row) => row ?? []);
+};
+
+/**
+ * Read every worksheet of an .xlsx workbook
+ */
+const readXlsx = async (data: ArrayBuffer): Promise<SpreadsheetTable[]> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error("Not a valid .xlsx file");
+  }
+
+  const workbookXml = await zip.file("xl/workbook.xml")?.async("text");
+  const relsXml = await zip
+    .file("xl/_rels/workbook.xml.rels")
+    ?.async("text");
+  if (!workbookXml || !relsXml) {
+    throw new Error("Not a valid .xlsx file");
+  }
+
+  const targets = new Map<string, string>();
+  Array.from(
+    parseXmlDocument(relsXml).getElementsByTagName("Relationship")
+  ).forEach((rel) => {
+    const target = rel.getAttribute("Target") ?? "";
+    targets.set(
+      rel.getAttribute("Id") ?? "",
+      target.startsWith("/") ? target.slice(1) : `xl/${target}`
+    );
+  });
+
+  const sharedStrings = await readSharedStrings(zip);
+  const tables: SpreadsheetTable[] = [];
+
+  for (const sheet of Array.from(
+    parseXmlDocument(workbookXml).getElementsByTagName("sheet")
+  )) {
+    const path = targets.get(sheet.getAttribute("r:id") ?? "");
+    const sheetXml = path ? await zip.file(path)?.async("text") : undefined;
+    if (!sheetXml) continue;
+
+    const table = rowsToTable(
+      sheet.getAttribute("name") ?? `Sheet ${tables.length + 1}`,
+      readXlsxSheet(sheetXml, sharedStrings)
+    );
+    if (table.headers.length > 0) tables.push(table);
+  }
+
+  return tables;
+};
+
+/**
+ * Read a CSV/TSV file or the sheets of an .xlsx workbook. Throws if the
+ * file can't be read or holds no data.
+ */
+export async function readSpreadsheet(
+  fileName: string,
+  data: string | ArrayBuffer
+): Promise<SpreadsheetTable[]> {
+  const name = fileName.toLowerCase();
+
+  const tables = name.endsWith(".xlsx")
+    ? await readXlsx(data as ArrayBuffer)
+    : [
+        rowsToTable(
+          fileName.replace(/\.[^/.]+$/, ""),
+          parseDelimitedText(
+            data as string,
+            name.endsWith(".tsv") ? "\t" : undefined
+          )
+        ),
+      ];
+
+  const withRows = tables.filter((table) => table.rows.length > 0);
+  if (withRows.length === 0) {
+    throw new Error("No data rows found in the file");
+  }
+  return withRows;
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[\s._\-()]+/g, "");
+
+const findColumn = (
+  headers: string[],
+  candidates: string[],
+  exclude: (number | null)[] = []
+): number | null => {
+  const normalized = headers.map(normalizeHeader);
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index !== -1 && !exclude.includes(index)) return index;
+  }
+  return null;
+};
+
+/**
+ * Mapping guessed from the header names. Easting/northing columns win over
+ * x/y only when there are no latitude/longitude columns.
+ */
+export const guessSpreadsheetMapping = (
+  headers: string[],
+  crs: CrsOption
+): SpreadsheetMapping => {
+  const lon = findColumn(headers, LONGITUDE_HEADERS.filter((h) => h !== "x"));
+  const lat = findColumn(headers, LATITUDE_HEADERS.filter((h) => h !== "y"));
+  const easting = findColumn(headers, EASTING_HEADERS);
+  const northing = findColumn(headers, NORTHING_HEADERS);
+  const projected =
+    (lon === null || lat === null) && easting !== null && northing !== null;
+
+  const xColumn = projected ? easting : (lon ?? findColumn(headers, ["x"]));
+  const yColumn = projected ? northing : (lat ?? findColumn(headers, ["y"]));
+  const nameColumn = findColumn(headers, NAME_HEADERS, [xColumn, yColumn]);
+  const routeColumn = findColumn(headers, ROUTE_HEADERS, [nameColumn]);
+
+  return {
+    coordinates: projected ? "projected" : "lonlat",
+    xColumn,
+    yColumn,
+    crs,
+    nameColumn,
+    iconPath: null,
+    routeColumn,
+    sequenceColumn:
+      routeColumn === null
+        ? null
+        : findColumn(headers, SEQUENCE_HEADERS, [nameColumn, routeColumn]),
+    legendType: null,
+    includePoints: true,
+  };
+};
+
+/**
+ * Parse a coordinate cell, accepting a decimal comma
+ */
+const parseCoordinateValue = (value: string): number => {
+  const normalized =
+    value.includes(",") && !value.includes(".")
+      ? value.replace(",", ".")
+      : value;
+  return normalized.trim() === "" ? NaN : Number(normalized.replace(/\s/g, ""));
+};
+
+/**
+ * Property key for a column, prefixed if it would clash with a style or
+ * system property so it still shows as a custom property
+ */
+const getColumnPropertyKey = (header: string): string =>
+  isCustomPropertyKey(header) ? header : `${RESERVED_COLUMN_PREFIX}${header}`;
+
+// Natural sort so "2" comes before "10" and "P2" before "P10"
+const compareSequence = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+/**
+ * Turn table rows into point features (EPSG:3857) and, if a route column
+ * is mapped, polylines joining the points of each route in sequence order.
+ * Columns not used for coordinates or the name become custom properties.
+ */
+export const spreadsheetToFeatures = (
+  table: SpreadsheetTable,
+  mapping: SpreadsheetMapping
+): SpreadsheetFeatures => {
+  const { xColumn, yColumn } = mapping;
+  if (xColumn === null || yColumn === null) {
+    throw new Error("Choose the coordinate columns");
+  }
+
+  const toMap =
+    mapping.coordinates === "lonlat"
+      ? (coordinate: Coordinate) => fromLonLat(coordinate)
+      : createCrsTransform(mapping.crs).toMap;
+
+  const usedColumns = new Set([xColumn, yColumn, mapping.nameColumn]);
+  const features: Feature<Geometry>[] = [];
+  const skippedRows: number[] = [];
+  const routes = new Map<
+    string,
+    { sequence: string; coordinate: Coordinate; row: string[] }[]
+  >();
+
+  const createPoint = (row: string[], coordinate: Coordinate) => {
+    const feature = new Feature(new Point(coordinate));
+    if (mapping.iconPath) {
+      feature.set("isIcon", true);
+      feature.set("iconPath", mapping.iconPath);
+      feature.set("name", getIconNameFromPath(mapping.iconPath));
+    } else {
+      feature.set("isPoint", true);
+    }
+    if (mapping.nameColumn !== null && row[mapping.nameColumn]) {
+      feature.set("name", row[mapping.nameColumn]);
+    }
+
+    table.headers.forEach((header, column) => {
+      if (usedColumns.has(column) || row[column] === "") return;
+      feature.set(getColumnPropertyKey(header), row[column]);
+    });
+    return feature;
+  };
+
+  table.rows.forEach((row, index) => {
+    const x = parseCoordinateValue(row[xColumn]);
+    const y = parseCoordinateValue(row[yColumn]);
+    const isValid =
+      Number.isFinite(x) &&
+      Number.isFinite(y) &&
+      (mapping.coordinates === "projected" ||
+        (Math.abs(x) <= 180 && Math.abs(y) <= 90));
+    if (!isValid) {
+      // Data rows start at spreadsheet row 2
+      skippedRows.push(index + 2);
+      return;
+    }
+
+    const coordinate = toMap([x, y]);
+    if (!coordinate.every(Number.isFinite)) {
+      skippedRows.push(index + 2);
+      return;
+    }
+
+    const routeId =
+      mapping.routeColumn !== null ? row[mapping.routeColumn] : "";
+    if (routeId) {
+      if (!routes.has(routeId)) routes.set(routeId, []);
+      routes.get(routeId)!.push({
+        sequence:
+          mapping.sequenceColumn !== null ? row[mapping.sequenceColumn] : "",
+        coordinate,
+        row,
+      });
+    }
+
+    if (!mapping.includePoints && routeId) return;
+    features.push(createPoint(row, coordinate));
+  });
+
+  routes.forEach((points, routeId) => {
+    if (points.length < 2) {
+      // A single row can't make a line; keep it as a point instead
+      if (!mapping.includePoints) {
+        features.push(createPoint(points[0].row, points[0].coordinate));
+      }
+      return;
+    }
+    // Array sort is stable, so rows without a sequence keep file order
+    if (mapping.sequenceColumn !== null) {
+      points.sort((a, b) => compareSequence(a.sequence, b.sequence));
+    }
+
+    const feature = new Feature(
+      new LineString(points.map((point) => point.coordinate))
+    );
+    if (mapping.legendType) {
+      feature.set("islegends", true);
+      feature.set("legendType", mapping.legendType);
+    } else {
+      feature.set("isPolyline", true);
+    }
+    feature.set("name", routeId);
+    features.push(feature);
+  });
+
+  return { features, skippedRows };
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const escapeCsvValue = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Write rows as CSV text
+ */
+export const writeCsvRows = (rows: (string | number)[][]): string =>
+  rows
+    .map((row) => row.map((value) => escapeCsvValue(String(value))).join(","))
+    .join("\r\n");
+
+/**
+ * Vertices of a feature (EPSG:3857) with their vertex labels: none for a
+ * single point, "1", "2"... along a line or outer ring and "part.vertex"
+ * for multi-part lines. Other geometries give their centre.
+ */
+const getExportVertices = (
+  geometry: Geometry
+): { vertex: string; coordinate: Coordinate }[] => {
+  if (geometry instanceof Point) {
+    return [{ vertex: "", coordinate: geometry.getCoordinates() }];
+  }
+  if (geometry instanceof LineString) {
+    return geometry.getCoordinates().map((coordinate, index) => ({
+      vertex: String(index + 1),
+      coordinate,
+    }));
+  }
+  if (geometry instanceof MultiLineString) {
+    return geometry.getCoordinates().flatMap((line, part) =>
+      line.map((coordinate, index) => ({
+        vertex: `${part + 1}.${index + 1}`,
+        coordinate,
+      }))
+    );
+  }
+  if (geometry instanceof Polygon) {
+    // The closing vertex repeats the first one
+    const ring = geometry.getCoordinates()[0].slice(0, -1);
+    return ring.map((coordinate, index) => ({
+      vertex: String(index + 1),
+      coordinate,
+    }));
+  }
+  return [{ vertex: "", coordinate: getCenter(geometry.getExtent()) }];
+};
+
+/**
+ * Write features (EPSG:3857) as CSV with a row per vertex, coordinates in
+ * `crs` and a column per custom property. Dimensions are left out.
+ */
+export const writeSpreadsheetCsv = (
+  features: Feature<Geometry>[],
+  crs: CrsOption
+): string => {
+  const transform = createCrsTransform(crs);
+  const digits = isGeographicCrs(crs) ? 6 : 3;
+  const axes = getCrsAxisNames(crs);
+
+  const exported = features.filter(
+    (feature) =>
+      feature.getGeometry() &&
+      !feature.get("isAlignedDimension") &&
+      !feature.get("isLinearDimension") &&
+      !feature.get("isRadiusDimension") &&
+      !feature.get("isDimension")
+  );
+
+  const propertyKeys: string[] = [];
+  exported.forEach((feature) => {
+    const geometryName = feature.getGeometryName();
+    feature.getKeys().forEach((key) => {
+      if (
+        key !== geometryName &&
+        isCustomPropertyKey(key) &&
+        !propertyKeys.includes(key)
+      ) {
+        propertyKeys.push(key);
+      }
+    });
+  });
+
+  const rows: string[][] = [
+    ["name", "type", "vertex", axes.x, axes.y, ...propertyKeys],
+  ];
+  exported.forEach((feature) => {
+    const geometry = feature.getGeometry() as Geometry;
+    const name = String(feature.get("name") ?? "");
+    const properties = propertyKeys.map((key) => {
+      const value = feature.get(key);
+      return value === undefined || value === null ? "" : String(value);
+    });
+
+    getExportVertices(geometry).forEach(({ vertex, coordinate }) => {
+      const [x, y] = transform.fromMap(coordinate);
+      rows.push([
+        name,
+        geometry.getType(),
+        vertex,
+        x.toFixed(digits),
+        y.toFixed(digits),
+        ...properties,
+      ]);
+    });
+  });
+
+  return writeCsvRows(rows);
+};
+
+const escapeXmlText = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Column letters of a zero-based index, e.g. 27 → "AB"
+const getColumnLetters = (index: number): string => {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const writeXlsxSheet = (rows: (string | number)[][]): string => {
+  const rowsXml = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, column) => {
+          const ref = `${getColumnLetters(column)}${rowIndex + 1}`;
+          if (typeof value === "number" && Number.isFinite(value)) {
+            return `<c r="${ref}"><v>${value}</v></c>`;
+          }
+          if (value === "") return "";
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXmlText(
+            String(value)
+          )}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowsXml}</sheetData></worksheet>`;
+};
+
+/**
+ * Write sheets as an .xlsx workbook. Sheet names are trimmed to Excel's 31
+ * character limit.
+ */
+export const writeXlsx = async (sheets: SpreadsheetSheet[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const names = sheets.map(
+    (sheet, index) =>
+      sheet.name.replace(/[\\/?*[\]:]/g, " ").slice(0, 31).trim() ||
+      `Sheet ${index + 1}`
+  );
+
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets
+      .map(
+        (_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("")}</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+  );
+  zip.file(
+    "xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+      .map(
+        (name, index) =>
+          `<sheet name="${escapeXmlText(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      )
+      .join("")}</sheets></workbook>`
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+      .map(
+        (_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join("")}</Relationships>`
+  );
+  sheets.forEach((sheet, index) => {
+    zip.file(`xl/worksheets/sheet${index + 1}.xml`, writeXlsxSheet(sheet.rows));
+  });
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
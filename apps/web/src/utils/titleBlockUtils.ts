@@ -0,0 +1,293 @@
+import * as fabric from "fabric";
+import { getCenter, getHeight, getWidth, type Extent } from "ol/extent";
+import { PAGE_SIZES, type PageSize } from "@/types/pdf";
+import type { FabricLegendOptions } from "./fabricLegendUtils";
+import { getMapUnitsPerMeter } from "./offsetUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TitleBlockFieldKey =
+  | "jobName"
+  | "drawingNumber"
+  | "revision"
+  | "date"
+  | "drawnBy"
+  | "checkedBy"
+  | "scale"
+  | "sheet";
+
+export type TitleBlockValues = Record<TitleBlockFieldKey, string>;
+
+export interface TitleBlockField {
+  key: TitleBlockFieldKey;
+  label: string;
+}
+
+type TitleBlockFieldObject = fabric.FabricObject & {
+  titleBlockField?: TitleBlockFieldKey;
+};
+
+type TitleBlockGroup = fabric.Group & { isTitleBlock?: boolean };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TITLE_BLOCK_FIELDS: TitleBlockField[] = [
+  { key: "jobName", label: "Job" },
+  { key: "drawingNumber", label: "Drawing No." },
+  { key: "revision", label: "Revision" },
+  { key: "date", label: "Date" },
+  { key: "drawnBy", label: "Drawn By" },
+  { key: "checkedBy", label: "Checked By" },
+  { key: "scale", label: "Scale" },
+  { key: "sheet", label: "Sheet" },
+];
+
+// Template id of the built-in title block (see buildFabricTitleBlock)
+export const STANDARD_TITLE_BLOCK_ID = "standard";
+
+// Shown in a field that has no value yet
+const EMPTY_FIELD_TEXT = "-";
+
+const ROW_HEIGHT = 24;
+const LABEL_WIDTH = 90;
+const VALUE_WIDTH = 200;
+const CELL_PADDING = 6;
+const LABEL_FONT_SIZE = 9;
+const VALUE_FONT_SIZE = 11;
+
+// Keep the field markers when layouts and templates are saved as JSON
+fabric.FabricObject.customProperties = Array.from(
+  new Set([
+    ...fabric.FabricObject.customProperties,
+    "titleBlockField",
+    "isTitleBlock",
+  ]),
+);
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/**
+ * Values for a new title block: today's date and a single sheet
+ */
+export const getDefaultTitleBlockValues = (): TitleBlockValues => ({
+  jobName: "",
+  drawingNumber: "",
+  revision: "",
+  date: new Date().toLocaleDateString(),
+  drawnBy: "",
+  checkedBy: "",
+  scale: "",
+  sheet: "1 of 1",
+});
+
+/**
+ * Scale denominator of a map export: the extent fitted onto the page size
+ * it is exported at (e.g. 2500 for 1:2500)
+ */
+export const getExportScaleDenominator = (
+  extent: Extent,
+  pageSize: PageSize,
+): number => {
+  const unitsPerMeter = getMapUnitsPerMeter(getCenter(extent));
+  const groundWidth = getWidth(extent) / unitsPerMeter;
+  const groundHeight = getHeight(extent) / unitsPerMeter;
+  const page = PAGE_SIZES[pageSize];
+
+  // Page sizes are in mm
+  return Math.max(
+    groundWidth / (page.width / 1000),
+    groundHeight / (page.height / 1000),
+  );
+};
+
+export const formatScale = (denominator: number): string =>
+  `1:${Math.round(denominator)}`;
+
+// ============================================================================
+// FABRIC
+// ============================================================================
+
+export const isTitleBlockGroup = (
+  object: fabric.FabricObject | null | undefined,
+): object is fabric.Group =>
+  object instanceof fabric.Group && !!(object as TitleBlockGroup).isTitleBlock;
+
+/**
+ * Build the standard title block: one row per field with its label and an
+ * editable value. Positioned bottom-right if canvas dimensions are given.
+ *
+ * Uses the same center-origin layout as buildFabricLegend.
+ */
+export function buildFabricTitleBlock(
+  values: TitleBlockValues,
+  options?: FabricLegendOptions,
+): fabric.Group {
+  const objects: fabric.FabricObject[] = [];
+  const contentWidth = LABEL_WIDTH + VALUE_WIDTH;
+  const totalHeight = TITLE_BLOCK_FIELDS.length * ROW_HEIGHT;
+  const cx = contentWidth / 2;
+  const cy = totalHeight / 2;
+
+  TITLE_BLOCK_FIELDS.forEach((field, i) => {
+    const rowTop = i * ROW_HEIGHT;
+    const rowCenterY = rowTop + ROW_HEIGHT / 2 - cy;
+
+    // Label and value cells
+    [
+      { left: 0, width: LABEL_WIDTH, fill: "#f1f5f9" },
+      { left: LABEL_WIDTH, width: VALUE_WIDTH, fill: "#ffffff" },
+    ].forEach((cell) => {
+      objects.push(
+        new fabric.Rect({
+          left: cell.left + cell.width / 2 - cx,
+          top: rowTop + ROW_HEIGHT / 2 - cy,
+          width: cell.width,
+          height: ROW_HEIGHT,
+          fill: cell.fill,
+          stroke: "#000000",
+          strokeWidth: 1,
+          originX: "center",
+          originY: "center",
+          selectable: false,
+          evented: false,
+        }),
+      );
+    });
+
+    objects.push(
+      new fabric.IText(field.label.toUpperCase(), {
+        left: CELL_PADDING - cx,
+        top: rowCenterY,
+        fontSize: LABEL_FONT_SIZE,
+        fontWeight: "bold",
+        fontFamily: "Arial, sans-serif",
+        fill: "#334155",
+        originX: "left",
+        originY: "center",
+        selectable: true,
+        evented: true,
+      }),
+    );
+
+    const value = new fabric.IText(values[field.key] || EMPTY_FIELD_TEXT, {
+      left: LABEL_WIDTH + CELL_PADDING - cx,
+      top: rowCenterY,
+      fontSize: VALUE_FONT_SIZE,
+      fontFamily: "Arial, sans-serif",
+      fill: "#000000",
+      originX: "left",
+      originY: "center",
+      selectable: true,
+      evented: true,
+    });
+    (value as TitleBlockFieldObject).titleBlockField = field.key;
+    objects.push(value);
+  });
+
+  const margin = 20;
+  let blockLeft = options?.left ?? margin;
+  let blockTop = options?.top ?? margin;
+  if (options?.canvasWidth && options?.canvasHeight) {
+    blockLeft = options.left ?? options.canvasWidth - contentWidth - margin;
+    blockTop = options.top ?? options.canvasHeight - totalHeight - margin;
+  }
+
+  const group = new fabric.Group(objects, {
+    left: blockLeft,
+    top: blockTop,
+    originX: "left",
+    originY: "top",
+    selectable: true,
+    evented: true,
+    subTargetCheck: true,
+    interactive: true,
+  });
+  (group as TitleBlockGroup).isTitleBlock = true;
+
+  return group;
+}
+
+/**
+ * Recreate a title block from a saved template (see TitleBlockTemplate)
+ */
+export async function buildFabricTitleBlockFromTemplate(
+  objectData: object,
+  values: TitleBlockValues,
+  options?: FabricLegendOptions,
+): Promise<fabric.Group | null> {
+  const [object] = await fabric.util.enlivenObjects<fabric.FabricObject>([
+    objectData,
+  ]);
+  if (!isTitleBlockGroup(object)) return null;
+
+  fillTitleBlock(object, values);
+
+  const margin = 20;
+  if (options?.canvasWidth && options?.canvasHeight) {
+    object.set({
+      originX: "left",
+      originY: "top",
+      left: options.left ?? options.canvasWidth - object.getScaledWidth() - margin,
+      top: options.top ?? options.canvasHeight - object.getScaledHeight() - margin,
+    });
+  }
+  object.setCoords();
+
+  return object;
+}
+
+/**
+ * Put values into the fields of a title block. Fields without a value keep
+ * whatever text they have.
+ */
+export const fillTitleBlock = (
+  group: fabric.Group,
+  values: Partial<TitleBlockValues>,
+) => {
+  group.getObjects().forEach((object) => {
+    const key = (object as TitleBlockFieldObject).titleBlockField;
+    const value = key ? values[key] : undefined;
+    if (value && object instanceof fabric.IText) {
+      object.set("text", value);
+    }
+  });
+  group.triggerLayout();
+};
+
+/**
+ * Put values into every title block on the canvas. Returns how many were
+ * filled.
+ */
+export const fillCanvasTitleBlocks = (
+  canvas: fabric.StaticCanvas,
+  values: Partial<TitleBlockValues>,
+): number => {
+  const blocks = canvas.getObjects().filter(isTitleBlockGroup);
+  blocks.forEach((block) => fillTitleBlock(block, values));
+  if (blocks.length) canvas.requestRenderAll();
+  return blocks.length;
+};
+
+/**
+ * Field values of the first title block on the canvas, including any text
+ * typed straight into it
+ */
+export const readCanvasTitleBlockValues = (
+  canvas: fabric.StaticCanvas,
+): Partial<TitleBlockValues> => {
+  const block = canvas.getObjects().find(isTitleBlockGroup);
+  const values: Partial<TitleBlockValues> = {};
+  block?.getObjects().forEach((object) => {
+    const key = (object as TitleBlockFieldObject).titleBlockField;
+    if (key && object instanceof fabric.IText && object.text !== EMPTY_FIELD_TEXT) {
+      values[key] = object.text;
+    }
+  });
+  return values;
+};
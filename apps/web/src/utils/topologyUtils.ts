@@ -0,0 +1,671 @@
+import type { Feature } from "ol";
+import type { Coordinate } from "ol/coordinate";
+import { getCenter } from "ol/extent";
+import { LineString, type Geometry } from "ol/geom";
+import type { Vector as VectorSource } from "ol/source";
+import { getLegendById } from "@/tools/legendsConfig";
+import { getMapUnitsPerMeter } from "./offsetUtils";
+import {
+  findNearbyEndpoint,
+  getCoordinateDistance,
+  getLineEndpoints,
+  isMergeableFeature,
+  mergeLineStrings,
+} from "./splitUtils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TopologyIssueType =
+  | "undershoot"
+  | "overshoot"
+  | "unsnappedJoin"
+  | "duplicateSegment"
+  | "zeroLengthSegment"
+  | "selfIntersection";
+
+/**
+ * A one-click fix for a topology issue. Fixes hold the live features, so a
+ * fix whose feature has since been removed from the job is not applied.
+ */
+export type TopologyFix =
+  | {
+      kind: "snapEndpoint";
+      label: string;
+      feature: Feature<Geometry>;
+      endpoint: "start" | "end";
+      target: Coordinate;
+      // Line to add a vertex to at the target, so both lines share the node
+      targetLine?: Feature<Geometry>;
+    }
+  | {
+      kind: "mergeLines";
+      label: string;
+      feature: Feature<Geometry>;
+      endpoint: "start" | "end";
+      other: Feature<Geometry>;
+      otherEndpoint: "start" | "end";
+    }
+  | {
+      kind: "removeVertex";
+      label: string;
+      feature: Feature<Geometry>;
+      vertexIndex: number;
+      vertex: Coordinate;
+    }
+  | {
+      kind: "removeFeature";
+      label: string;
+      feature: Feature<Geometry>;
+    };
+
+export interface TopologyIssue {
+  type: TopologyIssueType;
+  // Where to zoom to (EPSG:3857)
+  coordinate: Coordinate;
+  feature: Feature<Geometry>;
+  description: string;
+  fixes: TopologyFix[];
+}
+
+export interface TopologyOptions {
+  // Gaps and dangles up to this length (metres) are reported
+  toleranceMeters: number;
+  // Check only legend lines, skipping plain polylines and freehand
+  legendsOnly: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_TOPOLOGY_OPTIONS: TopologyOptions = {
+  toleranceMeters: 1,
+  legendsOnly: false,
+};
+
+export const TOPOLOGY_ISSUE_LABELS: Record<TopologyIssueType, string> = {
+  undershoot: "Undershoot",
+  overshoot: "Overshoot",
+  unsnappedJoin: "Unsnapped join",
+  duplicateSegment: "Duplicate segment",
+  zeroLengthSegment: "Zero-length segment",
+  selfIntersection: "Self-intersection",
+};
+
+// Points closer than this (metres) are the same point
+const COINCIDENT_METERS = 0.001;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Lines that form a route network: polylines, freehand and legend lines, but
+ * not arrows, dimensions or measurements
+ */
+export const isNetworkLine = (
+  feature: Feature<Geometry>,
+  legendsOnly: boolean
+): boolean =>
+  isMergeableFeature(feature) &&
+  !feature.get("isMeasure") &&
+  !feature.get("isLinearDimension") &&
+  !feature.get("isAlignedDimension") &&
+  !feature.get("isRadiusDimension") &&
+  (!legendsOnly || !!feature.get("islegends"));
+
+const getCoordinates = (feature: Feature<Geometry>): Coordinate[] =>
+  (feature.getGeometry() as LineString).getCoordinates();
+
+export const getTopologyFeatureLabel = (feature: Feature<Geometry>): string => {
+  const legendId = feature.get("legendType") as string | undefined;
+  const typeName = (legendId && getLegendById(legendId)?.name) || "Line";
+  const name = feature.get("name");
+  return name && name !== typeName ? `${name} (${typeName})` : typeName;
+};
+
+const closestPointOnSegment = (
+  p: Coordinate,
+  a: Coordinate,
+  b: Coordinate
+): Coordinate => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq)
+        );
+  return [a[0] + t * dx, a[1] + t * dy];
+};
+
+/**
+ * Closest point on a line to a coordinate, with the index of its segment
+ */
+const closestPointOnLine = (
+  p: Coordinate,
+  coords: Coordinate[]
+): { point: Coordinate; segmentIndex: number; distance: number } | null => {
+  let closest: { point: Coordinate; segmentIndex: number; distance: number } | null =
+    null;
+  for (let i = 0; i < coords.length - 1; i++) {
+    const point = closestPointOnSegment(p, coords[i], coords[i + 1]);
+    const distance = getCoordinateDistance(p, point);
+    if (!closest || distance < closest.distance) {
+      closest = { point, segmentIndex: i, distance };
+    }
+  }
+  return closest;
+};
+
+/**
+ * Intersection point of segments a1-a2 and b1-b2, including touching ends,
+ * or null if they don't meet. Parallel segments never intersect here.
+ */
+const intersectSegments = (
+  a1: Coordinate,
+  a2: Coordinate,
+  b1: Coordinate,
+  b2: Coordinate
+): Coordinate | null => {
+  const dax = a2[0] - a1[0];
+  const day = a2[1] - a1[1];
+  const dbx = b2[0] - b1[0];
+  const dby = b2[1] - b1[1];
+  const denominator = dax * dby - day * dbx;
+  if (denominator === 0) return null;
+
+  const t = ((b1[0] - a1[0]) * dby - (b1[1] - a1[1]) * dbx) / denominator;
+  const u = ((b1[0] - a1[0]) * day - (b1[1] - a1[1]) * dax) / denominator;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return [a1[0] + dax * t, a1[1] + day * t];
+};
+
+/**
+ * Length along segment a1-a2 that segment b1-b2 lies on top of, 0 unless the
+ * two are collinear within the tolerance
+ */
+const getSegmentOverlap = (
+  a1: Coordinate,
+  a2: Coordinate,
+  b1: Coordinate,
+  b2: Coordinate,
+  tolerance: number
+): number => {
+  const length = getCoordinateDistance(a1, a2);
+  if (length === 0) return 0;
+
+  const ux = (a2[0] - a1[0]) / length;
+  const uy = (a2[1] - a1[1]) / length;
+  const offset = (p: Coordinate) =>
+    Math.abs((p[0] - a1[0]) * uy - (p[1] - a1[1]) * ux);
+  if (offset(b1) > tolerance || offset(b2) > tolerance) return 0;
+
+  const along = (p: Coordinate) => (p[0] - a1[0]) * ux + (p[1] - a1[1]) * uy;
+  const from = Math.max(0, Math.min(along(b1), along(b2)));
+  const to = Math.min(length, Math.max(along(b1), along(b2)));
+  return Math.max(0, to - from);
+};
+
+const extentsOverlap = (
+  a: number[],
+  b: number[],
+  margin: number
+): boolean =>
+  a[0] - margin <= b[2] &&
+  b[0] - margin <= a[2] &&
+  a[1] - margin <= b[3] &&
+  b[1] - margin <= a[3];
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Repeated vertices, which make zero-length segments
+ */
+const findZeroLengthSegments = (
+  feature: Feature<Geometry>,
+  coincident: number
+): TopologyIssue[] => {
+  const coords = getCoordinates(feature);
+  const label = getTopologyFeatureLabel(feature);
+  const issues: TopologyIssue[] = [];
+
+  const isDegenerate = coords.every(
+    (coord) => getCoordinateDistance(coord, coords[0]) <= coincident
+  );
+  if (isDegenerate) {
+    return [
+      {
+        type: "zeroLengthSegment",
+        coordinate: coords[0],
+        feature,
+        description: `${label} has no length`,
+        fixes: [{ kind: "removeFeature", label: "Remove line", feature }],
+      },
+    ];
+  }
+
+  for (let i = 1; i < coords.length; i++) {
+    if (getCoordinateDistance(coords[i - 1], coords[i]) > coincident) continue;
+    issues.push({
+      type: "zeroLengthSegment",
+      coordinate: coords[i],
+      feature,
+      description: `${label} repeats vertex ${i + 1}`,
+      fixes: [
+        {
+          kind: "removeVertex",
+          label: "Remove duplicate vertex",
+          feature,
+          vertexIndex: i,
+          vertex: coords[i],
+        },
+      ],
+    });
+  }
+  return issues;
+};
+
+/**
+ * Places where a line crosses itself, between segments that don't share a
+ * vertex
+ */
+const findSelfIntersections = (feature: Feature<Geometry>): TopologyIssue[] => {
+  const coords = getCoordinates(feature);
+  const label = getTopologyFeatureLabel(feature);
+  const isClosed =
+    coords.length > 3 &&
+    getCoordinateDistance(coords[0], coords[coords.length - 1]) === 0;
+  const segmentCount = coords.length - 1;
+  const issues: TopologyIssue[] = [];
+
+  for (let i = 0; i < segmentCount; i++) {
+    for (let j = i + 2; j < segmentCount; j++) {
+      // First and last segments of a closed line share its start
+      if (isClosed && i === 0 && j === segmentCount - 1) continue;
+
+      const point = intersectSegments(
+        coords[i],
+        coords[i + 1],
+        coords[j],
+        coords[j + 1]
+      );
+      if (!point) continue;
+
+      issues.push({
+        type: "selfIntersection",
+        coordinate: point,
+        feature,
+        description: `${label} crosses itself (segments ${i + 1} and ${j + 1})`,
+        fixes: [],
+      });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Segments of two lines (or of one line doubling back) lying on top of each
+ * other, reported once per pair of lines. The second line can be removed when
+ * the first covers all of it.
+ */
+const findDuplicateSegments = (
+  feature: Feature<Geometry>,
+  other: Feature<Geometry>,
+  coincident: number
+): TopologyIssue | null => {
+  const coords = getCoordinates(feature);
+  const otherCoords = getCoordinates(other);
+  const isSelf = feature === other;
+
+  let overlapLength = 0;
+  let firstOverlap: Coordinate | null = null;
+  let otherCovered = 0;
+
+  for (let j = 0; j < otherCoords.length - 1; j++) {
+    const b1 = otherCoords[j];
+    const b2 = otherCoords[j + 1];
+    let segmentCovered = 0;
+
+    for (let i = 0; i < coords.length - 1; i++) {
+      // Each pair of segments of one line once
+      if (isSelf && i >= j) continue;
+
+      const overlap = getSegmentOverlap(coords[i], coords[i + 1], b1, b2, coincident);
+      if (overlap <= coincident) continue;
+
+      overlapLength += overlap;
+      segmentCovered += overlap;
+      firstOverlap ??= [(b1[0] + b2[0]) / 2, (b1[1] + b2[1]) / 2];
+    }
+    otherCovered += Math.min(segmentCovered, getCoordinateDistance(b1, b2));
+  }
+
+  if (!firstOverlap) return null;
+
+  const otherLength = new LineString(otherCoords).getLength();
+  const label = getTopologyFeatureLabel(feature);
+  const unitsPerMeter = getMapUnitsPerMeter(firstOverlap);
+  const overlapMeters = (overlapLength / unitsPerMeter).toFixed(1);
+
+  return {
+    type: "duplicateSegment",
+    coordinate: firstOverlap,
+    feature,
+    description: isSelf
+      ? `${label} doubles back on itself for ${overlapMeters} m`
+      : `${label} overlaps ${getTopologyFeatureLabel(other)} for ${overlapMeters} m`,
+    fixes:
+      !isSelf && otherLength - otherCovered <= coincident
+        ? [
+            {
+              kind: "removeFeature",
+              label: "Remove duplicate line",
+              feature: other,
+            },
+          ]
+        : [],
+  };
+};
+
+/**
+ * Check a free line end against the other lines: an end near another end is
+ * an unsnapped join, an end that crosses a line and stops just past it is an
+ * overshoot, and an end that stops just short of a line is an undershoot.
+ * Ends already on another line are connected and not reported.
+ */
+const checkLineEnd = (
+  feature: Feature<Geometry>,
+  endpoint: "start" | "end",
+  lines: Feature<Geometry>[],
+  tolerance: number,
+  coincident: number
+): TopologyIssue | null => {
+  const coords = getCoordinates(feature);
+  const end = endpoint === "start" ? coords[0] : coords[coords.length - 1];
+  const inner = endpoint === "start" ? coords[1] : coords[coords.length - 2];
+  const label = getTopologyFeatureLabel(feature);
+  const endLabel = endpoint === "start" ? "start" : "end";
+  const others = lines.filter((line) => line !== feature);
+
+  const isConnected = others.some(
+    (line) =>
+      (closestPointOnLine(end, getCoordinates(line))?.distance ?? Infinity) <=
+      coincident
+  );
+  if (isConnected) return null;
+
+  const toMeters = (distance: number) =>
+    (distance / getMapUnitsPerMeter(end)).toFixed(2);
+
+  // Another line's end within the tolerance
+  const nearby = findNearbyEndpoint(end, others, feature, tolerance);
+  if (nearby) {
+    const target = getLineEndpoints(nearby.feature)![nearby.endpoint];
+    const fixes: TopologyFix[] = [
+      {
+        kind: "snapEndpoint",
+        label: "Snap ends together",
+        feature,
+        endpoint,
+        target,
+      },
+    ];
+    if (feature.get("legendType") === nearby.feature.get("legendType")) {
+      fixes.push({
+        kind: "mergeLines",
+        label: "Merge into one line",
+        feature,
+        endpoint,
+        other: nearby.feature,
+        otherEndpoint: nearby.endpoint,
+      });
+    }
+    return {
+      type: "unsnappedJoin",
+      coordinate: end,
+      feature,
+      description: `${label} ${endLabel} is ${toMeters(nearby.distance)} m from the ${nearby.endpoint} of ${getTopologyFeatureLabel(nearby.feature)}`,
+      fixes,
+    };
+  }
+
+  // Last segment crosses another line and runs on a little past it
+  let overshoot: { line: Feature<Geometry>; point: Coordinate; dangle: number } | null =
+    null;
+  for (const line of others) {
+    const lineCoords = getCoordinates(line);
+    for (let i = 0; i < lineCoords.length - 1; i++) {
+      const point = intersectSegments(inner, end, lineCoords[i], lineCoords[i + 1]);
+      if (!point) continue;
+      const dangle = getCoordinateDistance(point, end);
+      if (dangle > tolerance || getCoordinateDistance(point, inner) <= coincident) {
+        continue;
+      }
+      if (!overshoot || dangle < overshoot.dangle) {
+        overshoot = { line, point, dangle };
+      }
+    }
+  }
+  if (overshoot) {
+    return {
+      type: "overshoot",
+      coordinate: end,
+      feature,
+      description: `${label} ${endLabel} runs ${toMeters(overshoot.dangle)} m past ${getTopologyFeatureLabel(overshoot.line)}`,
+      fixes: [
+        {
+          kind: "snapEndpoint",
+          label: "Trim to line",
+          feature,
+          endpoint,
+          target: overshoot.point,
+          targetLine: overshoot.line,
+        },
+      ],
+    };
+  }
+
+  // Stops short of another line
+  let undershoot: { line: Feature<Geometry>; point: Coordinate; distance: number } | null =
+    null;
+  for (const line of others) {
+    const closest = closestPointOnLine(end, getCoordinates(line));
+    if (!closest || closest.distance > tolerance) continue;
+    if (!undershoot || closest.distance < undershoot.distance) {
+      undershoot = { line, point: closest.point, distance: closest.distance };
+    }
+  }
+  if (undershoot) {
+    return {
+      type: "undershoot",
+      coordinate: end,
+      feature,
+      description: `${label} ${endLabel} stops ${toMeters(undershoot.distance)} m short of ${getTopologyFeatureLabel(undershoot.line)}`,
+      fixes: [
+        {
+          kind: "snapEndpoint",
+          label: "Extend to line",
+          feature,
+          endpoint,
+          target: undershoot.point,
+          targetLine: undershoot.line,
+        },
+      ],
+    };
+  }
+
+  return null;
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Scan the job's lines for topology errors that GIS tools reject: dangling
+ * ends near other lines (undershoots, overshoots and unsnapped joins),
+ * duplicate segments, zero-length segments and self-intersections. Distances
+ * are in metres, converted to map units at each line.
+ */
+export const validateTopology = (
+  features: Feature<Geometry>[],
+  options: TopologyOptions
+): TopologyIssue[] => {
+  const lines = features.filter(
+    (feature) =>
+      isNetworkLine(feature, options.legendsOnly) &&
+      getCoordinates(feature).length >= 2
+  );
+  const issues: TopologyIssue[] = [];
+
+  lines.forEach((feature, index) => {
+    const geometry = feature.getGeometry()!;
+    const extent = geometry.getExtent();
+    const unitsPerMeter = getMapUnitsPerMeter(getCenter(extent));
+    const tolerance = options.toleranceMeters * unitsPerMeter;
+    const coincident = COINCIDENT_METERS * unitsPerMeter;
+
+    const zeroLength = findZeroLengthSegments(feature, coincident);
+    issues.push(...zeroLength);
+    // Nothing else can be said about a line with no length
+    if (zeroLength.some((issue) => issue.fixes[0]?.kind === "removeFeature")) {
+      return;
+    }
+
+    issues.push(...findSelfIntersections(feature));
+
+    const nearbyLines = lines.filter((line) => {
+      const lineExtent = line.getGeometry()!.getExtent();
+      return extentsOverlap(extent, lineExtent, tolerance);
+    });
+
+    // Each pair of lines once, and each line against itself
+    nearbyLines.forEach((other) => {
+      if (lines.indexOf(other) < index) return;
+      const duplicate = findDuplicateSegments(feature, other, coincident);
+      if (duplicate) issues.push(duplicate);
+    });
+
+    const coords = getCoordinates(feature);
+    const isClosed =
+      getCoordinateDistance(coords[0], coords[coords.length - 1]) <= coincident;
+    if (isClosed) return;
+
+    (["start", "end"] as const).forEach((endpoint) => {
+      const issue = checkLineEnd(feature, endpoint, nearbyLines, tolerance, coincident);
+      if (issue) issues.push(issue);
+    });
+  });
+
+  // Two free ends near each other are one join, reported from the first line
+  return issues.filter(
+    (issue, index) =>
+      issue.type !== "unsnappedJoin" ||
+      !issues.some(
+        (other, otherIndex) =>
+          otherIndex < index &&
+          other.type === "unsnappedJoin" &&
+          other.fixes[0]?.kind === "snapEndpoint" &&
+          issue.fixes[0]?.kind === "snapEndpoint" &&
+          getCoordinateDistance(other.fixes[0].target, issue.coordinate) === 0 &&
+          getCoordinateDistance(issue.fixes[0].target, other.coordinate) === 0
+      )
+  );
+};
+
+// ============================================================================
+// FIXES
+// ============================================================================
+
+/**
+ * Add a vertex to a line at a coordinate on it, unless one is already there
+ */
+const insertVertexOnLine = (feature: Feature<Geometry>, coordinate: Coordinate) => {
+  const coords = getCoordinates(feature);
+  if (coords.some((coord) => getCoordinateDistance(coord, coordinate) === 0)) return;
+
+  const closest = closestPointOnLine(coordinate, coords);
+  if (!closest) return;
+
+  const updated = coords.slice();
+  updated.splice(closest.segmentIndex + 1, 0, coordinate);
+  (feature.getGeometry() as LineString).setCoordinates(updated);
+};
+
+/**
+ * Apply a topology fix to the job. Returns false if the features it changes
+ * are no longer in the job.
+ */
+export const applyTopologyFix = (
+  fix: TopologyFix,
+  vectorSource: VectorSource<Feature<Geometry>>
+): boolean => {
+  if (!vectorSource.hasFeature(fix.feature)) return false;
+
+  switch (fix.kind) {
+    case "snapEndpoint": {
+      if (fix.targetLine && !vectorSource.hasFeature(fix.targetLine)) return false;
+
+      const coords = getCoordinates(fix.feature).slice();
+      coords[fix.endpoint === "start" ? 0 : coords.length - 1] = fix.target;
+      (fix.feature.getGeometry() as LineString).setCoordinates(coords);
+      if (fix.targetLine) insertVertexOnLine(fix.targetLine, fix.target);
+      return true;
+    }
+
+    case "mergeLines": {
+      if (!vectorSource.hasFeature(fix.other)) return false;
+
+      // The ends are close but apart; snap them together first, since the
+      // merge drops the other line's joining vertex as a duplicate
+      const geometry = fix.feature.getGeometry() as LineString;
+      const original = getCoordinates(fix.feature);
+      const otherCoords = getCoordinates(fix.other);
+      const coords = original.slice();
+      coords[fix.endpoint === "start" ? 0 : coords.length - 1] =
+        otherCoords[fix.otherEndpoint === "start" ? 0 : otherCoords.length - 1];
+      geometry.setCoordinates(coords);
+
+      const merged = mergeLineStrings(
+        fix.feature,
+        fix.other,
+        fix.endpoint,
+        fix.otherEndpoint
+      );
+      if (!merged) {
+        geometry.setCoordinates(original);
+        return false;
+      }
+
+      vectorSource.removeFeature(fix.feature);
+      vectorSource.removeFeature(fix.other);
+      vectorSource.addFeature(merged);
+      return true;
+    }
+
+    case "removeVertex": {
+      const coords = getCoordinates(fix.feature).slice();
+      // The line may have been edited since it was checked
+      const isUnchanged =
+        fix.vertexIndex < coords.length &&
+        getCoordinateDistance(coords[fix.vertexIndex], fix.vertex) === 0;
+      if (coords.length <= 2 || !isUnchanged) return false;
+
+      coords.splice(fix.vertexIndex, 1);
+      (fix.feature.getGeometry() as LineString).setCoordinates(coords);
+      return true;
+    }
+
+    case "removeFeature":
+      vectorSource.removeFeature(fix.feature);
+      return true;
+  }
+};
@@ -0,0 +1,1064 @@
+import type Map from 'ol/Map';
+import type Feature from 'ol/Feature';
+import type VectorSource from 'ol/source/Vector';
+import { asArray, type Color } from 'ol/color';
+import type { ColorLike, PatternDescriptor } from 'ol/colorlike';
+import type { Coordinate } from 'ol/coordinate';
+import { buffer, getCenter, getHeight, getWidth, type Extent } from 'ol/extent';
+import type {
+  Circle,
+  Geometry,
+  GeometryCollection,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+} from 'ol/geom';
+import { fromCircle } from 'ol/geom/Polygon';
+import { Vector as VectorLayer } from 'ol/layer';
+import { Icon, RegularShape, type Fill, type Stroke, type Style, type Text } from 'ol/style';
+import { getUid } from 'ol/util';
+import { GState, jsPDF } from 'jspdf';
+import { PAGE_SIZES, type PageSize } from '@/types/pdf';
+import { exportMapToImage, type ExportProgress } from './mapImageExport';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VectorExportFormat = 'pdf' | 'svg';
+
+export interface VectorExportOptions {
+  format: VectorExportFormat;
+  pageSize: PageSize;
+  // Basemap drawn under the features as an image
+  includeBasemap: boolean;
+}
+
+type Rgba = [number, number, number, number];
+
+interface VectorStroke {
+  color: Rgba;
+  width: number;
+  lineDash: number[] | null;
+  lineDashOffset: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+}
+
+interface VectorFont {
+  // CSS font-family, e.g. "Arial, sans-serif"
+  family: string;
+  size: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface VectorTextPaint {
+  text: string;
+  font: VectorFont;
+  fill: Rgba | null;
+  halo: { color: Rgba; width: number } | null;
+}
+
+interface PathPrimitive {
+  type: 'path';
+  rings: Coordinate[][];
+  closed: boolean;
+  fill: Rgba | null;
+  stroke: VectorStroke | null;
+}
+
+interface TextPrimitive extends VectorTextPaint {
+  type: 'text';
+  position: Coordinate;
+  // Offset from the position before rotating, as Text offsetX/offsetY
+  offset: [number, number];
+  // Radians clockwise
+  rotation: number;
+  align: CanvasTextAlign;
+  baseline: CanvasTextBaseline;
+}
+
+interface LineTextPrimitive extends VectorTextPaint {
+  type: 'lineText';
+  // Runs left to right so the labels read upright
+  path: Coordinate[];
+  // Distances along the path of each label's centre
+  offsets: number[];
+  // Shift along and across the path, as Text offsetX/offsetY
+  offset: [number, number];
+}
+
+interface ImagePrimitive {
+  type: 'image';
+  src: string;
+  position: Coordinate;
+  // Icon's own size; null until the image is loaded
+  size: [number, number] | null;
+  scale: [number, number];
+  rotation: number;
+  opacity: number;
+}
+
+type VectorPrimitive = PathPrimitive | TextPrimitive | LineTextPrimitive | ImagePrimitive;
+
+/**
+ * One page of the drawing: everything is in CSS pixels (96 DPI) from the
+ * page's top-left corner, so style widths and font sizes apply unchanged
+ */
+interface VectorPage {
+  widthMm: number;
+  heightMm: number;
+  width: number;
+  height: number;
+  orientation: 'landscape' | 'portrait';
+  // Map area on the page: the export area grown to the page's shape
+  extent: Extent;
+  // Map units per page pixel, passed to the style function
+  resolution: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PIXELS_PER_MM = 96 / 25.4;
+
+const POINTS_PER_PIXEL = 0.75;
+
+// Line spacing of multi-line labels, as a share of the font size
+const LINE_HEIGHT = 1.2;
+
+// Icon size when neither the style nor the image give one
+const DEFAULT_ICON_SIZE = 32;
+
+// Icons are rasterised for the PDF at this multiple of their page size
+const ICON_RASTER_SCALE = 4;
+
+const CIRCLE_SEGMENTS = 48;
+
+// Drawing order within a zIndex, as the OpenLayers canvas renderer
+const PRIMITIVE_ORDER = { polygon: 0, line: 1, image: 2, text: 3 } as const;
+
+// Features just outside the page may still show a label or an icon on it
+const EXTENT_BUFFER_RATIO = 0.05;
+
+// ============================================================================
+// PAGE SETUP
+// ============================================================================
+
+const getVectorPage = (extent: Extent, pageSize: PageSize): VectorPage => {
+  const page = PAGE_SIZES[pageSize];
+  const orientation = getWidth(extent) >= getHeight(extent) ? 'landscape' : 'portrait';
+  const widthMm = orientation === 'landscape' ? page.width : page.height;
+  const heightMm = orientation === 'landscape' ? page.height : page.width;
+  const width = widthMm * PIXELS_PER_MM;
+  const height = heightMm * PIXELS_PER_MM;
+  const resolution = Math.max(getWidth(extent) / width, getHeight(extent) / height);
+  const [centerX, centerY] = getCenter(extent);
+
+  return {
+    widthMm,
+    heightMm,
+    width,
+    height,
+    orientation,
+    extent: [
+      centerX - (width * resolution) / 2,
+      centerY - (height * resolution) / 2,
+      centerX + (width * resolution) / 2,
+      centerY + (height * resolution) / 2,
+    ],
+    resolution,
+  };
+};
+
+// ============================================================================
+// STYLE CONVERSION
+// ============================================================================
+
+const toRgba = (color: Color | ColorLike | PatternDescriptor | null | undefined): Rgba | null => {
+  // Gradients and patterns have no plain colour to write
+  if (typeof color !== 'string' && !Array.isArray(color)) return null;
+  const [r, g, b, a = 1] = asArray(color);
+  return a > 0 ? [r, g, b, a] : null;
+};
+
+const toVectorStroke = (stroke: Stroke | null | undefined): VectorStroke | null => {
+  const color = toRgba(stroke?.getColor());
+  if (!stroke || !color) return null;
+  return {
+    color,
+    width: stroke.getWidth() ?? 1,
+    lineDash: stroke.getLineDash()?.length ? stroke.getLineDash() : null,
+    lineDashOffset: stroke.getLineDashOffset() ?? 0,
+    lineCap: stroke.getLineCap() ?? 'round',
+    lineJoin: stroke.getLineJoin() ?? 'round',
+  };
+};
+
+const toFillColor = (fill: Fill | null | undefined): Rgba | null => toRgba(fill?.getColor());
+
+/**
+ * Split a canvas font string such as "bold 12px Arial, sans-serif"
+ */
+const parseFont = (font: string): VectorFont => {
+  const match = font.match(/([\d.]+)px\s*(.*)$/);
+  const prefix = match ? font.slice(0, match.index) : '';
+  return {
+    family: match?.[2] || 'sans-serif',
+    size: match ? parseFloat(match[1]) : 10,
+    bold: /bold|[6-9]00/.test(prefix),
+    italic: /italic|oblique/.test(prefix),
+  };
+};
+
+const toCssFont = (font: VectorFont): string =>
+  `${font.italic ? 'italic ' : ''}${font.bold ? 'bold ' : ''}${font.size}px ${font.family}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureText = (text: string, font: VectorFont): number => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * font.size * 0.6;
+  measureContext.font = toCssFont(font);
+  return measureContext.measureText(text).width;
+};
+
+// ============================================================================
+// GEOMETRY HELPERS
+// ============================================================================
+
+type ToPage = (coordinate: Coordinate) => Coordinate;
+
+/**
+ * Simple geometries making up a geometry, with circles turned to polygons
+ */
+const flattenGeometry = (geometry: Geometry): Geometry[] => {
+  switch (geometry.getType()) {
+    case 'GeometryCollection':
+      return (geometry as GeometryCollection).getGeometries().flatMap(flattenGeometry);
+    case 'Circle':
+      return [fromCircle(geometry as Circle, CIRCLE_SEGMENTS)];
+    default:
+      return [geometry];
+  }
+};
+
+const getPoints = (geometry: Geometry): Coordinate[] => {
+  switch (geometry.getType()) {
+    case 'Point':
+      return [(geometry as Point).getCoordinates()];
+    case 'MultiPoint':
+      return (geometry as MultiPoint).getCoordinates();
+    default:
+      return [];
+  }
+};
+
+const getLines = (geometry: Geometry): Coordinate[][] => {
+  switch (geometry.getType()) {
+    case 'LineString':
+      return [(geometry as LineString).getCoordinates()];
+    case 'MultiLineString':
+      return (geometry as MultiLineString).getCoordinates();
+    default:
+      return [];
+  }
+};
+
+const getPolygons = (geometry: Geometry): Coordinate[][][] => {
+  switch (geometry.getType()) {
+    case 'Polygon':
+      return [(geometry as Polygon).getCoordinates()];
+    case 'MultiPolygon':
+      return (geometry as MultiPolygon).getCoordinates();
+    default:
+      return [];
+  }
+};
+
+// Where a point-placed label goes on each kind of geometry
+const getLabelPoints = (geometry: Geometry): Coordinate[] => {
+  switch (geometry.getType()) {
+    case 'LineString':
+      return [(geometry as LineString).getCoordinateAt(0.5)];
+    case 'MultiLineString':
+      return (geometry as MultiLineString)
+        .getLineStrings()
+        .map((line) => line.getCoordinateAt(0.5));
+    case 'Polygon':
+      return [(geometry as Polygon).getInteriorPoint().getCoordinates()];
+    case 'MultiPolygon':
+      return (geometry as MultiPolygon).getInteriorPoints().getCoordinates();
+    default:
+      return getPoints(geometry);
+  }
+};
+
+const getPathDistances = (path: Coordinate[]): number[] =>
+  path.reduce<number[]>((distances, point, i) => {
+    if (i === 0) return [0];
+    const [x1, y1] = path[i - 1];
+    return [...distances, distances[i - 1] + Math.hypot(point[0] - x1, point[1] - y1)];
+  }, []);
+
+const getPointAlong = (path: Coordinate[], distances: number[], distance: number): Coordinate => {
+  const found = distances.findIndex((d) => d >= distance);
+  const index = found === -1 ? path.length - 1 : Math.max(1, found);
+  const segmentLength = distances[index] - distances[index - 1];
+  const t = segmentLength > 0 ? (distance - distances[index - 1]) / segmentLength : 0;
+  const [x1, y1] = path[index - 1];
+  const [x2, y2] = path[index];
+  return [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t];
+};
+
+// ============================================================================
+// COLLECTING PRIMITIVES
+// ============================================================================
+
+interface OrderedPrimitive {
+  zIndex: number;
+  order: number;
+  primitive: VectorPrimitive;
+}
+
+/**
+ * Outline of a RegularShape or Circle image style at a point, as the
+ * OpenLayers canvas renderer draws it
+ */
+const shapeToPath = (shape: RegularShape, center: Coordinate): PathPrimitive => {
+  const scale = shape.getScaleArray()[0];
+  const [dx, dy] = shape.getDisplacement();
+  const radius = shape.getRadius() * scale;
+  const radius2 = shape.getRadius2();
+  const points = shape.getPoints();
+  const isCircle = points === Infinity;
+  const vertexCount = isCircle ? CIRCLE_SEGMENTS : radius2 !== undefined ? points * 2 : points;
+  const startAngle = (isCircle ? 0 : shape.getAngle()) - Math.PI / 2 + shape.getRotation();
+
+  const ring: Coordinate[] = [];
+  for (let i = 0; i < vertexCount; i++) {
+    const angle = startAngle + (i * 2 * Math.PI) / vertexCount;
+    const r = radius2 !== undefined && !isCircle && i % 2 === 1 ? radius2 * scale : radius;
+    ring.push([center[0] + dx + r * Math.cos(angle), center[1] - dy + r * Math.sin(angle)]);
+  }
+
+  return {
+    type: 'path',
+    rings: [ring],
+    closed: true,
+    fill: toFillColor(shape.getFill()),
+    stroke: toVectorStroke(shape.getStroke()),
+  };
+};
+
+const textToPrimitives = (
+  text: Text,
+  geometry: Geometry,
+  toPage: ToPage
+): VectorPrimitive[] => {
+  const value = text.getText();
+  // Rich text is [text, font, text, font, ...]; only the text is kept
+  const label = Array.isArray(value) ? value.filter((_, i) => i % 2 === 0).join('') : value;
+  if (!label) return [];
+
+  const scale = text.getScaleArray()[0];
+  const font = parseFont(text.getFont() ?? '10px sans-serif');
+  font.size *= scale;
+  const haloColor = toRgba(text.getStroke()?.getColor());
+  const paint: VectorTextPaint = {
+    text: label,
+    font,
+    fill: toFillColor(text.getFill()),
+    halo: haloColor
+      ? { color: haloColor, width: (text.getStroke()?.getWidth() ?? 1) * scale }
+      : null,
+  };
+
+  if (text.getPlacement() === 'line') {
+    const lines = [
+      ...getLines(geometry),
+      ...getPolygons(geometry).map((rings) => rings[0]),
+    ];
+    const textWidth = measureText(label, font);
+    const repeat = text.getRepeat();
+    const offset: [number, number] = [text.getOffsetX(), text.getOffsetY()];
+
+    return lines.flatMap((line): LineTextPrimitive[] => {
+      let path = line.map(toPage);
+      if (path.length < 2) return [];
+      // Labels read left to right
+      if (path[path.length - 1][0] < path[0][0]) path = [...path].reverse();
+
+      const distances = getPathDistances(path);
+      const length = distances[distances.length - 1];
+      // Labels longer than their line are left out, as on the map
+      if (length < textWidth) return [];
+
+      let offsets = [length / 2];
+      if (repeat) {
+        const repeated: number[] = [];
+        const fits = (d: number) =>
+          d + offset[0] - textWidth / 2 >= 0 && d + offset[0] + textWidth / 2 <= length;
+        for (let d = repeat / 2; d + offset[0] - textWidth / 2 <= length; d += repeat) {
+          if (fits(d)) repeated.push(d);
+        }
+        if (repeated.length > 0) offsets = repeated;
+      }
+
+      return [{ type: 'lineText', ...paint, path, offsets, offset }];
+    });
+  }
+
+  return getLabelPoints(geometry).map(
+    (point): TextPrimitive => ({
+      type: 'text',
+      ...paint,
+      position: toPage(point),
+      offset: [text.getOffsetX(), text.getOffsetY()],
+      rotation: text.getRotation() ?? 0,
+      align: text.getTextAlign() ?? 'center',
+      baseline: text.getTextBaseline() ?? 'middle',
+    })
+  );
+};
+
+const styleToPrimitives = (
+  style: Style,
+  geometry: Geometry,
+  toPage: ToPage
+): OrderedPrimitive[] => {
+  const zIndex = style.getZIndex() ?? 0;
+  const result: OrderedPrimitive[] = [];
+  const add = (order: number, primitive: VectorPrimitive) =>
+    result.push({ zIndex, order, primitive });
+
+  const fill = toFillColor(style.getFill());
+  const stroke = toVectorStroke(style.getStroke());
+  const image = style.getImage();
+  const text = style.getText();
+
+  flattenGeometry(geometry).forEach((part) => {
+    getPolygons(part).forEach((rings) => {
+      if (!fill && !stroke) return;
+      add(PRIMITIVE_ORDER.polygon, {
+        type: 'path',
+        rings: rings.map((ring) => ring.map(toPage)),
+        closed: true,
+        fill,
+        stroke,
+      });
+    });
+
+    getLines(part).forEach((line) => {
+      if (!stroke) return;
+      add(PRIMITIVE_ORDER.line, {
+        type: 'path',
+        rings: [line.map(toPage)],
+        closed: false,
+        fill: null,
+        stroke,
+      });
+    });
+
+    // Image styles are only drawn on points, as on the map
+    getPoints(part).forEach((point) => {
+      const position = toPage(point);
+      if (image instanceof RegularShape) {
+        add(PRIMITIVE_ORDER.image, shapeToPath(image, position));
+      } else if (image instanceof Icon && image.getSrc()) {
+        const [width, height] = image.getSize() ?? [0, 0];
+        add(PRIMITIVE_ORDER.image, {
+          type: 'image',
+          src: image.getSrc() as string,
+          position,
+          size: width > 0 && height > 0 ? [width, height] : null,
+          scale: image.getScaleArray() as [number, number],
+          rotation: image.getRotation(),
+          opacity: image.getOpacity(),
+        });
+      }
+    });
+
+    if (text) {
+      textToPrimitives(text, part, toPage).forEach((primitive) =>
+        add(PRIMITIVE_ORDER.text, primitive)
+      );
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Run every feature on the page through the layer's own style function,
+ * so hidden types, resolution scaling and the legend styles (dashes,
+ * zigzags drawn by style geometries, labels along lines) are as on the map
+ */
+const collectPrimitives = (
+  layer: VectorLayer<VectorSource<Feature<Geometry>>>,
+  page: VectorPage
+): VectorPrimitive[] => {
+  const styleFunction = layer.getStyleFunction();
+  const source = layer.getSource();
+  if (!styleFunction || !source) return [];
+
+  const { extent, resolution } = page;
+  const toPage: ToPage = ([x, y]) => [(x - extent[0]) / resolution, (extent[3] - y) / resolution];
+  const searchExtent = buffer(extent, getWidth(extent) * EXTENT_BUFFER_RATIO);
+
+  // Oldest features first, as the layer renders them
+  const features = source
+    .getFeatures()
+    .filter((feature) => feature.getGeometry()?.intersectsExtent(searchExtent))
+    .sort((a, b) => Number(getUid(a)) - Number(getUid(b)));
+
+  const ordered: OrderedPrimitive[] = [];
+  features.forEach((feature) => {
+    const styles = styleFunction(feature, resolution);
+    if (!styles) return;
+
+    (Array.isArray(styles) ? styles : [styles]).forEach((style) => {
+      const geometry = style.getGeometryFunction()(feature);
+      // RenderFeatures have no place in a drawing of the job's own features
+      if (!geometry || !('getType' in geometry) || !('intersectsExtent' in geometry)) return;
+      ordered.push(...styleToPrimitives(style, geometry as Geometry, toPage));
+    });
+  });
+
+  // Array#sort is stable, so feature order holds within a zIndex
+  return ordered
+    .sort((a, b) => a.zIndex - b.zIndex || a.order - b.order)
+    .map(({ primitive }) => primitive);
+};
+
+// ============================================================================
+// BASEMAP AND ICONS
+// ============================================================================
+
+/**
+ * The basemap alone over the page area, with every vector layer hidden
+ */
+async function renderBasemap(map: Map, page: VectorPage, pageSize: PageSize): Promise<string | null> {
+  const layers = map.getAllLayers();
+  const hasBasemap = layers.some((layer) => !(layer instanceof VectorLayer) && layer.getVisible());
+  if (!hasBasemap) return null;
+
+  const hiddenLayers = layers.filter((layer) => layer instanceof VectorLayer && layer.getVisible());
+  hiddenLayers.forEach((layer) => layer.setVisible(false));
+  try {
+    const result = await exportMapToImage(
+      map,
+      { pageSize, resolution: 300, rotation: 0 },
+      undefined,
+      page.extent
+    );
+    return result.dataURL;
+  } finally {
+    hiddenLayers.forEach((layer) => layer.setVisible(true));
+  }
+}
+
+const loadImage = async (src: string): Promise<HTMLImageElement | null> => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = src;
+  try {
+    await image.decode();
+    return image;
+  } catch (error) {
+    console.warn(`Failed to load icon ${src}:`, error);
+    return null;
+  }
+};
+
+const loadIcons = async (primitives: VectorPrimitive[]): Promise<globalThis.Map<string, HTMLImageElement | null>> => {
+  const sources = [
+    ...new Set(
+      primitives.flatMap((primitive) => (primitive.type === 'image' ? [primitive.src] : []))
+    ),
+  ];
+  const images = await Promise.all(sources.map(loadImage));
+  return new globalThis.Map(sources.map((src, i) => [src, images[i]]));
+};
+
+/**
+ * Icon size on the page, from the style or else the image itself
+ */
+const getIconSize = (primitive: ImagePrimitive, image: HTMLImageElement | null): [number, number] => {
+  const [width, height] = primitive.size ??
+    (image && image.naturalWidth > 0
+      ? [image.naturalWidth, image.naturalHeight]
+      : [DEFAULT_ICON_SIZE, DEFAULT_ICON_SIZE]);
+  return [width * primitive.scale[0], height * primitive.scale[1]];
+};
+
+const readAsDataURL = async (src: string): Promise<string> => {
+  if (src.startsWith('data:')) return src;
+  try {
+    const blob = await (await fetch(src)).blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    // Linked instead of embedded
+    console.warn(`Failed to embed icon ${src}:`, error);
+    return src;
+  }
+};
+
+// ============================================================================
+// TEXT LAYOUT
+// ============================================================================
+
+// Shift from the anchor to the alphabetic baseline, as a share of the font size
+const BASELINE_SHIFT: Record<CanvasTextBaseline, number> = {
+  alphabetic: 0,
+  ideographic: -0.2,
+  bottom: -0.2,
+  middle: 0.35,
+  top: 0.8,
+  hanging: 0.8,
+};
+
+/**
+ * Baseline offsets of each line of a label from its anchor
+ */
+const getLineBaselines = (lineCount: number, font: VectorFont, baseline: CanvasTextBaseline): number[] => {
+  const lineHeight = font.size * LINE_HEIGHT;
+  const shift = BASELINE_SHIFT[baseline] * font.size;
+  return Array.from({ length: lineCount }, (_, i) => {
+    if (baseline === 'middle') return shift + (i - (lineCount - 1) / 2) * lineHeight;
+    if (baseline === 'top' || baseline === 'hanging') return shift + i * lineHeight;
+    return shift - (lineCount - 1 - i) * lineHeight;
+  });
+};
+
+const getAlignShift = (align: CanvasTextAlign, width: number): number => {
+  if (align === 'center') return -width / 2;
+  if (align === 'right' || align === 'end') return -width;
+  return 0;
+};
+
+// ============================================================================
+// SVG
+// ============================================================================
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const svgColor = ([r, g, b]: Rgba): string => `rgb(${r},${g},${b})`;
+
+const toPathData = (rings: Coordinate[][], closed: boolean): string =>
+  rings
+    .map(
+      (ring) =>
+        'M' +
+        ring.map(([x, y]) => `${formatNumber(x)} ${formatNumber(y)}`).join(' L') +
+        (closed ? ' Z' : '')
+    )
+    .join(' ');
+
+const svgStrokeAttributes = (stroke: VectorStroke | null): string => {
+  if (!stroke) return 'stroke="none"';
+  return [
+    `stroke="${svgColor(stroke.color)}"`,
+    stroke.color[3] < 1 ? `stroke-opacity="${stroke.color[3]}"` : '',
+    `stroke-width="${formatNumber(stroke.width)}"`,
+    `stroke-linecap="${stroke.lineCap}"`,
+    `stroke-linejoin="${stroke.lineJoin}"`,
+    stroke.lineDash ? `stroke-dasharray="${stroke.lineDash.map(formatNumber).join(' ')}"` : '',
+    stroke.lineDash && stroke.lineDashOffset
+      ? `stroke-dashoffset="${formatNumber(stroke.lineDashOffset)}"`
+      : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+};
+
+const svgFillAttributes = (fill: Rgba | null): string =>
+  fill
+    ? `fill="${svgColor(fill)}"${fill[3] < 1 ? ` fill-opacity="${fill[3]}"` : ''}`
+    : 'fill="none"';
+
+const svgTextAttributes = (paint: VectorTextPaint): string =>
+  [
+    `font-family="${escapeXml(paint.font.family)}"`,
+    `font-size="${formatNumber(paint.font.size)}"`,
+    paint.font.bold ? 'font-weight="bold"' : '',
+    paint.font.italic ? 'font-style="italic"' : '',
+    svgFillAttributes(paint.fill),
+    paint.halo
+      ? `stroke="${svgColor(paint.halo.color)}" stroke-width="${formatNumber(paint.halo.width)}" stroke-linejoin="round" paint-order="stroke"`
+      : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const SVG_TEXT_ANCHOR: Record<CanvasTextAlign, string> = {
+  left: 'start',
+  start: 'start',
+  center: 'middle',
+  right: 'end',
+  end: 'end',
+};
+
+async function writeSvg(
+  page: VectorPage,
+  primitives: VectorPrimitive[],
+  basemap: string | null
+): Promise<string> {
+  const icons = await loadIcons(primitives);
+  const iconData = new globalThis.Map<string, string>();
+  for (const src of icons.keys()) {
+    iconData.set(src, await readAsDataURL(src));
+  }
+
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  if (basemap) {
+    body.push(
+      `<image x="0" y="0" width="${formatNumber(page.width)}" height="${formatNumber(page.height)}" preserveAspectRatio="none" href="${basemap}"/>`
+    );
+  }
+
+  primitives.forEach((primitive, index) => {
+    switch (primitive.type) {
+      case 'path':
+        body.push(
+          `<path d="${toPathData(primitive.rings, primitive.closed)}" ${svgFillAttributes(primitive.fill)} fill-rule="evenodd" ${svgStrokeAttributes(primitive.stroke)}/>`
+        );
+        break;
+
+      case 'text': {
+        const lines = primitive.text.split('\n');
+        const baselines = getLineBaselines(lines.length, primitive.font, primitive.baseline);
+        const [x, y] = primitive.position;
+        const [offsetX, offsetY] = primitive.offset;
+        const tspans = lines
+          .map(
+            (line, i) =>
+              `<tspan x="${formatNumber(offsetX)}" y="${formatNumber(offsetY + baselines[i])}">${escapeXml(line)}</tspan>`
+          )
+          .join('');
+        body.push(
+          `<text transform="translate(${formatNumber(x)} ${formatNumber(y)}) rotate(${formatNumber((primitive.rotation * 180) / Math.PI)})" text-anchor="${SVG_TEXT_ANCHOR[primitive.align]}" ${svgTextAttributes(primitive)}>${tspans}</text>`
+        );
+        break;
+      }
+
+      case 'lineText': {
+        const id = `label-path-${index}`;
+        defs.push(`<path id="${id}" d="${toPathData([primitive.path], false)}"/>`);
+        const [offsetX, offsetY] = primitive.offset;
+        const [baseline] = getLineBaselines(1, primitive.font, 'middle');
+        primitive.offsets.forEach((offset) =>
+          body.push(
+            `<text text-anchor="middle" ${svgTextAttributes(primitive)}><textPath href="#${id}" startOffset="${formatNumber(offset + offsetX)}"><tspan dy="${formatNumber(offsetY + baseline)}">${escapeXml(primitive.text)}</tspan></textPath></text>`
+          )
+        );
+        break;
+      }
+
+      case 'image': {
+        const [width, height] = getIconSize(primitive, icons.get(primitive.src) ?? null);
+        const [x, y] = primitive.position;
+        body.push(
+          `<image x="${formatNumber(-width / 2)}" y="${formatNumber(-height / 2)}" width="${formatNumber(width)}" height="${formatNumber(height)}" transform="translate(${formatNumber(x)} ${formatNumber(y)}) rotate(${formatNumber((primitive.rotation * 180) / Math.PI)})"${primitive.opacity < 1 ? ` opacity="${primitive.opacity}"` : ''} href="${escapeXml(iconData.get(primitive.src) ?? primitive.src)}"/>`
+        );
+        break;
+      }
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(page.widthMm)}mm" height="${formatNumber(page.heightMm)}mm" viewBox="0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}">`,
+    `<defs><clipPath id="page"><rect width="${formatNumber(page.width)}" height="${formatNumber(page.height)}"/></clipPath>${defs.join('')}</defs>`,
+    `<g clip-path="url(#page)">`,
+    ...body,
+    '</g>',
+    '</svg>',
+  ].join('\n');
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const MM_PER_PIXEL = 1 / PIXELS_PER_MM;
+
+const getPdfFont = (font: VectorFont): [string, string] => {
+  const family = font.family.toLowerCase();
+  const name = /courier|mono/.test(family)
+    ? 'courier'
+    : /times|^\s*["']?serif/.test(family)
+      ? 'times'
+      : 'helvetica';
+  const style = font.bold && font.italic ? 'bolditalic' : font.bold ? 'bold' : font.italic ? 'italic' : 'normal';
+  return [name, style];
+};
+
+const setPdfOpacity = (pdf: jsPDF, fillOpacity: number, strokeOpacity: number) => {
+  pdf.setGState(new GState({ opacity: fillOpacity, 'stroke-opacity': strokeOpacity }));
+};
+
+const drawPdfPath = (pdf: jsPDF, primitive: PathPrimitive) => {
+  const { fill, stroke } = primitive;
+  if (!fill && !stroke) return;
+
+  setPdfOpacity(pdf, fill?.[3] ?? 1, stroke?.color[3] ?? 1);
+  if (fill) pdf.setFillColor(fill[0], fill[1], fill[2]);
+  if (stroke) {
+    pdf.setDrawColor(stroke.color[0], stroke.color[1], stroke.color[2]);
+    pdf.setLineWidth(stroke.width * MM_PER_PIXEL);
+    pdf.setLineCap(stroke.lineCap);
+    pdf.setLineJoin(stroke.lineJoin);
+    pdf.setLineDashPattern(
+      stroke.lineDash ? stroke.lineDash.map((dash) => dash * MM_PER_PIXEL) : [],
+      stroke.lineDash ? stroke.lineDashOffset * MM_PER_PIXEL : 0
+    );
+  }
+
+  primitive.rings.forEach((ring) => {
+    ring.forEach(([x, y], i) => {
+      if (i === 0) pdf.moveTo(x * MM_PER_PIXEL, y * MM_PER_PIXEL);
+      else pdf.lineTo(x * MM_PER_PIXEL, y * MM_PER_PIXEL);
+    });
+    if (primitive.closed) pdf.close();
+  });
+
+  if (fill && stroke) pdf.fillStrokeEvenOdd();
+  else if (fill) pdf.fillEvenOdd();
+  else pdf.stroke();
+};
+
+/**
+ * One line of text with its left end on the baseline at local (x, y) of a
+ * frame at the anchor turned by rotation (radians clockwise)
+ */
+const drawPdfTextLine = (
+  pdf: jsPDF,
+  paint: VectorTextPaint,
+  line: string,
+  anchor: Coordinate,
+  rotation: number,
+  [x, y]: [number, number]
+) => {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const pageX = (anchor[0] + x * cos - y * sin) * MM_PER_PIXEL;
+  const pageY = (anchor[1] + x * sin + y * cos) * MM_PER_PIXEL;
+  const angle = (-rotation * 180) / Math.PI;
+
+  if (paint.halo) {
+    setPdfOpacity(pdf, 1, paint.halo.color[3]);
+    pdf.setDrawColor(paint.halo.color[0], paint.halo.color[1], paint.halo.color[2]);
+    pdf.setLineWidth(paint.halo.width * MM_PER_PIXEL);
+    pdf.setLineJoin('round');
+    pdf.setLineDashPattern([], 0);
+    pdf.text(line, pageX, pageY, { angle, renderingMode: 'stroke' });
+  }
+  if (paint.fill) {
+    setPdfOpacity(pdf, paint.fill[3], 1);
+    pdf.setTextColor(paint.fill[0], paint.fill[1], paint.fill[2]);
+    pdf.text(line, pageX, pageY, { angle, renderingMode: 'fill' });
+  }
+};
+
+const setPdfTextFont = (pdf: jsPDF, font: VectorFont) => {
+  const [name, style] = getPdfFont(font);
+  pdf.setFont(name, style);
+  pdf.setFontSize(font.size * POINTS_PER_PIXEL);
+};
+
+const drawPdfText = (pdf: jsPDF, primitive: TextPrimitive) => {
+  setPdfTextFont(pdf, primitive.font);
+  const lines = primitive.text.split('\n');
+  const baselines = getLineBaselines(lines.length, primitive.font, primitive.baseline);
+  lines.forEach((line, i) => {
+    const width = pdf.getTextWidth(line) * PIXELS_PER_MM;
+    drawPdfTextLine(pdf, primitive, line, primitive.position, primitive.rotation, [
+      primitive.offset[0] + getAlignShift(primitive.align, width),
+      primitive.offset[1] + baselines[i],
+    ]);
+  });
+};
+
+// Labels along lines are set glyph by glyph, each turned to the path under it
+const drawPdfLineText = (pdf: jsPDF, primitive: LineTextPrimitive) => {
+  setPdfTextFont(pdf, primitive.font);
+  const { path } = primitive;
+  const distances = getPathDistances(path);
+  const [offsetX, offsetY] = primitive.offset;
+  const [baseline] = getLineBaselines(1, primitive.font, 'middle');
+  const chars = [...primitive.text];
+  const widths = chars.map((char) => pdf.getTextWidth(char) * PIXELS_PER_MM);
+  const width = widths.reduce((sum, charWidth) => sum + charWidth, 0);
+
+  primitive.offsets.forEach((offset) => {
+    // Follows the path as the SVG textPath does, so both exports match
+    let distance = offset + offsetX - width / 2;
+    chars.forEach((char, i) => {
+      const next = distance + widths[i];
+      const [x1, y1] = getPointAlong(path, distances, distance);
+      const [x2, y2] = getPointAlong(path, distances, next);
+      const position = getPointAlong(path, distances, (distance + next) / 2);
+      drawPdfTextLine(pdf, primitive, char, position, Math.atan2(y2 - y1, x2 - x1), [
+        -widths[i] / 2,
+        offsetY + baseline,
+      ]);
+      distance = next;
+    });
+  });
+};
+
+/**
+ * An icon drawn upright or turned into a PNG large enough to stay sharp
+ * in print; jsPDF keeps one copy per alias
+ */
+const rasterizeIcon = (
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+  rotation: number
+): { dataURL: string; width: number; height: number } | null => {
+  const cos = Math.abs(Math.cos(rotation));
+  const sin = Math.abs(Math.sin(rotation));
+  const boxWidth = width * cos + height * sin;
+  const boxHeight = width * sin + height * cos;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(boxWidth * ICON_RASTER_SCALE));
+  canvas.height = Math.max(1, Math.ceil(boxHeight * ICON_RASTER_SCALE));
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate(rotation);
+  context.drawImage(
+    image,
+    (-width * ICON_RASTER_SCALE) / 2,
+    (-height * ICON_RASTER_SCALE) / 2,
+    width * ICON_RASTER_SCALE,
+    height * ICON_RASTER_SCALE
+  );
+  return { dataURL: canvas.toDataURL('image/png'), width: boxWidth, height: boxHeight };
+};
+
+async function writePdf(
+  page: VectorPage,
+  pageSize: PageSize,
+  primitives: VectorPrimitive[],
+  basemap: string | null
+): Promise<Blob> {
+  const icons = await loadIcons(primitives);
+  const rasters = new globalThis.Map<string, ReturnType<typeof rasterizeIcon>>();
+
+  const pdf = new jsPDF({ orientation: page.orientation, unit: 'mm', format: pageSize });
+
+  if (basemap) {
+    pdf.addImage(basemap, basemap.startsWith('data:image/png') ? 'PNG' : 'JPEG', 0, 0, page.widthMm, page.heightMm);
+  }
+
+  // Features running off the page are cut at its edge
+  pdf.saveGraphicsState();
+  pdf.rect(0, 0, page.widthMm, page.heightMm, null);
+  pdf.clip();
+  pdf.discardPath();
+
+  primitives.forEach((primitive) => {
+    switch (primitive.type) {
+      case 'path':
+        drawPdfPath(pdf, primitive);
+        break;
+
+      case 'text':
+        drawPdfText(pdf, primitive);
+        break;
+
+      case 'lineText':
+        drawPdfLineText(pdf, primitive);
+        break;
+
+      case 'image': {
+        const image = icons.get(primitive.src);
+        if (!image) break;
+        const [width, height] = getIconSize(primitive, image);
+        const key = `${primitive.src}|${formatNumber(width)}|${formatNumber(height)}|${formatNumber(primitive.rotation)}`;
+        if (!rasters.has(key)) {
+          rasters.set(key, rasterizeIcon(image, width, height, primitive.rotation));
+        }
+        const raster = rasters.get(key);
+        if (!raster) break;
+
+        setPdfOpacity(pdf, primitive.opacity, primitive.opacity);
+        const [x, y] = primitive.position;
+        pdf.addImage(
+          raster.dataURL,
+          'PNG',
+          (x - raster.width / 2) * MM_PER_PIXEL,
+          (y - raster.height / 2) * MM_PER_PIXEL,
+          raster.width * MM_PER_PIXEL,
+          raster.height * MM_PER_PIXEL,
+          key
+        );
+        break;
+      }
+    }
+  });
+
+  pdf.restoreGraphicsState();
+  return pdf.output('blob');
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Export an area of the map as a vector drawing: features become PDF or SVG
+ * paths, text and embedded icons over a raster of the basemap. The area is
+ * grown to the page's shape and the page turned to suit it; north is up.
+ */
+export async function exportMapToVector(
+  map: Map,
+  layer: VectorLayer<VectorSource<Feature<Geometry>>>,
+  extent: Extent,
+  options: VectorExportOptions,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<Blob> {
+  const page = getVectorPage(extent, options.pageSize);
+
+  let basemap: string | null = null;
+  if (options.includeBasemap) {
+    onProgress?.({ stage: 'rendering', message: 'Rendering basemap...', percent: 10 });
+    basemap = await renderBasemap(map, page, options.pageSize);
+  }
+
+  onProgress?.({ stage: 'rendering', message: 'Converting features...', percent: 60 });
+  const primitives = collectPrimitives(layer, page);
+
+  onProgress?.({ stage: 'rendering', message: 'Writing drawing...', percent: 80 });
+  const blob =
+    options.format === 'svg'
+      ? new Blob([await writeSvg(page, primitives, basemap)], { type: 'image/svg+xml' })
+      : await writePdf(page, options.pageSize, primitives, basemap);
+
+  onProgress?.({ stage: 'complete', message: 'Export complete!', percent: 100 });
+  return blob;
+}
@@ -0,0 +1,5 @@
+export * from "./folders.js";
+export * from "./kmlFolders.js";
+export * from "./kmlStyles.js";
+export * from "./legends.js";
+export * from "./xml.js";
@@ -0,0 +1,334 @@
+import type Feature from "ol/Feature.js";
+import type { Geometry } from "ol/geom.js";
+import type { Folder } from "./folders.js";
+import {
+  getChildElement,
+  getChildElements,
+  getElement,
+  getElements,
+  type XmlCodec,
+} from "./xml.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface FolderNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+  order: number;
+  children: FolderNode[];
+  featureIndices: number[]; // Indices into the features array
+}
+
+export interface ParsedFolderStructure {
+  folders: Record<string, Folder>;
+  featureFolderMap: Map<number, string>; // placemark index -> folderId
+}
+
+// ============================================================================
+// XML UTILITIES
+// ============================================================================
+
+/**
+ * Pre-process KML text to assign unique IDs to each Placemark.
+ * OpenLayers KML parser merges Placemarks with the same id attribute,
+ * so we need to ensure each Placemark has a unique ID before parsing.
+ * Existing ids that are unique within the document are kept, since they are
+ * the persistent feature ids written on export.
+ */
+export function assignUniquePlacemarkIds(kmlText: string): string {
+  let placemarkIndex = 0;
+  const seenIds = new Set<string>();
+
+  // Replace each <Placemark ...> or <Placemark> with a unique ID
+  return kmlText.replace(
+    /<Placemark(\s[^>]*)?>/gi,
+    (match, attributes?: string) => {
+      const uniqueId = `pm_${Date.now()}_${placemarkIndex++}`;
+
+      // Keep an existing id the first time it appears
+      const existingId = attributes?.match(/\sid=["']([^"']*)["']/i)?.[1];
+      if (existingId && !seenIds.has(existingId)) {
+        seenIds.add(existingId);
+        return match;
+      }
+
+      // Check if there's already an id attribute
+      if (attributes && /\sid=["'][^"']*["']/i.test(attributes)) {
+        // Replace existing id with unique one
+        const newAttributes = attributes.replace(
+          /\sid=["'][^"']*["']/i,
+          ` id="${uniqueId}"`
+        );
+        return `<Placemark${newAttributes}>`;
+      } else if (attributes) {
+        // Add id to existing attributes
+        return `<Placemark${attributes} id="${uniqueId}">`;
+      } else {
+        // No attributes, add id
+        return `<Placemark id="${uniqueId}">`;
+      }
+    }
+  );
+}
+
+/**
+ * Read the original id attribute of every Placemark, in document order.
+ * Call this before assignUniquePlacemarkIds() to keep the ids from the
+ * source file (index matches the order of features returned by the parser).
+ */
+export function extractPlacemarkIds(kmlText: string): (string | null)[] {
+  const ids: (string | null)[] = [];
+  const placemarkRegex = /<Placemark(\s[^>]*)?>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = placemarkRegex.exec(kmlText)) !== null) {
+    const idMatch = match[1]?.match(/\sid=["']([^"']*)["']/i);
+    ids.push(idMatch?.[1] || null);
+  }
+
+  return ids;
+}
+
+/**
+ * Escape special XML characters
+ */
+export const escapeXml = (str: string): string => {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+};
+
+/**
+ * Extract document name from KML DOM
+ */
+const getDocumentName = (doc: Document): string => {
+  const documentEl = getElement(doc, "Document");
+  const nameEl = documentEl ? getChildElement(documentEl, "name") : null;
+  return nameEl?.textContent || "map-export";
+};
+
+/**
+ * Indent every non-empty line of a serialized element
+ */
+const indentXml = (xml: string, indent: string): string =>
+  xml
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => `${indent}${line}`)
+    .join("\n");
+
+// ============================================================================
+// FOLDER TREE BUILDING
+// ============================================================================
+
+/**
+ * Build hierarchical folder tree from flat folder structure
+ * Groups features by their folderId
+ */
+export function buildFolderTree(
+  folders: Record<string, Folder>,
+  features: Feature<Geometry>[]
+): {
+  rootFolders: FolderNode[];
+  unassignedFeatureIndices: number[];
+} {
+  // 1. Create folder nodes
+  const folderNodes: Map<string, FolderNode> = new Map();
+
+  Object.values(folders).forEach((folder) => {
+    folderNodes.set(folder.id, {
+      id: folder.id,
+      name: folder.name,
+      parentId: folder.parentId,
+      order: folder.order,
+      children: [],
+      featureIndices: [],
+    });
+  });
+
+  // 2. Assign features to folders by index
+  const unassignedFeatureIndices: number[] = [];
+
+  features.forEach((feature, index) => {
+    const folderId = feature.get("folderId");
+    if (folderId && folderNodes.has(folderId)) {
+      folderNodes.get(folderId)!.featureIndices.push(index);
+    } else {
+      unassignedFeatureIndices.push(index);
+    }
+  });
+
+  // 3. Build parent-child relationships
+  const rootFolders: FolderNode[] = [];
+
+  folderNodes.forEach((node) => {
+    if (node.parentId && folderNodes.has(node.parentId)) {
+      folderNodes.get(node.parentId)!.children.push(node);
+    } else {
+      rootFolders.push(node);
+    }
+  });
+
+  // 4. Sort by order
+  const sortByOrder = (a: FolderNode, b: FolderNode) => a.order - b.order;
+  rootFolders.sort(sortByOrder);
+  folderNodes.forEach((node) => node.children.sort(sortByOrder));
+
+  return { rootFolders, unassignedFeatureIndices };
+}
+
+// ============================================================================
+// KML FOLDER GENERATION
+// ============================================================================
+
+/**
+ * Generate KML Folder XML element recursively
+ */
+function generateKmlFolderXml(
+  folderNode: FolderNode,
+  placemarkXmlByIndex: Map<number, string>,
+  indent: string = "    "
+): string {
+  let xml = `${indent}<Folder>\n`;
+  xml += `${indent}  <name>${escapeXml(folderNode.name)}</name>\n`;
+
+  // Add Placemarks for features in this folder
+  folderNode.featureIndices.forEach((featureIndex) => {
+    const placemarkXml = placemarkXmlByIndex.get(featureIndex);
+    if (placemarkXml) {
+      xml += indentXml(placemarkXml, `${indent}  `) + "\n";
+    }
+  });
+
+  // Recursively add child folders
+  folderNode.children.forEach((child) => {
+    xml += generateKmlFolderXml(child, placemarkXmlByIndex, indent + "  ");
+  });
+
+  xml += `${indent}</Folder>\n`;
+  return xml;
+}
+
+/**
+ * Restructure flat KML string to hierarchical KML with Folder elements
+ */
+export function restructureKmlWithFolders(
+  flatKmlString: string,
+  folders: Record<string, Folder>,
+  features: Feature<Geometry>[],
+  codec: XmlCodec
+): string {
+  // 1. Parse the flat KML
+  let doc: Document;
+  try {
+    doc = codec.parse(flatKmlString);
+  } catch (error) {
+    console.warn("KML parse error, returning original string:", error);
+    return flatKmlString;
+  }
+
+  // 2. Extract all Placemark elements and map by index
+  const placemarkXmlByIndex = new Map<number, string>();
+  getElements(doc, "Placemark").forEach((placemark, index) => {
+    placemarkXmlByIndex.set(index, codec.serialize(placemark));
+  });
+
+  // 3. Extract all Style elements
+  const stylesXml = getElements(doc, "Style")
+    .map((style) => "    " + codec.serialize(style))
+    .join("\n");
+
+  // 4. Build folder tree
+  const { rootFolders, unassignedFeatureIndices } = buildFolderTree(
+    folders,
+    features
+  );
+
+  // 5. Build new Document content
+  const documentName = getDocumentName(doc);
+  let newContent = "";
+
+  // Add styles first
+  if (stylesXml) {
+    newContent += stylesXml + "\n";
+  }
+
+  // Add folder hierarchy
+  rootFolders.forEach((folder) => {
+    newContent += generateKmlFolderXml(folder, placemarkXmlByIndex, "    ");
+  });
+
+  // Add unassigned features at root level
+  unassignedFeatureIndices.forEach((featureIndex) => {
+    const placemarkXml = placemarkXmlByIndex.get(featureIndex);
+    if (placemarkXml) {
+      newContent += indentXml(placemarkXml, "    ") + "\n";
+    }
+  });
+
+  // 6. Reconstruct KML
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(documentName)}</name>
+${newContent}  </Document>
+</kml>`;
+}
+
+// ============================================================================
+// KML FOLDER PARSING (IMPORT)
+// ============================================================================
+
+/**
+ * Read the folder structure of a parsed KML document.
+ * Returns folder hierarchy and mapping of placemark indices to folder IDs
+ */
+export function readKmlFolders(doc: Document): ParsedFolderStructure {
+  const folders: Record<string, Folder> = {};
+  const featureFolderMap = new Map<number, string>();
+  let placemarkIndex = 0;
+  let folderOrder = 0;
+
+  function processElement(element: Element, parentFolderId: string | null) {
+    getChildElements(element).forEach((child) => {
+      if (child.tagName === "Folder") {
+        // Get folder name
+        const nameEl = getChildElement(child, "name");
+        const folderName = nameEl?.textContent || "Unnamed Folder";
+        const folderId = `folder_import_${Date.now()}_${folderOrder}`;
+        folderOrder++;
+
+        folders[folderId] = {
+          id: folderId,
+          name: folderName,
+          parentId: parentFolderId,
+          isExpanded: true,
+          order: folderOrder,
+          createdAt: new Date().toISOString(),
+        };
+
+        // Process nested content
+        processElement(child, folderId);
+      } else if (child.tagName === "Placemark") {
+        // Map this placemark to current folder
+        if (parentFolderId) {
+          featureFolderMap.set(placemarkIndex, parentFolderId);
+        }
+        placemarkIndex++;
+      }
+    });
+  }
+
+  const documentEl = getElement(doc, "Document");
+  if (documentEl) {
+    processElement(documentEl, null);
+  }
+
+  return { folders, featureFolderMap };
+}
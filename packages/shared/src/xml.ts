@@ -0,0 +1,45 @@
+// ============================================================================
+// XML CODEC
+// ============================================================================
+
+const ELEMENT_NODE = 1;
+
+/**
+ * Parses and writes XML. The browser uses DOMParser/XMLSerializer, the
+ * backend xmldom, so the KML code takes the codec of the app it runs in.
+ */
+export interface XmlCodec {
+  /** Parse an XML string, throwing on malformed input */
+  parse: (text: string) => Document;
+  serialize: (node: Node) => string;
+}
+
+// ============================================================================
+// ELEMENT LOOKUP
+// ============================================================================
+// querySelector isn't available in xmldom, so lookups go through the DOM
+// Level 2 API that both environments implement.
+
+export const getChildElements = (element: Element): Element[] =>
+  Array.from(element.childNodes).filter(
+    (node): node is Element => node.nodeType === ELEMENT_NODE
+  );
+
+/**
+ * All descendants with the given tag name, in document order
+ */
+export const getElements = (
+  root: Document | Element,
+  tagName: string
+): Element[] => Array.from(root.getElementsByTagName(tagName));
+
+export const getElement = (
+  root: Document | Element,
+  tagName: string
+): Element | null => root.getElementsByTagName(tagName)[0] ?? null;
+
+export const getChildElement = (
+  element: Element,
+  tagName: string
+): Element | null =>
+  getChildElements(element).find((child) => child.tagName === tagName) ?? null;